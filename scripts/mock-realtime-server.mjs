@@ -0,0 +1,188 @@
+/**
+ * Mock realtime server
+ *
+ * Serves the /events/stream SSE channel locally so live project updates can
+ * be tried without the backend. Any bearer token is accepted.
+ *
+ *   npm run mock:realtime                 # start on port 8787
+ *   npm run mock:realtime -- --demo       # also emit a sample event every 10s
+ *
+ * Point the app at it with VITE_REALTIME_URL=http://127.0.0.1:8787/events/stream
+ *
+ * Send events from another terminal:
+ *   curl -X POST localhost:8787/emit -d '{"type":"invite.revoked","invite_id":1}'
+ *   curl localhost:8787/emit/sample/invite.received
+ */
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HEARTBEAT_MS = 15000;
+const DEMO_INTERVAL_MS = 10000;
+const HISTORY_SIZE = 100;
+
+const clients = new Set();
+const history = [];
+let nextEventId = 1;
+
+
+// Canned events - ids line up with nothing in particular, adjust to your data
+const now = () => new Date().toISOString();
+const SAMPLES = {
+    'project.updated': () => ({
+        type: 'project.updated',
+        project: {
+            id: 1, owner_id: 2, name: 'Shared Project', description: 'Updated by another member',
+            color: '#3b82f6', custom_instructions: `Instructions edited at ${now()}`,
+            project_type: 'shared_open', permissions: null, custom_commands: null,
+            created_at: now(), updated_at: now(), is_active: true,
+            conversation_count: 3, member_count: 2, is_owner: false, user_role: 'member',
+        },
+    }),
+    'project.deleted': () => ({ type: 'project.deleted', project_id: 1 }),
+    'project.member_joined': () => ({
+        type: 'project.member_joined',
+        project_id: 1,
+        member: {
+            id: 99, user_id: 99, display_name: 'Mock Member', email: 'mock.member@example.com',
+            role: 'member', joined_at: now(),
+        },
+        member_count: 3,
+    }),
+    'project.member_left': () => ({ type: 'project.member_left', project_id: 1, user_id: 99, member_count: 2 }),
+    'project.conversation_added': () => {
+        const id = 10000 + Math.floor(Math.random() * 1000);
+        return {
+            type: 'project.conversation_added',
+            project_id: 1,
+            conversation: {
+                id, user_id: 99, title: `Conversation ${id}`, summary: '', created_at: now(), updated_at: now(),
+                is_active: true, is_pinned: false, is_starred: false, is_archived: false,
+                last_message_preview: 'Started by another member', added_to_project_at: now(), project_ids: [1],
+            },
+            conversation_count: 4,
+        };
+    },
+    'project.conversation_removed': () => ({
+        type: 'project.conversation_removed', project_id: 1, conversation_id: 10000, conversation_count: 3,
+    }),
+    'invite.received': () => ({
+        type: 'invite.received',
+        invite: {
+            id: 500 + Math.floor(Math.random() * 100), project_id: 7, project_name: 'Mock Invite Project',
+            project_description: null, project_color: '#22c55e', project_type: 'shared_open',
+            invited_by_name: 'Mock Owner', invited_by_email: 'owner@example.com',
+            created_at: now(), expires_at: new Date(Date.now() + 7 * 86400000).toISOString(),
+        },
+    }),
+    'invite.revoked': () => ({ type: 'invite.revoked', invite_id: 500 }),
+    'conversation.updated': () => ({
+        type: 'conversation.updated', conversation_id: 1, title: `Renamed at ${now()}`, updated_at: now(),
+    }),
+};
+
+
+function setCors(req, res) {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Last-Event-ID');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+}
+
+
+function broadcast(event) {
+    const entry = { id: nextEventId++, event };
+    history.push(entry);
+    if (history.length > HISTORY_SIZE) history.shift();
+
+    for (const client of clients) {
+        client.write(`id: ${entry.id}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+    console.log(`[mock-realtime] #${entry.id} ${event.type} -> ${clients.size} client(s)`);
+}
+
+
+function openStream(req, res) {
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+        res.writeHead(401).end('Missing bearer token');
+        return;
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    });
+    res.write('retry: 2000\n\n');
+
+    // Replay what a reconnecting client missed
+    const lastId = Number(req.headers['last-event-id']);
+    if (lastId) {
+        for (const entry of history.filter((e) => e.id > lastId)) {
+            res.write(`id: ${entry.id}\ndata: ${JSON.stringify(entry.event)}\n\n`);
+        }
+    }
+
+    clients.add(res);
+    console.log(`[mock-realtime] client connected (${clients.size})`);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        clients.delete(res);
+        console.log(`[mock-realtime] client disconnected (${clients.size})`);
+    });
+}
+
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+
+const server = http.createServer(async (req, res) => {
+    setCors(req, res);
+    const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+    } else if (req.method === 'GET' && pathname === '/events/stream') {
+        openStream(req, res);
+    } else if (req.method === 'POST' && pathname === '/emit') {
+        try {
+            const parsed = JSON.parse(await readBody(req));
+            (Array.isArray(parsed) ? parsed : [parsed]).forEach(broadcast);
+            res.writeHead(202).end();
+        } catch (error) {
+            res.writeHead(400).end(`Invalid JSON: ${error.message}`);
+        }
+    } else if (req.method === 'GET' && pathname.startsWith('/emit/sample/')) {
+        const sample = SAMPLES[pathname.slice('/emit/sample/'.length)];
+        if (!sample) {
+            res.writeHead(404).end(`Known samples: ${Object.keys(SAMPLES).join(', ')}`);
+            return;
+        }
+        broadcast(sample());
+        res.writeHead(202).end();
+    } else {
+        res.writeHead(404).end();
+    }
+});
+
+
+server.listen(PORT, () => {
+    console.log(`[mock-realtime] listening on http://127.0.0.1:${PORT}/events/stream`);
+    console.log(`[mock-realtime] samples: ${Object.keys(SAMPLES).join(', ')}`);
+});
+
+if (process.argv.includes('--demo')) {
+    const types = Object.keys(SAMPLES).filter((type) => type !== 'project.deleted');
+    setInterval(() => {
+        broadcast(SAMPLES[types[Math.floor(Math.random() * types.length)]]());
+    }, DEMO_INTERVAL_MS);
+}
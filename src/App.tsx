@@ -10,6 +10,7 @@ import Home from "./pages/home.tsx";
 import Chat from "./pages/chat.tsx";
 import Settings from "./pages/settings.tsx";
 import Admin from "./pages/admin.tsx";
+import SharedConversation from "./pages/shared.tsx";
 import { DataPage } from "./components/data";
 
 // Guide pages
@@ -60,6 +61,11 @@ function App() {
                                             <Admin />
                                         </ProtectedRoute>
                                     } />
+                                    <Route path="/shared/:token" element={
+                                        <ProtectedRoute>
+                                            <SharedConversation />
+                                        </ProtectedRoute>
+                                    } />
                                     
                                     {/* Guide routes */}
                                     <Route path="/guide" element={
@@ -5,12 +5,28 @@ import { InteractionStatus } from "@azure/msal-browser";
 import { loginRequest, apiTokenRequest } from "./authConfig";
 import type {User} from "./types";
 import type {AuthContextType} from "./types";
+import { configureAuthSession } from "../services/authSession";
+import { clearConversationCache, setCacheUser } from "../services/conversationCache";
+import { clearOutbox, setOutboxUser } from "../services/outbox";
 
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://127.0.0.1:8000";
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+/**
+ * Remove the signed-out user's cached conversations and unsent changes from this browser
+ */
+async function clearLocalUserData(): Promise<void> {
+    setCacheUser(null);
+    setOutboxUser(null);
+    try {
+        await Promise.all([clearConversationCache(), clearOutbox()]);
+    } catch (err) {
+        console.error("[Auth] Failed to clear local data:", err);
+    }
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
     const { instance, inProgress, accounts } = useMsal();
     const isAuthenticated = useIsAuthenticated();
@@ -71,6 +87,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
     }, [isAuthenticated, accounts, instance]);
 
+    // Let the API client recover an expired session through MSAL instead of failing each request
+    useEffect(() => {
+        const account = accounts[0];
+        if (!account) {
+            configureAuthSession(null);
+            return;
+        }
+
+        configureAuthSession({
+            refreshSilently: async () => {
+                try {
+                    await instance.acquireTokenSilent({ ...apiTokenRequest, account, forceRefresh: true });
+                    return true;
+                } catch (err) {
+                    console.warn("[Auth] Forced token refresh failed:", err);
+                    return false;
+                }
+            },
+            signInInteractively: async () => {
+                await instance.acquireTokenPopup({ ...apiTokenRequest, account });
+            },
+        });
+    }, [instance, accounts]);
+
     useEffect(() => {
         // Only fetch user info when not actively authenticating
         if (inProgress === InteractionStatus.None) {
@@ -112,6 +152,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }, [instance, fetchUserInfo, loginRequest]);
 
     const logout = useCallback(async () => {
+        // Clear first - logoutPopup starts navigating this window, which can cut off the IndexedDB writes
+        await clearLocalUserData();
+
         try {
             console.log("[Auth] Logging out...");
             await instance.logoutPopup({
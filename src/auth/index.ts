@@ -3,4 +3,4 @@ export { AuthProvider, useAuth } from "./AuthContext";
 export { useApi } from "./useApi";
 export { ProtectedRoute } from "./ProtectedRoute";
 export type { User, AuthContextType } from "./types";
-export type { ApiError } from "./useApi";
+export { ApiError } from "../services/apiErrors";
@@ -1,16 +1,19 @@
 import { useCallback, useMemo } from "react";
 import { useMsal } from "@azure/msal-react";
 import { apiTokenRequest } from "./authConfig";
-import type { StreamEvent, StreamCallbacks } from "../types/streaming";
+import type { StreamEventBase, StreamCallbacks, ChatStreamRequest, MetaEvent } from "../types/streaming";
+import { dispatchStreamEvent } from "../streaming";
+import { parseSseMessage } from "../utils/sse";
+import { createApiClient } from "../services/apiClient";
+import { reportSessionExpired, waitForSession } from "../services/authSession";
+import type { RequestOptions } from "../services/apiClient";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://127.0.0.1:8000";
 
-export interface ApiError {
-    status: number;
-    message: string;
-    isAuthError: boolean;
-    isForbidden: boolean;
-}
+// Stream reconnect behaviour
+const MAX_RECONNECT_ATTEMPTS  = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS  = 15000;
 
 export function useApi() {
     const { instance, accounts } = useMsal();
@@ -20,155 +23,126 @@ export function useApi() {
             return null;
         }
 
-        try {
+        const acquireSilently = async () => {
             const tokenResponse = await instance.acquireTokenSilent({
                 ...apiTokenRequest,
                 account: accounts[0],
             });
             return tokenResponse.accessToken;
-        } catch (error) {
-            console.warn("[useApi] Silent token acquisition failed, trying popup");
-            try {
-                const tokenResponse = await instance.acquireTokenPopup(apiTokenRequest);
-                return tokenResponse.accessToken;
-            } catch (popupError) {
-                console.error("[useApi] Token acquisition failed:", popupError);
-                return null;
-            }
-        }
-    }, [instance, accounts]);
-
-    const fetchWithAuth = useCallback(
-        async <T>(
-            endpoint: string,
-            options: RequestInit = {}
-        ): Promise<T> => {
-            const token = await getAccessToken();
-            
-            if (!token) {
-                throw {
-                    status: 401,
-                    message: "Not authenticated. Please log in.",
-                    isAuthError: true,
-                    isForbidden: false,
-                } as ApiError;
-            }
+        };
 
-            const url = endpoint.startsWith("http") ? endpoint : `${API_BASE_URL}${endpoint}`;
-            
-            const response = await fetch(url, {
-                ...options,
-                credentials: 'include',
-                headers: {
-                    ...options.headers,
-                    Authorization: `Bearer ${token}`,
-                },
-                signal: options.signal,
-            });
-
-            // Response Error handling
-
-            if (response.status === 401) {
-                throw {
-                    status: 401,
-                    message: "Session expired. Please log in again.",
-                    isAuthError: true,
-                    isForbidden: false,
-                } as ApiError;
-            }
-
-            if (response.status === 403) {
-                const errorText = await response.text();
-                throw {
-                    status: 403,
-                    message: errorText || "Access denied. You don't have permission to access this resource.",
-                    isAuthError: false,
-                    isForbidden: true,
-                } as ApiError;
-            }
-
-            if (response.status === 404) {
-                throw {
-                    status: 404,
-                    message: "Resource not found.",
-                    isAuthError: false,
-                    isForbidden: false,
-                } as ApiError;
-            }
+        // Hold new requests while the session is being restored
+        if (!(await waitForSession())) {
+            return null;
+        }
 
-            if (response.status === 400) {
-                const errorText = await response.text();
-                throw {
-                    status: 400,
-                    message: errorText || "Invalid request parameters.",
-                    isAuthError: false,
-                    isForbidden: false,
-                } as ApiError;
+        try {
+            return await acquireSilently();
+        } catch {
+            // No popup mid-request - pause until the session banner has signed the user back in
+            console.warn("[useApi] Silent token acquisition failed, waiting for re-authentication");
+            if (!(await reportSessionExpired())) {
+                return null;
             }
 
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw {
-                    status: response.status,
-                    message: errorText || `Request failed with status ${response.status}`,
-                    isAuthError: false,
-                    isForbidden: false,
-                } as ApiError;
+            try {
+                return await acquireSilently();
+            } catch (error) {
+                console.error("[useApi] Token acquisition failed:", error);
+                return null;
             }
+        }
+    }, [instance, accounts]);
 
-            // Handle empty responses
-            const contentType = response.headers.get("content-type");
-            if (contentType && contentType.includes("application/json")) {
-                return response.json();
-            }
-            
-            return {} as T;
-        },
+    const client = useMemo(
+        () => createApiClient({ baseUrl: API_BASE_URL, getAccessToken }),
         [getAccessToken]
     );
 
+    const fetchWithAuth = useCallback(
+        <T>(endpoint: string, options: RequestOptions = {}): Promise<T> => client.request<T>(endpoint, options),
+        [client]
+    );
+
 
     /**
      * Stream chat response via SSE.
      * Returns an AbortController that can be used to cancel the stream.
+     *
+     * If the connection drops before a terminal event arrives, the stream is
+     * resumed from the last received event ID with exponential backoff.
      */
     const streamChat = useCallback(
         async (
-            message: string,
-            model: string,
-            provider: string,
-            conversationId: number | null,
-            callbacks: StreamCallbacks,
-            projectId?: number | null
+            request: ChatStreamRequest,
+            callbacks: StreamCallbacks
         ): Promise<AbortController> => {
-            const token = await getAccessToken();
+            let token = await getAccessToken();
             
             if (!token) {
                 callbacks.onError("Not authenticated. Please log in.");
                 return new AbortController();
             }
 
-            const params = new URLSearchParams({ message, model, provider });
-            if (conversationId !== null) {
-                params.append("conversation_id", conversationId.toString());
-            }
-            if (projectId) {
-                params.append("project_id", projectId.toString());
-            }
+            // Message and attachments travel in the body - never in the URL
+            const body = JSON.stringify({
+                ...request,
+                project_id: request.project_id || undefined,
+                attachments: request.attachments?.length ? request.attachments : undefined,
+            });
 
-            const url = `${API_BASE_URL}/chat/stream?${params.toString()}`;
             const abortController = new AbortController();
+            const resumeState: StreamResumeState = {
+                streamId:    null,
+                lastEventId: null,
+                retryMs:     RECONNECT_BASE_DELAY_MS,
+                finished:    false,
+            };
+
+            // Open the initial stream, or resume an existing one from the last event ID
+            const openConnection = async (resume: boolean): Promise<Response> => {
+                const authToken = resume ? await getAccessToken() : token;
+                if (!authToken) {
+                    throw new Error("Not authenticated. Please log in.");
+                }
 
-            try {
-                const response = await fetch(url, {
-                    method: "GET",
+                const headers: Record<string, string> = {
+                    Authorization: `Bearer ${authToken}`,
+                    Accept: "text/event-stream",
+                };
+
+                if (resume) {
+                    if (resumeState.lastEventId) {
+                        headers["Last-Event-ID"] = resumeState.lastEventId;
+                    }
+                    const params = new URLSearchParams({ stream_id: resumeState.streamId! });
+                    return fetch(`${API_BASE_URL}/chat/stream/resume?${params}`, {
+                        method: "GET",
+                        credentials: 'include',
+                        headers,
+                        signal: abortController.signal,
+                    });
+                }
+
+                return fetch(`${API_BASE_URL}/chat/stream`, {
+                    method: "POST",
                     credentials: 'include',
-                    headers: {
-                        Authorization: `Bearer ${token}`,
-                        Accept: "text/event-stream",
-                    },
+                    headers: { ...headers, "Content-Type": "application/json" },
+                    body,
                     signal: abortController.signal,
                 });
+            };
+
+            try {
+                let response = await openConnection(false);
+
+                // Token rejected - reopen once the shared re-auth has restored the session
+                if (response.status === 401 && await reportSessionExpired()) {
+                    token = await getAccessToken();
+                    if (token) {
+                        response = await openConnection(false);
+                    }
+                }
 
                 if (!response.ok) {
                     const errorText = await response.text();
@@ -176,52 +150,64 @@ export function useApi() {
                     return abortController;
                 }
 
-                const reader = response.body?.getReader();
-                if (!reader) {
-                    callbacks.onError("Failed to get response stream");
-                    return abortController;
-                }
+                // Process stream, reconnecting on dropped connections
+                const processStream = async () => {
+                    let current: Response | null = response;
+                    let attempt = 0;
+                    let errorMessage = "Stream error";
+
+                    while (true) {
+                        if (current) {
+                            try {
+                                const received = await readEventStream(current, resumeState, callbacks);
+                                if (resumeState.finished) return;
+                                if (received > 0) attempt = 0;
+                                errorMessage = "Stream closed before completion";
+                            } catch (error) {
+                                if (error instanceof Error && error.name === 'AbortError') {
+                                    console.log("[streamChat] Stream aborted by user");
+                                    return;
+                                }
+                                console.error("[streamChat] Stream error:", error);
+                                errorMessage = error instanceof Error ? error.message : "Stream error";
+                            }
+                        }
 
-                const decoder = new TextDecoder();
-                let buffer = "";
+                        // Without a stream ID the server has nothing to resume
+                        if (!resumeState.streamId || attempt >= MAX_RECONNECT_ATTEMPTS) {
+                            callbacks.onError(errorMessage);
+                            return;
+                        }
 
-                // Process stream
-                const processStream = async () => {
-                    try {
-                        while (true) {
-                            const { done, value } = await reader.read();
-                            
-                            if (done) {
-                                break;
+                        attempt++;
+                        current = null;
+                        const delayMs = getReconnectDelay(resumeState.retryMs, attempt);
+                        console.warn(`[streamChat] Connection lost, reconnecting in ${delayMs}ms (attempt ${attempt}/${MAX_RECONNECT_ATTEMPTS})`);
+                        callbacks.onReconnecting?.(attempt, delayMs);
+
+                        try {
+                            await waitForReconnect(delayMs, abortController.signal);
+                            const resumed = await openConnection(true);
+
+                            // The server no longer holds this stream - nothing left to replay
+                            if (resumed.status === 404 || resumed.status === 410) {
+                                callbacks.onError("Stream expired before it could be resumed");
+                                return;
                             }
 
-                            buffer += decoder.decode(value, { stream: true });
-                            
-                            // Process complete SSE events (separated by double newline)
-                            const events = buffer.split("\n\n");
-                            buffer = events.pop() || ""; // Keep incomplete event in buffer
-
-                            for (const eventStr of events) {
-                                if (!eventStr.trim()) continue;
-                                
-                                // Parse SSE format: "data: {...}"
-                                const dataMatch = eventStr.match(/^data:\s*(.+)$/m);
-                                if (!dataMatch) continue;
-
-                                try {
-                                    const event: StreamEvent = JSON.parse(dataMatch[1]);
-                                    handleStreamEvent(event, callbacks);
-                                } catch (parseError) {
-                                    console.error("[streamChat] Failed to parse event:", dataMatch[1], parseError);
-                                }
+                            if (resumed.ok) {
+                                callbacks.onReconnected?.();
+                                current = resumed;
+                            } else {
+                                errorMessage = `Resume failed with status ${resumed.status}`;
                             }
-                        }
-                    } catch (error) {
-                        if (error instanceof Error && error.name === 'AbortError') {
-                            console.log("[streamChat] Stream aborted by user");
-                        } else {
-                            console.error("[streamChat] Stream error:", error);
-                            callbacks.onError(error instanceof Error ? error.message : "Stream error");
+                        } catch (error) {
+                            if (error instanceof Error && error.name === 'AbortError') {
+                                console.log("[streamChat] Reconnect aborted by user");
+                                return;
+                            }
+                            console.error("[streamChat] Reconnect failed:", error);
+                            errorMessage = error instanceof Error ? error.message : "Connection error";
                         }
                     }
                 };
@@ -245,7 +231,7 @@ export function useApi() {
 
     // Convenience methods for common HTTP verbs
     const get = useCallback(
-        <T>(endpoint: string, options?: RequestInit) => fetchWithAuth<T>(endpoint, { method: "GET", ...options }),
+        <T>(endpoint: string, options?: RequestOptions) => fetchWithAuth<T>(endpoint, { method: "GET", ...options }),
         [fetchWithAuth]
     );
 
@@ -303,37 +289,116 @@ export function useApi() {
 
 
 /**
- * Route stream events to appropriate callbacks
+ * Tracks what is needed to resume a dropped stream
+ */
+interface StreamResumeState {
+    streamId: string | null;
+    lastEventId: string | null;
+    retryMs: number;            // Base reconnect delay, may be overridden by the server's "retry:" field
+    finished: boolean;          // Set once a terminal event (stream_end / error) has been handled
+}
+
+/**
+ * Read an SSE response body until it closes, dispatching events and
+ * recording resume state along the way. Returns the number of events handled.
+ * Network failures are thrown to the caller so it can decide whether to reconnect.
  */
-function handleStreamEvent(event: StreamEvent, callbacks: StreamCallbacks): void {
-    switch (event.type) {
-        case 'meta':
-            callbacks.onMeta(event.conversation_id);
-            break;
-        case 'thinking_start':
-            callbacks.onThinkingStart();
-            break;
-        case 'thinking':
-            callbacks.onThinking(event.text);
-            break;
-        case 'thinking_end':
-            callbacks.onThinkingEnd();
-            break;
-        case 'content':
-            callbacks.onContent(event.text);
-            break;
-        case 'tool_start':
-            callbacks.onToolStart(event.name, event.params);
-            break;
-        case 'tool_end':
-            callbacks.onToolEnd(event.name, event.params, event.result, event.chat_render_hint);
-            break;
-        case 'stream_end':
-            callbacks.onStreamEnd(event.conversation_id, event.title);
-            break;
-        case 'error':
-            callbacks.onError(event.message);
-            break;
-        // Ignore: content_start, content_end, done (internal events)
+async function readEventStream(
+    response: Response,
+    resumeState: StreamResumeState,
+    callbacks: StreamCallbacks
+): Promise<number> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+        throw new Error("Failed to get response stream");
     }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let received = 0;
+
+    while (true) {
+        const { done, value } = await reader.read();
+        
+        if (done) {
+            return received;
+        }
+
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+        
+        // Process complete SSE events (separated by double newline)
+        const events = buffer.split("\n\n");
+        buffer = events.pop() || ""; // Keep incomplete event in buffer
+
+        for (const eventStr of events) {
+            if (!eventStr.trim()) continue;
+
+            const sse = parseSseMessage(eventStr);
+            if (sse.id !== null) resumeState.lastEventId = sse.id;
+            if (sse.retry !== null) resumeState.retryMs = sse.retry;
+            if (sse.data === null) continue;
+
+            let event: StreamEventBase;
+            try {
+                event = JSON.parse(sse.data);
+            } catch (parseError) {
+                console.error("[streamChat] Failed to parse event:", sse.data, parseError);
+                continue;
+            }
+            received++;
+
+            if (event.type === 'meta' && (event as MetaEvent).stream_id) {
+                resumeState.streamId = (event as MetaEvent).stream_id!;
+            }
+            if (event.type === 'stream_end' || event.type === 'error') {
+                resumeState.finished = true;
+            }
+
+            dispatchStreamEvent(event, callbacks);
+        }
+    }
+}
+
+/**
+ * Exponential backoff with jitter, capped at RECONNECT_MAX_DELAY_MS
+ */
+function getReconnectDelay(baseMs: number, attempt: number): number {
+    const exponential = Math.min(baseMs * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+    return Math.round(exponential * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Wait out the reconnect delay, then for the browser to come back online.
+ * Rejects with an AbortError if the stream is cancelled while waiting.
+ */
+function waitForReconnect(delayMs: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(new DOMException("Aborted", "AbortError"));
+            return;
+        }
+
+        const cleanup = () => {
+            clearTimeout(timer);
+            window.removeEventListener("online", onOnline);
+            signal.removeEventListener("abort", onAbort);
+        };
+        const onOnline = () => {
+            cleanup();
+            resolve();
+        };
+        const onAbort = () => {
+            cleanup();
+            reject(new DOMException("Aborted", "AbortError"));
+        };
+        const timer = setTimeout(() => {
+            if (navigator.onLine) {
+                onOnline();
+            } else {
+                window.addEventListener("online", onOnline);
+            }
+        }, delayMs);
+
+        signal.addEventListener("abort", onAbort);
+    });
 }
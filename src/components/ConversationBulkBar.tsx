@@ -0,0 +1,104 @@
+/**
+ * ConversationBulkBar - Actions for the conversations selected in the sidebar
+ */
+
+import { useState } from 'react';
+import { Archive, ArchiveRestore, Trash2, FolderInput, X } from 'lucide-react';
+import type { ConversationProject } from '../types';
+
+interface ConversationBulkBarProps {
+    selectedCount: number;
+    allArchived: boolean;
+    projects: ConversationProject[];
+    isBusy: boolean;
+    onArchive: (archive: boolean) => void;
+    onDelete: () => void;
+    onMoveToProject: (projectId: number) => void;
+    onCancel: () => void;
+}
+
+const ConversationBulkBar = ({
+    selectedCount,
+    allArchived,
+    projects,
+    isBusy,
+    onArchive,
+    onDelete,
+    onMoveToProject,
+    onCancel,
+}: ConversationBulkBarProps) => {
+    const [showProjects, setShowProjects] = useState(false);
+    const disabled = isBusy || selectedCount === 0;
+
+    const handleMove = (projectId: number) => {
+        setShowProjects(false);
+        onMoveToProject(projectId);
+    };
+
+    return (
+        <div className="conversation-bulk-bar">
+            <span className="conversation-bulk-count">
+                {selectedCount} selected
+            </span>
+
+            <div className="conversation-bulk-actions">
+                <button
+                    className="conversation-bulk-btn"
+                    onClick={() => onArchive(!allArchived)}
+                    disabled={disabled}
+                    title={allArchived ? 'Unarchive selected' : 'Archive selected'}
+                >
+                    {allArchived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                </button>
+
+                {projects.length > 0 && (
+                    <div className="conversation-bulk-move">
+                        <button
+                            className="conversation-bulk-btn"
+                            onClick={() => setShowProjects((prev) => !prev)}
+                            disabled={disabled}
+                            title="Move selected to project"
+                            aria-expanded={showProjects}
+                        >
+                            <FolderInput size={16} />
+                        </button>
+                        {showProjects && (
+                            <ul className="conversation-bulk-menu" role="menu">
+                                {projects.map((project) => (
+                                    <li key={project.id}>
+                                        <button role="menuitem" onClick={() => handleMove(project.id)}>
+                                            <span
+                                                className="conversation-bulk-menu-dot"
+                                                style={{ background: project.color || 'var(--accent-primary)' }}
+                                            />
+                                            {project.name}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                <button
+                    className="conversation-bulk-btn danger"
+                    onClick={onDelete}
+                    disabled={disabled}
+                    title="Delete selected"
+                >
+                    <Trash2 size={16} />
+                </button>
+
+                <button
+                    className="conversation-bulk-btn"
+                    onClick={onCancel}
+                    title="Cancel selection"
+                >
+                    <X size={16} />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ConversationBulkBar;
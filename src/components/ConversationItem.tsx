@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { Pin, Star, Archive, ArchiveRestore } from 'lucide-react';
 import type { Conversation } from "../types/conversation.ts";
 import { useConfirm } from './ConfirmDialog';
+import Checkbox from './Checkbox';
 import '../styles/conversationSidebar.css';
 
 interface ConversationItemProps {
@@ -9,14 +11,49 @@ interface ConversationItemProps {
     onSelect: () => void;
     onDelete: () => void;
     onRename: (newTitle: string) => void;
+    // Organisation flags - actions are hidden when the handler is omitted
+    onTogglePin?: () => void;
+    onToggleStar?: () => void;
+    onToggleArchive?: () => void;
+    // Multi-select
+    selectionMode?: boolean;
+    isSelected?: boolean;
+    onToggleSelect?: () => void;
 }
 
+/** Shortcut tooltip listing only the actions this item offers */
+const getShortcutHint = (
+    { onTogglePin, onToggleStar, onToggleArchive, onToggleSelect }: Partial<ConversationItemProps>
+) => [
+    'Enter open',
+    'F2 rename',
+    onTogglePin && 'P pin',
+    onToggleStar && 'S star',
+    onToggleArchive && 'A archive',
+    onToggleSelect && 'X select',
+    'Del delete',
+].filter(Boolean).join(' · ');
+
+/** Move keyboard focus to the previous/next conversation in the sidebar */
+const focusAdjacentItem = (item: HTMLElement, offset: number) => {
+    const container = item.closest('.conversation-sidebar-content');
+    if (!container) return;
+    const items = Array.from(container.querySelectorAll<HTMLElement>('.conversation-item'));
+    items[items.indexOf(item) + offset]?.focus();
+};
+
 const ConversationItem = ({
                               conversation,
                               isActive,
                               onSelect,
                               onDelete,
-                              onRename
+                              onRename,
+                              onTogglePin,
+                              onToggleStar,
+                              onToggleArchive,
+                              selectionMode = false,
+                              isSelected = false,
+                              onToggleSelect
                           }: ConversationItemProps) => {
     const { confirm } = useConfirm();
     const [isEditing, setIsEditing] = useState(false);
@@ -87,8 +124,7 @@ const ConversationItem = ({
         return stripMarkdown(preview);
     };
 
-    const handleDeleteClick = async (e: React.MouseEvent) => {
-        e.stopPropagation();
+    const confirmDelete = async () => {
         const confirmed = await confirm({
             title: 'Delete Conversation',
             message: 'Are you sure you want to delete this conversation? This cannot be undone.',
@@ -102,12 +138,37 @@ const ConversationItem = ({
         }
     };
 
-    const handleTitleClick = (e: React.MouseEvent) => {
+    const handleDeleteClick = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        confirmDelete();
+    };
+
+    const handleActionClick = (action: () => void) => (e: React.MouseEvent) => {
         e.stopPropagation();
+        action();
+    };
+
+    const handleItemClick = (e: React.MouseEvent) => {
+        if (isEditing) return;
+        // Ctrl/Cmd-click starts or extends a multi-selection
+        if (onToggleSelect && (selectionMode || e.metaKey || e.ctrlKey)) {
+            onToggleSelect();
+            return;
+        }
+        onSelect();
+    };
+
+    const startEditing = () => {
         setIsEditing(true);
         setEditedTitle(conversation.title);
     };
 
+    const handleTitleClick = (e: React.MouseEvent) => {
+        if (selectionMode) return;
+        e.stopPropagation();
+        startEditing();
+    };
+
     const handleSaveTitle = () => {
         const trimmedTitle = editedTitle.trim();
         if (trimmedTitle && trimmedTitle !== conversation.title) {
@@ -136,12 +197,59 @@ const ConversationItem = ({
         handleSaveTitle();
     };
 
+    // Shortcuts only apply while the item itself has focus (not the rename input)
+    const handleItemKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (isEditing || e.target !== e.currentTarget) return;
+        if (e.altKey || e.metaKey || e.ctrlKey) return;
+
+        let handler: (() => void) | undefined;
+        switch (e.key) {
+            case 'Enter':     handler = onSelect; break;
+            case 'F2':        handler = startEditing; break;
+            case 'p':
+            case 'P':         handler = onTogglePin; break;
+            case 's':
+            case 'S':         handler = onToggleStar; break;
+            case 'a':
+            case 'A':         handler = onToggleArchive; break;
+            case 'x':
+            case 'X':
+            case ' ':         handler = onToggleSelect; break;
+            case 'Delete':    handler = confirmDelete; break;
+            case 'ArrowDown': handler = () => focusAdjacentItem(e.currentTarget, 1); break;
+            case 'ArrowUp':   handler = () => focusAdjacentItem(e.currentTarget, -1); break;
+        }
+
+        if (handler) {
+            e.preventDefault();
+            handler();
+        }
+    };
+
+    const itemClasses = [
+        'conversation-item',
+        isActive ? 'active' : '',
+        isSelected ? 'selected' : '',
+        conversation.is_archived ? 'archived' : '',
+    ].filter(Boolean).join(' ');
+
     return (
         <div
-            className={`conversation-item ${isActive ? "active" : ""}`}
-            onClick={isEditing ? undefined : onSelect}
+            className={itemClasses}
+            onClick={handleItemClick}
+            onKeyDown={handleItemKeyDown}
+            tabIndex={0}
+            role="button"
+            aria-pressed={selectionMode ? isSelected : undefined}
+            title={getShortcutHint({ onTogglePin, onToggleStar, onToggleArchive, onToggleSelect })}
         >
-            <div className="conversation-icon">💬</div>
+            {selectionMode && onToggleSelect ? (
+                <div className="conversation-select" onClick={(e) => e.stopPropagation()}>
+                    <Checkbox checked={isSelected} onChange={onToggleSelect} size="small" />
+                </div>
+            ) : (
+                <div className="conversation-icon">💬</div>
+            )}
             <div className="conversation-info">
                 {isEditing ? (
                     <input
@@ -156,28 +264,73 @@ const ConversationItem = ({
                         maxLength={100}
                     />
                 ) : (
-                    <span
-                        className="conversation-title"
-                        onClick={handleTitleClick}
-                        title="Click to rename"
-                    >
-                        {conversation.title}
+                    <span className="conversation-title-row">
+                        {conversation.is_pinned && !conversation.is_archived && (
+                            <Pin size={12} className="conversation-flag pinned" aria-label="Pinned" />
+                        )}
+                        {conversation.is_starred && (
+                            <Star size={12} className="conversation-flag starred" aria-label="Starred" />
+                        )}
+                        <span
+                            className="conversation-title"
+                            onClick={handleTitleClick}
+                            title="Click to rename"
+                        >
+                            {conversation.title}
+                        </span>
                     </span>
                 )}
                 <span className="conversation-preview">{getPreviewText(conversation.last_message_preview)}</span>
                 <span className="conversation-date">{formatDate(conversation.updated_at)}</span>
             </div>
-            <button
-                className="conversation-delete-btn"
-                onClick={handleDeleteClick}
-                aria-label="Delete conversation"
-                title="Delete conversation"
-            >
-                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <polyline points="3 6 5 6 21 6"></polyline>
-                    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
-                </svg>
-            </button>
+            {!selectionMode && (
+                <div className="conversation-actions">
+                    {onToggleStar && (
+                        <button
+                            className={`conversation-action-btn ${conversation.is_starred ? 'on' : ''}`}
+                            onClick={handleActionClick(onToggleStar)}
+                            aria-label={conversation.is_starred ? 'Unstar conversation' : 'Star conversation'}
+                            title={conversation.is_starred ? 'Unstar (S)' : 'Star (S)'}
+                            tabIndex={-1}
+                        >
+                            <Star size={15} />
+                        </button>
+                    )}
+                    {onTogglePin && !conversation.is_archived && (
+                        <button
+                            className={`conversation-action-btn ${conversation.is_pinned ? 'on' : ''}`}
+                            onClick={handleActionClick(onTogglePin)}
+                            aria-label={conversation.is_pinned ? 'Unpin conversation' : 'Pin conversation'}
+                            title={conversation.is_pinned ? 'Unpin (P)' : 'Pin (P)'}
+                            tabIndex={-1}
+                        >
+                            <Pin size={15} />
+                        </button>
+                    )}
+                    {onToggleArchive && (
+                        <button
+                            className="conversation-action-btn"
+                            onClick={handleActionClick(onToggleArchive)}
+                            aria-label={conversation.is_archived ? 'Unarchive conversation' : 'Archive conversation'}
+                            title={conversation.is_archived ? 'Unarchive (A)' : 'Archive (A)'}
+                            tabIndex={-1}
+                        >
+                            {conversation.is_archived ? <ArchiveRestore size={15} /> : <Archive size={15} />}
+                        </button>
+                    )}
+                    <button
+                        className="conversation-delete-btn"
+                        onClick={handleDeleteClick}
+                        aria-label="Delete conversation"
+                        title="Delete conversation"
+                    >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <polyline points="3 6 5 6 21 6"></polyline>
+                            <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+                        </svg>
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
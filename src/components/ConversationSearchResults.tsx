@@ -0,0 +1,136 @@
+/**
+ * ConversationSearchResults - Full-text search hits grouped by conversation
+ */
+
+import { useMemo, memo } from 'react';
+import { MessageSquare, SearchX } from 'lucide-react';
+import type { ConversationSearchHit } from '../types/conversation';
+import type { UseConversationSearchReturn } from '../hooks/useConversationSearch';
+import { highlightTerms } from '../utils/highlight';
+import { formatMessageTime } from '../services';
+import LoadingDots from './LoadingDots';
+
+interface ConversationSearchResultsProps {
+    search: UseConversationSearchReturn;
+    activeConversationId: number | null;
+    onSelectHit: (conversationId: number, messageId: number | null) => void;
+}
+
+interface HitGroup {
+    conversationId: number;
+    title: string;
+    hits: ConversationSearchHit[];
+}
+
+
+const HighlightedText = ({ text, query }: { text: string; query: string }) => (
+    <>
+        {highlightTerms(text, query).map((segment, i) =>
+            segment.isMatch
+                ? <mark key={i} className="search-highlight">{segment.text}</mark>
+                : <span key={i}>{segment.text}</span>
+        )}
+    </>
+);
+
+
+const getHitLabel = (hit: ConversationSearchHit): string => {
+    if (hit.field === 'title') return 'Title';
+    if (hit.field === 'summary') return 'Summary';
+    return hit.role === 'user' ? 'You' : 'Atlas';
+};
+
+
+const ConversationSearchResults = ({ search, activeConversationId, onSelectHit }: ConversationSearchResultsProps) => {
+    // Keep the server's relevance order for conversations while grouping their hits
+    const groups = useMemo(() => {
+        const byConversation = new Map<number, HitGroup>();
+        for (const hit of search.hits) {
+            const group = byConversation.get(hit.conversation_id);
+            if (group) {
+                group.hits.push(hit);
+            } else {
+                byConversation.set(hit.conversation_id, {
+                    conversationId: hit.conversation_id,
+                    title:          hit.conversation_title,
+                    hits:           [hit],
+                });
+            }
+        }
+        return [...byConversation.values()];
+    }, [search.hits]);
+
+    if (search.isSearching) {
+        return (
+            <div className="conversation-sidebar-loading">
+                <LoadingDots variant="primary" message="Searching..." size="small" />
+            </div>
+        );
+    }
+
+    if (search.error) {
+        return (
+            <div className="conversation-search-empty">
+                <span>Search failed</span>
+                <p>{search.error}</p>
+            </div>
+        );
+    }
+
+    if (groups.length === 0) {
+        return (
+            <div className="conversation-search-empty">
+                <SearchX size={32} strokeWidth={1.5} />
+                <span>No matches for "{search.query}"</span>
+            </div>
+        );
+    }
+
+    return (
+        <div className="conversation-search-results">
+            <div className="conversation-search-summary">
+                {search.total} {search.total === 1 ? 'match' : 'matches'}
+                {search.total > search.hits.length && ` · showing ${search.hits.length}`}
+            </div>
+
+            {groups.map((group) => (
+                <div
+                    key={group.conversationId}
+                    className={`conversation-search-group ${group.conversationId === activeConversationId ? 'active' : ''}`}
+                >
+                    <button
+                        className="conversation-search-title"
+                        onClick={() => onSelectHit(group.conversationId, null)}
+                    >
+                        <MessageSquare size={14} />
+                        <span>
+                            <HighlightedText text={group.title || 'Untitled'} query={search.query} />
+                        </span>
+                    </button>
+
+                    {group.hits
+                        .filter((hit) => hit.field !== 'title')
+                        .map((hit, i) => (
+                            <button
+                                key={`${hit.message_id ?? hit.field}-${i}`}
+                                className="conversation-search-hit"
+                                onClick={() => onSelectHit(group.conversationId, hit.message_id)}
+                            >
+                                <span className="conversation-search-hit-meta">
+                                    <span className={`conversation-search-hit-role ${hit.role ?? ''}`}>
+                                        {getHitLabel(hit)}
+                                    </span>
+                                    <span>{formatMessageTime(hit.created_at)}</span>
+                                </span>
+                                <span className="conversation-search-snippet">
+                                    <HighlightedText text={hit.snippet} query={search.query} />
+                                </span>
+                            </button>
+                        ))}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default memo(ConversationSearchResults);
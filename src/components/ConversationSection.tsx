@@ -0,0 +1,42 @@
+/**
+ * ConversationSection - Collapsible group of conversations in the sidebar
+ */
+
+import React from 'react';
+import { ChevronRight } from 'lucide-react';
+
+interface ConversationSectionProps {
+    title: string;
+    count: number;
+    isCollapsed: boolean;
+    onToggle: () => void;
+    actions?: React.ReactNode;
+    children: React.ReactNode;
+}
+
+const ConversationSection = ({
+    title,
+    count,
+    isCollapsed,
+    onToggle,
+    actions,
+    children,
+}: ConversationSectionProps) => (
+    <section className={`conversation-section ${isCollapsed ? 'collapsed' : ''}`}>
+        <div className="conversation-section-header">
+            <button
+                className="conversation-section-toggle"
+                onClick={onToggle}
+                aria-expanded={!isCollapsed}
+            >
+                <ChevronRight size={14} className="conversation-section-chevron" />
+                <span className="conversation-section-title">{title}</span>
+                <span className="conversation-section-count">{count}</span>
+            </button>
+            {actions && <div className="conversation-section-actions">{actions}</div>}
+        </div>
+        {!isCollapsed && children}
+    </section>
+);
+
+export default ConversationSection;
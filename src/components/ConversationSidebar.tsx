@@ -3,10 +3,14 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { Plus, MessageSquare, FolderPlus, Globe } from 'lucide-react';
-import type { Conversation } from '../types/conversation';
+import { Plus, MessageSquare, FolderPlus, Globe, Search, X, ListChecks } from 'lucide-react';
+import type { Conversation, ConversationFlags } from '../types/conversation';
 import type { ConversationProject, ProjectConversation } from '../types';
 import ConversationItem from './ConversationItem';
+import ConversationSearchResults from './ConversationSearchResults';
+import ConversationSection from './ConversationSection';
+import ConversationBulkBar from './ConversationBulkBar';
+import { useConfirm } from './ConfirmDialog';
 import LoadingDots from './LoadingDots';
 import {
     ProjectFolder,
@@ -24,18 +28,40 @@ import {
 } from '../store';
 import { useAuth } from '../auth';
 import { useToast } from './Toast';
+import { useConversationSearch } from '../hooks/useConversationSearch';
+import { useOutbox } from '../hooks/useOutbox';
+import { useRealtimeEvent } from '../hooks/useRealtime';
+import { getFieldErrors } from '../services/apiErrors';
+import type { FieldErrors } from '../services/apiErrors';
+import { groupConversationSections, type ConversationSectionId } from '../utils/conversationSections';
 import '../styles/conversationSidebar.css';
 import styles from '../styles/ConversationProjects.module.css';
 
+const COLLAPSED_SECTIONS_KEY = 'fabcore_collapsed_conversation_sections';
+const DEFAULT_COLLAPSED_SECTIONS: ConversationSectionId[] = ['archived'];
+
+const loadCollapsedSections = (): Set<ConversationSectionId> => {
+    try {
+        const stored = localStorage.getItem(COLLAPSED_SECTIONS_KEY);
+        if (stored) return new Set(JSON.parse(stored) as ConversationSectionId[]);
+    } catch (e) {
+        console.warn('[ConversationSidebar] Failed to read collapsed sections:', e);
+    }
+    return new Set(DEFAULT_COLLAPSED_SECTIONS);
+};
+
 interface ConversationSidebarProps {
     isOpen: boolean;
     onClose: () => void;
     conversations: Conversation[];
     activeConversationId: number | null;
     onSelectConversation: (conversationId: number) => void;
+    onSelectSearchHit?: (conversationId: number, messageId: number | null) => void;
     onNewConversation: (projectId?: number) => void;
     onDeleteConversation: (conversationId: number) => void;
     onRenameConversation: (conversationId: number, newTitle: string) => void;
+    onUpdateConversations: (conversationIds: number[], flags: Partial<ConversationFlags>) => Promise<void>;
+    onDeleteConversations: (conversationIds: number[]) => Promise<void>;
     loading: boolean;
     openProjectModalOnMount?: boolean;
     onProjectModalOpened?: () => void;
@@ -47,14 +73,18 @@ const ConversationSidebar = ({
     conversations,
     activeConversationId,
     onSelectConversation,
+    onSelectSearchHit,
     onNewConversation,
     onDeleteConversation,
     loading,
     onRenameConversation,
+    onUpdateConversations,
+    onDeleteConversations,
     openProjectModalOnMount,
     onProjectModalOpened,
 }: ConversationSidebarProps) => {
     const { showToast } = useToast();
+    const { confirm } = useConfirm();
 
     // Store state
     const ownedProjects = useConversationProjectStore((s) => s.ownedProjects);
@@ -66,6 +96,7 @@ const ConversationSidebar = ({
 
     // API
     const projectApi = useConversationProjectApi();
+    const { sendOrQueue } = useOutbox();
 
     // Modal state
     const [showProjectModal, setShowProjectModal] = useState(false);
@@ -78,6 +109,7 @@ const ConversationSidebar = ({
     const [leaveProject, setLeaveProject] = useState<ConversationProject | null>(null);
     const [showCommunityModal, setShowCommunityModal] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
+    const [projectFieldErrors, setProjectFieldErrors] = useState<FieldErrors>({});
 
     // Get current user for leave functionality
     const { user: currentUser } = useAuth();
@@ -88,6 +120,22 @@ const ConversationSidebar = ({
     // Drag and drop state
     const [draggedConversationId, setDraggedConversationId] = useState<number | null>(null);
 
+    // Search state
+    const [searchQuery, setSearchQuery] = useState('');
+    const search = useConversationSearch(searchQuery);
+
+    // Section collapse state (persisted)
+    const [collapsedSections, setCollapsedSections] = useState(loadCollapsedSections);
+
+    // Multi-select state
+    const [selectionMode, setSelectionMode] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+    const [isBulkBusy, setIsBulkBusy] = useState(false);
+
+    useEffect(() => {
+        localStorage.setItem(COLLAPSED_SECTIONS_KEY, JSON.stringify([...collapsedSections]));
+    }, [collapsedSections]);
+
     // Load projects on mount
     useEffect(() => {
         if (isOpen) {
@@ -122,6 +170,47 @@ const ConversationSidebar = ({
         }
     };
 
+    // Keep loaded project folders in step with other members
+    useRealtimeEvent((event) => {
+        switch (event.type) {
+            case 'project.conversation_added':
+                setProjectConversations((prev) => {
+                    const loaded = prev[event.project_id];
+                    if (!loaded || loaded.some((c) => c.id === event.conversation.id)) return prev;
+                    return { ...prev, [event.project_id]: [event.conversation, ...loaded] };
+                });
+                break;
+
+            case 'project.conversation_removed':
+                setProjectConversations((prev) => {
+                    const loaded = prev[event.project_id];
+                    if (!loaded) return prev;
+                    return { ...prev, [event.project_id]: loaded.filter((c) => c.id !== event.conversation_id) };
+                });
+                break;
+
+            case 'project.deleted':
+                setProjectConversations((prev) => {
+                    if (!prev[event.project_id]) return prev;
+                    const next = { ...prev };
+                    delete next[event.project_id];
+                    return next;
+                });
+                break;
+
+            case 'conversation.updated':
+                setProjectConversations((prev) => Object.fromEntries(
+                    Object.entries(prev).map(([projectId, convos]) => [
+                        projectId,
+                        convos.map((c) => c.id === event.conversation_id
+                            ? { ...c, title: event.title, updated_at: event.updated_at }
+                            : c),
+                    ])
+                ));
+                break;
+        }
+    });
+
     // Handlers
     const handleNewChat = () => {
         onNewConversation();
@@ -133,6 +222,113 @@ const ConversationSidebar = ({
         onClose();
     };
 
+    const handleSelectSearchHit = (conversationId: number, messageId: number | null) => {
+        if (onSelectSearchHit) {
+            onSelectSearchHit(conversationId, messageId);
+        } else {
+            onSelectConversation(conversationId);
+        }
+        onClose();
+    };
+
+    const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Escape' && searchQuery) {
+            e.stopPropagation();
+            setSearchQuery('');
+        }
+    };
+
+    const toggleSection = (section: ConversationSectionId) => {
+        setCollapsedSections((prev) => {
+            const next = new Set(prev);
+            if (next.has(section)) next.delete(section);
+            else next.add(section);
+            return next;
+        });
+    };
+
+    // =========================================================================
+    // Flags & Multi-select
+    // =========================================================================
+
+    const handleToggleFlag = async (conversation: Conversation, flag: keyof ConversationFlags) => {
+        try {
+            await onUpdateConversations([conversation.id], { [flag]: !conversation[flag] });
+        } catch {
+            showToast('Failed to update conversation', 'error');
+        }
+    };
+
+    const handleToggleSelect = (conversationId: number) => {
+        setSelectionMode(true);
+        setSelectedIds((prev) => {
+            const next = new Set(prev);
+            if (next.has(conversationId)) next.delete(conversationId);
+            else next.add(conversationId);
+            return next;
+        });
+    };
+
+    const exitSelectionMode = () => {
+        setSelectionMode(false);
+        setSelectedIds(new Set());
+    };
+
+    const runBulkAction = async (action: (ids: number[]) => Promise<void>) => {
+        setIsBulkBusy(true);
+        try {
+            await action([...selectedIds]);
+            exitSelectionMode();
+        } finally {
+            setIsBulkBusy(false);
+        }
+    };
+
+    const handleBulkArchive = (archive: boolean) => runBulkAction(async (ids) => {
+        try {
+            await onUpdateConversations(ids, { is_archived: archive });
+            showToast(`${archive ? 'Archived' : 'Unarchived'} ${ids.length} conversation${ids.length === 1 ? '' : 's'}`, 'success');
+        } catch {
+            showToast('Failed to update conversations', 'error');
+        }
+    });
+
+    const handleBulkDelete = async () => {
+        const count = selectedIds.size;
+        const confirmed = await confirm({
+            title: 'Delete Conversations',
+            message: `Are you sure you want to delete ${count} conversation${count === 1 ? '' : 's'}? This cannot be undone.`,
+            confirmText: 'Delete',
+            cancelText: 'Cancel',
+            variant: 'danger'
+        });
+        if (!confirmed) return;
+
+        await runBulkAction(async (ids) => {
+            try {
+                await onDeleteConversations(ids);
+                showToast(`Deleted ${ids.length} conversation${ids.length === 1 ? '' : 's'}`, 'success');
+            } catch {
+                showToast('Failed to delete conversations', 'error');
+            }
+        });
+    };
+
+    const handleBulkMoveToProject = (projectId: number) => runBulkAction(async (ids) => {
+        const results = await Promise.allSettled(ids.map((id) => moveConversationToProject(id, projectId)));
+        const failed = results.filter((result) => result.status === 'rejected').length;
+        const queued = results.some((result) => result.status === 'fulfilled' && result.value);
+        const project = [...ownedProjects, ...sharedProjects].find(p => p.id === projectId);
+
+        if (failed > 0) {
+            showToast(`Failed to move ${failed} of ${ids.length} conversations`, 'error');
+        } else if (queued) {
+            showToast("You're offline. The moves will sync when the connection returns.", 'info');
+        } else {
+            showToast(`Moved to ${project?.name || 'project'}`, 'success');
+        }
+    });
+
     const handleCreateProject = () => {
         setEditingProject(null);
         setShowProjectModal(true);
@@ -145,9 +341,17 @@ const ConversationSidebar = ({
 
     const handleSaveProject = async (data: ProjectFormData) => {
         setIsSaving(true);
+        setProjectFieldErrors({});
         const isSharedType = data.project_type === 'shared_locked' || data.project_type === 'shared_open';
         try {
-            if (editingProject) {
+            if (editingProject && !editingProject.is_owner) {
+                // Members allowed to edit instructions can only change these
+                await projectApi.updateProject(editingProject.id, {
+                    custom_instructions: data.custom_instructions || undefined,
+                    custom_commands: data.custom_commands,
+                });
+                showToast('Project updated', 'success');
+            } else if (editingProject) {
                 await projectApi.updateProject(editingProject.id, {
                     name: data.name,
                     description: data.description || undefined,
@@ -155,6 +359,7 @@ const ConversationSidebar = ({
                     custom_instructions: data.custom_instructions || undefined,
                     project_type: data.project_type,
                     permissions: isSharedType ? data.permissions : undefined,
+                    custom_commands: data.custom_commands,
                 });
                 showToast('Project updated', 'success');
             } else {
@@ -165,12 +370,14 @@ const ConversationSidebar = ({
                     custom_instructions: data.custom_instructions || undefined,
                     project_type: data.project_type,
                     permissions: isSharedType ? data.permissions : undefined,
+                    custom_commands: data.custom_commands.length ? data.custom_commands : undefined,
                 });
                 showToast('Project created', 'success');
             }
             setShowProjectModal(false);
             setEditingProject(null);
         } catch (error) {
+            setProjectFieldErrors(getFieldErrors(error));
             showToast(error instanceof Error ? error.message : 'Failed to save project', 'error');
         } finally {
             setIsSaving(false);
@@ -283,48 +490,60 @@ const ConversationSidebar = ({
         setDraggedConversationId(null);
     }, []);
 
+    // Resolves true when the move was queued offline
+    const moveConversationToProject = useCallback(async (conversationId: number, projectId: number) => {
+        const queued = await sendOrQueue(
+            {
+                method: 'POST',
+                url:    `/conversations/${conversationId}/projects`,
+                body:   { project_id: projectId },
+                label:  'Move conversation to project',
+            },
+            () => projectApi.addConversationToProject(conversationId, projectId)
+        );
+
+        // Update local cache - add to target project
+        const conversation = conversations.find(c => c.id === conversationId);
+        if (conversation) {
+            const newProjectConvo: ProjectConversation = {
+                ...conversation,
+                added_to_project_at: new Date().toISOString(),
+                project_ids: [projectId],
+            };
+            setProjectConversations((prev) => ({
+                ...prev,
+                [projectId]: [
+                    ...(prev[projectId] || []),
+                    newProjectConvo,
+                ],
+            }));
+        }
+
+        return queued;
+    }, [conversations, projectApi, sendOrQueue]);
+
     const handleDropOnProject = useCallback(async (e: React.DragEvent, projectId: number) => {
         e.preventDefault();
         const conversationId = parseInt(e.dataTransfer.getData('text/plain'), 10);
         if (!conversationId || isNaN(conversationId)) return;
 
         try {
-            await projectApi.addConversationToProject(conversationId, projectId);
-            
-            // Update local cache - add to target project
-            const conversation = conversations.find(c => c.id === conversationId);
-            if (conversation) {
-                const newProjectConvo: ProjectConversation = {
-                    id: conversation.id,
-                    user_id: conversation.user_id,
-                    title: conversation.title,
-                    summary: conversation.summary,
-                    created_at: conversation.created_at,
-                    updated_at: conversation.updated_at,
-                    is_active: conversation.is_active,
-                    last_message_preview: conversation.last_message_preview,
-                    added_to_project_at: new Date().toISOString(),
-                    project_ids: [projectId],
-                };
-                setProjectConversations((prev) => ({
-                    ...prev,
-                    [projectId]: [
-                        ...(prev[projectId] || []),
-                        newProjectConvo,
-                    ],
-                }));
-            }
+            const queued = await moveConversationToProject(conversationId, projectId);
             
             // Find the project name for the toast
             const project = [...ownedProjects, ...sharedProjects].find(p => p.id === projectId);
-            showToast(`Moved to ${project?.name || 'project'}`, 'success');
+            if (queued) {
+                showToast("You're offline. The move will sync when the connection returns.", 'info');
+            } else {
+                showToast(`Moved to ${project?.name || 'project'}`, 'success');
+            }
         } catch (error) {
             console.error('Failed to move conversation to project:', error);
             showToast('Failed to move conversation', 'error');
         }
         
         setDraggedConversationId(null);
-    }, [conversations, ownedProjects, sharedProjects, projectApi, showToast]);
+    }, [moveConversationToProject, ownedProjects, sharedProjects, showToast]);
 
     const handleRemoveFromProject = useCallback(async (conversationId: number, projectId: number) => {
         try {
@@ -377,6 +596,33 @@ const ConversationSidebar = ({
         Object.values(projectConversations).flat().map((c) => c.id)
     );
     const ungroupedConversations = conversations.filter((c) => !allProjectConvoIds.has(c.id));
+    const sections = groupConversationSections(ungroupedConversations);
+    const allSelectedArchived = selectedIds.size > 0
+        && conversations.filter((c) => selectedIds.has(c.id)).every((c) => c.is_archived);
+
+    const renderUngroupedItem = (conversation: Conversation) => (
+        <div
+            key={conversation.id}
+            draggable={!selectionMode}
+            onDragStart={(e) => handleDragStart(e, conversation.id)}
+            onDragEnd={handleDragEnd}
+            style={{ opacity: draggedConversationId === conversation.id ? 0.5 : 1 }}
+        >
+            <ConversationItem
+                conversation={conversation}
+                isActive={conversation.id === activeConversationId}
+                onSelect={() => handleSelectConversation(conversation.id)}
+                onDelete={() => onDeleteConversation(conversation.id)}
+                onRename={(newTitle) => onRenameConversation(conversation.id, newTitle)}
+                onTogglePin={() => handleToggleFlag(conversation, 'is_pinned')}
+                onToggleStar={() => handleToggleFlag(conversation, 'is_starred')}
+                onToggleArchive={() => handleToggleFlag(conversation, 'is_archived')}
+                selectionMode={selectionMode}
+                isSelected={selectedIds.has(conversation.id)}
+                onToggleSelect={() => handleToggleSelect(conversation.id)}
+            />
+        </div>
+    );
 
     return (
         <>
@@ -410,9 +656,39 @@ const ConversationSidebar = ({
                         <Plus size={18} />
                         New Conversation
                     </button>
+
+                    <div className="conversation-search-box">
+                        <Search size={16} className="conversation-search-icon" />
+                        <input
+                            type="search"
+                            className="conversation-search-input"
+                            placeholder="Search conversations..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            onKeyDown={handleSearchKeyDown}
+                            aria-label="Search conversations"
+                        />
+                        {searchQuery && (
+                            <button
+                                className="conversation-search-clear"
+                                onClick={() => setSearchQuery('')}
+                                aria-label="Clear search"
+                            >
+                                <X size={14} />
+                            </button>
+                        )}
+                    </div>
                 </div>
 
                 <div className="conversation-sidebar-content">
+                    {search.isActive ? (
+                        <ConversationSearchResults
+                            search={search}
+                            activeConversationId={activeConversationId}
+                            onSelectHit={handleSelectSearchHit}
+                        />
+                    ) : (
+                    <>
                     {/* Pending Invites */}
                     {invites.length > 0 && (
                         <div>
@@ -474,16 +750,7 @@ const ConversationSidebar = ({
                                             style={{ opacity: draggedConversationId === convo.id ? 0.5 : 1 }}
                                         >
                                             <ConversationItem
-                                                conversation={{
-                                                    id: convo.id,
-                                                    user_id: convo.user_id,
-                                                    title: convo.title,
-                                                    summary: convo.summary,
-                                                    created_at: convo.created_at,
-                                                    updated_at: convo.updated_at,
-                                                    is_active: convo.is_active,
-                                                    last_message_preview: convo.last_message_preview,
-                                                }}
+                                                conversation={convo}
                                                 isActive={convo.id === activeConversationId}
                                                 onSelect={() => handleSelectConversation(convo.id)}
                                                 onDelete={() => onDeleteConversation(convo.id)}
@@ -523,16 +790,7 @@ const ConversationSidebar = ({
                                                     style={{ opacity: draggedConversationId === convo.id ? 0.5 : 1 }}
                                                 >
                                                     <ConversationItem
-                                                        conversation={{
-                                                            id: convo.id,
-                                                            user_id: convo.user_id,
-                                                            title: convo.title,
-                                                            summary: convo.summary,
-                                                            created_at: convo.created_at,
-                                                            updated_at: convo.updated_at,
-                                                            is_active: convo.is_active,
-                                                            last_message_preview: convo.last_message_preview,
-                                                        }}
+                                                        conversation={convo}
                                                         isActive={convo.id === activeConversationId}
                                                         onSelect={() => handleSelectConversation(convo.id)}
                                                         onDelete={() => onDeleteConversation(convo.id)}
@@ -588,34 +846,73 @@ const ConversationSidebar = ({
                     )}
 
                     {!loading && ungroupedConversations.length > 0 && (
-                        <>
-                            {(ownedProjects.length > 0 || sharedProjects.length > 0) && (
-                                <div className={styles.ungroupedLabel}>Recent</div>
+                        <div
+                            className="conversations-list"
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={handleDropOnUngrouped}
+                        >
+                            {selectionMode && (
+                                <ConversationBulkBar
+                                    selectedCount={selectedIds.size}
+                                    allArchived={allSelectedArchived}
+                                    projects={[...ownedProjects, ...sharedProjects]}
+                                    isBusy={isBulkBusy}
+                                    onArchive={handleBulkArchive}
+                                    onDelete={handleBulkDelete}
+                                    onMoveToProject={handleBulkMoveToProject}
+                                    onCancel={exitSelectionMode}
+                                />
                             )}
-                            <div 
-                                className="conversations-list"
-                                onDragOver={(e) => e.preventDefault()}
-                                onDrop={handleDropOnUngrouped}
-                            >
-                                {ungroupedConversations.map((conversation) => (
-                                    <div
-                                        key={conversation.id}
-                                        draggable
-                                        onDragStart={(e) => handleDragStart(e, conversation.id)}
-                                        onDragEnd={handleDragEnd}
-                                        style={{ opacity: draggedConversationId === conversation.id ? 0.5 : 1 }}
-                                    >
-                                        <ConversationItem
-                                            conversation={conversation}
-                                            isActive={conversation.id === activeConversationId}
-                                            onSelect={() => handleSelectConversation(conversation.id)}
-                                            onDelete={() => onDeleteConversation(conversation.id)}
-                                            onRename={(newTitle) => onRenameConversation(conversation.id, newTitle)}
-                                        />
-                                    </div>
-                                ))}
-                            </div>
-                        </>
+
+                            {sections.pinned.length > 0 && (
+                                <ConversationSection
+                                    title="Pinned"
+                                    count={sections.pinned.length}
+                                    isCollapsed={collapsedSections.has('pinned')}
+                                    onToggle={() => toggleSection('pinned')}
+                                >
+                                    {sections.pinned.map(renderUngroupedItem)}
+                                </ConversationSection>
+                            )}
+
+                            {sections.recentCount > 0 && (
+                                <ConversationSection
+                                    title="Recent"
+                                    count={sections.recentCount}
+                                    isCollapsed={collapsedSections.has('recent')}
+                                    onToggle={() => toggleSection('recent')}
+                                    actions={!selectionMode && (
+                                        <button
+                                            className={styles.newProjectBtn}
+                                            onClick={() => setSelectionMode(true)}
+                                            title="Select conversations"
+                                        >
+                                            <ListChecks size={16} />
+                                        </button>
+                                    )}
+                                >
+                                    {sections.recent.map((bucket) => (
+                                        <div key={bucket.label} className="conversation-bucket">
+                                            <div className="conversation-bucket-label">{bucket.label}</div>
+                                            {bucket.conversations.map(renderUngroupedItem)}
+                                        </div>
+                                    ))}
+                                </ConversationSection>
+                            )}
+
+                            {sections.archived.length > 0 && (
+                                <ConversationSection
+                                    title="Archived"
+                                    count={sections.archived.length}
+                                    isCollapsed={collapsedSections.has('archived')}
+                                    onToggle={() => toggleSection('archived')}
+                                >
+                                    {sections.archived.map(renderUngroupedItem)}
+                                </ConversationSection>
+                            )}
+                        </div>
+                    )}
+                    </>
                     )}
                 </div>
             </aside>
@@ -623,10 +920,11 @@ const ConversationSidebar = ({
             {/* Modals */}
             <ProjectModal
                 isOpen={showProjectModal}
-                onClose={() => { setShowProjectModal(false); setEditingProject(null); }}
+                onClose={() => { setShowProjectModal(false); setEditingProject(null); setProjectFieldErrors({}); }}
                 onSave={handleSaveProject}
                 project={editingProject}
                 isLoading={isSaving}
+                fieldErrors={projectFieldErrors}
             />
 
             <InviteModal
@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { useSessionStatus } from '../hooks';
+import { signInAgain } from '../services/authSession';
+import '../styles/sessionBanner.css';
+
+
+/**
+ * Shown while the session is expired and requests are paused. Non-blocking:
+ * the page keeps its state and paused requests resume after sign-in.
+ */
+export default function SessionBanner() {
+    const status = useSessionStatus();
+    const [isSigningIn, setIsSigningIn] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (status !== 'expired') return null;
+
+    const handleSignIn = async () => {
+        setIsSigningIn(true);
+        setError(null);
+        try {
+            await signInAgain();
+        } catch (err) {
+            console.error('[SessionBanner] Sign-in failed:', err);
+            const message = err instanceof Error ? err.message : '';
+            setError(message.includes('popup_window_error')
+                ? 'Popup was blocked. Please allow popups for this site.'
+                : 'Sign-in did not complete. Please try again.');
+        } finally {
+            setIsSigningIn(false);
+        }
+    };
+
+    return (
+        <div className="session-banner" role="status" aria-live="polite">
+            <KeyRound size={16} className="session-banner-icon" />
+            <span className="session-banner-text">
+                {error ?? 'Your session expired. Requests are paused and will continue once you sign in.'}
+            </span>
+            <button
+                className="session-banner-btn"
+                onClick={handleSignIn}
+                disabled={isSigningIn}
+            >
+                {isSigningIn ? 'Signing in...' : 'Sign in'}
+            </button>
+        </div>
+    );
+}
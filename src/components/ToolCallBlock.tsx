@@ -1,17 +1,79 @@
-import React, { useState, memo } from 'react';
+import React, { useState, useMemo, memo } from 'react';
+import { Table, Braces, FileText, ExternalLink } from 'lucide-react';
+import DataTable from './data/DataTable';
+import { useDataApi } from '../store';
+import { parseToolResult } from '../utils/toolResult';
+import type { ToolApprovalStatus } from '../types/approval';
 import '../styles/toolCallBlock.css';
 
+type ResultView = 'table' | 'json' | 'raw';
+
 interface ToolCallBlockProps {
     name: string;
     params?: Record<string, unknown>;
     result?: string;
     isComplete?: boolean;
+    approval?: ToolApprovalStatus;
 }
 
-const ToolCallBlock: React.FC<ToolCallBlockProps> = ({ name, params, isComplete = false }) => {
+const ToolCallBlock: React.FC<ToolCallBlockProps> = ({ name, params, result, isComplete = false, approval }) => {
     const [isExpanded, setIsExpanded] = useState(false);
+    const [selectedView, setSelectedView] = useState<ResultView | null>(null);
+    const [isOpening, setIsOpening] = useState(false);
+    const [openError, setOpenError] = useState<string | null>(null);
+
+    const { createSession } = useDataApi();
 
     const hasParams = params && Object.keys(params).length > 0;
+    const hasResult = !!result;
+
+    // Only parse once the pane is open - results can be large
+    const parsedResult = useMemo(
+        () => (isExpanded && result ? parseToolResult(result) : null),
+        [isExpanded, result]
+    );
+
+    const defaultView: ResultView = parsedResult?.kind === 'records' ? 'table'
+        : parsedResult?.kind === 'json' ? 'json'
+        : 'raw';
+    const resultView = selectedView ?? defaultView;
+
+    const label = approval === 'pending' ? 'Awaiting approval:'
+        : approval === 'denied' ? 'Denied:'
+        : !isComplete ? 'Calling:'
+        : 'Called:';
+
+    // Saves the rows the chat already shows as a session rather than re-running the tool
+    const handleOpenInDataPage = async () => {
+        if (isOpening || parsedResult?.kind !== 'records') return;
+
+        // Open the tab while still handling the click so popup blockers allow it,
+        // then point it at the session once it exists
+        const tab = window.open('', '_blank');
+
+        setIsOpening(true);
+        setOpenError(null);
+
+        try {
+            const session = await createSession({
+                tool_name: name,
+                tool_params: hasParams ? params : undefined,
+                result: parsedResult.table,
+            });
+
+            const url = `/data?session=${session.id}`;
+            if (tab) {
+                tab.location.href = url;
+            } else {
+                window.open(url, '_blank');
+            }
+        } catch (err) {
+            tab?.close();
+            setOpenError(err instanceof Error ? err.message : 'Failed to open in Data page');
+        } finally {
+            setIsOpening(false);
+        }
+    };
 
     // Format params as readable key: value lines
     const formatParams = (params: Record<string, unknown>): string => {
@@ -26,7 +88,7 @@ const ToolCallBlock: React.FC<ToolCallBlockProps> = ({ name, params, isComplete
     };
 
     return (
-        <div className={`tool-call-block ${isExpanded ? 'expanded' : 'collapsed'} ${isComplete ? 'complete' : 'running'}`}>
+        <div className={`tool-call-block ${isExpanded ? 'expanded' : 'collapsed'} ${isComplete ? 'complete' : 'running'} ${approval ? `approval-${approval}` : ''}`}>
             <button 
                 className="tool-call-header"
                 onClick={() => setIsExpanded(!isExpanded)}
@@ -46,10 +108,10 @@ const ToolCallBlock: React.FC<ToolCallBlockProps> = ({ name, params, isComplete
                     )}
                 </span>
                 <span className="tool-call-label">
-                    {!isComplete ? 'Calling:' : 'Called:'}
+                    {label}
                 </span>
                 <span className="tool-call-name">{name}</span>
-                {hasParams && (
+                {(hasParams || hasResult) && (
                     <span className={`tool-call-chevron ${isExpanded ? 'expanded' : ''}`}>
                         <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                             <polyline points="6 9 12 15 18 9"/>
@@ -58,9 +120,88 @@ const ToolCallBlock: React.FC<ToolCallBlockProps> = ({ name, params, isComplete
                 )}
             </button>
             
-            {isExpanded && hasParams && (
+            {isExpanded && (hasParams || hasResult) && (
                 <div className="tool-call-content">
-                    <pre>{formatParams(params)}</pre>
+                    {hasParams && (
+                        <>
+                            {hasResult && <div className="tool-call-section-label">Parameters</div>}
+                            <pre>{formatParams(params)}</pre>
+                        </>
+                    )}
+
+                    {parsedResult && (
+                        <div className="tool-result">
+                            <div className="tool-result-toolbar">
+                                <span className="tool-call-section-label">
+                                    Result
+                                    {parsedResult.kind === 'records' && (
+                                        <span className="tool-result-count">
+                                            {parsedResult.table.rows.length.toLocaleString()} rows
+                                        </span>
+                                    )}
+                                </span>
+                                <div className="tool-result-views" role="tablist">
+                                    {parsedResult.kind === 'records' && (
+                                        <button
+                                            className={`tool-result-view-btn ${resultView === 'table' ? 'active' : ''}`}
+                                            onClick={() => setSelectedView('table')}
+                                            role="tab"
+                                            aria-selected={resultView === 'table'}
+                                            title="Table view"
+                                        >
+                                            <Table size={13} />
+                                        </button>
+                                    )}
+                                    {parsedResult.kind !== 'text' && (
+                                        <button
+                                            className={`tool-result-view-btn ${resultView === 'json' ? 'active' : ''}`}
+                                            onClick={() => setSelectedView('json')}
+                                            role="tab"
+                                            aria-selected={resultView === 'json'}
+                                            title="JSON view"
+                                        >
+                                            <Braces size={13} />
+                                        </button>
+                                    )}
+                                    <button
+                                        className={`tool-result-view-btn ${resultView === 'raw' ? 'active' : ''}`}
+                                        onClick={() => setSelectedView('raw')}
+                                        role="tab"
+                                        aria-selected={resultView === 'raw'}
+                                        title="Raw text"
+                                    >
+                                        <FileText size={13} />
+                                    </button>
+                                </div>
+                                {/* Only read-only calls that returned records can become a session */}
+                                {isComplete && !approval && parsedResult.kind === 'records' && (
+                                    <button
+                                        className="tool-result-open-btn"
+                                        onClick={handleOpenInDataPage}
+                                        disabled={isOpening}
+                                        title="Open these rows as a Data page session"
+                                    >
+                                        <ExternalLink size={13} />
+                                        {isOpening ? 'Opening...' : 'Open in Data page'}
+                                    </button>
+                                )}
+                            </div>
+
+                            {openError && (
+                                <div className="tool-result-error">{openError}</div>
+                            )}
+
+                            {resultView === 'table' && parsedResult.kind === 'records' ? (
+                                <div className="tool-result-table">
+                                    <DataTable result={parsedResult.table} />
+                                </div>
+                            ) : resultView === 'json' && parsedResult.kind !== 'text' ? (
+                                <pre>{parsedResult.json}</pre>
+                            ) : (
+                                <pre>{result}</pre>
+                            )}
+                        </div>
+                    )}
                 </div>
             )}
         </div>
@@ -0,0 +1,37 @@
+import React, { memo } from 'react';
+import '../styles/toolCallBlock.css';
+
+interface ToolCallGroupProps {
+    count: number;
+    runningCount: number;
+    children: React.ReactNode;
+}
+
+/**
+ * Wraps tool calls that ran concurrently so they read as one parallel set
+ */
+const ToolCallGroup: React.FC<ToolCallGroupProps> = ({ count, runningCount, children }) => {
+    const isRunning = runningCount > 0;
+
+    return (
+        <div className={`tool-call-group ${isRunning ? 'running' : 'complete'}`}>
+            <div className="tool-call-group-header">
+                <span className="tool-call-group-label">
+                    {isRunning
+                        ? `Running ${count} tools in parallel`
+                        : `Ran ${count} tools in parallel`}
+                </span>
+                {isRunning && (
+                    <span className="tool-call-group-progress">
+                        {count - runningCount}/{count} done
+                    </span>
+                )}
+            </div>
+            <div className="tool-call-group-items">
+                {children}
+            </div>
+        </div>
+    );
+};
+
+export default memo(ToolCallGroup);
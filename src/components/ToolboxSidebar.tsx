@@ -2,7 +2,7 @@ import { useState, useEffect, useMemo } from "react";
 import { type Tool, type ToolParameter } from "../types/tools";
 import { useApi } from "../auth";
 import { useAuth } from "../auth";
-import { formatToolName } from "../services/api";
+import { formatToolName } from "../utils/formatters";
 import "../styles/toolboxSidebar.css";
 import Icons from "../assets/svg/toolbox/toolboxIcons.tsx";
 import HeaderWrenchIcon from "../assets/svg/toolbox/headerWrench.tsx";
@@ -12,6 +12,7 @@ import EmptyToolboxIcon from "../assets/svg/toolbox/emptyToolbox.tsx";
 import ToolExpandIcon from "../assets/svg/toolbox/toolExpand.tsx";
 import ParamSubmitIcon from "../assets/svg/toolbox/paramSubmit.tsx";
 import LoadingSpinner from "./loadingSpinner.tsx";
+import { PromptLibraryModal, SavedPromptsCategory } from "./prompt_templates";
 
 // Interface for API response (simplified format from backend)
 interface ChatToolboxResponse {
@@ -56,6 +57,9 @@ function generateToolPrompt(name: string, parameters: ToolParameter[]): string {
     return `${basePrompt} ${paramPlaceholders}`;
 }
 
+// Saved prompts share the collapse state with tool categories under this key
+const SAVED_PROMPTS_CATEGORY = "__saved_prompts";
+
 // Category display order (categories not in this list appear at the end)
 const CATEGORY_ORDER = ["Jobs", "Production", "Overtime"];
 
@@ -154,6 +158,7 @@ const ToolboxSidebar = ({ isOpen, onClose, onToolSelect }: ToolboxSidebarProps)
     const [activeToolId, setActiveToolId] = useState<string | null>(null);
     const [paramValues, setParamValues] = useState<Record<string, string>>({});
     const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
+    const [showPromptLibrary, setShowPromptLibrary] = useState(false);
 
     useEffect(() => {
         const fetchTools = async () => {
@@ -315,6 +320,18 @@ const ToolboxSidebar = ({ isOpen, onClose, onToolSelect }: ToolboxSidebarProps)
                 </div>
 
                 <div className="sidebar-content">
+                    <div className="tools-list saved-prompts-list">
+                        <SavedPromptsCategory
+                            isCollapsed={collapsedCategories.has(SAVED_PROMPTS_CATEGORY)}
+                            onToggle={() => toggleCategory(SAVED_PROMPTS_CATEGORY)}
+                            onSelect={(prompt) => {
+                                onToolSelect(prompt);
+                                onClose();
+                            }}
+                            onManage={() => setShowPromptLibrary(true)}
+                        />
+                    </div>
+
                     {loading && (
                         <div className="sidebar-loading">
                             <div className="loading-spinner"></div>
@@ -444,6 +461,11 @@ const ToolboxSidebar = ({ isOpen, onClose, onToolSelect }: ToolboxSidebarProps)
                     )}
                 </div>
             </aside>
+
+            <PromptLibraryModal
+                isOpen={showPromptLibrary}
+                onClose={() => setShowPromptLibrary(false)}
+            />
         </>
     );
 };
@@ -0,0 +1,66 @@
+/**
+ * AttachmentChips - Chips for files, images and data sessions attached to a message
+ */
+
+import React, { memo } from 'react';
+import { FileText, Image, Database, X } from 'lucide-react';
+import type { ChatAttachment } from '../../types';
+import { formatFileSize } from '../../utils/attachments';
+
+interface AttachmentChipsProps {
+    attachments: ChatAttachment[];
+    onRemove?: (attachmentId: string) => void;   // Omit for read-only chips on sent messages
+    className?: string;
+}
+
+const getAttachmentDetail = (attachment: ChatAttachment): string => {
+    switch (attachment.kind) {
+        case 'file':
+        case 'image':
+            return formatFileSize(attachment.size);
+        case 'data_session':
+            return attachment.row_count != null
+                ? `${attachment.row_count.toLocaleString()} rows`
+                : 'Data session';
+    }
+};
+
+const AttachmentChips: React.FC<AttachmentChipsProps> = ({ attachments, onRemove, className = '' }) => {
+    if (attachments.length === 0) return null;
+
+    return (
+        <div className={`attachment-chips ${className}`}>
+            {attachments.map((attachment) => (
+                <div
+                    key={attachment.id}
+                    className={`attachment-chip attachment-chip--${attachment.kind}`}
+                    title={attachment.name}
+                >
+                    {attachment.kind === 'image' && attachment.data_url ? (
+                        <img className="attachment-chip-thumb" src={attachment.data_url} alt={attachment.name} />
+                    ) : (
+                        <span className="attachment-chip-icon">
+                            {attachment.kind === 'image' && <Image size={14} />}
+                            {attachment.kind === 'file' && <FileText size={14} />}
+                            {attachment.kind === 'data_session' && <Database size={14} />}
+                        </span>
+                    )}
+                    <span className="attachment-chip-name">{attachment.name}</span>
+                    <span className="attachment-chip-detail">{getAttachmentDetail(attachment)}</span>
+                    {onRemove && (
+                        <button
+                            type="button"
+                            className="attachment-chip-remove"
+                            onClick={() => onRemove(attachment.id)}
+                            aria-label={`Remove ${attachment.name}`}
+                        >
+                            <X size={12} />
+                        </button>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default memo(AttachmentChips);
@@ -0,0 +1,46 @@
+import React, { memo } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { MessageVersion } from '../../utils/messageBranches';
+
+
+interface BranchSwitcherProps {
+    version: MessageVersion;
+    disabled?: boolean;
+    onSwitch: (messageId: number) => void;
+}
+
+
+/**
+ * "< 2/3 >" navigation between versions of a regenerated or edited turn
+ */
+const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ version, disabled = false, onSwitch }) => {
+    const { index, count, ids } = version;
+
+    return (
+        <div className="branch-switcher" aria-label={`Version ${index + 1} of ${count}`}>
+            <button
+                className="branch-switcher-btn"
+                onClick={() => onSwitch(ids[index - 1])}
+                disabled={disabled || index === 0}
+                aria-label="Previous version"
+                title="Previous version"
+            >
+                <ChevronLeft size={14} />
+            </button>
+            <span className="branch-switcher-count">
+                {index + 1}/{count}
+            </span>
+            <button
+                className="branch-switcher-btn"
+                onClick={() => onSwitch(ids[index + 1])}
+                disabled={disabled || index === count - 1}
+                aria-label="Next version"
+                title="Next version"
+            >
+                <ChevronRight size={14} />
+            </button>
+        </div>
+    );
+};
+
+export default memo(BranchSwitcher);
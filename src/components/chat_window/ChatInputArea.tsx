@@ -1,6 +1,10 @@
-import React, { memo } from 'react';
+import React, { memo, useRef, useState, useCallback } from 'react';
+import { Paperclip, Database } from 'lucide-react';
 import type { Trigger } from '../../triggers';
+import type { ChatAttachment, DataSession } from '../../types';
 import CommandContextMenu from './CommandContextMenu';
+import AttachmentChips from './AttachmentChips';
+import DataSessionPicker from './DataSessionPicker';
 import ModelSelector from '../modelSelector';
 import { SendIcon, StopIcon } from '../../assets/svg/chat_window';
 
@@ -21,6 +25,12 @@ interface ChatInputAreaProps {
     onModelChange: (model: string) => void;
     onCommandSelect: (trigger: Trigger, params?: Record<string, string>) => void;
     onCloseCommandMenu: () => void;
+    extraTriggers?: Trigger[];              // Project commands and saved prompts
+    // Attachments
+    attachments: ChatAttachment[];
+    onAttachFiles: (files: File[]) => void;
+    onAttachDataSession: (session: DataSession) => void;
+    onRemoveAttachment: (attachmentId: string) => void;
 }
 
 
@@ -40,16 +50,69 @@ const ChatInputArea: React.FC<ChatInputAreaProps> = ({
     onModelChange,
     onCommandSelect,
     onCloseCommandMenu,
+    extraTriggers,
+    attachments,
+    onAttachFiles,
+    onAttachDataSession,
+    onRemoveAttachment,
 }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [showSessionPicker, setShowSessionPicker] = useState(false);
+
+    const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        if (files.length > 0) onAttachFiles(files);
+        e.target.value = '';  // Allow re-selecting the same file
+    };
+
+    // Pasted files and screenshots become attachments; plain text pastes as usual
+    const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        const files = Array.from(e.clipboardData.files);
+        if (files.length > 0) {
+            e.preventDefault();
+            onAttachFiles(files);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        const files = Array.from(e.dataTransfer.files);
+        if (files.length > 0) {
+            e.preventDefault();
+            onAttachFiles(files);
+        }
+    };
+
+    const handleSessionSelect = (session: DataSession) => {
+        onAttachDataSession(session);
+        setShowSessionPicker(false);
+    };
+
+    const handleCloseSessionPicker = useCallback(() => {
+        setShowSessionPicker(false);
+    }, []);
+
+    const canSend = (input.trim().length > 0 || attachments.length > 0) && !isTyping;
+
     return (
         <div className="chat-input-area">
-            <div className="chat-input-wrapper">
+            <AttachmentChips
+                attachments={attachments}
+                onRemove={onRemoveAttachment}
+                className="chat-input-attachments"
+            />
+
+            <div
+                className="chat-input-wrapper"
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={handleDrop}
+            >
                 {/* Command Context Menu */}
                 <CommandContextMenu
                     isOpen={showCommandMenu}
                     searchQuery={commandSearch}
                     onSelect={onCommandSelect}
                     onClose={onCloseCommandMenu}
+                    extraTriggers={extraTriggers}
                 />
 
                 <textarea
@@ -58,11 +121,46 @@ const ChatInputArea: React.FC<ChatInputAreaProps> = ({
                     value={input}
                     onChange={onInputChange}
                     onKeyDown={onKeyDown}
+                    onPaste={handlePaste}
                     placeholder="Type your message..."
                     disabled={isTyping}
                     rows={1}
                 />
                 <div className="chat-input-actions">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        hidden
+                        onChange={handleFileInputChange}
+                    />
+                    <button
+                        className="input-action-btn"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isTyping}
+                        aria-label="Attach files"
+                        title="Attach files or images"
+                    >
+                        <Paperclip size={18} />
+                    </button>
+                    <div className="chat-input-session-anchor">
+                        <button
+                            className="input-action-btn"
+                            onMouseDown={(e) => e.stopPropagation()}  // Don't let the picker's outside-click close it first
+                            onClick={() => setShowSessionPicker(!showSessionPicker)}
+                            disabled={isTyping}
+                            aria-label="Attach data session"
+                            title="Attach a data session"
+                        >
+                            <Database size={18} />
+                        </button>
+                        {showSessionPicker && (
+                            <DataSessionPicker
+                                onSelect={handleSessionSelect}
+                                onClose={handleCloseSessionPicker}
+                            />
+                        )}
+                    </div>
                     <ModelSelector
                         value={selectedModel}
                         onChange={onModelChange}
@@ -82,7 +180,7 @@ const ChatInputArea: React.FC<ChatInputAreaProps> = ({
                         <button
                             className="send-btn"
                             onClick={onSend}
-                            disabled={!input.trim() || isTyping}
+                            disabled={!canSend}
                             aria-label="Send message"
                         >
                             <SendIcon />
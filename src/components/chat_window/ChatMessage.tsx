@@ -1,19 +1,62 @@
 import React, { memo } from 'react';
 import type { DisplayMessage, ContentBlock } from '../../types';
 import { formatMessageTime } from '../../services';
+import {
+    estimateCost,
+    normalizeUsage,
+    getTotalTokens,
+    formatTokenCount,
+    formatCost,
+    describeUsage,
+} from '../../utils/modelPricing';
+import { getMessageVersion } from '../../utils/messageBranches';
 
 import ThinkingBlock from '../ThinkingBlock';
 import ToolCallBlock from '../ToolCallBlock';
+import ToolCallGroup from '../ToolCallGroup';
 import SkillCallBlock from '../SkillCallBlock';
 import MessageContent from '../MessageContent';
 import MessageCopyButton from '../MessageCopyButton';
 import RegenResponseButton from '../RegenResponseButton';
 import MessageEditor from './MessageEditor';
+import AttachmentChips from './AttachmentChips';
+import BranchSwitcher from './BranchSwitcher';
 import TypingIndicator from './TypingIndicator';
 
+import { CloudOff } from 'lucide-react';
 import { RetryIcon, WarningIcon, EditIcon } from '../../assets/svg/chat_window';
 
 
+type ToolCallContentBlock = Extract<ContentBlock, { type: 'tool_call' }>;
+
+/** A content block to render on its own, or a run of tool calls that executed in parallel */
+type RenderItem =
+    | { kind: 'block'; block: ContentBlock; index: number }
+    | { kind: 'parallel'; group: string; blocks: { block: ToolCallContentBlock; index: number }[] };
+
+/**
+ * Collapse consecutive tool calls sharing a parallelGroup into a single item
+ */
+function groupParallelToolCalls(blocks: ContentBlock[]): RenderItem[] {
+    const items: RenderItem[] = [];
+
+    blocks.forEach((block, index) => {
+        if (block.type === 'tool_call' && block.parallelGroup) {
+            const last = items[items.length - 1];
+            if (last?.kind === 'parallel' && last.group === block.parallelGroup) {
+                last.blocks.push({ block, index });
+            } else {
+                items.push({ kind: 'parallel', group: block.parallelGroup, blocks: [{ block, index }] });
+            }
+            return;
+        }
+        items.push({ kind: 'block', block, index });
+    });
+
+    return items;
+}
+
+
 interface ChatMessageProps {
     message: DisplayMessage;
     index: number;
@@ -36,6 +79,11 @@ interface ChatMessageProps {
     onSaveEdit: (index: number) => void;
     onEditChange: (content: string) => void;
     onRegenerate: (index: number) => void;
+    onSwitchBranch: (messageId: number) => void;
+    canSwitchBranch: boolean;
+
+    // Shared view - copy only, no editing, regenerating or version switching
+    readOnly?: boolean;
 }
 
 
@@ -55,6 +103,9 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
     onSaveEdit,
     onEditChange,
     onRegenerate,
+    onSwitchBranch,
+    canSwitchBranch,
+    readOnly = false,
 }) => {
     const isEditing   = editingMessageId === message.id;
     const isStreaming = message.id === streamingMessageId;
@@ -62,6 +113,13 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
     // Use streaming blocks if this is the streaming message, otherwise use stored blocks
     const contentBlocks = isStreaming ? streamingContentBlocks : (message.contentBlocks || []);
 
+    // Token usage summary for finished assistant messages
+    const usage = message.usage ? normalizeUsage(message.model, message.usage) : null;
+    const usageCost = message.usage ? estimateCost(message.model, message.usage) : null;
+
+    // Position among the versions of this turn, when it has been regenerated or edited
+    const version = readOnly ? null : getMessageVersion(message);
+
     const handleEditKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === "Enter" && e.ctrlKey && !e.shiftKey) {
             e.preventDefault();
@@ -75,10 +133,11 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
         message.status === 'failed'    ? 'message-failed'    : '',
         message.status === 'sending'   ? 'message-sending'   : '',
         message.status === 'streaming' ? 'message-streaming' : '',
+        message.status === 'queued'    ? 'message-queued'    : '',
     ].filter(Boolean).join(' ');
 
     return (
-        <div className={`chat-message ${message.role} ${statusClasses}`}>
+        <div className={`chat-message ${message.role} ${statusClasses}`} data-message-id={message.serverId ?? message.id}>
             {/* Edit mode */}
             {isEditing ? (
                 <MessageEditor
@@ -93,7 +152,29 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                     {/* Render content blocks for assistant messages */}
                     {message.role === "assistant" && contentBlocks.length > 0 ? (
                         <div className="message-bubble markdown-content">
-                            {contentBlocks.map((block, blockIndex) => {
+                            {groupParallelToolCalls(contentBlocks).map((item) => {
+                                if (item.kind === 'parallel') {
+                                    return (
+                                        <ToolCallGroup
+                                            key={`parallel-${item.group}`}
+                                            count={item.blocks.length}
+                                            runningCount={item.blocks.filter(({ block }) => !block.isComplete).length}
+                                        >
+                                            {item.blocks.map(({ block, index }) => (
+                                                <ToolCallBlock
+                                                    key={block.callId ?? `tool-${index}`}
+                                                    name={block.name}
+                                                    params={block.params}
+                                                    result={block.result}
+                                                    isComplete={block.isComplete}
+                                                    approval={block.approval}
+                                                />
+                                            ))}
+                                        </ToolCallGroup>
+                                    );
+                                }
+
+                                const { block, index: blockIndex } = item;
                                 if (block.type === 'thinking') {
                                     return (
                                         <ThinkingBlock
@@ -118,11 +199,12 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                                     }
                                     return (
                                         <ToolCallBlock
-                                            key={`tool-${blockIndex}`}
+                                            key={block.callId ?? `tool-${blockIndex}`}
                                             name={block.name}
                                             params={block.params}
                                             result={block.result}
                                             isComplete={block.isComplete}
+                                            approval={block.approval}
                                         />
                                     );
                                 }
@@ -142,6 +224,13 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                     ) : (
                         /* Fallback for messages without contentBlocks (legacy or user messages) */
                         <>
+                            {message.attachments && message.attachments.length > 0 && (
+                                <AttachmentChips
+                                    attachments={message.attachments}
+                                    className="message-attachments"
+                                />
+                            )}
+
                             {/* Legacy thinking block for old assistant messages */}
                             {message.role === "assistant" && (message.thinking || (isStreaming && thinkingContent)) && (
                                 <ThinkingBlock
@@ -150,16 +239,18 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                                 />
                             )}
 
-                            <div className="message-bubble markdown-content">
-                                {message.status === 'streaming' && !message.content ? (
-                                    <TypingIndicator />
-                                ) : (
-                                    <MessageContent
-                                        content={message.content}
-                                        isStreaming={message.status === 'streaming'}
-                                    />
-                                )}
-                            </div>
+                            {(message.content || message.role === 'assistant') && (
+                                <div className="message-bubble markdown-content">
+                                    {message.status === 'streaming' && !message.content ? (
+                                        <TypingIndicator />
+                                    ) : (
+                                        <MessageContent
+                                            content={message.content}
+                                            isStreaming={message.status === 'streaming'}
+                                        />
+                                    )}
+                                </div>
+                            )}
                         </>
                     )}
                 </>
@@ -180,6 +271,14 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                 </div>
             )}
 
+            {/* Queued while offline */}
+            {message.status === 'queued' && message.role === 'user' && (
+                <div className="message-queued-indicator">
+                    <CloudOff size={14} />
+                    <span>Waiting for connection - will send automatically</span>
+                </div>
+            )}
+
             {/* Message meta */}
             <div className="message-meta">
                 {message.role === "assistant" ? (
@@ -190,15 +289,33 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                                     ? 'Streaming...' 
                                     : formatMessageTime(message.timestamp)}
                             </span>
+                            {usage && message.status === 'sent' && (
+                                <span
+                                    className="message-usage"
+                                    title={describeUsage(usage, usageCost)}
+                                >
+                                    {formatTokenCount(getTotalTokens(usage))} tokens
+                                    {usageCost !== null && ` · ${formatCost(usageCost)}`}
+                                </span>
+                            )}
                         </div>
                         {message.status === 'sent' && (
                             <div className="msg-btn-wrapper">
+                                {version && (
+                                    <BranchSwitcher
+                                        version={version}
+                                        disabled={!canSwitchBranch}
+                                        onSwitch={onSwitchBranch}
+                                    />
+                                )}
                                 <MessageCopyButton textContent={message.content} className="msg-copy-btn" />
-                                <RegenResponseButton
-                                    onRegen={() => onRegenerate(index)}
-                                    isRegenerating={isRegenerating}
-                                    className="msg-regenerate-btn"
-                                />
+                                {!readOnly && (
+                                    <RegenResponseButton
+                                        onRegen={() => onRegenerate(index)}
+                                        isRegenerating={isRegenerating}
+                                        className="msg-regenerate-btn"
+                                    />
+                                )}
                             </div>
                         )}
                     </>
@@ -206,7 +323,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                     <>
                         <div className="msg-btn-wrapper">
                             <MessageCopyButton textContent={message.content} className="msg-copy-btn" />
-                            {!isEditing && message.status !== 'failed' && (
+                            {!readOnly && !isEditing && message.status !== 'failed' && (
                                 <button
                                     onClick={() => onStartEdit(message.id, message.content)}
                                     className="msg-edit-btn"
@@ -216,11 +333,20 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                                     <EditIcon />
                                 </button>
                             )}
+                            {version && (
+                                <BranchSwitcher
+                                    version={version}
+                                    disabled={!canSwitchBranch}
+                                    onSwitch={onSwitchBranch}
+                                />
+                            )}
                         </div>
                         <div className="message-meta-time">
                             <span className="message-timestamp">
                                 {message.status === 'sending' 
                                     ? 'Sending...' 
+                                    : message.status === 'queued'
+                                    ? 'Queued'
                                     : formatMessageTime(message.timestamp)}
                             </span>
                         </div>
@@ -258,6 +384,9 @@ const arePropsEqual = (prevProps: ChatMessageProps, nextProps: ChatMessageProps)
     
     // Re-render if regenerating state changed
     if (prevProps.isRegenerating !== nextProps.isRegenerating) return false;
+
+    // Re-render if version switching became available or blocked
+    if (prevProps.canSwitchBranch !== nextProps.canSwitchBranch) return false;
     
     // Props are equal enough - skip re-render
     return true;
@@ -27,6 +27,10 @@ interface ChatMessageListProps {
     onEditChange: (content: string) => void;
     onRegenerate: (index: number) => void;
     
+    // Branching
+    onSwitchBranch: (messageId: number) => void;
+    canSwitchBranch: boolean;
+    
     // Pagination
     hasMore?: boolean;
     isLoadingMore?: boolean;
@@ -53,6 +57,9 @@ const ChatMessageList: React.FC<ChatMessageListProps> = ({
     onSaveEdit,
     onEditChange,
     onRegenerate,
+    // Branching
+    onSwitchBranch,
+    canSwitchBranch,
     // Pagination
     hasMore = false,
     isLoadingMore = false,
@@ -109,6 +116,8 @@ const ChatMessageList: React.FC<ChatMessageListProps> = ({
                     onSaveEdit={onSaveEdit}
                     onEditChange={onEditChange}
                     onRegenerate={onRegenerate}
+                    onSwitchBranch={onSwitchBranch}
+                    canSwitchBranch={canSwitchBranch}
                 />
             ))}
             <div ref={messagesEndRef} />
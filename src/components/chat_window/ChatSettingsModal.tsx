@@ -14,10 +14,13 @@ import {
     Pencil,
     Check,
     ChevronDown,
+    Coins,
 } from 'lucide-react';
-import type { ConversationProject } from '../../types';
-import type { ExportFormat } from '../../utils/exportChat';
+import type { ConversationProject, TokenUsage } from '../../types';
+import { formatTokenCount, formatCost, getTotalTokens, describeUsage } from '../../utils/modelPricing';
+import type { ExportFormat, ExportBranchOption } from '../../utils/exportChat';
 import ProjectPicker from './ProjectPicker';
+import ShareConversationSection from './ShareConversationSection';
 
 // ============================================================================
 // Types
@@ -30,6 +33,10 @@ interface ChatSettingsModalProps {
     conversationId: number | null;
     conversationTitle: string;
     messageCount: number;
+    totalMessageCount: number;          // Includes older messages that aren't loaded
+    usage: TokenUsage | null;
+    estimatedCost: number | null;
+    usageIsPartial?: boolean;           // Older messages aren't loaded, so usage only covers what is
     createdAt: string | null;
     currentModel: string;
     currentProvider: string;
@@ -43,7 +50,8 @@ interface ChatSettingsModalProps {
     onRename: (newTitle: string) => void;
     onDelete: () => void;
     onNewChat: () => void;
-    onExport: (format: ExportFormat) => void;
+    onExport: (format: ExportFormat, branchMessageId: number | null) => void;
+    exportBranchOptions?: ExportBranchOption[];      // Other versions whose branch can be exported
     onModelChange: (model: string) => void;
     onProviderChange: (provider: string) => void;
     onProjectsChange: (projectIds: number[]) => void;
@@ -111,6 +119,10 @@ const ChatSettingsModal: React.FC<ChatSettingsModalProps> = ({
     conversationId,
     conversationTitle,
     messageCount,
+    totalMessageCount,
+    usage,
+    estimatedCost,
+    usageIsPartial = false,
     createdAt,
     currentModel,
     currentProvider,
@@ -122,6 +134,7 @@ const ChatSettingsModal: React.FC<ChatSettingsModalProps> = ({
     onDelete,
     onNewChat,
     onExport,
+    exportBranchOptions = [],
     onModelChange,
     onProviderChange,
     onProjectsChange,
@@ -134,6 +147,7 @@ const ChatSettingsModal: React.FC<ChatSettingsModalProps> = ({
     const [showModelDropdown, setShowModelDropdown] = useState(false);
     const [showProviderDropdown, setShowProviderDropdown] = useState(false);
     const [showExportDropdown, setShowExportDropdown] = useState(false);
+    const [exportBranchId, setExportBranchId] = useState<number | null>(null);   // null = branch on screen
     const [showProjectPicker, setShowProjectPicker] = useState(false);
     const [pendingProjectIds, setPendingProjectIds] = useState<number[]>(currentProjectIds);
 
@@ -189,9 +203,9 @@ const ChatSettingsModal: React.FC<ChatSettingsModalProps> = ({
     }, [currentProvider, onProviderChange]);
 
     const handleExport = useCallback((format: ExportFormat) => {
-        onExport(format);
+        onExport(format, exportBranchId);
         setShowExportDropdown(false);
-    }, [onExport]);
+    }, [onExport, exportBranchId]);
 
     const handleProjectsConfirm = useCallback(() => {
         onProjectsChange(pendingProjectIds);
@@ -296,6 +310,21 @@ const ChatSettingsModal: React.FC<ChatSettingsModalProps> = ({
                                 <Cpu size={14} />
                                 <span>{formatModelName(currentModel)}</span>
                             </div>
+                            {usage && (
+                                <div
+                                    className="chat-settings-meta-item"
+                                    title={usageIsPartial
+                                        ? `${describeUsage(usage, estimatedCost)}\nCounts loaded messages only - scroll up to load older ones`
+                                        : describeUsage(usage, estimatedCost)}
+                                >
+                                    <Coins size={14} />
+                                    <span>
+                                        {formatTokenCount(getTotalTokens(usage))} tokens
+                                        {estimatedCost !== null && ` · ~${formatCost(estimatedCost)}`}
+                                        {usageIsPartial && ' in loaded messages'}
+                                    </span>
+                                </div>
+                            )}
                         </div>
                     </div>
 
@@ -456,6 +485,15 @@ const ChatSettingsModal: React.FC<ChatSettingsModalProps> = ({
                         )}
                     </div>
 
+                    {/* Sharing Section */}
+                    <div className="chat-settings-section">
+                        <h3 className="chat-settings-section-title">Sharing</h3>
+                        <ShareConversationSection
+                            conversationId={conversationId}
+                            messageCount={totalMessageCount}
+                        />
+                    </div>
+
                     {/* Actions Section */}
                     <div className="chat-settings-actions">
                         {/* Export */}
@@ -465,6 +503,7 @@ const ChatSettingsModal: React.FC<ChatSettingsModalProps> = ({
                                     className="chat-settings-btn-secondary"
                                     onClick={() => setShowExportDropdown(!showExportDropdown)}
                                     disabled={!conversationId || messageCount === 0}
+                                    title="Export the branch on screen or another version of a turn"
                                 >
                                     <Download size={16} />
                                     <span>Export</span>
@@ -472,6 +511,27 @@ const ChatSettingsModal: React.FC<ChatSettingsModalProps> = ({
                                 </button>
                                 {showExportDropdown && (
                                     <div className="chat-settings-dropdown-menu export-menu">
+                                        {exportBranchOptions.length > 0 && (
+                                            <>
+                                                <div className="export-menu-label">Branch</div>
+                                                <button
+                                                    className={`chat-settings-dropdown-item ${exportBranchId === null ? 'active' : ''}`}
+                                                    onClick={() => setExportBranchId(null)}
+                                                >
+                                                    On screen
+                                                </button>
+                                                {exportBranchOptions.map((option) => (
+                                                    <button
+                                                        key={option.messageId}
+                                                        className={`chat-settings-dropdown-item ${exportBranchId === option.messageId ? 'active' : ''}`}
+                                                        onClick={() => setExportBranchId(option.messageId)}
+                                                    >
+                                                        {option.label}
+                                                    </button>
+                                                ))}
+                                                <div className="export-menu-label">Format</div>
+                                            </>
+                                        )}
                                         <button
                                             className="chat-settings-dropdown-item"
                                             onClick={() => handleExport('markdown')}
@@ -1,6 +1,7 @@
 import React, { memo, useState, useCallback, useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
 import { FolderPlus } from 'lucide-react';
 import { NewChatIcon, SettingsIcon } from '../../assets/svg/chat_window';
+import type { ConnectionStatus } from '../../types';
 import '../../styles/chatToolbar.css';
 
 // Fun phrases for when the status is clicked
@@ -33,7 +34,10 @@ interface ChatToolbarProps {
     onNewProject: () => void;
     onOpenSettings: () => void;
     isStreaming?: boolean;
+    isReconnecting?: boolean;
     isInitialScrolling?: boolean;
+    connectionStatus?: ConnectionStatus;
+    pendingCount?: number;
 }
 
 export interface ChatToolbarRef {
@@ -45,7 +49,10 @@ const ChatToolbar = forwardRef<ChatToolbarRef, ChatToolbarProps>(({
     onNewProject,
     onOpenSettings,
     isStreaming = false,
-    isInitialScrolling = false
+    isReconnecting = false,
+    isInitialScrolling = false,
+    connectionStatus = 'online',
+    pendingCount = 0
 }, ref) => {
     // Easter egg state
     const [statusPhrase, setStatusPhrase] = useState<string | null>(null);
@@ -204,6 +211,21 @@ const ChatToolbar = forwardRef<ChatToolbarRef, ChatToolbarProps>(({
     // Compute visibility
     const shouldShow = !isHidden || isHoveredWhileHidden;
 
+    // Connection state outranks the easter egg but not an in-flight stream
+    const isOffline = connectionStatus === 'offline';
+    const isSyncing = connectionStatus === 'syncing';
+
+    const dotClass = isReconnecting ? 'reconnecting'
+        : isOffline ? 'offline'
+        : isSyncing ? 'syncing'
+        : isStreaming ? 'streaming' : '';
+
+    const statusText = isReconnecting ? 'Reconnecting...'
+        : isOffline ? (pendingCount > 0 ? `Offline · ${pendingCount} queued` : 'Offline')
+        : isSyncing ? (pendingCount > 0 ? `Syncing ${pendingCount}...` : 'Syncing...')
+        : isStreaming ? 'Responding...'
+        : (statusPhrase || 'Ready');
+
     return (
         <>
             {/* Trigger zone - only active when toolbar is hidden */}
@@ -230,14 +252,14 @@ const ChatToolbar = forwardRef<ChatToolbarRef, ChatToolbarProps>(({
                         aria-label="Status"
                     >
                         <span className="toolbar-status-dot-wrapper">
-                            <span className={`toolbar-status-dot ${isStreaming ? 'streaming' : ''}`}></span>
+                            <span className={`toolbar-status-dot ${dotClass}`}></span>
                             {isPulsing && <span className="toolbar-status-pulse"></span>}
                         </span>
                         <span 
                             key={animKey}
                             className={`toolbar-status-text ${statusPhrase ? 'phrase' : ''} ${isResetting ? 'resetting' : ''}`}
                         >
-                            {isStreaming ? 'Responding...' : (statusPhrase || 'Ready')}
+                            {statusText}
                         </span>
                     </button>
 
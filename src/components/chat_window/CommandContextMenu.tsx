@@ -1,6 +1,13 @@
-import React, { useState, useEffect, useCallback, useRef, memo } from 'react';
-import { getAvailableTriggers, type Trigger } from '../../triggers';
-import { useAuth } from '../../auth';
+import React, { useState, useEffect, useCallback, useMemo, useRef, memo } from 'react';
+import {
+    getAvailableTriggers,
+    getDateSuggestions,
+    getUsage,
+    validateParameter,
+    type Trigger,
+    type TriggerSuggestion
+} from '../../triggers';
+import { useAuth, useApi } from '../../auth';
 import '../../styles/commandContextMenu.css';
 
 
@@ -29,6 +36,7 @@ interface CommandContextMenuProps {
     onSelect: (trigger: Trigger, params?: Record<string, string>) => void;
     onClose: () => void;
     position?: { bottom: number; left: number; width: number };
+    extraTriggers?: Trigger[];
 }
 
 
@@ -38,6 +46,16 @@ interface ParamInputState {
 }
 
 
+interface SuggestionState {
+    param: string;
+    items: TriggerSuggestion[];
+}
+
+
+const SUGGEST_DEBOUNCE_MS = 150;
+const MAX_SUGGESTIONS = 8;
+
+
 // Component
 
 const CommandContextMenu: React.FC<CommandContextMenuProps> = ({
@@ -45,30 +63,40 @@ const CommandContextMenu: React.FC<CommandContextMenuProps> = ({
     searchQuery,
     onSelect,
     onClose,
-    position
+    position,
+    extraTriggers
 }) => {
     const { user } = useAuth();
+    const api = useApi();
     const [selectedIndex, setSelectedIndex] = useState(0);
     const [paramInput, setParamInput] = useState<ParamInputState | null>(null);
+    const [paramErrors, setParamErrors] = useState<Record<string, string>>({});
+    const [focusedParam, setFocusedParam] = useState<string | null>(null);
+    const [suggestions, setSuggestions] = useState<SuggestionState | null>(null);
+    const [suggestionsOpen, setSuggestionsOpen] = useState(true);
+    const [activeSuggestion, setActiveSuggestion] = useState(-1);
     const menuRef = useRef<HTMLDivElement>(null);
     const paramInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
 
 
     // Get available triggers filtered by search
 
-    const availableTriggers = getAvailableTriggers(user?.role);
-
-    const filteredTriggers = availableTriggers.filter(trigger =>
-        trigger.command.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        trigger.description.toLowerCase().includes(searchQuery.toLowerCase())
-    );
+    const filteredTriggers = useMemo(() => {
+        const query = searchQuery.toLowerCase();
+        return getAvailableTriggers(user?.role, undefined, extraTriggers).filter(trigger =>
+            trigger.command.toLowerCase().includes(query) ||
+            trigger.description.toLowerCase().includes(query)
+        );
+    }, [user?.role, extraTriggers, searchQuery]);
 
 
     // Reset selection when filtered results change
 
-    useEffect(() => {
+    const [selectionQuery, setSelectionQuery] = useState(searchQuery);
+    if (selectionQuery !== searchQuery) {
+        setSelectionQuery(searchQuery);
         setSelectedIndex(0);
-    }, [searchQuery]);
+    }
 
 
     // Focus first param input when param popout opens
@@ -84,6 +112,133 @@ const CommandContextMenu: React.FC<CommandContextMenuProps> = ({
     }, [paramInput]);
 
 
+    // Autocomplete for the focused parameter - its own suggest(), or common dates
+
+    const focusedDefinition = paramInput?.trigger.parameters?.find(p => p.name === focusedParam);
+    const focusedValue = (focusedParam && paramInput?.values[focusedParam]) || '';
+
+    useEffect(() => {
+        if (!focusedDefinition) return;
+
+        const getSuggestions = focusedDefinition.suggest
+            ?? (focusedDefinition.type === 'date' ? (query: string) => getDateSuggestions(query) : null);
+        if (!getSuggestions) return;
+
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const items = await getSuggestions(focusedValue, api);
+                if (!cancelled) {
+                    setSuggestions({ param: focusedDefinition.name, items: items.slice(0, MAX_SUGGESTIONS) });
+                    setActiveSuggestion(-1);
+                }
+            } catch (err) {
+                console.error('[CommandContextMenu] Failed to load suggestions:', err);
+            }
+        }, SUGGEST_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [focusedDefinition, focusedValue, api]);
+
+    const visibleSuggestions = useMemo(
+        () => suggestionsOpen && suggestions && suggestions.param === focusedParam
+            ? suggestions.items
+            : [],
+        [suggestionsOpen, suggestions, focusedParam]
+    );
+
+
+    const clearParamError = useCallback((paramName: string) => {
+        setParamErrors(prev => {
+            if (!(paramName in prev)) return prev;
+            const next = { ...prev };
+            delete next[paramName];
+            return next;
+        });
+    }, []);
+
+
+    // Fill the focused field from a suggestion, then move on to the next field
+
+    const handleSuggestionPick = useCallback((suggestion: TriggerSuggestion) => {
+        if (!paramInput || !focusedParam) return;
+
+        setParamInput({
+            ...paramInput,
+            values: {
+                ...paramInput.values,
+                [focusedParam]: suggestion.value
+            }
+        });
+        clearParamError(focusedParam);
+        setSuggestionsOpen(false);
+
+        const params = paramInput.trigger.parameters ?? [];
+        const next = params[params.findIndex(p => p.name === focusedParam) + 1];
+        if (next) {
+            paramInputRefs.current[next.name]?.focus();
+        }
+    }, [paramInput, focusedParam, clearParamError]);
+
+
+    // Handle trigger selection
+
+    const handleTriggerSelect = useCallback((trigger: Trigger) => {
+        // If trigger has parameters, show param input
+        if (trigger.parameters && trigger.parameters.length > 0) {
+            setParamInput({
+                trigger,
+                values: {}
+            });
+            setParamErrors({});
+        } else {
+            // No params, execute immediately
+            onSelect(trigger);
+        }
+    }, [onSelect]);
+
+
+    // Handle param submit
+
+    const handleParamSubmit = useCallback(() => {
+        if (!paramInput) return;
+
+        const { trigger, values } = paramInput;
+
+        // Check required params, then each value's type and format
+        const errors: Record<string, string> = {};
+        for (const param of trigger.parameters ?? []) {
+            const value = values[param.name]?.trim();
+            if (!value) {
+                if (param.required) errors[param.name] = 'Required';
+                continue;
+            }
+            const result = validateParameter(param, value);
+            if (!result.ok) errors[param.name] = result.error;
+        }
+
+        const invalid = trigger.parameters?.filter(p => errors[p.name]) ?? [];
+        if (invalid.length > 0) {
+            setParamErrors(errors);
+
+            // Focus first invalid field
+            const input = paramInputRefs.current[invalid[0].name];
+            if (input) {
+                input.focus();
+                input.classList.add('shake');
+                setTimeout(() => input.classList.remove('shake'), 500);
+            }
+            return;
+        }
+
+        onSelect(trigger, values);
+        setParamInput(null);
+    }, [paramInput, onSelect]);
+
+
     // Keyboard navigation
 
     const handleKeyDown = useCallback((e: KeyboardEvent) => {
@@ -91,9 +246,24 @@ const CommandContextMenu: React.FC<CommandContextMenuProps> = ({
 
         // If param input is open, handle differently
         if (paramInput) {
+            const hasSuggestions = visibleSuggestions.length > 0;
+
             if (e.key === 'Escape') {
                 e.preventDefault();
-                setParamInput(null);
+                if (hasSuggestions) {
+                    setSuggestionsOpen(false);
+                } else {
+                    setParamInput(null);
+                }
+            } else if (e.key === 'ArrowDown' && hasSuggestions) {
+                e.preventDefault();
+                setActiveSuggestion(prev => prev < visibleSuggestions.length - 1 ? prev + 1 : 0);
+            } else if (e.key === 'ArrowUp' && hasSuggestions) {
+                e.preventDefault();
+                setActiveSuggestion(prev => prev > 0 ? prev - 1 : visibleSuggestions.length - 1);
+            } else if ((e.key === 'Enter' || e.key === 'Tab') && hasSuggestions && activeSuggestion >= 0) {
+                e.preventDefault();
+                handleSuggestionPick(visibleSuggestions[activeSuggestion]);
             } else if (e.key === 'Enter') {
                 e.preventDefault();
                 handleParamSubmit();
@@ -135,7 +305,18 @@ const CommandContextMenu: React.FC<CommandContextMenuProps> = ({
                 }
                 break;
         }
-    }, [isOpen, filteredTriggers, selectedIndex, paramInput, onClose]);
+    }, [
+        isOpen,
+        filteredTriggers,
+        selectedIndex,
+        paramInput,
+        visibleSuggestions,
+        activeSuggestion,
+        onClose,
+        handleSuggestionPick,
+        handleParamSubmit,
+        handleTriggerSelect,
+    ]);
 
 
     useEffect(() => {
@@ -156,22 +337,6 @@ const CommandContextMenu: React.FC<CommandContextMenuProps> = ({
     }, [selectedIndex, isOpen]);
 
 
-    // Handle trigger selection
-
-    const handleTriggerSelect = (trigger: Trigger) => {
-        // If trigger has parameters, show param input
-        if (trigger.parameters && trigger.parameters.length > 0) {
-            setParamInput({
-                trigger,
-                values: {}
-            });
-        } else {
-            // No params, execute immediately
-            onSelect(trigger);
-        }
-    };
-
-
     // Handle param value change
 
     const handleParamChange = (paramName: string, value: string) => {
@@ -184,37 +349,11 @@ const CommandContextMenu: React.FC<CommandContextMenuProps> = ({
                 [paramName]: value
             }
         });
+        setSuggestionsOpen(true);
+        clearParamError(paramName);
     };
 
 
-    // Handle param submit
-
-    const handleParamSubmit = () => {
-        if (!paramInput) return;
-
-        const { trigger, values } = paramInput;
-
-        // Check required params
-        const missingRequired = trigger.parameters?.filter(
-            p => p.required && !values[p.name]?.trim()
-        );
-
-        if (missingRequired && missingRequired.length > 0) {
-            // Focus first missing required field
-            const firstMissing = missingRequired[0];
-            const input = paramInputRefs.current[firstMissing.name];
-            if (input) {
-                input.focus();
-                input.classList.add('shake');
-                setTimeout(() => input.classList.remove('shake'), 500);
-            }
-            return;
-        }
-
-        onSelect(trigger, values);
-        setParamInput(null);
-    };
-
 
     // Check if can submit params
 
@@ -296,6 +435,7 @@ const CommandContextMenu: React.FC<CommandContextMenuProps> = ({
                     </div>
 
                     <p className="param-description">{paramInput.trigger.description}</p>
+                    <code className="param-usage">{getUsage(paramInput.trigger)}</code>
 
                     <div className="param-fields">
                         {paramInput.trigger.parameters?.map(param => (
@@ -308,10 +448,38 @@ const CommandContextMenu: React.FC<CommandContextMenuProps> = ({
                                     ref={el => { paramInputRefs.current[param.name] = el; }}
                                     id={`param-${param.name}`}
                                     type={param.type === 'number' ? 'number' : 'text'}
+                                    className={paramErrors[param.name] ? 'invalid' : undefined}
                                     placeholder={param.description || `Enter ${param.name}`}
                                     value={paramInput.values[param.name] || ''}
                                     onChange={e => handleParamChange(param.name, e.target.value)}
+                                    onFocus={() => { setFocusedParam(param.name); setSuggestionsOpen(true); }}
+                                    onBlur={() => setFocusedParam(prev => prev === param.name ? null : prev)}
+                                    autoComplete="off"
+                                    aria-invalid={!!paramErrors[param.name]}
                                 />
+                                {paramErrors[param.name] && (
+                                    <span className="param-error">{paramErrors[param.name]}</span>
+                                )}
+                                {focusedParam === param.name && visibleSuggestions.length > 0 && (
+                                    <ul className="param-suggestions" role="listbox">
+                                        {visibleSuggestions.map((suggestion, index) => (
+                                            <li
+                                                key={suggestion.value + (suggestion.label ?? '')}
+                                                className={`param-suggestion ${index === activeSuggestion ? 'active' : ''}`}
+                                                role="option"
+                                                aria-selected={index === activeSuggestion}
+                                                // mousedown keeps focus in the input so the list doesn't vanish first
+                                                onMouseDown={e => { e.preventDefault(); handleSuggestionPick(suggestion); }}
+                                                onMouseEnter={() => setActiveSuggestion(index)}
+                                            >
+                                                <span className="param-suggestion-label">{suggestion.label ?? suggestion.value}</span>
+                                                {suggestion.detail && (
+                                                    <span className="param-suggestion-detail">{suggestion.detail}</span>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
                             </div>
                         ))}
                     </div>
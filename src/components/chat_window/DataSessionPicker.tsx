@@ -0,0 +1,90 @@
+/**
+ * DataSessionPicker - Popover for attaching an existing DataSession to a message
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Database } from 'lucide-react';
+import { useApi } from '../../auth';
+import type { DataSession, DataSessionsResponse } from '../../types';
+import { formatToolName } from '../../services';
+
+interface DataSessionPickerProps {
+    onSelect: (session: DataSession) => void;
+    onClose: () => void;
+}
+
+const DataSessionPicker: React.FC<DataSessionPickerProps> = ({ onSelect, onClose }) => {
+    const api = useApi();
+    const [sessions, setSessions] = useState<DataSession[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [searchQuery, setSearchQuery] = useState('');
+    const pickerRef = useRef<HTMLDivElement>(null);
+
+    // Load recent successful sessions
+    useEffect(() => {
+        api.get<DataSessionsResponse>('/data/sessions?limit=25&status=success')
+            .then((response) => setSessions(response.sessions))
+            .catch((err) => console.error('[DataSessionPicker] Failed to load sessions:', err))
+            .finally(() => setIsLoading(false));
+    }, [api]);
+
+    // Close on outside click
+    useEffect(() => {
+        const handleClickOutside = (e: MouseEvent) => {
+            if (pickerRef.current && !pickerRef.current.contains(e.target as Node)) {
+                onClose();
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [onClose]);
+
+    const query = searchQuery.toLowerCase();
+    const filteredSessions = sessions.filter(s =>
+        (s.title || '').toLowerCase().includes(query) || s.tool_name.toLowerCase().includes(query)
+    );
+
+    return (
+        <div className="data-session-picker" ref={pickerRef}>
+            <input
+                type="text"
+                className="data-session-picker-input"
+                placeholder="Search data sessions..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && onClose()}
+                autoFocus
+            />
+            <div className="data-session-picker-list">
+                {isLoading && (
+                    <div className="data-session-picker-empty">Loading sessions...</div>
+                )}
+                {!isLoading && filteredSessions.length === 0 && (
+                    <div className="data-session-picker-empty">
+                        {searchQuery ? `No sessions match "${searchQuery}"` : 'No data sessions yet'}
+                    </div>
+                )}
+                {filteredSessions.map((session) => (
+                    <button
+                        key={session.id}
+                        type="button"
+                        className="data-session-picker-item"
+                        onClick={() => onSelect(session)}
+                    >
+                        <Database size={14} />
+                        <span className="data-session-picker-name">
+                            {session.title || formatToolName(session.tool_name)}
+                        </span>
+                        {session.row_count != null && (
+                            <span className="data-session-picker-rows">
+                                {session.row_count.toLocaleString()} rows
+                            </span>
+                        )}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default DataSessionPicker;
@@ -0,0 +1,192 @@
+/**
+ * ShareConversationSection - Read-only share link controls for ChatSettingsModal
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link2, Copy, Check, RefreshCw, Trash2 } from 'lucide-react';
+import { useApi } from '../../auth';
+import { useToast } from '../Toast';
+import { useConfirm } from '../ConfirmDialog';
+import type { ConversationShare, ConversationShareResponse } from '../../types';
+
+interface ShareConversationSectionProps {
+    conversationId: number | null;
+    messageCount: number;
+}
+
+/**
+ * Full URL of the shared view for a token
+ */
+function getShareUrl(token: string): string {
+    return `${window.location.origin}/shared/${token}`;
+}
+
+const ShareConversationSection: React.FC<ShareConversationSectionProps> = ({
+    conversationId,
+    messageCount,
+}) => {
+    const api = useApi();
+    const { showToast } = useToast();
+    const { confirm } = useConfirm();
+    const [share, setShare] = useState<ConversationShare | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [copied, setCopied] = useState(false);
+
+    // Load the existing link, if any
+    useEffect(() => {
+        setShare(null);
+        if (!conversationId) return;
+
+        let cancelled = false;
+        setIsLoading(true);
+        api.get<ConversationShareResponse>(`/conversations/${conversationId}/share`)
+            .then((response) => {
+                if (!cancelled) setShare(response.share);
+            })
+            .catch((err) => console.error('[ShareConversationSection] Failed to load share:', err))
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [api, conversationId]);
+
+    const copyLink = useCallback(async (token: string) => {
+        try {
+            await navigator.clipboard.writeText(getShareUrl(token));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (err) {
+            console.error('[ShareConversationSection] Failed to copy link:', err);
+            showToast('Could not copy the link - select it and copy manually', 'error');
+        }
+    }, [showToast]);
+
+    // Creating and updating are the same call - the server re-captures the snapshot
+    const handleSaveShare = useCallback(async () => {
+        if (!conversationId) return;
+
+        const isUpdate = share !== null;
+        setIsSaving(true);
+        try {
+            const saved = await api.post<ConversationShare>(`/conversations/${conversationId}/share`);
+            setShare(saved);
+            if (isUpdate) {
+                showToast('Share link updated to the latest messages', 'success');
+            } else {
+                await copyLink(saved.token);
+                showToast('Share link created and copied', 'success');
+            }
+        } catch (err) {
+            console.error('[ShareConversationSection] Failed to save share:', err);
+            showToast(err instanceof Error ? err.message : 'Failed to create share link', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    }, [api, conversationId, share, copyLink, showToast]);
+
+    const handleRevoke = useCallback(async () => {
+        if (!conversationId) return;
+
+        const confirmed = await confirm({
+            title: 'Stop Sharing',
+            message: 'Anyone with the link will lose access. Copies already forked into their workspace are not affected.',
+            confirmText: 'Stop Sharing',
+            cancelText: 'Cancel',
+            variant: 'danger',
+        });
+        if (!confirmed) return;
+
+        setIsSaving(true);
+        try {
+            await api.delete(`/conversations/${conversationId}/share`);
+            setShare(null);
+            showToast('Share link revoked', 'success');
+        } catch (err) {
+            console.error('[ShareConversationSection] Failed to revoke share:', err);
+            showToast('Failed to revoke share link', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    }, [api, conversationId, confirm, showToast]);
+
+    if (!share) {
+        return (
+            <div className="chat-settings-share-row">
+                <div className="chat-settings-toggle-info">
+                    <span className="chat-settings-toggle-label">Share link</span>
+                    <span className="chat-settings-toggle-description">
+                        {isLoading
+                            ? 'Checking for an existing link...'
+                            : 'Teammates with the link can read this conversation and continue it in their own workspace'}
+                    </span>
+                </div>
+                <button
+                    className="chat-settings-btn-secondary"
+                    onClick={handleSaveShare}
+                    disabled={!conversationId || messageCount === 0 || isLoading || isSaving}
+                >
+                    <Link2 size={16} />
+                    <span>{isSaving ? 'Creating...' : 'Create link'}</span>
+                </button>
+            </div>
+        );
+    }
+
+    const isStale = share.message_count !== messageCount;
+
+    return (
+        <div className="chat-settings-share">
+            <div className="chat-settings-share-link">
+                <input
+                    type="text"
+                    className="chat-settings-share-input"
+                    value={getShareUrl(share.token)}
+                    onFocus={(e) => e.target.select()}
+                    readOnly
+                    aria-label="Share link"
+                />
+                <button
+                    className="chat-settings-btn-secondary"
+                    onClick={() => copyLink(share.token)}
+                    aria-label="Copy share link"
+                >
+                    {copied ? <Check size={16} /> : <Copy size={16} />}
+                    <span>{copied ? 'Copied' : 'Copy'}</span>
+                </button>
+            </div>
+
+            <div className="chat-settings-share-footer">
+                <span className="chat-settings-toggle-description">
+                    {share.message_count} message{share.message_count !== 1 ? 's' : ''} shared
+                    {' · '}{share.view_count} view{share.view_count !== 1 ? 's' : ''}
+                    {isStale && ' · newer messages are not included'}
+                </span>
+                <div className="chat-settings-share-actions">
+                    <button
+                        className="chat-settings-btn-ghost"
+                        onClick={handleSaveShare}
+                        disabled={isSaving || !isStale}
+                        title="Include the latest messages in the shared view"
+                    >
+                        <RefreshCw size={14} />
+                        <span>Update</span>
+                    </button>
+                    <button
+                        className="chat-settings-btn-ghost chat-settings-share-revoke"
+                        onClick={handleRevoke}
+                        disabled={isSaving}
+                    >
+                        <Trash2 size={14} />
+                        <span>Stop sharing</span>
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShareConversationSection;
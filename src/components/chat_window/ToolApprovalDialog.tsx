@@ -0,0 +1,187 @@
+/**
+ * ToolApprovalDialog - Asks the user to approve or deny a paused write/delete tool call
+ *
+ * Shown while the backend holds a filesystem tool call open. Uses the
+ * ConfirmDialog look, widened to fit a params and diff/content preview.
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { FilePen, Trash2 } from 'lucide-react';
+import Checkbox from '../Checkbox';
+import type { ToolApprovalRequest } from '../../types/approval';
+import '../../styles/confirmDialog.css';
+import '../../styles/toolApprovalDialog.css';
+
+interface ToolApprovalDialogProps {
+    request: ToolApprovalRequest;
+    queuedCount: number;
+    onRespond: (approvalId: string, approved: boolean, alwaysAllow: boolean) => Promise<void>;
+}
+
+
+// Format params as readable key: value lines
+const formatParams = (params: Record<string, unknown>): string => {
+    return Object.entries(params)
+        .map(([key, value]) => {
+            const strValue = typeof value === 'string'
+                ? value
+                : JSON.stringify(value, null, 2);
+            return `${key}: ${strValue}`;
+        })
+        .join('\n');
+};
+
+
+const getDiffLineClass = (line: string): string => {
+    if (line.startsWith('+++') || line.startsWith('---')) return 'diff-line-file';
+    if (line.startsWith('@@')) return 'diff-line-hunk';
+    if (line.startsWith('+')) return 'diff-line-added';
+    if (line.startsWith('-')) return 'diff-line-removed';
+    return '';
+};
+
+
+const ToolApprovalDialog: React.FC<ToolApprovalDialogProps> = ({ request, queuedCount, onRespond }) => {
+    const denyButtonRef = useRef<HTMLButtonElement>(null);
+    const [alwaysAllow, setAlwaysAllow] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const isDelete = request.operation === 'delete';
+    const variant = isDelete ? 'danger' : 'warning';
+    const hasParams = request.params && Object.keys(request.params).length > 0;
+    const canRemember = request.folder_id !== undefined;
+
+
+    const respond = useCallback(async (approved: boolean) => {
+        if (isSubmitting) return;
+        setIsSubmitting(true);
+        try {
+            await onRespond(request.approval_id, approved, alwaysAllow);
+        } finally {
+            setIsSubmitting(false);
+        }
+    }, [isSubmitting, onRespond, request.approval_id, alwaysAllow]);
+
+
+    // Focus Deny - a stray Enter must not approve a write or delete
+    useEffect(() => {
+        denyButtonRef.current?.focus();
+    }, []);
+
+
+    // Escape denies - the turn can't continue without a decision
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                respond(false);
+            }
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [respond]);
+
+
+    // Lock body scroll while open
+    useEffect(() => {
+        document.body.style.overflow = 'hidden';
+        return () => {
+            document.body.style.overflow = '';
+        };
+    }, []);
+
+
+    return (
+        <div className="confirm-backdrop">
+            <div
+                className={`confirm-dialog confirm-${variant} tool-approval-dialog`}
+                role="alertdialog"
+                aria-modal="true"
+                aria-labelledby="tool-approval-title"
+                aria-describedby="tool-approval-message"
+            >
+                <div className={`confirm-icon confirm-icon-${variant}`}>
+                    {isDelete ? <Trash2 size={24} /> : <FilePen size={24} />}
+                </div>
+
+                <div className="confirm-content">
+                    <h3 id="tool-approval-title" className="confirm-title">
+                        {isDelete ? 'Allow Atlas to delete a file?' : 'Allow Atlas to write a file?'}
+                    </h3>
+                    <p id="tool-approval-message" className="confirm-message">
+                        <code className="tool-approval-name">{request.name}</code>
+                        {request.path && (
+                            <>
+                                {' '}wants to {request.operation}{' '}
+                                <span className="tool-approval-path">{request.path}</span>
+                            </>
+                        )}
+                    </p>
+                    {queuedCount > 1 && (
+                        <span className="tool-approval-queue">
+                            1 of {queuedCount} pending requests
+                        </span>
+                    )}
+                </div>
+
+                {request.diff ? (
+                    <div className="tool-approval-section">
+                        <div className="tool-approval-label">Changes</div>
+                        <pre className="tool-approval-preview tool-approval-diff">
+                            {request.diff.split('\n').map((line, i) => (
+                                <span key={i} className={getDiffLineClass(line)}>{line}{'\n'}</span>
+                            ))}
+                        </pre>
+                    </div>
+                ) : request.preview ? (
+                    <div className="tool-approval-section">
+                        <div className="tool-approval-label">
+                            {isDelete ? 'Current content' : 'New content'}
+                        </div>
+                        <pre className="tool-approval-preview">{request.preview}</pre>
+                    </div>
+                ) : null}
+
+                {hasParams && (
+                    <details className="tool-approval-section tool-approval-params">
+                        <summary className="tool-approval-label">Parameters</summary>
+                        <pre className="tool-approval-preview">{formatParams(request.params!)}</pre>
+                    </details>
+                )}
+
+                {canRemember && (
+                    <div className="tool-approval-remember">
+                        <Checkbox
+                            checked={alwaysAllow}
+                            onChange={setAlwaysAllow}
+                            disabled={isSubmitting}
+                            label={`Always allow ${isDelete ? 'deletes' : 'writes'} in ${request.folder_path ?? 'this folder'}`}
+                            size="small"
+                        />
+                    </div>
+                )}
+
+                <div className="confirm-actions">
+                    <button
+                        ref={denyButtonRef}
+                        className="confirm-btn confirm-btn-cancel"
+                        onClick={() => respond(false)}
+                        disabled={isSubmitting}
+                    >
+                        Deny
+                    </button>
+                    <button
+                        className={`confirm-btn confirm-btn-confirm confirm-btn-${variant}`}
+                        onClick={() => respond(true)}
+                        disabled={isSubmitting}
+                    >
+                        {isSubmitting ? 'Sending...' : isDelete ? 'Allow Delete' : 'Allow Write'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ToolApprovalDialog;
@@ -7,10 +7,20 @@ import { useToast } from "../Toast";
 import { useConfirm } from "../ConfirmDialog";
 import { executeTrigger } from "../../triggers";
 import type { Trigger } from "../../triggers";
-import type { DisplayMessage, ChatWindowProps, ConversationProject } from "../../types";
-import { exportChat } from "../../utils/exportChat";
+import type {
+    DisplayMessage,
+    ChatWindowProps,
+    ConversationProject,
+    ConversationBranchResponse,
+    DataSession,
+} from "../../types";
+import { exportChat, getExportBranchOptions } from "../../utils/exportChat";
+import { readFileAttachment, createDataSessionAttachment, MAX_ATTACHMENTS } from "../../utils/attachments";
+import { estimateCost, normalizeUsage, sumUsage } from "../../utils/modelPricing";
+import { getVersionIds } from "../../utils/messageBranches";
 import type { ExportFormat } from "../../utils/exportChat";
 import { publicApi } from "../../services/api";
+import { useConnectionStore, useConnectionStatus, usePendingCount } from "../../store";
 
 // Hooks
 import {
@@ -18,7 +28,11 @@ import {
     useChatInput,
     useMessageEditor,
     useStreamingChat,
+    usePromptTriggers,
+    useProjectTriggers,
 } from "../../hooks";
+import type { ChatProjects } from "../../hooks";
+import { convertToDisplayMessage } from "../../hooks/chat/useChatMessages";
 
 // Components
 import ChatToolbar from "./ChatToolbar";
@@ -27,6 +41,7 @@ import ChatMessageList from "./ChatMessageList";
 import ChatInputArea from "./ChatInputArea";
 import ChatSettingsModal from "./ChatSettingsModal";
 import ScrollToBottom from "./ScrollToBottom";
+import ToolApprovalDialog from "./ToolApprovalDialog";
 import LoadingSpinner from "../loadingSpinner";
 import { createWelcomeMessage } from "./constants";
 
@@ -50,6 +65,10 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     initialMessages,
     onConversationCreated,
 
+    // Branching
+    onSwitchBranch,
+    branchRevision = 0,
+
     // Model state (lifted to parent)
     selectedModel,
     currentProvider,
@@ -58,6 +77,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
     // Pagination state
     hasMoreMessages = false,
+    unloadedMessageCount = 0,
     isLoadingMoreMessages = false,
     onLoadMoreMessages,
 
@@ -99,14 +119,43 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     });
     const [projects, setProjects] = useState<ConversationProject[]>([]);
     const [currentProjectIds, setCurrentProjectIds] = useState<number[]>([]);
+    // The load behind currentProjectIds, so a message sent before it finishes can wait for it
+    const projectsLoadRef = useRef<{ conversationId: number; load: Promise<number[]> } | null>(null);
+
+
+    // ========================================================================
+    // Custom Commands
+    // ========================================================================
+
+    // Every project this chat belongs to - their commands, instructions and knowledge files apply.
+    // Project commands come before saved prompts, so a project's /rfi wins over a personal one
+    const chatProjectIds = useMemo(() => [...new Set([
+        ...(activeProjectId ? [activeProjectId] : []),
+        ...currentProjectIds,
+    ])], [activeProjectId, currentProjectIds]);
+
+    const projectTriggers = useProjectTriggers(chatProjectIds);
+    const promptTriggers  = usePromptTriggers();
+    const extraTriggers   = useMemo(
+        () => [...projectTriggers, ...promptTriggers],
+        [projectTriggers, promptTriggers]
+    );
 
 
     // ========================================================================
     // Initialize Hooks
     // ========================================================================
 
-    const chatMessages = useChatMessages(initialMessages, activeConversationId, onConversationCreated, user?.display_name);
+    const chatMessages = useChatMessages(
+        initialMessages,
+        activeConversationId,
+        onConversationCreated,
+        user?.display_name,
+        branchRevision
+    );
     const chatInput    = useChatInput();
+    const connectionStatus = useConnectionStatus();
+    const pendingCount     = usePendingCount();
     const editor       = useMessageEditor();
 
     // Create a model-like object for useStreamingChat compatibility
@@ -117,13 +166,26 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         isReady: isModelReady,
     }), [selectedModel, currentProvider, onModelChange, isModelReady]);
 
+    // An open conversation is filed under its own projects - activeProjectId only covers new chats
+    const getChatProjects = useCallback(async (): Promise<ChatProjects> => {
+        const pending = projectsLoadRef.current;
+        const conversationProjectIds = pending && pending.conversationId === activeConversationId
+            ? await pending.load
+            : [];
+        const projectIds = [...new Set([
+            ...(activeProjectId ? [activeProjectId] : []),
+            ...conversationProjectIds,
+        ])];
+        return { projectId: projectIds[0] ?? null, projectIds };
+    }, [activeConversationId, activeProjectId]);
+
     const streaming = useStreamingChat(
         api,
         chatMessages,
         chatModel,
         showToast,
         onConversationCreated,
-        activeProjectId
+        getChatProjects
     );
 
 
@@ -159,6 +221,26 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         }
     }, [externalPrompt, streaming.isTyping, streaming.sendMessage, onPromptConsumed]);
 
+    // Queued messages on screen are resent here so the reply streams in;
+    // the background outbox sync leaves them alone
+    const queuedMessageIds = useMemo(
+        () => chatMessages.displayMessages.filter(msg => msg.status === 'queued').map(msg => msg.id),
+        [chatMessages.displayMessages]
+    );
+
+    useEffect(() => {
+        useConnectionStore.getState().setLiveMessageIds(queuedMessageIds);
+        return () => useConnectionStore.getState().setLiveMessageIds([]);
+    }, [queuedMessageIds]);
+
+    // Back online - send queued messages one at a time, oldest first
+    const { isTyping, resendQueuedMessage } = streaming;
+
+    useEffect(() => {
+        if (connectionStatus === 'offline' || isTyping || queuedMessageIds.length === 0) return;
+        resendQueuedMessage(queuedMessageIds[0]);
+    }, [connectionStatus, isTyping, resendQueuedMessage, queuedMessageIds]);
+
     // Load models on mount
     useEffect(() => {
         publicApi.getModels()
@@ -183,21 +265,34 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 .catch((err) => {
                     console.error('[ChatWindow] Failed to load projects:', err);
                 });
+        }
+    }, [showSettingsModal, api]);
 
-            // Load current conversation's projects
-            if (activeConversationId) {
-                api.get<{ projects: { id: number }[] }>(`/conversations/${activeConversationId}/projects`)
-                    .then((response) => {
-                        setCurrentProjectIds(response.projects.map(p => p.id));
-                    })
-                    .catch((err) => {
-                        console.error('[ChatWindow] Failed to load conversation projects:', err);
-                    });
-            } else {
-                setCurrentProjectIds([]);
-            }
+    // Load current conversation's projects - their commands and knowledge files apply to it
+    useEffect(() => {
+        if (!activeConversationId) {
+            projectsLoadRef.current = null;
+            setCurrentProjectIds([]);
+            return;
         }
-    }, [showSettingsModal, activeConversationId, api]);
+
+        let cancelled = false;
+        const load = api.get<{ projects: { id: number }[] }>(`/conversations/${activeConversationId}/projects`)
+            .then((response) => response.projects.map(p => p.id))
+            .catch((err) => {
+                console.error('[ChatWindow] Failed to load conversation projects:', err);
+                return [];
+            });
+        projectsLoadRef.current = { conversationId: activeConversationId, load };
+
+        load.then((projectIds) => {
+            if (!cancelled) setCurrentProjectIds(projectIds);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [activeConversationId, api]);
 
     // Persist compact mode
     useEffect(() => {
@@ -242,15 +337,36 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         }
     }, [activeConversationId, confirm, onDeleteConversation, showToast]);
 
-    const handleExport = useCallback((format: ExportFormat) => {
+    // Exports the branch on screen, or the path through another version of a turn
+    const handleExport = useCallback(async (format: ExportFormat, branchMessageId: number | null) => {
+        let messages = chatMessages.displayMessages;
+
+        if (branchMessageId !== null && activeConversationId) {
+            try {
+                const data = await api.get<ConversationBranchResponse>(
+                    `/conversations/${activeConversationId}/branch?message_id=${branchMessageId}`
+                );
+                messages = data.messages.map(convertToDisplayMessage);
+            } catch (err) {
+                console.error('[ChatWindow] Failed to load branch for export:', err);
+                showToast('Failed to load that version for export', 'error');
+                return;
+            }
+        }
+
         exportChat({
-            messages: chatMessages.displayMessages,
+            messages,
             title: conversationTitle,
             format,
             createdAt: conversationCreatedAt,
         });
         showToast(`Exported as ${format.toUpperCase()}`, 'success');
-    }, [chatMessages.displayMessages, conversationTitle, conversationCreatedAt, showToast]);
+    }, [api, activeConversationId, chatMessages.displayMessages, conversationTitle, conversationCreatedAt, showToast]);
+
+    const exportBranchOptions = useMemo(
+        () => getExportBranchOptions(chatMessages.displayMessages),
+        [chatMessages.displayMessages]
+    );
 
     const handleModelChangeFromSettings = useCallback((model: string) => {
         onModelChange(model);
@@ -286,6 +402,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
         try {
             await onMoveToProjects(activeConversationId, projectIds);
+            projectsLoadRef.current = { conversationId: activeConversationId, load: Promise.resolve(projectIds) };
             setCurrentProjectIds(projectIds);
             setShowSettingsModal(false);
             showToast('Projects updated', 'success');
@@ -316,11 +433,21 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         const content = editorRef.current.finishEditing();
         if (!content) return;
 
-        const editedMessage = chatMessagesRef.current.displayMessages[messageIndex];
+        const messages = chatMessagesRef.current.displayMessages;
+        const editedMessage = messages[messageIndex];
         if (!editedMessage || editedMessage.role !== "user") return;
 
+        // The edit becomes a new version of this turn, branching from the same parent.
+        // Messages without a known parent follow the message shown before them.
+        const parentMessageId = editedMessage.parentId !== undefined
+            ? editedMessage.parentId
+            : messages[messageIndex - 1]?.serverId ?? null;
+
         chatMessagesRef.current.truncateToIndex(messageIndex);
-        await streamingRef.current.sendMessage(content);
+        await streamingRef.current.sendMessage(content, undefined, false, false, editedMessage.attachments, {
+            parentMessageId,
+            siblingIds:      getVersionIds(editedMessage),
+        });
     }, []);
 
 
@@ -333,12 +460,19 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         const triggerResult = await executeTrigger(commandMessage, {
             message:        commandMessage,
             conversationId: chatMessagesRef.current.conversationId,
+            api,
             showToast,
             clearMessages:  chatMessagesRef.current.clearMessages,
+            setModel:       onModelChange,
             params
-        });
+        }, extraTriggers);
 
         if (triggerResult) {
+            if (triggerResult.prompt) {
+                await streamingRef.current.sendMessage(triggerResult.prompt);
+                return;
+            }
+
             if (triggerResult.response) {
                 const responseMessage: DisplayMessage = {
                     id:        Date.now(),
@@ -354,25 +488,40 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 streamingRef.current.sendMessage(commandMessage, undefined, true);
             }
         }
-    }, [showToast]);
+    }, [api, onModelChange, showToast, extraTriggers]);
 
 
     const handleSendMessage = useCallback(async () => {
         const input = chatInputRef.current.input;
-        if (!input.trim() || !selectedModelRef.current) return;
+        const attachments = chatInputRef.current.attachments;
+        if ((!input.trim() && attachments.length === 0) || !selectedModelRef.current) return;
 
         const messageContent = input.trim();
         chatInputRef.current.clearInput();
 
+        if (attachments.length > 0) {
+            chatInputRef.current.clearAttachments();
+            await streamingRef.current.sendMessage(messageContent, undefined, false, false, attachments);
+            return;
+        }
+
         // Check for trigger commands
         const triggerResult = await executeTrigger(messageContent, {
             message:        messageContent,
             conversationId: chatMessagesRef.current.conversationId,
+            api,
             showToast,
-            clearMessages:  chatMessagesRef.current.clearMessages
-        });
+            clearMessages:  chatMessagesRef.current.clearMessages,
+            setModel:       onModelChange
+        }, extraTriggers);
 
         if (triggerResult) {
+            // Saved prompts expand into the message that's actually sent
+            if (triggerResult.prompt) {
+                await streamingRef.current.sendMessage(triggerResult.prompt);
+                return;
+            }
+
             if (triggerResult.response) {
                 const responseMessage: DisplayMessage = {
                     id:        Date.now(),
@@ -395,6 +544,34 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         }
 
         await streamingRef.current.sendMessage(messageContent);
+    }, [api, onModelChange, showToast, extraTriggers]);
+
+
+    const handleAttachFiles = useCallback(async (files: File[]) => {
+        const remaining = MAX_ATTACHMENTS - chatInputRef.current.attachments.length;
+        if (files.length > remaining) {
+            showToast(`You can attach up to ${MAX_ATTACHMENTS} items per message`, 'warning');
+        }
+
+        const results = await Promise.allSettled(files.slice(0, Math.max(0, remaining)).map(readFileAttachment));
+        const attachments = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+
+        results.forEach(r => {
+            if (r.status === 'rejected') {
+                showToast(r.reason instanceof Error ? r.reason.message : 'Failed to attach file', 'error');
+            }
+        });
+
+        chatInputRef.current.addAttachments(attachments);
+    }, [showToast]);
+
+
+    const handleAttachDataSession = useCallback((session: DataSession) => {
+        if (chatInputRef.current.attachments.length >= MAX_ATTACHMENTS) {
+            showToast(`You can attach up to ${MAX_ATTACHMENTS} items per message`, 'warning');
+            return;
+        }
+        chatInputRef.current.addAttachments([createDataSessionAttachment(session)]);
     }, [showToast]);
 
 
@@ -436,6 +613,10 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         streamingRef.current.regenerateResponse(index);
     }, []);
 
+    const handleSwitchBranch = useCallback((messageId: number) => {
+        onSwitchBranch?.(messageId);
+    }, [onSwitchBranch]);
+
     const handleStop = useCallback(() => {
         streamingRef.current.stopGeneration();
     }, []);
@@ -457,6 +638,26 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         ).length;
     }, [chatMessages.displayMessages, activeConversationId]);
 
+    // Including older pages that haven't been loaded
+    const totalMessageCount = messageCount + unloadedMessageCount;
+
+
+    // Token usage and estimated cost across loaded messages - older pages
+    // aren't counted, so the settings modal marks the figure as partial
+    const conversationUsage = useMemo(() => {
+        const usedMessages = chatMessages.displayMessages.filter(m => m.usage);
+        if (usedMessages.length === 0) return null;
+
+        const costs = usedMessages
+            .map(m => estimateCost(m.model, m.usage!))
+            .filter((cost): cost is number => cost !== null);
+
+        return {
+            usage:         sumUsage(usedMessages.map(m => normalizeUsage(m.model, m.usage!))),
+            estimatedCost: costs.length > 0 ? costs.reduce((a, b) => a + b, 0) : null,
+        };
+    }, [chatMessages.displayMessages]);
+
 
     // ========================================================================
     // Render
@@ -478,6 +679,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 <ChatToolbar
                     ref={toolbarRef}
                     isStreaming={streaming.isStreaming}
+                    isReconnecting={streaming.isReconnecting}
+                    connectionStatus={connectionStatus}
+                    pendingCount={pendingCount}
                     onNewChat={handleNewChat}
                     onNewProject={onNewProject || (() => {})}
                     onOpenSettings={handleOpenSettings}
@@ -500,6 +704,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     onSaveEdit={handleSaveEdit}
                     onEditChange={handleEditChange}
                     onRegenerate={handleRegenerate}
+                    // Branching
+                    onSwitchBranch={handleSwitchBranch}
+                    canSwitchBranch={!!onSwitchBranch && !streaming.isStreaming && editor.editingMessageId === null}
                     // Pagination
                     hasMore={hasMoreMessages}
                     isLoadingMore={isLoadingMoreMessages}
@@ -524,11 +731,26 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     onModelChange={onModelChange}
                     onCommandSelect={handleCommandSelect}
                     onCloseCommandMenu={chatInput.closeCommandMenu}
+                    extraTriggers={extraTriggers}
+                    attachments={chatInput.attachments}
+                    onAttachFiles={handleAttachFiles}
+                    onAttachDataSession={handleAttachDataSession}
+                    onRemoveAttachment={chatInput.removeAttachment}
                 />
 
                 {/* Scroll to bottom button */}
                 <ScrollToBottom isStreaming={streaming.isStreaming} />
 
+                {/* Approval prompt for paused write/delete tool calls */}
+                {streaming.pendingApprovals.length > 0 && (
+                    <ToolApprovalDialog
+                        key={streaming.pendingApprovals[0].approval_id}
+                        request={streaming.pendingApprovals[0]}
+                        queuedCount={streaming.pendingApprovals.length}
+                        onRespond={streaming.respondToApproval}
+                    />
+                )}
+
                 {/* Settings Modal */}
                 <ChatSettingsModal
                     isOpen={showSettingsModal}
@@ -536,6 +758,10 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     conversationId={activeConversationId}
                     conversationTitle={conversationTitle}
                     messageCount={messageCount}
+                    totalMessageCount={totalMessageCount}
+                    usage={conversationUsage?.usage ?? null}
+                    estimatedCost={conversationUsage?.estimatedCost ?? null}
+                    usageIsPartial={hasMoreMessages}
                     createdAt={conversationCreatedAt || null}
                     currentModel={selectedModel}
                     currentProvider={currentProvider}
@@ -547,6 +773,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     onDelete={handleDelete}
                     onNewChat={handleNewChat}
                     onExport={handleExport}
+                    exportBranchOptions={exportBranchOptions}
                     onModelChange={handleModelChangeFromSettings}
                     onProviderChange={handleProviderChange}
                     onProjectsChange={handleProjectsChange}
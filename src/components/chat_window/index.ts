@@ -8,5 +8,9 @@ export { default as TypingIndicator } from './TypingIndicator';
 export { default as CommandContextMenu } from './CommandContextMenu';
 export { default as ChatSettingsModal } from './ChatSettingsModal';
 export { default as ProjectPicker }   from './ProjectPicker';
+export { default as AttachmentChips } from './AttachmentChips';
+export { default as DataSessionPicker } from './DataSessionPicker';
+export { default as ToolApprovalDialog } from './ToolApprovalDialog';
+export { default as BranchSwitcher }  from './BranchSwitcher';
 
 export { WELCOME_MESSAGE, DEFAULT_ERROR_MESSAGE, createWelcomeMessage } from './constants';
@@ -0,0 +1,129 @@
+/**
+ * ProjectCommandsEditor - Custom slash commands for a project
+ *
+ * Each command expands into a prompt when a member runs it in the project.
+ * Parameters are derived from the {{placeholders}} in the prompt, keeping any
+ * descriptions already stored for them.
+ */
+
+import { Plus, Trash2 } from 'lucide-react';
+import type { ProjectCommand, ProjectCommandParameter } from '../../types';
+import { templateParameters } from '../../triggers';
+import styles from '../../styles/ConversationProjects.module.css';
+
+interface ProjectCommandsEditorProps {
+    commands: ProjectCommand[];
+    errors: (string | null)[];              // One per command, from validateProjectCommands
+    onChange: (commands: ProjectCommand[]) => void;
+}
+
+const ROLE_OPTIONS: { value: ProjectCommand['required_role'] | ''; label: string }[] = [
+    { value: '',        label: 'Everyone' },
+    { value: 'manager', label: 'Managers' },
+    { value: 'admin',   label: 'Admins' },
+];
+
+
+function deriveParameters(prompt: string, existing: ProjectCommandParameter[] = []): ProjectCommandParameter[] {
+    return templateParameters(prompt).map(param => ({
+        name: param.name,
+        type: param.type,
+        required: true,
+        description: existing.find(p => p.name === param.name)?.description,
+    }));
+}
+
+
+export function ProjectCommandsEditor({ commands, errors, onChange }: ProjectCommandsEditorProps) {
+    const updateCommand = (index: number, changes: Partial<ProjectCommand>) => {
+        onChange(commands.map((command, i) => {
+            if (i !== index) return command;
+            const next = { ...command, ...changes };
+            if (changes.prompt !== undefined) {
+                next.parameters = deriveParameters(changes.prompt, command.parameters);
+            }
+            return next;
+        }));
+    };
+
+    const addCommand = () => {
+        onChange([...commands, { command: '', description: '', prompt: '', parameters: [] }]);
+    };
+
+    const removeCommand = (index: number) => {
+        onChange(commands.filter((_, i) => i !== index));
+    };
+
+    return (
+        <div className={styles.commandsEditor}>
+            {commands.map((command, i) => (
+                <div key={i} className={styles.commandCard}>
+                    <div className={styles.commandCardHeader}>
+                        <span className={styles.commandSlash}>/</span>
+                        <input
+                            type="text"
+                            value={command.command}
+                            onChange={e => updateCommand(i, { command: e.target.value.toLowerCase().replace(/\s+/g, '-') })}
+                            placeholder="rfi"
+                            aria-label="Command name"
+                        />
+                        <select
+                            value={command.required_role ?? ''}
+                            onChange={e => updateCommand(i, {
+                                required_role: (e.target.value || undefined) as ProjectCommand['required_role'],
+                            })}
+                            aria-label="Who can run this command"
+                        >
+                            {ROLE_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            className={`${styles.projectActionBtn} ${styles.danger}`}
+                            onClick={() => removeCommand(i)}
+                            title="Remove command"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+
+                    <input
+                        type="text"
+                        value={command.description}
+                        onChange={e => updateCommand(i, { description: e.target.value })}
+                        placeholder="Shown in the command menu"
+                        aria-label="Description"
+                    />
+
+                    <textarea
+                        value={command.prompt}
+                        onChange={e => updateCommand(i, { prompt: e.target.value })}
+                        placeholder="Draft an RFI for job {{job}} covering: {{question}}"
+                        rows={4}
+                        aria-label="Prompt"
+                    />
+
+                    {(command.parameters?.length ?? 0) > 0 && (
+                        <div className={styles.commandParams}>
+                            {command.parameters!.map(param => (
+                                <span key={param.name} className={styles.commandParam}>
+                                    {param.type === 'string' ? param.name : `${param.name}:${param.type}`}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    {errors[i] && command.command && (
+                        <span className={styles.commandError}>{errors[i]}</span>
+                    )}
+                </div>
+            ))}
+
+            <button type="button" className={styles.addCommandBtn} onClick={addCommand}>
+                <Plus size={14} />
+                Add command
+            </button>
+        </div>
+    );
+}
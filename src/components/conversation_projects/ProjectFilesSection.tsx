@@ -0,0 +1,254 @@
+/**
+ * ProjectFilesSection - Knowledge files shared by every conversation in a project
+ *
+ * Upload, list, delete and enable/disable files. Uploaded files are
+ * 'processing' until the server has extracted their text; the list is
+ * polled until they settle.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { FileText, Upload, X, Loader2, AlertCircle } from 'lucide-react';
+import { useConversationProjectApi } from '../../store';
+import { formatFileSize } from '../../utils/attachments';
+import Checkbox from '../Checkbox';
+import type { ProjectFile } from '../../types';
+import styles from '../../styles/ConversationProjects.module.css';
+
+const MAX_PROJECT_FILE_BYTES = 20 * 1024 * 1024;   // 20 MB
+
+// Documents the server can extract text from
+const ACCEPTED_EXTENSIONS = ['pdf', 'docx', 'xlsx', 'csv', 'txt', 'md', 'json'];
+
+const PROCESSING_POLL_MS = 3000;
+
+interface ProjectFilesSectionProps {
+    projectId: number;
+}
+
+/**
+ * User-facing reason a file can't be uploaded, or null if it can
+ */
+function validateProjectFile(file: File): string | null {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    if (!ACCEPTED_EXTENSIONS.includes(extension)) {
+        return `${file.name} is not a supported file type`;
+    }
+    if (file.size > MAX_PROJECT_FILE_BYTES) {
+        return `${file.name} is larger than ${formatFileSize(MAX_PROJECT_FILE_BYTES)}`;
+    }
+    return null;
+}
+
+export function ProjectFilesSection({ projectId }: ProjectFilesSectionProps) {
+    const {
+        fetchProjectFiles,
+        uploadProjectFile,
+        updateProjectFile,
+        deleteProjectFile,
+    } = useConversationProjectApi();
+
+    const [files, setFiles] = useState<ProjectFile[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [uploadingNames, setUploadingNames] = useState<string[]>([]);
+    const [busyId, setBusyId] = useState<number | null>(null);
+    const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Load files
+    useEffect(() => {
+        let cancelled = false;
+
+        fetchProjectFiles(projectId)
+            .then((data) => {
+                if (!cancelled) setFiles(data);
+            })
+            .catch((error) => console.error('Failed to load project files:', error))
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [projectId, fetchProjectFiles]);
+
+    // Poll while any file is still being processed
+    const hasProcessing = files.some(f => f.status === 'processing');
+    useEffect(() => {
+        if (!hasProcessing) return;
+
+        const timer = setInterval(() => {
+            fetchProjectFiles(projectId)
+                .then(setFiles)
+                .catch((error) => console.error('Failed to refresh project files:', error));
+        }, PROCESSING_POLL_MS);
+
+        return () => clearInterval(timer);
+    }, [hasProcessing, projectId, fetchProjectFiles]);
+
+    const handleFilesSelected = async (selected: FileList | null) => {
+        if (!selected || selected.length === 0) return;
+
+        const errors: string[] = [];
+        const toUpload: File[] = [];
+        Array.from(selected).forEach((file) => {
+            const error = validateProjectFile(file);
+            if (error) {
+                errors.push(error);
+            } else {
+                toUpload.push(file);
+            }
+        });
+        setUploadErrors(errors);
+
+        // One at a time - large drawings indexes would compete for bandwidth
+        for (const file of toUpload) {
+            setUploadingNames(prev => [...prev, file.name]);
+            try {
+                const uploaded = await uploadProjectFile(projectId, file);
+                setFiles(prev => [...prev, uploaded]);
+            } catch (error) {
+                console.error('Failed to upload project file:', error);
+                const message = error instanceof Error ? error.message : 'Upload failed';
+                setUploadErrors(prev => [...prev, `${file.name}: ${message}`]);
+            } finally {
+                setUploadingNames(prev => prev.filter(name => name !== file.name));
+            }
+        }
+    };
+
+    const handleToggle = async (file: ProjectFile, isEnabled: boolean) => {
+        setBusyId(file.id);
+        // Optimistic - revert if the server refuses
+        setFiles(prev => prev.map(f => f.id === file.id ? { ...f, is_enabled: isEnabled } : f));
+        try {
+            const updated = await updateProjectFile(projectId, file.id, { is_enabled: isEnabled });
+            setFiles(prev => prev.map(f => f.id === file.id ? updated : f));
+        } catch (error) {
+            console.error('Failed to update project file:', error);
+            setFiles(prev => prev.map(f => f.id === file.id ? file : f));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDelete = async (file: ProjectFile) => {
+        setBusyId(file.id);
+        try {
+            await deleteProjectFile(projectId, file.id);
+            setFiles(prev => prev.filter(f => f.id !== file.id));
+        } catch (error) {
+            console.error('Failed to delete project file:', error);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const describeFile = (file: ProjectFile): string => {
+        if (file.status === 'processing') return 'Processing...';
+        if (file.status === 'failed') return file.error || 'Could not read this file';
+        return `${formatFileSize(file.size)} · ${file.uploaded_by_name}`;
+    };
+
+    return (
+        <div className={styles.formGroup}>
+            <label>Knowledge Files (optional)</label>
+
+            {loading ? (
+                <div className={styles.membersLoading}>
+                    <Loader2 size={16} className={styles.spinIcon} />
+                    <span>Loading files...</span>
+                </div>
+            ) : (
+                <div className={styles.membersList}>
+                    {files.length === 0 && uploadingNames.length === 0 && (
+                        <div className={styles.membersEmpty}>No files yet</div>
+                    )}
+
+                    {files.map((file) => (
+                        <div
+                            key={file.id}
+                            className={`${styles.memberRow} ${!file.is_enabled ? styles.fileDisabled : ''}`}
+                        >
+                            <Checkbox
+                                checked={file.is_enabled}
+                                onChange={(checked) => handleToggle(file, checked)}
+                                disabled={busyId === file.id || file.status !== 'ready'}
+                                size="small"
+                            />
+                            <div className={styles.memberAvatar}>
+                                {file.status === 'failed' ? <AlertCircle size={14} /> : <FileText size={14} />}
+                            </div>
+                            <div className={styles.memberInfo}>
+                                <div className={styles.memberName} title={file.filename}>{file.filename}</div>
+                                <div
+                                    className={`${styles.memberEmail} ${file.status === 'failed' ? styles.fileFailed : ''}`}
+                                >
+                                    {describeFile(file)}
+                                </div>
+                            </div>
+                            {file.status === 'processing' && (
+                                <Loader2 size={14} className={styles.spinIcon} />
+                            )}
+                            <button
+                                className={styles.memberRemoveBtn}
+                                onClick={() => handleDelete(file)}
+                                disabled={busyId === file.id}
+                                title="Delete file"
+                            >
+                                {busyId === file.id ? (
+                                    <Loader2 size={14} className={styles.spinIcon} />
+                                ) : (
+                                    <X size={14} />
+                                )}
+                            </button>
+                        </div>
+                    ))}
+
+                    {uploadingNames.map((name) => (
+                        <div key={`uploading-${name}`} className={styles.memberRow}>
+                            <div className={styles.memberAvatar}>
+                                <Loader2 size={14} className={styles.spinIcon} />
+                            </div>
+                            <div className={styles.memberInfo}>
+                                <div className={styles.memberName}>{name}</div>
+                                <div className={styles.memberEmail}>Uploading...</div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {uploadErrors.map((error) => (
+                <span key={error} className={styles.commandError}>{error}</span>
+            ))}
+
+            <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ACCEPTED_EXTENSIONS.map(ext => `.${ext}`).join(',')}
+                onChange={(e) => {
+                    handleFilesSelected(e.target.files);
+                    e.target.value = '';
+                }}
+                hidden
+            />
+            <button
+                type="button"
+                className={styles.fileUploadBtn}
+                onClick={() => fileInputRef.current?.click()}
+            >
+                <Upload size={14} />
+                <span>Upload files</span>
+            </button>
+
+            <span className={styles.formHint}>
+                Drawing indexes, spec sections and schedules available to every chat in this project.
+                Answers cite the file they came from. Unchecked files are kept but not used.
+            </span>
+        </div>
+    );
+}
+
+export default ProjectFilesSection;
@@ -128,11 +128,12 @@ export function ProjectFolder({
                             <UserPlus size={14} />
                         </button>
                     )}
-                    {project.is_owner && (
+                    {/* Members can edit instructions and commands when the owner allows it */}
+                    {(project.is_owner || project.permissions?.canEditInstructions === 'anyone') && (
                         <button
                             className={styles.projectActionBtn}
                             onClick={(e) => { e.stopPropagation(); onEdit(); }}
-                            title="Edit project"
+                            title={project.is_owner ? 'Edit project' : 'Edit instructions'}
                         >
                             <Settings size={14} />
                         </button>
@@ -8,6 +8,7 @@
 import { useState, useEffect } from 'react';
 import { User, X, Loader2 } from 'lucide-react';
 import { useConversationProjectApi } from '../../store';
+import { useRealtimeEvent } from '../../hooks';
 import type { ProjectMember, ProjectInviteOwnerView } from '../../types';
 import styles from '../../styles/ConversationProjects.module.css';
 
@@ -62,6 +63,17 @@ export function ProjectMembersSection({
         loadData();
     }, [projectId, isOwner, fetchProjectMembers, fetchProjectInvites]);
 
+    // Members joining or leaving while the modal is open
+    useRealtimeEvent((event) => {
+        if (event.type === 'project.member_joined' && event.project_id === projectId) {
+            setMembers(prev => prev.some(m => m.user_id === event.member.user_id)
+                ? prev
+                : [...prev, event.member]);
+        } else if (event.type === 'project.member_left' && event.project_id === projectId) {
+            setMembers(prev => prev.filter(m => m.user_id !== event.user_id));
+        }
+    });
+
     // Handle removing a member
     const handleRemoveMember = async (member: ProjectMember) => {
         if (member.role === 'owner') return; // Can't remove owner
@@ -7,12 +7,20 @@
  * - shared_open: Discoverable, anyone can join (UI: "Open")
  * 
  * Both shared types support custom permissions.
+ *
+ * Members can open this modal when the project lets anyone edit instructions;
+ * they only see the instructions, knowledge files and custom commands.
+ * Files are saved as they are uploaded, so they need an existing project.
  */
 
 import { useState, useEffect } from 'react';
 import { X, Lock, Globe, User } from 'lucide-react';
-import type { ConversationProject, ProjectType, ProjectPermissions, PermissionLevel } from '../../types';
+import type { ConversationProject, ProjectCommand, ProjectType, ProjectPermissions, PermissionLevel } from '../../types';
 import { ProjectMembersSection } from './ProjectMembersSection';
+import { ProjectCommandsEditor } from './ProjectCommandsEditor';
+import { ProjectFilesSection } from './ProjectFilesSection';
+import { getAllTriggers, validateProjectCommands } from '../../triggers';
+import type { FieldErrors } from '../../services/apiErrors';
 import styles from '../../styles/ConversationProjects.module.css';
 
 // Available accent colors
@@ -38,6 +46,7 @@ interface ProjectModalProps {
     onSave: (data: ProjectFormData) => Promise<void>;
     project?: ConversationProject | null;  // If provided, we're editing
     isLoading?: boolean;
+    fieldErrors?: FieldErrors;             // Rejected fields from the last save
 }
 
 export interface ProjectFormData {
@@ -47,6 +56,7 @@ export interface ProjectFormData {
     custom_instructions: string;
     project_type: ProjectType;
     permissions: ProjectPermissions;
+    custom_commands: ProjectCommand[];
 }
 
 const DEFAULT_PERMISSIONS: ProjectPermissions = {
@@ -63,8 +73,10 @@ export function ProjectModal({
     onSave,
     project,
     isLoading = false,
+    fieldErrors = {},
 }: ProjectModalProps) {
     const isEditing = !!project;
+    const isOwner = !project || project.is_owner;
     const isSharedType = (type: ProjectType) => type === 'shared_locked' || type === 'shared_open';
 
     // Form state
@@ -74,6 +86,7 @@ export function ProjectModal({
     const [customInstructions, setCustomInstructions] = useState('');
     const [projectType, setProjectType] = useState<ProjectType>('private');
     const [permissions, setPermissions] = useState<ProjectPermissions>(DEFAULT_PERMISSIONS);
+    const [customCommands, setCustomCommands] = useState<ProjectCommand[]>([]);
 
     // Reset form when modal opens/closes or project changes
     useEffect(() => {
@@ -85,6 +98,7 @@ export function ProjectModal({
                 setCustomInstructions(project.custom_instructions || '');
                 setProjectType(project.project_type);
                 setPermissions(project.permissions || DEFAULT_PERMISSIONS);
+                setCustomCommands(project.custom_commands ?? []);
             } else {
                 setName('');
                 setDescription('');
@@ -92,12 +106,16 @@ export function ProjectModal({
                 setCustomInstructions('');
                 setProjectType('private');
                 setPermissions(DEFAULT_PERMISSIONS);
+                setCustomCommands([]);
             }
         }
     }, [isOpen, project]);
 
+    const commandErrors = validateProjectCommands(customCommands, getAllTriggers().map(t => t.command));
+    const hasCommandErrors = commandErrors.some(Boolean);
+
     const handleSubmit = async () => {
-        if (!name.trim()) return;
+        if (!name.trim() || hasCommandErrors) return;
 
         await onSave({
             name: name.trim(),
@@ -106,6 +124,7 @@ export function ProjectModal({
             custom_instructions: customInstructions.trim(),
             project_type: projectType,
             permissions,
+            custom_commands: customCommands,
         });
     };
 
@@ -120,7 +139,7 @@ export function ProjectModal({
             <div className={styles.modal} onClick={e => e.stopPropagation()}>
                 {/* Header */}
                 <div className={styles.modalHeader}>
-                    <h3>{isEditing ? 'Edit Project' : 'New Project'}</h3>
+                    <h3>{!isEditing ? 'New Project' : isOwner ? 'Edit Project' : 'Project Instructions'}</h3>
                     <button className={styles.modalCloseBtn} onClick={onClose}>
                         <X size={20} />
                     </button>
@@ -128,123 +147,134 @@ export function ProjectModal({
 
                 {/* Body */}
                 <div className={styles.modalBody}>
-                    {/* Name */}
-                    <div className={styles.formGroup}>
-                        <label>Name</label>
-                        <input
-                            type="text"
-                            value={name}
-                            onChange={e => setName(e.target.value)}
-                            placeholder="Project name"
-                            autoFocus
-                        />
-                    </div>
-
-                    {/* Description */}
-                    <div className={styles.formGroup}>
-                        <label>Description (optional)</label>
-                        <input
-                            type="text"
-                            value={description}
-                            onChange={e => setDescription(e.target.value)}
-                            placeholder="Brief description"
-                        />
-                    </div>
-
-                    {/* Color */}
-                    <div className={styles.formGroup}>
-                        <label>Color</label>
-                        <div className={styles.colorPicker}>
-                            {COLORS.map((c, i) => (
-                                <button
-                                    key={i}
-                                    type="button"
-                                    className={`${styles.colorOption} ${c === color ? styles.selected : ''} ${c === null ? styles.none : ''}`}
-                                    style={c ? { backgroundColor: c } : undefined}
-                                    onClick={() => setColor(c)}
-                                    title={c || 'No color'}
+                    {/* Project details - owner only */}
+                    {isOwner && (
+                        <>
+                            {/* Name */}
+                            <div className={styles.formGroup}>
+                                <label>Name</label>
+                                <input
+                                    type="text"
+                                    value={name}
+                                    onChange={e => setName(e.target.value)}
+                                    placeholder="Project name"
+                                    autoFocus
                                 />
-                            ))}
-                        </div>
-                    </div>
-
-                    {/* Project Type */}
-                    <div className={styles.formGroup}>
-                        <label>Sharing</label>
-                        <div className={styles.typeSelector}>
-                            <button
-                                type="button"
-                                className={`${styles.typeOption} ${projectType === 'private' ? styles.selected : ''}`}
-                                onClick={() => setProjectType('private')}
-                            >
-                                <User size={20} className={styles.typeIcon} />
-                                <span className={styles.typeLabel}>Private</span>
-                                <span className={styles.typeDescription}>Only you</span>
-                            </button>
-                            <button
-                                type="button"
-                                className={`${styles.typeOption} ${projectType === 'shared_locked' ? styles.selected : ''}`}
-                                onClick={() => setProjectType('shared_locked')}
-                            >
-                                <Lock size={20} className={styles.typeIcon} />
-                                <span className={styles.typeLabel}>Shared</span>
-                                <span className={styles.typeDescription}>Invite only</span>
-                            </button>
-                            <button
-                                type="button"
-                                className={`${styles.typeOption} ${projectType === 'shared_open' ? styles.selected : ''}`}
-                                onClick={() => setProjectType('shared_open')}
-                            >
-                                <Globe size={20} className={styles.typeIcon} />
-                                <span className={styles.typeLabel}>Open</span>
-                                <span className={styles.typeDescription}>Anyone can join</span>
-                            </button>
-                        </div>
-                    </div>
+                                {fieldErrors.name && (
+                                    <span className={styles.commandError}>{fieldErrors.name}</span>
+                                )}
+                            </div>
 
-                    {/* Permissions (for both shared types) */}
-                    {isSharedType(projectType) && (
-                        <div className={styles.formGroup}>
-                            <label>Member Permissions</label>
-                            <div className={styles.permissionsSection}>
-                                <PermissionRow
-                                    label="Chat in conversations"
-                                    value={permissions.canChat}
-                                    onChange={(v) => updatePermission('canChat', v)}
-                                />
-                                <PermissionRow
-                                    label="Create conversations"
-                                    value={permissions.canCreateConversations}
-                                    onChange={(v) => updatePermission('canCreateConversations', v)}
-                                />
-                                <PermissionRow
-                                    label="Edit instructions"
-                                    value={permissions.canEditInstructions}
-                                    onChange={(v) => updatePermission('canEditInstructions', v)}
+                            {/* Description */}
+                            <div className={styles.formGroup}>
+                                <label>Description (optional)</label>
+                                <input
+                                    type="text"
+                                    value={description}
+                                    onChange={e => setDescription(e.target.value)}
+                                    placeholder="Brief description"
                                 />
-                                {/* Only show invite permission for shared_locked (invite-only) */}
-                                {projectType === 'shared_locked' && (
-                                    <PermissionRow
-                                        label="Invite members"
-                                        value={permissions.canInviteMembers}
-                                        onChange={(v) => updatePermission('canInviteMembers', v)}
-                                    />
+                                {fieldErrors.description && (
+                                    <span className={styles.commandError}>{fieldErrors.description}</span>
                                 )}
-                                <PermissionRow
-                                    label="Remove conversations"
-                                    value={permissions.canRemoveConversations}
-                                    onChange={(v) => updatePermission('canRemoveConversations', v)}
-                                />
                             </div>
-                        </div>
-                    )}
 
-                    {/* Members Section (only for existing shared projects) */}
-                    {isEditing && project && isSharedType(project.project_type) && (
-                        <ProjectMembersSection
-                            projectId={project.id}
-                            isOwner={project.is_owner}
-                        />
+                            {/* Color */}
+                            <div className={styles.formGroup}>
+                                <label>Color</label>
+                                <div className={styles.colorPicker}>
+                                    {COLORS.map((c, i) => (
+                                        <button
+                                            key={i}
+                                            type="button"
+                                            className={`${styles.colorOption} ${c === color ? styles.selected : ''} ${c === null ? styles.none : ''}`}
+                                            style={c ? { backgroundColor: c } : undefined}
+                                            onClick={() => setColor(c)}
+                                            title={c || 'No color'}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Project Type */}
+                            <div className={styles.formGroup}>
+                                <label>Sharing</label>
+                                <div className={styles.typeSelector}>
+                                    <button
+                                        type="button"
+                                        className={`${styles.typeOption} ${projectType === 'private' ? styles.selected : ''}`}
+                                        onClick={() => setProjectType('private')}
+                                    >
+                                        <User size={20} className={styles.typeIcon} />
+                                        <span className={styles.typeLabel}>Private</span>
+                                        <span className={styles.typeDescription}>Only you</span>
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className={`${styles.typeOption} ${projectType === 'shared_locked' ? styles.selected : ''}`}
+                                        onClick={() => setProjectType('shared_locked')}
+                                    >
+                                        <Lock size={20} className={styles.typeIcon} />
+                                        <span className={styles.typeLabel}>Shared</span>
+                                        <span className={styles.typeDescription}>Invite only</span>
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className={`${styles.typeOption} ${projectType === 'shared_open' ? styles.selected : ''}`}
+                                        onClick={() => setProjectType('shared_open')}
+                                    >
+                                        <Globe size={20} className={styles.typeIcon} />
+                                        <span className={styles.typeLabel}>Open</span>
+                                        <span className={styles.typeDescription}>Anyone can join</span>
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Permissions (for both shared types) */}
+                            {isSharedType(projectType) && (
+                                <div className={styles.formGroup}>
+                                    <label>Member Permissions</label>
+                                    <div className={styles.permissionsSection}>
+                                        <PermissionRow
+                                            label="Chat in conversations"
+                                            value={permissions.canChat}
+                                            onChange={(v) => updatePermission('canChat', v)}
+                                        />
+                                        <PermissionRow
+                                            label="Create conversations"
+                                            value={permissions.canCreateConversations}
+                                            onChange={(v) => updatePermission('canCreateConversations', v)}
+                                        />
+                                        <PermissionRow
+                                            label="Edit instructions"
+                                            value={permissions.canEditInstructions}
+                                            onChange={(v) => updatePermission('canEditInstructions', v)}
+                                        />
+                                        {/* Only show invite permission for shared_locked (invite-only) */}
+                                        {projectType === 'shared_locked' && (
+                                            <PermissionRow
+                                                label="Invite members"
+                                                value={permissions.canInviteMembers}
+                                                onChange={(v) => updatePermission('canInviteMembers', v)}
+                                            />
+                                        )}
+                                        <PermissionRow
+                                            label="Remove conversations"
+                                            value={permissions.canRemoveConversations}
+                                            onChange={(v) => updatePermission('canRemoveConversations', v)}
+                                        />
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Members Section (only for existing shared projects) */}
+                            {isEditing && project && isSharedType(project.project_type) && (
+                                <ProjectMembersSection
+                                    projectId={project.id}
+                                    isOwner={project.is_owner}
+                                />
+                            )}
+                        </>
                     )}
 
                     {/* Custom Instructions */}
@@ -256,10 +286,38 @@ export function ProjectModal({
                             placeholder="Add instructions that will be included in the AI system prompt for conversations in this project..."
                             rows={3}
                         />
+                        {fieldErrors.custom_instructions && (
+                            <span className={styles.commandError}>{fieldErrors.custom_instructions}</span>
+                        )}
                         <span className={styles.formHint}>
                             These instructions supplement the default system prompt when chatting within this project.
                         </span>
                     </div>
+
+                    {/* Knowledge Files */}
+                    {isEditing && project ? (
+                        <ProjectFilesSection projectId={project.id} />
+                    ) : (
+                        <div className={styles.formGroup}>
+                            <label>Knowledge Files (optional)</label>
+                            <span className={styles.formHint}>
+                                Create the project first, then reopen it to upload reference files.
+                            </span>
+                        </div>
+                    )}
+
+                    {/* Custom Commands */}
+                    <div className={styles.formGroup}>
+                        <label>Custom Commands (optional)</label>
+                        <ProjectCommandsEditor
+                            commands={customCommands}
+                            errors={commandErrors}
+                            onChange={setCustomCommands}
+                        />
+                        <span className={styles.formHint}>
+                            Slash commands available in this project's conversations. Use {'{{name}}'} in the prompt for values members fill in.
+                        </span>
+                    </div>
                 </div>
 
                 {/* Footer */}
@@ -273,7 +331,7 @@ export function ProjectModal({
                     <button
                         className={`${styles.modalBtn} ${styles.modalBtnPrimary}`}
                         onClick={handleSubmit}
-                        disabled={!name.trim() || isLoading}
+                        disabled={!name.trim() || hasCommandErrors || isLoading}
                     >
                         {isLoading ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Project'}
                     </button>
@@ -10,4 +10,6 @@ export { InviteModal } from './InviteModal';
 export { DeleteProjectModal } from './DeleteProjectModal';
 export { LeaveProjectModal } from './LeaveProjectModal';
 export { ProjectMembersSection } from './ProjectMembersSection';
+export { ProjectFilesSection } from './ProjectFilesSection';
 export { CommunityProjectsModal } from './CommunityProjectsModal';
+export { ProjectCommandsEditor } from './ProjectCommandsEditor';
@@ -1,17 +1,57 @@
 /**
- * DataAxisControls - X/Y axis column selectors
+ * DataAxisControls - X axis and measure (Y) column selectors
+ * Bar, line and area charts take several measures; scatter and pie take one
  */
 
-import { useDataStore } from '../../store/useDataStore';
-import { formatColumnName } from '../../services/api';
+import { useEffect, useRef, useState } from 'react';
+import { useDataStore, useActiveChartConfig } from '../../store/useDataStore';
+import { formatColumnName } from '../../utils/formatters';
+import { usesToolSeries } from '../../utils/chartData';
+import Checkbox from '../Checkbox';
 import styles from '../../styles/data_page/DataAxisControls.module.css';
 
 interface DataAxisControlsProps {
     columns: string[];
 }
 
+// Chart types that plot exactly one measure
+const SINGLE_MEASURE_CHART_TYPES = ['scatter', 'pie'];
+
 const DataAxisControls = ({ columns }: DataAxisControlsProps) => {
-    const { xAxis, yAxis, setXAxis, setYAxis } = useDataStore();
+    const { chartType, xAxis, yAxes, setXAxis, setYAxes } = useDataStore();
+    const chartConfig = useActiveChartConfig();
+    const [measuresOpen, setMeasuresOpen] = useState(false);
+    const measuresRef = useRef<HTMLDivElement>(null);
+
+    const isMultiMeasure = !SINGLE_MEASURE_CHART_TYPES.includes(chartType);
+
+    // Bar, line, area and pie charts follow the tool's own series instead of these selections
+    const toolSeriesBy = chartType !== 'scatter' && usesToolSeries(chartConfig) ? chartConfig?.series_by : null;
+
+    // Close the measures menu when clicking outside
+    useEffect(() => {
+        if (!measuresOpen) return;
+
+        const handleClickOutside = (event: MouseEvent) => {
+            if (measuresRef.current && !measuresRef.current.contains(event.target as Node)) {
+                setMeasuresOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [measuresOpen]);
+
+    // New measures go last so existing series keep their colors
+    const toggleMeasure = (column: string, checked: boolean) => {
+        setYAxes(checked ? [...yAxes, column] : yAxes.filter(col => col !== column));
+    };
+
+    const measuresSummary = yAxes.length === 0
+        ? 'Select columns...'
+        : yAxes.length === 1
+            ? formatColumnName(yAxes[0])
+            : `${formatColumnName(yAxes[0])} +${yAxes.length - 1}`;
 
     return (
         <div className={styles.controls}>
@@ -31,21 +71,61 @@ const DataAxisControls = ({ columns }: DataAxisControlsProps) => {
                 </select>
             </div>
 
-            <div className={styles.control}>
-                <label htmlFor="y-axis">Y Axis</label>
-                <select
-                    id="y-axis"
-                    value={yAxis || ''}
-                    onChange={(e) => setYAxis(e.target.value || null)}
-                >
-                    <option value="">Select column...</option>
-                    {columns.map((col) => (
-                        <option key={col} value={col}>
-                            {formatColumnName(col)}
-                        </option>
-                    ))}
-                </select>
-            </div>
+            {isMultiMeasure ? (
+                <div className={styles.control} ref={measuresRef}>
+                    <label id="y-axes-label">Measures</label>
+                    <div className={styles.multiSelect}>
+                        <button
+                            type="button"
+                            className={styles.multiSelectTrigger}
+                            onClick={() => setMeasuresOpen(!measuresOpen)}
+                            aria-haspopup="listbox"
+                            aria-expanded={measuresOpen}
+                            aria-labelledby="y-axes-label"
+                        >
+                            {measuresSummary}
+                        </button>
+
+                        {measuresOpen && (
+                            <div className={styles.multiSelectMenu} role="listbox" aria-multiselectable>
+                                {columns.filter(col => col !== xAxis).map((col) => (
+                                    <div key={col} className={styles.multiSelectItem}>
+                                        <Checkbox
+                                            checked={yAxes.includes(col)}
+                                            onChange={(checked) => toggleMeasure(col, checked)}
+                                            label={formatColumnName(col)}
+                                            size="small"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            ) : (
+                <div className={styles.control}>
+                    <label htmlFor="y-axis">Y Axis</label>
+                    <select
+                        id="y-axis"
+                        value={yAxes[0] || ''}
+                        onChange={(e) => setYAxes(e.target.value ? [e.target.value] : [])}
+                    >
+                        <option value="">Select column...</option>
+                        {columns.map((col) => (
+                            <option key={col} value={col}>
+                                {formatColumnName(col)}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            {toolSeriesBy && (
+                <span className={styles.note}>
+                    This tool charts one series per {formatColumnName(toolSeriesBy)}, so these columns are ignored.
+                    Pivot the table to chart other measures.
+                </span>
+            )}
         </div>
     );
 };
@@ -1,18 +1,31 @@
 /**
  * DataChartCanvas - Renders charts using Recharts
- * Supports both single-series and multi-series (pivoted) data
+ * Supports single-series and multi-series (pivoted) bar, line and area charts,
+ * scatter charts with optional size/color dimensions, and pie charts
  */
 
 import { useMemo, useRef } from 'react';
 
-import { BarChart, Bar, LineChart, Line,
+import { ComposedChart, Bar, Line, Area,
+         ScatterChart, Scatter, ZAxis,
          PieChart, Pie, Cell, XAxis,
          YAxis, CartesianGrid, Tooltip,
          Legend, ResponsiveContainer } from 'recharts';
 
 import { useDataStore, useActiveChartConfig } from '../../store/useDataStore';
-import type { DataResult } from '../../types';
+import type { DataResult, SeriesAxis, SeriesChartType } from '../../types';
 import { formatColumnName, formatTickValue, formatTooltipValue, formatYAxisValue } from '../../services';
+import {
+    CHART_COLORS,
+    buildScatterChartData,
+    buildSeriesChartData,
+    canUseLogScale,
+    formatAxisTick,
+    formatSeriesValue,
+    getSeriesStyle,
+    getStrokeDasharray,
+    type ScatterChartData,
+} from '../../utils/chartData';
 import styles from '../../styles/data_page/DataChartCanvas.module.css';
 
 interface DataChartCanvasProps {
@@ -85,18 +98,6 @@ const CustomTooltip = ({
     );
 };
 
-// Color palette for charts
-const COLORS = [
-    '#3b82f6', // blue
-    '#10b981', // emerald
-    '#f59e0b', // amber
-    '#ef4444', // red
-    '#8b5cf6', // violet
-    '#ec4899', // pink
-    '#06b6d4', // cyan
-    '#84cc16', // lime
-];
-
 /**
  * Calculate the optimal tick interval based on data length
  * Aims for ~10-15 visible ticks max to prevent label overlap
@@ -110,153 +111,78 @@ const getTickInterval = (dataLength: number): number | "preserveStartEnd" => {
     return "preserveStartEnd";
 };
 
-/**
- * Pivot flat data into multi-series format for charting
- * 
- * Input (flat):
- *   [{ ProductionDate: "2025-12-01", Machine: "V807", PiecesProcessed: 33 }, ...]
- * 
- * Output (pivoted):
- *   [{ xValue: "2025-12-01", "V807": 33, "Voortman": 16, ... }, ...]
- */
-const pivotData = (
-    rows: unknown[][],
-    columns: string[],
-    xAxisCol: string,
-    seriesCol: string,
-    yAxisCol: string
-): { data: Record<string, unknown>[]; seriesNames: string[] } => {
-    const xIndex = columns.indexOf(xAxisCol);
-    const seriesIndex = columns.indexOf(seriesCol);
-    const yIndex = columns.indexOf(yAxisCol);
-
-    if (xIndex === -1 || seriesIndex === -1 || yIndex === -1) {
-        return { data: [], seriesNames: [] };
-    }
-
-    // Group by x-axis value
-    const grouped = new Map<string, Record<string, unknown>>();
-    const seriesSet = new Set<string>();
-
-    for (const row of rows) {
-        const xValue = String(row[xIndex] ?? '');
-        const seriesName = String(row[seriesIndex] ?? '');
-        const yValue = row[yIndex];
-
-        seriesSet.add(seriesName);
-
-        if (!grouped.has(xValue)) {
-            grouped.set(xValue, { xValue });
-        }
-
-        const entry = grouped.get(xValue)!;
-        entry[seriesName] = typeof yValue === 'number' ? yValue : parseFloat(String(yValue)) || 0;
-    }
-
-    // Sort by x-axis value (assumes date or sortable string)
-    const sortedData = Array.from(grouped.values()).sort((a, b) => 
-        String(a.xValue).localeCompare(String(b.xValue))
-    );
-
-    return {
-        data: sortedData,
-        seriesNames: Array.from(seriesSet).sort(),
-    };
-};
-
 /** Legend item type for custom legend */
 interface LegendItem {
     label: string;
     color: string;
 }
 
+
+const CHART_MARGIN = { top: 80, right: 30, left: 60, bottom: 80 };
+
+// Bubble area range in px² when a size column is set
+const SCATTER_SIZE_RANGE: [number, number] = [40, 400];
+
 const DataChartCanvas = ({ result }: DataChartCanvasProps) => {
-    const { chartType, xAxis, yAxis } = useDataStore();
+    const { chartType, xAxis, yAxes, chartOptions } = useDataStore();
     const chartConfig = useActiveChartConfig();
     const chartWrapperRef = useRef<HTMLDivElement>(null);
 
     // Get chart width for tooltip positioning
     const getChartWidth = () => chartWrapperRef.current?.clientWidth || 0;
 
-    // Check if we should use multi-series pivot
-    const useMultiSeries = chartConfig?.series_by && chartConfig?.x_axis && chartConfig?.y_axis;
-
-    // Transform result data into chart-friendly format
-    const { chartData, seriesNames, axisLabels } = useMemo(() => {
-        if (!result) return { chartData: [], seriesNames: [], axisLabels: { x: '', y: '' } };
-
-        // Multi-series pivot mode
-        if (useMultiSeries && chartConfig) {
-            const { data, seriesNames } = pivotData(
-                result.rows,
-                result.columns,
-                chartConfig.x_axis,
-                chartConfig.series_by,
-                chartConfig.y_axis
-            );
-            return {
-                chartData: data,
-                seriesNames,
-                axisLabels: {
-                    x: formatLabel(chartConfig.x_axis_label || chartConfig.x_axis),
-                    y: formatLabel(chartConfig.y_axis_label || chartConfig.y_axis),
-                },
-            };
-        }
-
-        // Single-series mode (original behavior)
-        if (!xAxis) return { chartData: [], seriesNames: [], axisLabels: { x: '', y: '' } };
+    const isScatter = chartType === 'scatter';
 
-        const xIndex = result.columns.indexOf(xAxis);
-        const yIndex = yAxis ? result.columns.indexOf(yAxis) : -1;
+    // Series without their own chart type follow the view's
+    const defaultSeriesType: SeriesChartType = chartType === 'line' || chartType === 'area' ? chartType : 'bar';
 
-        if (xIndex === -1) return { chartData: [], seriesNames: [], axisLabels: { x: '', y: '' } };
+    // Transform result data into chart-friendly format
+    const seriesData = useMemo(
+        () => buildSeriesChartData(result, xAxis, yAxes, chartConfig),
+        [result, xAxis, yAxes, chartConfig]
+    );
 
-        const data = result.rows.map((row, i) => {
-            const item: Record<string, unknown> = {
-                name: String(row[xIndex] ?? `Row ${i + 1}`),
-            };
+    const scatterData = useMemo(
+        () => isScatter ? buildScatterChartData(result, xAxis, yAxes[0] ?? null, chartOptions) : null,
+        [isScatter, result, xAxis, yAxes, chartOptions]
+    );
 
-            if (yIndex !== -1) {
-                const yValue = row[yIndex];
-                item.value = typeof yValue === 'number' ? yValue : parseFloat(String(yValue)) || 0;
-            } else {
-                item.value = i + 1;
-            }
+    const { rows: chartData, series, axisLabels } = seriesData;
 
-            return item;
-        });
+    // Per-series types, colors, line styles, axes and formats with saved overrides applied
+    const seriesStyles = useMemo(
+        () => series.map((s, index) => getSeriesStyle(chartOptions, s.key, index, defaultSeriesType)),
+        [series, chartOptions, defaultSeriesType]
+    );
 
-        return {
-            chartData: data,
-            seriesNames: [],
-            axisLabels: { x: formatLabel(xAxis), y: formatLabel(yAxis || 'Value') },
-        };
-    }, [result, xAxis, yAxis, chartConfig, useMultiSeries]);
+    // The tooltip only gets series names back
+    const formatsByLabel = useMemo(
+        () => new Map(series.map((s, index) => [s.label, seriesStyles[index].format])),
+        [series, seriesStyles]
+    );
 
     // Build legend items for custom legend
     const legendItems: LegendItem[] = useMemo(() => {
         // Pie charts use Recharts' built-in legend
         if (chartType === 'pie') return [];
-        
-        // Multi-series: one item per series
-        if (useMultiSeries && seriesNames.length > 0) {
-            return seriesNames.map((name, index) => ({
-                label: formatLabel(name),
-                color: COLORS[index % COLORS.length],
+
+        if (scatterData) {
+            return scatterData.groups.map((group, index) => ({
+                label: group.label,
+                color: getSeriesStyle(chartOptions, group.key, index).color,
             }));
         }
-        
-        // Single-series: show Y-axis label
-        if (axisLabels.y) {
-            return [{ label: axisLabels.y, color: COLORS[0] }];
-        }
-        
-        return [];
-    }, [chartType, useMultiSeries, seriesNames, axisLabels.y]);
+
+        return series.map((s, index) => ({
+            label: s.label,
+            color: seriesStyles[index].color,
+        }));
+    }, [chartType, scatterData, series, seriesStyles, chartOptions]);
+
+    const hasData = scatterData ? scatterData.groups.length > 0 : chartData.length > 0;
 
     // No data to display
-    if (!chartData.length) {
+    if (!hasData) {
         return (
             <div className={styles.noData}>
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
@@ -265,7 +191,7 @@ const DataChartCanvas = ({ result }: DataChartCanvasProps) => {
                 </svg>
                 <h3>No visualization available</h3>
                 <p>
-                    {useMultiSeries 
+                    {chartConfig?.series_by
                         ? 'The data returned is empty or incompatible with charting.'
                         : 'Use the axis dropdowns above to select which columns to visualize.'}
                 </p>
@@ -273,297 +199,241 @@ const DataChartCanvas = ({ result }: DataChartCanvasProps) => {
         );
     }
 
-    // Render multi-series line chart
-    const renderMultiSeriesLineChart = () => (
-        <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData} margin={{ top: 80, right: 30, left: 60, bottom: 80 }}>
-                <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
-                <XAxis
-                    dataKey="xValue"
-                    stroke="var(--text-secondary)"
-                    tick={{ fill: 'var(--text-secondary)', fontSize: 12 }}
-                    tickFormatter={formatTickValue}
-                    interval={getTickInterval(chartData.length)}
-                    angle={-45}
-                    textAnchor="end"
-                    height={80}
-                    label={{
-                        value: axisLabels.x,
-                        position: 'bottom',
-                        offset: 0,
-                        fill: 'var(--text-secondary)',
-                    }}
-                />
+    // Bar, line and area share one renderer so series can mix types and sit on either axis
+    const renderSeriesChart = () => {
+        const stackId = chartOptions.stacked ? 'stack' : undefined;
+
+        const renderYAxis = (axis: SeriesAxis) => {
+            const onAxis = series.filter((_, index) => seriesStyles[index].axis === axis);
+            if (onAxis.length === 0) return null;
+
+            // Ticks follow the first series on the axis
+            const format = seriesStyles[series.indexOf(onAxis[0])].format;
+            // Zero or negative values can't be drawn on a log axis - fall back to linear
+            const savedScale = chartOptions.axes?.[axis]?.scale ?? 'linear';
+            const scale = savedScale === 'log' && canUseLogScale(chartData, onAxis.map(s => s.key)) ? 'log' : 'linear';
+            const isRight = axis === 'right';
+
+            return (
                 <YAxis
+                    yAxisId={axis}
+                    orientation={axis}
+                    scale={scale}
+                    domain={scale === 'log' ? ['auto', 'auto'] : undefined}
+                    allowDataOverflow={scale === 'log'}
                     stroke="var(--text-secondary)"
                     tick={{ fill: 'var(--text-secondary)', fontSize: 12 }}
-                    tickFormatter={formatYAxisValue}
+                    tickFormatter={(value: number) => formatAxisTick(value, format)}
                     label={{
-                        value: axisLabels.y,
-                        angle: -90,
+                        // Pivoted series all share the tool's measure
+                        value: chartConfig?.series_by ? axisLabels.y : onAxis.map(s => s.label).join(', '),
+                        angle: isRight ? 90 : -90,
                         position: 'center',
-                        dx: -20,
+                        dx: isRight ? 20 : -20,
                         fill: 'var(--text-secondary)',
                     }}
                 />
-                <Tooltip
-                    content={(props) => (
-                        <CustomTooltip
-                            active={props.active}
-                            payload={props.payload as CustomTooltipProps['payload']}
-                            label={props.label}
-                            coordinate={props.coordinate}
-                            chartWidth={getChartWidth()}
-                            labelFormatter={formatTooltipValue}
-                            valueFormatter={(value, name) => [value?.toLocaleString() ?? '0', formatLabel(name)]}
-                        />
-                    )}
-                />
-                {seriesNames.map((name, index) => (
-                    <Line
-                        key={name}
-                        type="monotone"
-                        dataKey={name}
-                        name={formatLabel(name)}
-                        stroke={COLORS[index % COLORS.length]}
-                        strokeWidth={2}
-                        dot={{ fill: COLORS[index % COLORS.length], strokeWidth: 2, r: 3 }}
-                        activeDot={{ r: 6 }}
+            );
+        };
+
+        return (
+            <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} margin={CHART_MARGIN}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
+                    <XAxis
+                        dataKey="xValue"
+                        stroke="var(--text-secondary)"
+                        tick={{ fill: 'var(--text-secondary)', fontSize: 12 }}
+                        tickFormatter={formatTickValue}
+                        interval={getTickInterval(chartData.length)}
+                        angle={-45}
+                        textAnchor="end"
+                        height={80}
+                        label={{
+                            value: axisLabels.x,
+                            position: 'bottom',
+                            offset: 0,
+                            fill: 'var(--text-secondary)',
+                        }}
                     />
-                ))}
-            </LineChart>
-        </ResponsiveContainer>
-    );
+                    {renderYAxis('left')}
+                    {renderYAxis('right')}
+                    <Tooltip
+                        content={(props) => (
+                            <CustomTooltip
+                                active={props.active}
+                                payload={props.payload as CustomTooltipProps['payload']}
+                                label={props.label}
+                                coordinate={props.coordinate}
+                                chartWidth={getChartWidth()}
+                                labelFormatter={formatTooltipValue}
+                                valueFormatter={(value, name) => [
+                                    // Missing values are gaps in the chart, not zeros
+                                    value === null || value === undefined
+                                        ? 'No value'
+                                        : formatSeriesValue(value, formatsByLabel.get(name) ?? 'number'),
+                                    name,
+                                ]}
+                            />
+                        )}
+                    />
+                    {series.map((s, index) => {
+                        const { color, chartType: seriesType, lineStyle, axis } = seriesStyles[index];
+                        const strokeDasharray = getStrokeDasharray(lineStyle);
+
+                        if (seriesType === 'line') {
+                            return (
+                                <Line
+                                    key={s.key}
+                                    yAxisId={axis}
+                                    type="monotone"
+                                    dataKey={s.key}
+                                    name={s.label}
+                                    stroke={color}
+                                    strokeWidth={2}
+                                    strokeDasharray={strokeDasharray}
+                                    dot={{ fill: color, strokeWidth: 2, r: 3 }}
+                                    activeDot={{ r: 6 }}
+                                />
+                            );
+                        }
+
+                        if (seriesType === 'area') {
+                            return (
+                                <Area
+                                    key={s.key}
+                                    yAxisId={axis}
+                                    type="monotone"
+                                    dataKey={s.key}
+                                    name={s.label}
+                                    // Stacks are per axis - values on different scales don't add up
+                                    stackId={stackId && `${stackId}-${axis}`}
+                                    stroke={color}
+                                    strokeWidth={2}
+                                    strokeDasharray={strokeDasharray}
+                                    fill={color}
+                                    fillOpacity={stackId ? 0.6 : 0.25}
+                                    activeDot={{ r: 5 }}
+                                />
+                            );
+                        }
+
+                        return (
+                            <Bar
+                                key={s.key}
+                                yAxisId={axis}
+                                dataKey={s.key}
+                                name={s.label}
+                                fill={color}
+                                radius={[4, 4, 0, 0]}
+                            />
+                        );
+                    })}
+                </ComposedChart>
+            </ResponsiveContainer>
+        );
+    };
 
-    // Render multi-series bar chart
-    const renderMultiSeriesBarChart = () => (
+    const renderScatterChart = (data: ScatterChartData) => (
         <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={chartData} margin={{ top: 80, right: 30, left: 60, bottom: 80 }}>
+            <ScatterChart margin={CHART_MARGIN}>
                 <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
                 <XAxis
-                    dataKey="xValue"
+                    dataKey="x"
+                    name={data.axisLabels.x}
+                    type={data.xIsNumeric ? 'number' : 'category'}
+                    allowDuplicatedCategory={false}
                     stroke="var(--text-secondary)"
                     tick={{ fill: 'var(--text-secondary)', fontSize: 12 }}
-                    tickFormatter={formatTickValue}
-                    interval={getTickInterval(chartData.length)}
+                    tickFormatter={data.xIsNumeric ? formatYAxisValue : formatTickValue}
                     angle={-45}
                     textAnchor="end"
                     height={80}
                     label={{
-                        value: axisLabels.x,
+                        value: data.axisLabels.x,
                         position: 'bottom',
                         offset: 0,
                         fill: 'var(--text-secondary)',
                     }}
                 />
                 <YAxis
+                    dataKey="y"
+                    name={data.axisLabels.y}
+                    type="number"
                     stroke="var(--text-secondary)"
                     tick={{ fill: 'var(--text-secondary)', fontSize: 12 }}
                     tickFormatter={formatYAxisValue}
                     label={{
-                        value: axisLabels.y,
+                        value: data.axisLabels.y,
                         angle: -90,
                         position: 'center',
                         dx: -20,
                         fill: 'var(--text-secondary)',
                     }}
                 />
+                {chartOptions.size_by && (
+                    <ZAxis
+                        dataKey="z"
+                        name={formatColumnName(chartOptions.size_by)}
+                        range={SCATTER_SIZE_RANGE}
+                    />
+                )}
                 <Tooltip
-                    content={(props) => (
-                        <CustomTooltip
-                            active={props.active}
-                            payload={props.payload as CustomTooltipProps['payload']}
-                            label={props.label}
-                            coordinate={props.coordinate}
-                            chartWidth={getChartWidth()}
-                            labelFormatter={formatTooltipValue}
-                            valueFormatter={(value, name) => [value?.toLocaleString() ?? '0', formatLabel(name)]}
-                        />
-                    )}
+                    cursor={{ strokeDasharray: '3 3' }}
+                    contentStyle={{
+                        background: 'var(--bg-primary)',
+                        border: '1px solid var(--border-primary)',
+                        borderRadius: '8px',
+                    }}
                 />
-                {seriesNames.map((name, index) => (
-                    <Bar
-                        key={name}
-                        dataKey={name}
-                        name={formatLabel(name)}
-                        fill={COLORS[index % COLORS.length]}
-                        radius={[4, 4, 0, 0]}
+                {data.groups.map((group, index) => (
+                    <Scatter
+                        key={group.key}
+                        name={group.label}
+                        data={group.points}
+                        fill={getSeriesStyle(chartOptions, group.key, index).color}
+                        fillOpacity={0.8}
                     />
                 ))}
-            </BarChart>
+            </ScatterChart>
         </ResponsiveContainer>
     );
 
-    // Render single-series charts (original behavior)
-    const renderSingleSeriesChart = () => {
-        switch (chartType) {
-            case 'bar':
-                return (
-                    <ResponsiveContainer width="100%" height="100%">
-                        <BarChart data={chartData} margin={{ top: 80, right: 30, left: 60, bottom: 80 }}>
-                            <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
-                            <XAxis
-                                dataKey="name"
-                                stroke="var(--text-secondary)"
-                                tick={{ fill: 'var(--text-secondary)', fontSize: 12 }}
-                                tickFormatter={formatTickValue}
-                                interval={getTickInterval(chartData.length)}
-                                angle={-45}
-                                textAnchor="end"
-                                height={80}
-                                label={{
-                                    value: axisLabels.x,
-                                    position: 'bottom',
-                                    offset: 0,
-                                    fill: 'var(--text-secondary)',
-                                }}
-                            />
-                            <YAxis
-                                stroke="var(--text-secondary)"
-                                tick={{ fill: 'var(--text-secondary)', fontSize: 12 }}
-                                tickFormatter={formatYAxisValue}
-                                label={{
-                                    value: axisLabels.y,
-                                    angle: -90,
-                                    position: 'center',
-                                    dx: -20,
-                                    fill: 'var(--text-secondary)',
-                                }}
-                            />
-                            <Tooltip
-                                content={(props) => (
-                                    <CustomTooltip
-                                        active={props.active}
-                                        payload={props.payload as CustomTooltipProps['payload']}
-                                        label={props.label}
-                                        coordinate={props.coordinate}
-                                        chartWidth={getChartWidth()}
-                                        valueFormatter={(value) => [value?.toLocaleString() ?? '0', axisLabels.y]}
-                                    />
-                                )}
-                            />
-                            <Bar
-                                dataKey="value"
-                                name={axisLabels.y}
-                                fill={COLORS[0]}
-                                radius={[4, 4, 0, 0]}
-                            />
-                        </BarChart>
-                    </ResponsiveContainer>
-                );
-
-            case 'line':
-                return (
-                    <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={chartData} margin={{ top: 80, right: 30, left: 60, bottom: 80 }}>
-                            <CartesianGrid strokeDasharray="3 3" stroke="var(--border-primary)" />
-                            <XAxis
-                                dataKey="name"
-                                stroke="var(--text-secondary)"
-                                tick={{ fill: 'var(--text-secondary)', fontSize: 12 }}
-                                tickFormatter={formatTickValue}
-                                interval={getTickInterval(chartData.length)}
-                                angle={-45}
-                                textAnchor="end"
-                                height={80}
-                                label={{
-                                    value: axisLabels.x,
-                                    position: 'bottom',
-                                    offset: 0,
-                                    fill: 'var(--text-secondary)',
-                                }}
-                            />
-                            <YAxis
-                                stroke="var(--text-secondary)"
-                                tick={{ fill: 'var(--text-secondary)', fontSize: 12 }}
-                                tickFormatter={formatYAxisValue}
-                                label={{
-                                    value: axisLabels.y,
-                                    angle: -90,
-                                    position: 'center',
-                                    dx: -20,
-                                    fill: 'var(--text-secondary)',
-                                }}
-                            />
-                            <Tooltip
-                                content={(props) => (
-                                    <CustomTooltip
-                                        active={props.active}
-                                        payload={props.payload as CustomTooltipProps['payload']}
-                                        label={props.label}
-                                        coordinate={props.coordinate}
-                                        chartWidth={getChartWidth()}
-                                        valueFormatter={(value) => [value?.toLocaleString() ?? '0', axisLabels.y]}
-                                    />
-                                )}
-                            />
-                            <Line
-                                type="monotone"
-                                dataKey="value"
-                                name={axisLabels.y}
-                                stroke={COLORS[0]}
-                                strokeWidth={2}
-                                dot={{ fill: COLORS[0], strokeWidth: 2 }}
-                                activeDot={{ r: 6 }}
-                            />
-                        </LineChart>
-                    </ResponsiveContainer>
-                );
-
-            case 'pie':
-                return (
-                    <ResponsiveContainer width="100%" height="100%">
-                        <PieChart>
-                            <Pie
-                                data={chartData}
-                                cx="50%"
-                                cy="50%"
-                                labelLine={false}
-                                label={({ name, percent }) => `${name}: ${((percent ?? 0) * 100).toFixed(0)}%`}
-                                outerRadius={150}
-                                fill="#8884d8"
-                                dataKey="value"
-                            >
-                                {chartData.map((_, index) => (
-                                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                                ))}
-                            </Pie>
-                            <Tooltip
-                                contentStyle={{
-                                    background: 'var(--bg-primary)',
-                                    border: '1px solid var(--border-primary)',
-                                    borderRadius: '8px',
-                                }}
-                            />
-                            <Legend />
-                        </PieChart>
-                    </ResponsiveContainer>
-                );
-
-            default:
-                return null;
-        }
-    };
+    const renderPieChart = () => (
+        <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+                <Pie
+                    data={chartData}
+                    cx="50%"
+                    cy="50%"
+                    labelLine={false}
+                    label={({ name, percent }) => `${name}: ${((percent ?? 0) * 100).toFixed(0)}%`}
+                    outerRadius={150}
+                    fill="#8884d8"
+                    dataKey={series[0]?.key ?? 'Value'}
+                    nameKey="xValue"
+                >
+                    {chartData.map((_, index) => (
+                        <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                    ))}
+                </Pie>
+                <Tooltip
+                    contentStyle={{
+                        background: 'var(--bg-primary)',
+                        border: '1px solid var(--border-primary)',
+                        borderRadius: '8px',
+                    }}
+                />
+                <Legend />
+            </PieChart>
+        </ResponsiveContainer>
+    );
 
     // Render appropriate chart
     const renderChart = () => {
-        // Multi-series mode
-        if (useMultiSeries && seriesNames.length > 0) {
-            switch (chartType) {
-                case 'line':
-                    return renderMultiSeriesLineChart();
-                case 'bar':
-                    return renderMultiSeriesBarChart();
-                case 'pie':
-                    // Pie doesn't make sense for time-series, fall back to single
-                    return renderSingleSeriesChart();
-                default:
-                    return renderMultiSeriesLineChart();
-            }
-        }
-
-        // Single-series mode
-        return renderSingleSeriesChart();
+        if (scatterData) return renderScatterChart(scatterData);
+        if (chartType === 'pie') return renderPieChart();
+        return renderSeriesChart();
     };
 
     // Render custom legend
@@ -0,0 +1,247 @@
+/**
+ * DataChartOptions - Chart-specific settings below the controls bar
+ * Stacking for area charts, size/color columns for scatter charts, axis scales,
+ * and a chart type, color, line style, axis and value format per series
+ */
+
+import { useMemo, useState } from 'react';
+import { useDataStore, useActiveChartConfig } from '../../store/useDataStore';
+import { formatColumnName } from '../../utils/formatters';
+import {
+    buildScatterChartData,
+    buildSeriesChartData,
+    canUseLogScale,
+    getSeriesStyle,
+    type ChartSeries,
+} from '../../utils/chartData';
+import type {
+    AxisScale,
+    DataResult,
+    SeriesAxis,
+    SeriesChartType,
+    SeriesLineStyle,
+    SeriesValueFormat,
+} from '../../types/data';
+import Checkbox from '../Checkbox';
+import styles from '../../styles/data_page/DataChartOptions.module.css';
+
+interface DataChartOptionsProps {
+    result: DataResult;
+}
+
+const SERIES_CHART_TYPES: { value: SeriesChartType; label: string }[] = [
+    { value: 'bar',  label: 'Bar' },
+    { value: 'line', label: 'Line' },
+    { value: 'area', label: 'Area' },
+];
+
+const VALUE_FORMATS: { value: SeriesValueFormat; label: string }[] = [
+    { value: 'number',   label: 'Number' },
+    { value: 'currency', label: 'Currency' },
+    { value: 'percent',  label: 'Percent' },
+    { value: 'hours',    label: 'Hours' },
+];
+
+const AXIS_SIDES: { value: SeriesAxis; label: string }[] = [
+    { value: 'left',  label: 'Left' },
+    { value: 'right', label: 'Right' },
+];
+
+const LINE_STYLES: { value: SeriesLineStyle; label: string }[] = [
+    { value: 'solid',  label: 'Solid' },
+    { value: 'dashed', label: 'Dashed' },
+    { value: 'dotted', label: 'Dotted' },
+];
+
+/**
+ * Columns whose non-empty values are all numeric - the only ones that can size a point
+ */
+function getNumericColumns(result: DataResult): string[] {
+    return result.columns.filter((_, index) => {
+        const values = result.rows
+            .map(row => row[index])
+            .filter(value => value !== null && value !== undefined && value !== '');
+        return values.length > 0 && values.every(value => Number.isFinite(Number(value)));
+    });
+}
+
+const DataChartOptions = ({ result }: DataChartOptionsProps) => {
+    const { chartType, xAxis, yAxes, chartOptions, setChartOptions, setSeriesStyle } = useDataStore();
+    const chartConfig = useActiveChartConfig();
+    const [showSeries, setShowSeries] = useState(false);
+
+    const isScatter = chartType === 'scatter';
+    const defaultSeriesType: SeriesChartType = chartType === 'line' || chartType === 'area' ? chartType : 'bar';
+
+    const numericColumns = useMemo(() => getNumericColumns(result), [result]);
+
+    // The same series the canvas draws, so style keys line up
+    const { series, rows } = useMemo((): { series: ChartSeries[]; rows: Record<string, unknown>[] } => {
+        if (isScatter) {
+            return { series: buildScatterChartData(result, xAxis, yAxes[0] ?? null, chartOptions).groups, rows: [] };
+        }
+        return buildSeriesChartData(result, xAxis, yAxes, chartConfig);
+    }, [isScatter, result, xAxis, yAxes, chartOptions, chartConfig]);
+
+    const seriesStyles = series.map((s, index) => getSeriesStyle(chartOptions, s.key, index, defaultSeriesType));
+    const hasArea = !isScatter && seriesStyles.some(style => style.chartType === 'area');
+    const usedAxes = AXIS_SIDES.filter(({ value }) => !isScatter && seriesStyles.some(style => style.axis === value));
+
+    const setAxisScale = (axis: SeriesAxis, scale: AxisScale) => {
+        setChartOptions({ axes: { ...chartOptions.axes, [axis]: { ...chartOptions.axes?.[axis], scale } } });
+    };
+
+    return (
+        <div className={styles.options}>
+            <div className={styles.row}>
+                {hasArea && (
+                    <Checkbox
+                        checked={!!chartOptions.stacked}
+                        onChange={(stacked) => setChartOptions({ stacked })}
+                        label="Stacked"
+                        size="small"
+                    />
+                )}
+
+                {isScatter && (
+                    <>
+                        <div className={styles.control}>
+                            <label htmlFor="scatter-size-by">Size</label>
+                            <select
+                                id="scatter-size-by"
+                                value={chartOptions.size_by || ''}
+                                onChange={(e) => setChartOptions({ size_by: e.target.value || undefined })}
+                            >
+                                <option value="">None</option>
+                                {numericColumns.map((col) => (
+                                    <option key={col} value={col}>
+                                        {formatColumnName(col)}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className={styles.control}>
+                            <label htmlFor="scatter-color-by">Color</label>
+                            <select
+                                id="scatter-color-by"
+                                value={chartOptions.color_by || ''}
+                                onChange={(e) => setChartOptions({ color_by: e.target.value || undefined })}
+                            >
+                                <option value="">None</option>
+                                {result.columns.map((col) => (
+                                    <option key={col} value={col}>
+                                        {formatColumnName(col)}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </>
+                )}
+
+                {usedAxes.map(({ value: axis, label }) => {
+                    // The canvas draws these axes linear anyway
+                    const axisKeys = series.filter((_, index) => seriesStyles[index].axis === axis).map(s => s.key);
+                    const logAllowed = canUseLogScale(rows, axisKeys);
+
+                    return (
+                        <div key={axis} className={styles.control}>
+                            <label htmlFor={`axis-scale-${axis}`}>{usedAxes.length > 1 ? `${label} scale` : 'Scale'}</label>
+                            <select
+                                id={`axis-scale-${axis}`}
+                                value={logAllowed ? chartOptions.axes?.[axis]?.scale ?? 'linear' : 'linear'}
+                                onChange={(e) => setAxisScale(axis, e.target.value as AxisScale)}
+                                title={logAllowed ? undefined : 'Log scale needs every value on this axis to be above zero'}
+                            >
+                                <option value="linear">Linear</option>
+                                <option value="log" disabled={!logAllowed}>Log</option>
+                            </select>
+                        </div>
+                    );
+                })}
+
+                {series.length > 0 && (
+                    <button
+                        type="button"
+                        className={styles.seriesToggle}
+                        onClick={() => setShowSeries(!showSeries)}
+                        aria-expanded={showSeries}
+                    >
+                        {showSeries ? 'Hide series styles' : `Series styles (${series.length})`}
+                    </button>
+                )}
+            </div>
+
+            {showSeries && (
+                <div className={styles.seriesList}>
+                    {series.map((s, index) => {
+                        const style = seriesStyles[index];
+
+                        return (
+                            <div key={s.key} className={styles.seriesRow}>
+                                <input
+                                    type="color"
+                                    className={styles.colorInput}
+                                    value={style.color}
+                                    onChange={(e) => setSeriesStyle(s.key, { color: e.target.value })}
+                                    aria-label={`${s.label} color`}
+                                />
+                                <span className={styles.seriesLabel} title={s.label}>{s.label}</span>
+
+                                {!isScatter && (
+                                    <select
+                                        value={style.chartType}
+                                        onChange={(e) => setSeriesStyle(s.key, { chart_type: e.target.value as SeriesChartType })}
+                                        aria-label={`${s.label} chart type`}
+                                    >
+                                        {SERIES_CHART_TYPES.map(({ value, label }) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                )}
+
+                                {style.chartType !== 'bar' && !isScatter && (
+                                    <select
+                                        value={style.lineStyle}
+                                        onChange={(e) => setSeriesStyle(s.key, { line_style: e.target.value as SeriesLineStyle })}
+                                        aria-label={`${s.label} line style`}
+                                    >
+                                        {LINE_STYLES.map(({ value, label }) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                )}
+
+                                {!isScatter && (
+                                    <select
+                                        value={style.axis}
+                                        onChange={(e) => setSeriesStyle(s.key, { axis: e.target.value as SeriesAxis })}
+                                        aria-label={`${s.label} axis`}
+                                    >
+                                        {AXIS_SIDES.map(({ value, label }) => (
+                                            <option key={value} value={value}>{label} axis</option>
+                                        ))}
+                                    </select>
+                                )}
+
+                                {!isScatter && (
+                                    <select
+                                        value={style.format}
+                                        onChange={(e) => setSeriesStyle(s.key, { format: e.target.value as SeriesValueFormat })}
+                                        aria-label={`${s.label} value format`}
+                                    >
+                                        {VALUE_FORMATS.map(({ value, label }) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DataChartOptions;
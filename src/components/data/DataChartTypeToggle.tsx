@@ -38,6 +38,28 @@ const ALL_CHART_TYPES: ChartTypeOption[] = [
             </svg>
         ),
     },
+    {
+        type: 'area',
+        label: 'Area',
+        icon: (
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M3 20V14l5-5 4 4 4-6 5 5v8z" />
+            </svg>
+        ),
+    },
+    {
+        type: 'scatter',
+        label: 'Scatter',
+        icon: (
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M3 3v18h18" />
+                <circle cx="8" cy="15" r="1.5" />
+                <circle cx="12" cy="10" r="1.5" />
+                <circle cx="17" cy="13" r="1.5" />
+                <circle cx="18" cy="6" r="1.5" />
+            </svg>
+        ),
+    },
     {
         type: 'pie',
         label: 'Pie',
@@ -76,28 +98,28 @@ const ALL_CHART_TYPES: ChartTypeOption[] = [
 ];
 
 const DataChartTypeToggle = () => {
-    const { chartType, setChartType, activeResult } = useDataStore();
+    const { chartType, setChartType, viewResult } = useDataStore();
     const chartConfig = useActiveChartConfig();
 
     // Filter valid chart types based on data characteristics
     const validTypes = useMemo(() => {
         const types: ChartType[] = ['table']; // Always available
         
-        if (!activeResult) return types;
+        if (!viewResult) return types;
         
-        const rowCount = activeResult.row_count;
+        const rowCount = viewResult.row_count;
         
         // Single record -> card makes sense
         if (rowCount === 1) {
             types.push('card');
         }
         
-        // Multi-series data -> bar and line
+        // Multi-series data -> bar, line and area
         if (chartConfig?.series_by) {
-            types.push('bar', 'line');
+            types.push('bar', 'line', 'area');
         } else if (rowCount > 1) {
             // Regular multi-row data
-            types.push('bar', 'line');
+            types.push('bar', 'line', 'area', 'scatter');
             
             // Pie only makes sense for small datasets
             if (rowCount <= 12) {
@@ -106,7 +128,7 @@ const DataChartTypeToggle = () => {
         }
         
         return types;
-    }, [activeResult, chartConfig]);
+    }, [viewResult, chartConfig]);
 
     // Filter to only show valid types
     const availableTypes = ALL_CHART_TYPES.filter(ct => validTypes.includes(ct.type));
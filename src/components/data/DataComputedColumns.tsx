@@ -0,0 +1,129 @@
+/**
+ * DataComputedColumns - Add and remove columns calculated from a formula
+ * Expressions are checked against the current columns before they're added
+ */
+
+import { useState } from 'react';
+import { compileExpression, ExpressionError, EXPRESSION_FUNCTIONS } from '../../utils/expression';
+import type { ComputedColumn } from '../../types/data';
+import styles from '../../styles/data_page/DataComputedColumns.module.css';
+
+interface DataComputedColumnsProps {
+    columns: string[];                      // Includes existing computed columns
+    computedColumns: ComputedColumn[];
+    onChange: (computedColumns: ComputedColumn[]) => void;
+}
+
+const DataComputedColumns = ({ columns, computedColumns, onChange }: DataComputedColumnsProps) => {
+    const [isAdding, setIsAdding] = useState(false);
+    const [name, setName] = useState('');
+    const [expression, setExpression] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const resetForm = () => {
+        setIsAdding(false);
+        setName('');
+        setExpression('');
+        setError(null);
+    };
+
+    const handleAdd = () => {
+        const trimmedName = name.trim();
+        if (!trimmedName) {
+            setError('Give the column a name');
+            return;
+        }
+        if (columns.includes(trimmedName)) {
+            setError(`There is already a column called ${trimmedName}`);
+            return;
+        }
+
+        try {
+            compileExpression(expression, columns);
+        } catch (err) {
+            setError(err instanceof ExpressionError
+                ? `${err.message} (at character ${err.position + 1})`
+                : 'Invalid expression');
+            return;
+        }
+
+        onChange([...computedColumns, { name: trimmedName, expression: expression.trim() }]);
+        resetForm();
+    };
+
+    const handleRemove = (columnName: string) => {
+        onChange(computedColumns.filter(c => c.name !== columnName));
+    };
+
+    return (
+        <div className={styles.computed}>
+            {computedColumns.map((computed) => (
+                <span key={computed.name} className={styles.chip} title={computed.expression}>
+                    <span className={styles.chipName}>{computed.name}</span>
+                    <span className={styles.chipExpression}>= {computed.expression}</span>
+                    <button
+                        type="button"
+                        className={styles.chipRemove}
+                        onClick={() => handleRemove(computed.name)}
+                        aria-label={`Remove ${computed.name}`}
+                    >
+                        ×
+                    </button>
+                </span>
+            ))}
+
+            {isAdding ? (
+                <div className={styles.form}>
+                    <div className={styles.formRow}>
+                        <input
+                            type="text"
+                            className={styles.nameInput}
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Column name"
+                            aria-label="Column name"
+                            autoFocus
+                        />
+                        <span className={styles.equals}>=</span>
+                        <input
+                            type="text"
+                            className={styles.expressionInput}
+                            value={expression}
+                            onChange={(e) => {
+                                setExpression(e.target.value);
+                                setError(null);
+                            }}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleAdd();
+                                if (e.key === 'Escape') resetForm();
+                            }}
+                            placeholder="Weight / Pieces"
+                            aria-label="Expression"
+                            spellCheck={false}
+                        />
+                        <button type="button" className={styles.addButton} onClick={handleAdd}>
+                            Add
+                        </button>
+                        <button type="button" className={styles.cancelButton} onClick={resetForm}>
+                            Cancel
+                        </button>
+                    </div>
+                    {error ? (
+                        <span className={styles.error}>{error}</span>
+                    ) : (
+                        <span className={styles.hint}>
+                            Use column names, numbers, + - * / and {EXPRESSION_FUNCTIONS.join(', ')}.
+                            Put names with spaces in [brackets].
+                        </span>
+                    )}
+                </div>
+            ) : (
+                <button type="button" className={styles.newButton} onClick={() => setIsAdding(true)}>
+                    + Computed column
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default DataComputedColumns;
@@ -4,7 +4,7 @@
  */
 
 import type { DataResult } from '../../types/data';
-import formatDateWithYear, { formatColumnName, formatPMName } from '../../services/api';
+import formatDateWithYear, { formatColumnName, formatPMName } from '../../utils/formatters';
 import styles from '../../styles/data_page/DataDetailCard.module.css';
 
 interface DataDetailCardProps {
@@ -3,17 +3,43 @@
  * Handles URL params, loads sessions, coordinates child components
  */
 
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { useDataStore } from '../../store/useDataStore';
 import { useDataApi } from '../../store/useDataApi';
+import { useDataView } from '../../hooks';
 import DataToolSidebar from './DataToolSidebar';
 import DataVisualizationPanel from './DataVisualizationPanel';
 import DataSessionHeader from './DataSessionHeader';
 import DataSessionSidebar from './DataSessionSidebar';
 import SidebarToggleWrench from '../../assets/svg/toolbox/sidebarToggleWrench';
+import type { VisualizationConfig } from '../../types';
 import styles from '../../styles/data_page/DataPage.module.css';
 
+// Wait for the user to stop adjusting before saving the chart view
+const SAVE_VIEW_DELAY_MS = 800;
+
+function toVisualizationConfig(
+    chartType: VisualizationConfig['chart_type'],
+    xAxis: string | null | undefined,
+    yAxes: string[],
+    options: VisualizationConfig['options'],
+    pivot: VisualizationConfig['pivot'],
+    filters: VisualizationConfig['filters'],
+    computedColumns: VisualizationConfig['computed_columns']
+): VisualizationConfig {
+    return {
+        chart_type: chartType,
+        x_axis: xAxis ?? undefined,
+        y_axis: yAxes[0],
+        y_axes: yAxes,
+        options: options ?? {},
+        pivot: pivot ?? null,
+        filters: filters ?? [],
+        computed_columns: computedColumns ?? [],
+    };
+}
+
 const DataPage = () => {
     const [searchParams] = useSearchParams();
     const sessionId = searchParams.get('session');
@@ -27,9 +53,22 @@ const DataPage = () => {
         setSidebarOpen,
         sessionSidebarOpen,
         setSessionSidebarOpen,
+        chartType,
+        xAxis,
+        yAxes,
+        chartOptions,
+        pivot,
+        filters,
+        computedColumns,
     } = useDataStore();
     
-    const { fetchSession, fetchResults, fetchTools } = useDataApi();
+    const { fetchSession, fetchResults, fetchTools, updateSession } = useDataApi();
+
+    // Apply computed columns, filters and the pivot for the views
+    useDataView();
+
+    // What the session opened with - not worth a save until the user changes something
+    const savedViewRef = useRef<{ sessionId: number; json: string } | null>(null);
 
     // Load tools on mount
     useEffect(() => {
@@ -53,6 +92,62 @@ const DataPage = () => {
         }
     }, [sessionId, fetchSession, fetchResults]);
 
+    // Persist chart type, axes, styling, pivot, filters and computed columns
+    // to the session's visualization_config
+    useEffect(() => {
+        if (!activeSession || !activeResult) return;
+
+        const config = toVisualizationConfig(
+            chartType,
+            xAxis,
+            yAxes,
+            chartOptions,
+            pivot,
+            filters,
+            computedColumns
+        );
+        const json = JSON.stringify(config);
+
+        if (savedViewRef.current?.sessionId !== activeSession.id) {
+            const saved = activeSession.visualization_config;
+            savedViewRef.current = {
+                sessionId: activeSession.id,
+                json: saved
+                    ? JSON.stringify(toVisualizationConfig(
+                        saved.chart_type,
+                        saved.x_axis,
+                        saved.y_axes ?? (saved.y_axis ? [saved.y_axis] : []),
+                        saved.options,
+                        saved.pivot,
+                        saved.filters,
+                        saved.computed_columns
+                    ))
+                    : json,
+            };
+        }
+        if (json === savedViewRef.current.json) return;
+
+        const sessionToSave = activeSession.id;
+        const timer = setTimeout(() => {
+            savedViewRef.current = { sessionId: sessionToSave, json };
+            updateSession(sessionToSave, { visualization_config: config }, true)
+                .catch((error) => console.error('Failed to save visualization config:', error));
+        }, SAVE_VIEW_DELAY_MS);
+
+        return () => clearTimeout(timer);
+    }, [
+        activeSession,
+        activeResult,
+        chartType,
+        xAxis,
+        yAxes,
+        chartOptions,
+        pivot,
+        filters,
+        computedColumns,
+        updateSession,
+    ]);
+
     return (
         <div className={styles.dataPage}>
             {/* Tool Sidebar */}
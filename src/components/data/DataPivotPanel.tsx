@@ -0,0 +1,163 @@
+/**
+ * DataPivotPanel - Group-by and aggregation builder
+ * Row keys, column keys and aggregated values over the loaded result.
+ * The output replaces the result in the chart, table and card views.
+ */
+
+import { useDataStore } from '../../store/useDataStore';
+import { formatColumnName } from '../../utils/formatters';
+import { PIVOT_AGGREGATIONS } from '../../utils/pivot';
+import type { PivotAggregation, PivotConfig, PivotValue } from '../../types/data';
+import styles from '../../styles/data_page/DataPivotPanel.module.css';
+
+interface DataPivotPanelProps {
+    columns: string[];
+}
+
+type KeyField = 'rows' | 'columns';
+
+const EMPTY_PIVOT: PivotConfig = { rows: [], columns: [], values: [] };
+
+const DataPivotPanel = ({ columns }: DataPivotPanelProps) => {
+    const { pivot, setPivot, isComputingView } = useDataStore();
+    const config = pivot ?? EMPTY_PIVOT;
+
+    // A column can be a row key or a column key, not both
+    const unusedColumns = columns.filter(col => !config.rows.includes(col) && !config.columns.includes(col));
+
+    const update = (next: PivotConfig) => {
+        const isEmpty = !next.rows.length && !next.columns.length && !next.values.length;
+        setPivot(isEmpty ? null : next);
+    };
+
+    const addKey = (field: KeyField, column: string) => {
+        if (!column) return;
+        update({ ...config, [field]: [...config[field], column] });
+    };
+
+    const removeKey = (field: KeyField, column: string) => {
+        update({ ...config, [field]: config[field].filter(col => col !== column) });
+    };
+
+    const updateValue = (index: number, changes: Partial<PivotValue>) => {
+        update({
+            ...config,
+            values: config.values.map((v, i) => (i === index ? { ...v, ...changes } : v)),
+        });
+    };
+
+    const addValue = () => {
+        const column = unusedColumns[0] ?? columns[0] ?? null;
+        update({ ...config, values: [...config.values, { column, aggregation: 'sum' }] });
+    };
+
+    const removeValue = (index: number) => {
+        update({ ...config, values: config.values.filter((_, i) => i !== index) });
+    };
+
+    const renderKeyField = (field: KeyField, label: string) => (
+        <div className={styles.field}>
+            <span className={styles.fieldLabel}>{label}</span>
+            <div className={styles.chips}>
+                {config[field].map((col) => (
+                    <span key={col} className={styles.chip}>
+                        {formatColumnName(col)}
+                        <button
+                            type="button"
+                            className={styles.chipRemove}
+                            onClick={() => removeKey(field, col)}
+                            aria-label={`Remove ${formatColumnName(col)}`}
+                        >
+                            ×
+                        </button>
+                    </span>
+                ))}
+                <select
+                    value=""
+                    onChange={(e) => addKey(field, e.target.value)}
+                    aria-label={`Add ${label.toLowerCase()} column`}
+                    disabled={unusedColumns.length === 0}
+                >
+                    <option value="">Add column...</option>
+                    {unusedColumns.map((col) => (
+                        <option key={col} value={col}>
+                            {formatColumnName(col)}
+                        </option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <span className={styles.title}>Pivot</span>
+                {isComputingView && <span className={styles.status}>Computing...</span>}
+                <button
+                    type="button"
+                    className={styles.clearButton}
+                    onClick={() => setPivot(null)}
+                    disabled={!pivot}
+                >
+                    Clear
+                </button>
+            </div>
+
+            {renderKeyField('rows', 'Rows')}
+            {renderKeyField('columns', 'Columns')}
+
+            <div className={styles.field}>
+                <span className={styles.fieldLabel}>Values</span>
+                <div className={styles.values}>
+                    {config.values.length === 0 && (
+                        <span className={styles.hint}>Row count</span>
+                    )}
+                    {config.values.map((value, index) => (
+                        <div key={index} className={styles.valueRow}>
+                            <select
+                                value={value.aggregation}
+                                onChange={(e) => updateValue(index, { aggregation: e.target.value as PivotAggregation })}
+                                aria-label="Aggregation"
+                            >
+                                {PIVOT_AGGREGATIONS.map(({ value: agg, label }) => (
+                                    <option key={agg} value={agg}>{label}</option>
+                                ))}
+                            </select>
+                            <span className={styles.of}>of</span>
+                            <select
+                                value={value.column ?? ''}
+                                onChange={(e) => updateValue(index, { column: e.target.value || null })}
+                                aria-label="Column"
+                            >
+                                <option value="">All rows</option>
+                                {columns.map((col) => (
+                                    <option key={col} value={col}>
+                                        {formatColumnName(col)}
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                type="button"
+                                className={styles.chipRemove}
+                                onClick={() => removeValue(index)}
+                                aria-label="Remove value"
+                            >
+                                ×
+                            </button>
+                        </div>
+                    ))}
+                    <button type="button" className={styles.addButton} onClick={addValue}>
+                        + Add value
+                    </button>
+                </div>
+            </div>
+
+            <span className={styles.hint}>
+                Pick at least one row or column key to pivot. Without values each group shows its row count.
+            </span>
+        </div>
+    );
+};
+
+export default DataPivotPanel;
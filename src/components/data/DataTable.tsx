@@ -1,8 +1,10 @@
 /**
- * DataTable - Raw data table view with sorting, summaries, and draggable columns
+ * DataTable - Raw data table view with sorting, summaries, filters, and draggable,
+ * resizable columns. Only the rows in view are rendered; sorting and summaries
+ * run in the data worker.
  */
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import {
     DndContext,
     closestCenter,
@@ -20,27 +22,53 @@ import {
     horizontalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { GripVertical } from 'lucide-react';
-import type { DataResult } from '../../types/data';
-import { formatColumnName, formatPMName } from '../../services/api';
+import { GripVertical, Filter } from 'lucide-react';
+import type { ColumnFilter, ComputedColumn, DataResult } from '../../types/data';
+import { formatColumnName, formatPMName } from '../../utils/formatters';
+import { detectColumnType, isFilterActive } from '../../utils/dataView';
+import type { ColumnSummary } from '../../utils/dataTable';
+import { useTableRowOrder, useTableSummaries } from '../../hooks';
+import DataTableFilter from './DataTableFilter';
+import DataComputedColumns from './DataComputedColumns';
 import styles from '../../styles/data_page/DataTable.module.css';
 
 interface DataTableProps {
-    result: DataResult;
+    result: Pick<DataResult, 'columns' | 'rows'>;
+    // Filtering and computed columns are offered only when these are passed
+    filters?: ColumnFilter[];
+    filterSource?: Pick<DataResult, 'columns' | 'rows'>;   // Unfiltered rows, for pick-lists
+    onFilterChange?: (column: string, filter: ColumnFilter | null) => void;
+    onClearFilters?: () => void;
+    computedColumns?: ComputedColumn[];
+    onComputedColumnsChange?: (computedColumns: ComputedColumn[]) => void;
 }
 
 type SortDirection = 'asc' | 'desc' | null;
 
-type ColumnType = 'number' | 'date' | 'string';
-
-interface ColumnSummary {
-    type: ColumnType;
-    sum?: number;
-    distinctCount?: number;
-    minDate?: Date;
-    maxDate?: Date;
+interface OpenFilter {
+    column: string;
+    position: { x: number; y: number };
 }
 
+// Popover width plus a margin, so it never runs off the right edge
+const FILTER_POPOVER_SPACE = 276;
+
+// Must match `.table tbody tr` height in DataTable.module.css
+const ROW_HEIGHT = 36;
+
+// Rows rendered above and below the viewport so fast scrolling doesn't flash
+const OVERSCAN_ROWS = 12;
+
+// Until the wrapper has been measured (its max-height)
+const DEFAULT_VIEWPORT_HEIGHT = 500;
+
+// Initial column widths are estimated from the header and a sample of rows
+const WIDTH_SAMPLE_ROWS = 200;
+const CHAR_WIDTH = 7.5;
+const HEADER_CONTROLS_WIDTH = 64;        // Grip, sort indicator, filter button and padding
+const MIN_COLUMN_WIDTH = 60;
+const MAX_ESTIMATED_WIDTH = 360;
+
 // =============================================================================
 // Sortable Header Cell Component
 // =============================================================================
@@ -50,9 +78,20 @@ interface SortableHeaderProps {
     sortColumn: string | null;
     sortDirection: SortDirection;
     onSort: (column: string) => void;
+    isFiltered: boolean;
+    onOpenFilter?: (column: string, anchor: HTMLElement) => void;
+    onResizeStart: (column: string, e: React.PointerEvent<HTMLElement>) => void;
 }
 
-const SortableHeader = ({ column, sortColumn, sortDirection, onSort }: SortableHeaderProps) => {
+const SortableHeader = ({
+    column,
+    sortColumn,
+    sortDirection,
+    onSort,
+    isFiltered,
+    onOpenFilter,
+    onResizeStart,
+}: SortableHeaderProps) => {
     const {
         attributes,
         listeners,
@@ -93,7 +132,26 @@ const SortableHeader = ({ column, sortColumn, sortDirection, onSort }: SortableH
                 <span className={`${styles.sortIndicator} ${isActive ? styles.active : ''}`}>
                     {isActive && (sortDirection === 'asc' ? '▲' : '▼')}
                 </span>
+                {onOpenFilter && (
+                    <button
+                        type="button"
+                        className={`${styles.filterButton} ${isFiltered ? styles.filterActive : ''}`}
+                        onClick={(e) => onOpenFilter(column, e.currentTarget)}
+                        title={`Filter ${formatColumnName(column)}`}
+                        aria-label={`Filter ${formatColumnName(column)}`}
+                    >
+                        <Filter size={12} />
+                    </button>
+                )}
             </span>
+            <span
+                className={styles.resizeHandle}
+                onPointerDown={(e) => onResizeStart(column, e)}
+                onClick={(e) => e.stopPropagation()}
+                role="separator"
+                aria-orientation="vertical"
+                aria-label={`Resize ${formatColumnName(column)}`}
+            />
         </th>
     );
 };
@@ -103,115 +161,48 @@ const SortableHeader = ({ column, sortColumn, sortDirection, onSort }: SortableH
 // =============================================================================
 
 /**
- * Detect column type from values
- */
-const detectColumnType = (values: unknown[]): ColumnType => {
-    for (const value of values) {
-        if (value === null || value === undefined || value === '') continue;
-
-        if (typeof value === 'number') return 'number';
-
-        if (typeof value === 'string') {
-            if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
-                const parsed = new Date(value);
-                if (!isNaN(parsed.getTime())) return 'date';
-            }
-        }
-    }
-    return 'string';
-};
-
-/**
- * Parse value for sorting comparison
+ * Format a cell value for display
  */
-const parseValueForSort = (value: unknown, type: ColumnType): number | string | Date => {
+const formatValue = (value: unknown, colName: string): string => {
     if (value === null || value === undefined) {
-        return type === 'number' ? -Infinity : type === 'date' ? new Date(0) : '';
+        return '—';
     }
 
-    switch (type) {
-        case 'number':
-            return typeof value === 'number' ? value : parseFloat(String(value)) || 0;
-        case 'date':
-            return new Date(String(value));
-        default:
-            return String(value).toLowerCase();
-    }
-};
+    const col = colName.toLowerCase();
 
-/**
- * Compare two values for sorting
- */
-const compareValues = (a: unknown, b: unknown, type: ColumnType, direction: 'asc' | 'desc'): number => {
-    const aVal = parseValueForSort(a, type);
-    const bVal = parseValueForSort(b, type);
-
-    let result: number;
-
-    if (type === 'number') {
-        result = (aVal as number) - (bVal as number);
-    } else if (type === 'date') {
-        result = (aVal as Date).getTime() - (bVal as Date).getTime();
-    } else {
-        result = (aVal as string).localeCompare(bVal as string);
+    if (col === 'projectmanager') {
+        return formatPMName(value);
     }
 
-    return direction === 'desc' ? -result : result;
-};
-
-/**
- * Calculate summary for a column
- */
-const calculateColumnSummary = (values: unknown[], type: ColumnType): ColumnSummary => {
-    const summary: ColumnSummary = { type };
-
-    switch (type) {
-        case 'number': {
-            let sum = 0;
-            for (const value of values) {
-                if (typeof value === 'number') {
-                    sum += value;
-                } else if (value !== null && value !== undefined) {
-                    sum += parseFloat(String(value)) || 0;
-                }
-            }
-            summary.sum = sum;
-            break;
-        }
-        case 'date': {
-            let min: Date | null = null;
-            let max: Date | null = null;
-            for (const value of values) {
-                if (value === null || value === undefined) continue;
-                const date = new Date(String(value));
-                if (isNaN(date.getTime())) continue;
-                if (!min || date < min) min = date;
-                if (!max || date > max) max = date;
-            }
-            if (min) summary.minDate = min;
-            if (max) summary.maxDate = max;
-            break;
-        }
-        case 'string': {
-            const distinct = new Set<string>();
-            for (const value of values) {
-                if (value !== null && value !== undefined && value !== '') {
-                    distinct.add(String(value));
-                }
-            }
-            summary.distinctCount = distinct.size;
-            break;
+    // Handle ISO date strings (2024-07-22T00:00:00)
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+        const date = new Date(value);
+        if (!isNaN(date.getTime())) {
+            return date.toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'short',
+                day: 'numeric'
+            });
         }
     }
 
-    return summary;
+    // Identifier fields - no comma formatting
+    if (col.includes('jobnumber') || col.includes('jobno') || col.includes('_id') || col === 'id') {
+        return String(value);
+    }
+
+    if (typeof value === 'number') {
+        return value.toLocaleString();
+    }
+    return String(value);
 };
 
 /**
  * Format summary value for display
  */
-const formatSummary = (summary: ColumnSummary, isFirstColumn: boolean): string => {
+const formatSummary = (summary: ColumnSummary | undefined, isFirstColumn: boolean): string => {
     if (isFirstColumn) return 'Total';
+    if (!summary) return '…';
 
     switch (summary.type) {
         case 'number':
@@ -234,14 +225,58 @@ const formatSummary = (summary: ColumnSummary, isFirstColumn: boolean): string =
     }
 };
 
+/**
+ * Short description of a filter for its chip
+ */
+const describeFilter = (filter: ColumnFilter): string => {
+    switch (filter.type) {
+        case 'text':
+            return `contains "${filter.contains}"`;
+        case 'range':
+            if (filter.min !== null && filter.max !== null) {
+                return `${filter.min.toLocaleString()} – ${filter.max.toLocaleString()}`;
+            }
+            return filter.min !== null
+                ? `≥ ${filter.min.toLocaleString()}`
+                : `≤ ${filter.max?.toLocaleString()}`;
+        case 'date_range':
+            if (filter.from && filter.to) return `${filter.from} – ${filter.to}`;
+            return filter.from ? `from ${filter.from}` : `until ${filter.to}`;
+        case 'values':
+            return filter.values.length === 1
+                ? (filter.values[0] || '(blank)')
+                : `${filter.values.length} values`;
+    }
+};
+
+/**
+ * Starting width for a column: wide enough for its header and typical values
+ */
+const estimateColumnWidth = (column: string, values: string[]): number => {
+    let longest = formatColumnName(column).length * CHAR_WIDTH + HEADER_CONTROLS_WIDTH;
+    for (const value of values) {
+        longest = Math.max(longest, value.length * CHAR_WIDTH + 24);
+    }
+    return Math.round(Math.min(MAX_ESTIMATED_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest)));
+};
+
 // =============================================================================
 // Main Component
 // =============================================================================
 
-const DataTable = ({ result }: DataTableProps) => {
+const DataTable = ({
+    result,
+    filters,
+    filterSource,
+    onFilterChange,
+    onClearFilters,
+    computedColumns,
+    onComputedColumnsChange,
+}: DataTableProps) => {
     const [sortColumn, setSortColumn] = useState<string | null>(null);
     const [sortDirection, setSortDirection] = useState<SortDirection>(null);
     const [columnOrder, setColumnOrder] = useState<string[]>(result.columns);
+    const [openFilter, setOpenFilter] = useState<OpenFilter | null>(null);
 
     // Update column order when result changes
     useMemo(() => {
@@ -271,39 +306,80 @@ const DataTable = ({ result }: DataTableProps) => {
         return map;
     }, [result.columns]);
 
-    // Detect column types
-    const columnTypes = useMemo(() => {
-        const types: Record<string, ColumnType> = {};
-        result.columns.forEach((col, colIndex) => {
-            const values = result.rows.map(row => row[colIndex]);
-            types[col] = detectColumnType(values);
-        });
-        return types;
-    }, [result.columns, result.rows]);
+    // Sorted row order and summaries come from the data worker
+    const { order: rowOrder, isSorting } = useTableRowOrder(result, { column: sortColumn, order: sortDirection });
+    const summaries = useTableSummaries(result);
 
-    // Sort rows
-    const sortedRows = useMemo(() => {
-        if (!sortColumn || !sortDirection) return result.rows;
+    // Windowing - track the scroll position and viewport height
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(DEFAULT_VIEWPORT_HEIGHT);
 
-        const colIndex = originalIndexMap[sortColumn];
-        if (colIndex === undefined) return result.rows;
+    // A new result starts at the top
+    const [scrolledRows, setScrolledRows] = useState(result.rows);
+    if (scrolledRows !== result.rows) {
+        setScrolledRows(result.rows);
+        setScrollTop(0);
+    }
 
-        const type = columnTypes[sortColumn];
+    useEffect(() => {
+        if (wrapperRef.current) wrapperRef.current.scrollTop = 0;
+    }, [result.rows]);
+
+    useEffect(() => {
+        const wrapper = wrapperRef.current;
+        if (!wrapper || typeof ResizeObserver === 'undefined') return;
+
+        const observer = new ResizeObserver(() => setViewportHeight(wrapper.clientHeight));
+        observer.observe(wrapper);
+        return () => observer.disconnect();
+    }, []);
+
+    const rowCount = result.rows.length;
+    const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+    const lastRow = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+    const visibleIndices: number[] = [];
+    for (let i = firstRow; i < lastRow; i++) {
+        visibleIndices.push(rowOrder ? rowOrder[i] : i);
+    }
 
-        return [...result.rows].sort((a, b) =>
-            compareValues(a[colIndex], b[colIndex], type, sortDirection)
-        );
-    }, [result.rows, sortColumn, sortDirection, columnTypes, originalIndexMap]);
+    // Column widths - estimated per result, overridden by dragging a header edge
+    const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+    const resizeRef = useRef<{ column: string; startX: number; startWidth: number } | null>(null);
 
-    // Calculate summaries
-    const summaries = useMemo(() => {
-        const summaryMap: Record<string, ColumnSummary> = {};
+    const estimatedWidths = useMemo(() => {
+        const widths: Record<string, number> = {};
+        const sample = result.rows.slice(0, WIDTH_SAMPLE_ROWS);
         result.columns.forEach((col, colIndex) => {
-            const values = result.rows.map(row => row[colIndex]);
-            summaryMap[col] = calculateColumnSummary(values, columnTypes[col]);
+            widths[col] = estimateColumnWidth(col, sample.map(row => formatValue(row[colIndex], col)));
         });
-        return summaryMap;
-    }, [result.rows, result.columns, columnTypes]);
+        return widths;
+    }, [result.columns, result.rows]);
+
+    const getColumnWidth = (column: string) => columnWidths[column] ?? estimatedWidths[column] ?? MIN_COLUMN_WIDTH;
+    const tableWidth = columnOrder.reduce((total, col) => total + getColumnWidth(col), 0);
+
+    const handleResizeStart = (column: string, e: React.PointerEvent<HTMLElement>) => {
+        e.preventDefault();
+        e.stopPropagation();
+        resizeRef.current = { column, startX: e.clientX, startWidth: getColumnWidth(column) };
+
+        const handleMove = (moveEvent: PointerEvent) => {
+            const resize = resizeRef.current;
+            if (!resize) return;
+            const width = Math.max(MIN_COLUMN_WIDTH, resize.startWidth + moveEvent.clientX - resize.startX);
+            setColumnWidths(prev => ({ ...prev, [resize.column]: width }));
+        };
+
+        const handleUp = () => {
+            resizeRef.current = null;
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+    };
 
     // Handle header click for sorting
     const handleHeaderClick = (column: string) => {
@@ -318,6 +394,48 @@ const DataTable = ({ result }: DataTableProps) => {
         }
     };
 
+    const activeFilters = useMemo(
+        () => (filters ?? []).filter(isFilterActive),
+        [filters]
+    );
+
+    const handleOpenFilter = (column: string, anchor: HTMLElement) => {
+        const rect = anchor.getBoundingClientRect();
+        setOpenFilter({
+            column,
+            position: {
+                x: Math.max(8, Math.min(rect.left, window.innerWidth - FILTER_POPOVER_SPACE)),
+                y: rect.bottom + 4,
+            },
+        });
+    };
+
+    const handleCloseFilter = useCallback(() => setOpenFilter(null), []);
+
+    // Pick-lists and type detection use the unfiltered rows
+    const renderFilterPopover = () => {
+        if (!openFilter || !onFilterChange) return null;
+
+        const source = filterSource ?? result;
+        const colIndex = source.columns.indexOf(openFilter.column);
+        const values = colIndex === -1 ? [] : source.rows.map(row => row[colIndex]);
+
+        return (
+            <DataTableFilter
+                key={openFilter.column}
+                column={openFilter.column}
+                type={detectColumnType(values)}
+                values={values}
+                filter={filters?.find(f => f.column === openFilter.column) ?? null}
+                position={openFilter.position}
+                onApply={(filter) => onFilterChange(openFilter.column, filter)}
+                onClose={handleCloseFilter}
+            />
+        );
+    };
+
+    const showToolbar = !!onFilterChange || !!onComputedColumnsChange;
+
     // Handle column drag end
     const handleDragEnd = (event: DragEndEvent) => {
         const { active, over } = event;
@@ -331,88 +449,121 @@ const DataTable = ({ result }: DataTableProps) => {
         }
     };
 
-    const formatValue = (value: unknown, colName: string): string => {
-        if (value === null || value === undefined) {
-            return '—';
-        }
-
-        const col = colName.toLowerCase();
-
-        if (col === 'projectmanager') {
-            return formatPMName(value);
-        }
-
-        // Handle ISO date strings (2024-07-22T00:00:00)
-        if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
-            const date = new Date(value);
-            if (!isNaN(date.getTime())) {
-                return date.toLocaleDateString('en-US', {
-                    year: 'numeric',
-                    month: 'short',
-                    day: 'numeric'
-                });
-            }
-        }
-
-        // Identifier fields - no comma formatting
-        if (col.includes('jobnumber') || col.includes('jobno') || col.includes('_id') || col === 'id') {
-            return String(value);
-        }
-
-        if (typeof value === 'number') {
-            return value.toLocaleString();
-        }
-        return String(value);
-    };
-
     return (
-        <div className={styles.tableWrapper}>
-            <DndContext
-                sensors={sensors}
-                collisionDetection={closestCenter}
-                onDragEnd={handleDragEnd}
+        <div className={styles.container}>
+            {showToolbar && (
+                <div className={styles.toolbar}>
+                    {activeFilters.length > 0 && (
+                        <div className={styles.filterChips}>
+                            {activeFilters.map((filter) => (
+                                <span key={filter.column} className={styles.filterChip}>
+                                    <span>{formatColumnName(filter.column)}: {describeFilter(filter)}</span>
+                                    <button
+                                        type="button"
+                                        className={styles.filterChipRemove}
+                                        onClick={() => onFilterChange?.(filter.column, null)}
+                                        aria-label={`Remove ${formatColumnName(filter.column)} filter`}
+                                    >
+                                        ×
+                                    </button>
+                                </span>
+                            ))}
+                            {onClearFilters && (
+                                <button type="button" className={styles.clearFilters} onClick={onClearFilters}>
+                                    Clear filters
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    {onComputedColumnsChange && (
+                        <DataComputedColumns
+                            columns={(filterSource ?? result).columns}
+                            computedColumns={computedColumns ?? []}
+                            onChange={onComputedColumnsChange}
+                        />
+                    )}
+                </div>
+            )}
+            <div
+                className={styles.tableWrapper}
+                ref={wrapperRef}
+                onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
             >
-                <table className={styles.table}>
-                    <thead>
-                        <tr>
-                            <SortableContext
-                                items={columnOrder}
-                                strategy={horizontalListSortingStrategy}
-                            >
-                                {columnOrder.map((column) => (
-                                    <SortableHeader
-                                        key={column}
-                                        column={column}
-                                        sortColumn={sortColumn}
-                                        sortDirection={sortDirection}
-                                        onSort={handleHeaderClick}
-                                    />
-                                ))}
-                            </SortableContext>
-                        </tr>
-                    </thead>
-                    <tbody>
-                        {sortedRows.map((row, rowIndex) => (
-                            <tr key={rowIndex}>
-                                {columnOrder.map((col) => (
-                                    <td key={col}>
-                                        {formatValue(row[originalIndexMap[col]], col)}
+                <DndContext
+                    sensors={sensors}
+                    collisionDetection={closestCenter}
+                    onDragEnd={handleDragEnd}
+                >
+                    <table className={styles.table} style={{ width: tableWidth }} aria-busy={isSorting}>
+                        <colgroup>
+                            {columnOrder.map((col) => (
+                                <col key={col} style={{ width: getColumnWidth(col) }} />
+                            ))}
+                        </colgroup>
+                        <thead>
+                            <tr>
+                                <SortableContext
+                                    items={columnOrder}
+                                    strategy={horizontalListSortingStrategy}
+                                >
+                                    {columnOrder.map((column) => (
+                                        <SortableHeader
+                                            key={column}
+                                            column={column}
+                                            sortColumn={sortColumn}
+                                            sortDirection={sortDirection}
+                                            onSort={handleHeaderClick}
+                                            isFiltered={activeFilters.some(f => f.column === column)}
+                                            onOpenFilter={onFilterChange ? handleOpenFilter : undefined}
+                                            onResizeStart={handleResizeStart}
+                                        />
+                                    ))}
+                                </SortableContext>
+                            </tr>
+                        </thead>
+                        {/* Rows are dimmed until the worker answers the sort shown in the header */}
+                        <tbody className={isSorting ? styles.sortingBody : undefined}>
+                            {/* Spacers stand in for the rows outside the window */}
+                            {firstRow > 0 && (
+                                <tr className={styles.spacerRow} style={{ height: firstRow * ROW_HEIGHT }} aria-hidden>
+                                    <td colSpan={columnOrder.length} />
+                                </tr>
+                            )}
+                            {visibleIndices.map((rowIndex, i) => (
+                                <tr
+                                    key={rowIndex}
+                                    className={(firstRow + i) % 2 === 1 ? styles.stripedRow : undefined}
+                                >
+                                    {columnOrder.map((col) => (
+                                        <td key={col}>
+                                            {formatValue(result.rows[rowIndex][originalIndexMap[col]], col)}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                            {lastRow < rowCount && (
+                                <tr
+                                    className={styles.spacerRow}
+                                    style={{ height: (rowCount - lastRow) * ROW_HEIGHT }}
+                                    aria-hidden
+                                >
+                                    <td colSpan={columnOrder.length} />
+                                </tr>
+                            )}
+                        </tbody>
+                        <tfoot>
+                            <tr className={styles.summaryRow}>
+                                {columnOrder.map((col, index) => (
+                                    <td key={col} className={styles.summaryCell}>
+                                        {formatSummary(summaries?.[col], index === 0)}
                                     </td>
                                 ))}
                             </tr>
-                        ))}
-                    </tbody>
-                    <tfoot>
-                        <tr className={styles.summaryRow}>
-                            {columnOrder.map((col, index) => (
-                                <td key={col} className={styles.summaryCell}>
-                                    {formatSummary(summaries[col], index === 0)}
-                                </td>
-                            ))}
-                        </tr>
-                    </tfoot>
-                </table>
-            </DndContext>
+                        </tfoot>
+                    </table>
+                </DndContext>
+            </div>
+            {renderFilterPopover()}
         </div>
     );
 };
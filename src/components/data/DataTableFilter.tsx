@@ -0,0 +1,245 @@
+/**
+ * DataTableFilter - Filter popover for one DataTable column
+ * Numbers get a min/max range, dates a from/to range, and text either a
+ * pick-list of its values or a "contains" search
+ */
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { formatColumnName } from '../../utils/formatters';
+import Checkbox from '../Checkbox';
+import type { ColumnFilter, ColumnType } from '../../types/data';
+import styles from '../../styles/data_page/DataTableFilter.module.css';
+
+interface DataTableFilterProps {
+    column: string;
+    type: ColumnType;
+    values: unknown[];                      // Every value in the column, before filtering
+    filter: ColumnFilter | null;
+    position: { x: number; y: number };
+    onApply: (filter: ColumnFilter | null) => void;
+    onClose: () => void;
+}
+
+// More distinct values than this and the pick-list gives way to a search
+const MAX_PICK_VALUES = 200;
+
+type TextMode = 'values' | 'text';
+
+const parseBound = (value: string): number | null => {
+    if (value.trim() === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+const DataTableFilter = ({ column, type, values, filter, position, onApply, onClose }: DataTableFilterProps) => {
+    const popoverRef = useRef<HTMLDivElement>(null);
+
+    // Distinct values for the pick-list, empty cells as ''
+    const distinctValues = useMemo(() => {
+        if (type !== 'string') return [];
+        const distinct = new Set<string>();
+        for (const value of values) {
+            distinct.add(value === null || value === undefined ? '' : String(value));
+            if (distinct.size > MAX_PICK_VALUES) break;
+        }
+        return Array.from(distinct).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    }, [type, values]);
+    const canPick = type === 'string' && distinctValues.length <= MAX_PICK_VALUES;
+
+    // Drafts - nothing applies until the user clicks Apply
+    const [min, setMin] = useState(filter?.type === 'range' && filter.min !== null ? String(filter.min) : '');
+    const [max, setMax] = useState(filter?.type === 'range' && filter.max !== null ? String(filter.max) : '');
+    const [from, setFrom] = useState(filter?.type === 'date_range' ? filter.from ?? '' : '');
+    const [to, setTo] = useState(filter?.type === 'date_range' ? filter.to ?? '' : '');
+    const [contains, setContains] = useState(filter?.type === 'text' ? filter.contains : '');
+    const [textMode, setTextMode] = useState<TextMode>(
+        filter?.type === 'text' || !canPick ? 'text' : 'values'
+    );
+    const [picked, setPicked] = useState<Set<string>>(
+        () => new Set(filter?.type === 'values' ? filter.values : distinctValues)
+    );
+
+    // Close on click outside or Escape
+    useEffect(() => {
+        const handleClickOutside = (e: MouseEvent) => {
+            if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+                onClose();
+            }
+        };
+
+        const handleEscape = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        document.addEventListener('keydown', handleEscape);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+            document.removeEventListener('keydown', handleEscape);
+        };
+    }, [onClose]);
+
+    const togglePicked = (value: string, checked: boolean) => {
+        setPicked(prev => {
+            const next = new Set(prev);
+            if (checked) next.add(value);
+            else next.delete(value);
+            return next;
+        });
+    };
+
+    const buildFilter = (): ColumnFilter | null => {
+        switch (type) {
+            case 'number': {
+                const minValue = parseBound(min);
+                const maxValue = parseBound(max);
+                return minValue === null && maxValue === null
+                    ? null
+                    : { column, type: 'range', min: minValue, max: maxValue };
+            }
+            case 'date':
+                return !from && !to
+                    ? null
+                    : { column, type: 'date_range', from: from || null, to: to || null };
+            default:
+                if (textMode === 'text') {
+                    return contains.trim() ? { column, type: 'text', contains: contains.trim() } : null;
+                }
+                // Everything picked is the same as no filter
+                return picked.size === distinctValues.length
+                    ? null
+                    : { column, type: 'values', values: Array.from(picked) };
+        }
+    };
+
+    const handleApply = () => {
+        onApply(buildFilter());
+        onClose();
+    };
+
+    const renderEditor = () => {
+        if (type === 'number') {
+            return (
+                <div className={styles.rangeRow}>
+                    <input
+                        type="number"
+                        value={min}
+                        onChange={(e) => setMin(e.target.value)}
+                        placeholder="Min"
+                        aria-label="Minimum"
+                        autoFocus
+                    />
+                    <span>to</span>
+                    <input
+                        type="number"
+                        value={max}
+                        onChange={(e) => setMax(e.target.value)}
+                        placeholder="Max"
+                        aria-label="Maximum"
+                    />
+                </div>
+            );
+        }
+
+        if (type === 'date') {
+            return (
+                <div className={styles.rangeRow}>
+                    <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="From" />
+                    <span>to</span>
+                    <input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="To" />
+                </div>
+            );
+        }
+
+        return (
+            <>
+                {canPick && (
+                    <div className={styles.modeToggle}>
+                        <button
+                            type="button"
+                            className={textMode === 'values' ? styles.modeActive : ''}
+                            onClick={() => setTextMode('values')}
+                        >
+                            Pick values
+                        </button>
+                        <button
+                            type="button"
+                            className={textMode === 'text' ? styles.modeActive : ''}
+                            onClick={() => setTextMode('text')}
+                        >
+                            Contains
+                        </button>
+                    </div>
+                )}
+
+                {textMode === 'text' ? (
+                    <input
+                        type="text"
+                        className={styles.textInput}
+                        value={contains}
+                        onChange={(e) => setContains(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleApply();
+                        }}
+                        placeholder="Contains..."
+                        autoFocus
+                    />
+                ) : (
+                    <>
+                        <div className={styles.pickActions}>
+                            <button type="button" onClick={() => setPicked(new Set(distinctValues))}>All</button>
+                            <button type="button" onClick={() => setPicked(new Set())}>None</button>
+                        </div>
+                        <div className={styles.pickList}>
+                            {distinctValues.map((value) => (
+                                <div key={value} className={styles.pickItem}>
+                                    <Checkbox
+                                        checked={picked.has(value)}
+                                        onChange={(checked) => togglePicked(value, checked)}
+                                        label={value === '' ? '(blank)' : value}
+                                        size="small"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+            </>
+        );
+    };
+
+    return createPortal(
+        <div
+            ref={popoverRef}
+            className={styles.popover}
+            style={{ left: position.x, top: position.y }}
+            role="dialog"
+            aria-label={`Filter ${formatColumnName(column)}`}
+        >
+            <div className={styles.title}>Filter {formatColumnName(column)}</div>
+            {renderEditor()}
+            <div className={styles.actions}>
+                <button
+                    type="button"
+                    className={styles.clearButton}
+                    onClick={() => {
+                        onApply(null);
+                        onClose();
+                    }}
+                    disabled={!filter}
+                >
+                    Clear
+                </button>
+                <button type="button" className={styles.applyButton} onClick={handleApply}>
+                    Apply
+                </button>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default DataTableFilter;
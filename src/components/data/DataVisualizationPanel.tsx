@@ -1,17 +1,23 @@
 /**
  * DataVisualizationPanel - Main visualization area
- * Shows chart, table, or empty state depending on data
+ * Shows chart, table, or empty state depending on data.
+ * `result` is the loaded result; the views draw the store's viewResult (after
+ * computed columns, filters and any pivot).
  */
 
+import { useState } from 'react';
 import { useDataStore } from '../../store';
+import { isPivotActive } from '../../utils/pivot';
 import type { DataSession, DataResult } from '../../types/data';
 import DataEmptyState from './DataEmptyState';
 import DataChartCanvas from './DataChartCanvas';
 import DataChartTypeToggle from './DataChartTypeToggle';
 import DataAxisControls from './DataAxisControls';
+import DataChartOptions from './DataChartOptions';
 import DataTable from './DataTable';
 import DataDetailCard from './DataDetailCard';
 import DataPageSummary from './DataPageSummary';
+import DataPivotPanel from './DataPivotPanel';
 import styles from '../../styles/data_page/DataVisualizationPanel.module.css';
 
 interface DataVisualizationPanelProps {
@@ -20,8 +26,26 @@ interface DataVisualizationPanelProps {
     isLoading: boolean;
 }
 
+const CHART_TYPES = ['bar', 'line', 'area', 'scatter', 'pie'];
+
+// Chart types with settings beyond the axes
+const CONFIGURABLE_CHART_TYPES = ['bar', 'line', 'area', 'scatter'];
+
 const DataVisualizationPanel = ({ session, result, isLoading }: DataVisualizationPanelProps) => {
-    const { chartType, isExecuting } = useDataStore();
+    const {
+        chartType,
+        isExecuting,
+        sourceResult,
+        viewResult,
+        isComputingView,
+        pivot,
+        filters,
+        computedColumns,
+        setColumnFilter,
+        clearFilters,
+        setComputedColumns,
+    } = useDataStore();
+    const [pivotOpen, setPivotOpen] = useState(false);
 
     // Loading state
     if (isLoading || isExecuting) {
@@ -105,24 +129,82 @@ const DataVisualizationPanel = ({ session, result, isLoading }: DataVisualizatio
     }
 
     // Success with result - show visualization
+    // While a new view computes the previous one stays up
+    const renderViews = () => {
+        if (!viewResult) {
+            return (
+                <div className={styles.loadingState}>
+                    <div className={styles.spinner} />
+                    <span>Preparing data...</span>
+                </div>
+            );
+        }
+
+        // Filters apply to source columns, so they're offered only while the
+        // table shows those columns rather than a pivot
+        const table = isPivotActive(pivot) ? (
+            <DataTable result={viewResult} />
+        ) : (
+            <DataTable
+                result={viewResult}
+                filters={filters}
+                filterSource={sourceResult ?? result}
+                onFilterChange={setColumnFilter}
+                onClearFilters={clearFilters}
+                computedColumns={computedColumns}
+                onComputedColumnsChange={setComputedColumns}
+            />
+        );
+
+        return (
+            <>
+                {chartType === 'table' && table}
+                {chartType === 'card'  && <DataDetailCard result={viewResult} />}
+                {CHART_TYPES.includes(chartType) && <DataChartCanvas result={viewResult} />}
+            </>
+        );
+    };
+
     return (
         <div className={styles.panel}>
             {/* Controls Bar */}
             <div className={styles.controlsBar}>
                 <DataChartTypeToggle />
-                {!['table', 'card'].includes(chartType) && <DataAxisControls columns={result.columns} />}
+                {!['table', 'card'].includes(chartType) && viewResult && (
+                    <DataAxisControls columns={viewResult.columns} />
+                )}
+                <button
+                    type="button"
+                    className={`${styles.pivotToggle} ${isPivotActive(pivot) ? styles.pivotActive : ''}`}
+                    onClick={() => setPivotOpen(!pivotOpen)}
+                    aria-expanded={pivotOpen}
+                    title="Group and aggregate rows"
+                >
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <rect x="3" y="3" width="18" height="18" rx="2" ry="2" />
+                        <line x1="3" y1="9" x2="21" y2="9" />
+                        <line x1="9" y1="3" x2="9" y2="21" />
+                    </svg>
+                    <span>Pivot</span>
+                </button>
                 <div className={styles.resultInfo}>
+                    {isComputingView && <span className={styles.updating}>Updating...</span>}
                     <span className={styles.rowCount}>
+                        {viewResult && viewResult !== result && `${viewResult.row_count} of `}
                         {result.row_count} {result.row_count === 1 ? 'record' : 'rows'}
                     </span>
                 </div>
             </div>
 
+            {pivotOpen && <DataPivotPanel columns={(sourceResult ?? result).columns} />}
+
+            {CONFIGURABLE_CHART_TYPES.includes(chartType) && viewResult && (
+                <DataChartOptions result={viewResult} />
+            )}
+
             {/* Visualization Area */}
             <div className={styles.visualizationArea}>
-                {chartType === 'table' && <DataTable result={result} />}
-                {chartType === 'card'  && <DataDetailCard result={result} />}
-                {['bar', 'line', 'pie'].includes(chartType) && <DataChartCanvas result={result} />}
+                {renderViews()}
             </div>
 
             {/* Session Summary */}
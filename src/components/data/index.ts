@@ -7,10 +7,14 @@ export { default as DataToolSidebar } from './DataToolSidebar';
 export { default as DataVisualizationPanel } from './DataVisualizationPanel';
 export { default as DataChartCanvas } from './DataChartCanvas';
 export { default as DataChartTypeToggle } from './DataChartTypeToggle';
+export { default as DataChartOptions } from './DataChartOptions';
+export { default as DataPivotPanel } from './DataPivotPanel';
 export { default as DataAxisControls } from './DataAxisControls';
 export { default as DataEmptyState } from './DataEmptyState';
 export { default as DataSessionHeader } from './DataSessionHeader';
 export { default as DataTable } from './DataTable';
+export { default as DataTableFilter } from './DataTableFilter';
+export { default as DataComputedColumns } from './DataComputedColumns';
 export { default as DataDetailCard } from './DataDetailCard';
 export { default as DataSessionSidebar } from './DataSessionSidebar';
 export { default as DataSessionItem } from './DataSessionItem';
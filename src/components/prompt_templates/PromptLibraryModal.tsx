@@ -0,0 +1,378 @@
+/**
+ * PromptLibraryModal - Manage saved prompts
+ *
+ * Personal prompts are always editable. Project prompts are shared with every
+ * member and follow the project's "Edit instructions" permission.
+ * Each scope can be exported to JSON and imported from a previous export.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { X, BookMarked, Pencil, Trash2, Upload, Download, Plus } from 'lucide-react';
+import { useToast } from '../Toast';
+import { useConversationProjectApi, useConversationProjectStore, usePromptTemplateApi, usePromptTemplates } from '../../store';
+import { getErrorMessage } from '../../triggers';
+import type { ConversationProject, PromptTemplate } from '../../types';
+import {
+    buildTemplateExport,
+    extractTemplateVariables,
+    parseTemplateExport,
+    templateCommand,
+} from '../../utils/promptTemplates';
+import { downloadFile, sanitizeFilename } from '../../utils/exportChat';
+import { PromptTemplateEditor, type PromptTemplateFormData } from './PromptTemplateEditor';
+import styles from '../../styles/ConversationProjects.module.css';
+import promptStyles from '../../styles/PromptTemplates.module.css';
+
+interface PromptLibraryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialProjectId?: number | null;   // Open on this project's prompts
+}
+
+// Editing state: an existing template, a new one, or the list view
+type EditTarget = PromptTemplate | 'new' | null;
+
+const EMPTY_FORM: PromptTemplateFormData = { name: '', description: '', body: '' };
+
+
+function canEditProjectPrompts(project: ConversationProject | undefined): boolean {
+    return !!project && (project.is_owner || project.permissions?.canEditInstructions === 'anyone');
+}
+
+
+export function PromptLibraryModal(props: PromptLibraryModalProps) {
+    if (!props.isOpen) return null;
+
+    // Mounted per open so the view always starts on the list
+    return <PromptLibrary {...props} />;
+}
+
+
+function PromptLibrary({ onClose, initialProjectId = null }: PromptLibraryModalProps) {
+    const { showToast } = useToast();
+    const templates = usePromptTemplates();
+    const projects = useConversationProjectStore((state) => state.projects);
+    const { fetchProjects } = useConversationProjectApi();
+    const { createTemplate, updateTemplate, deleteTemplate, importTemplates } = usePromptTemplateApi();
+
+    const [projectId, setProjectId] = useState<number | null>(initialProjectId);
+    const [editTarget, setEditTarget] = useState<EditTarget>(null);
+    const [form, setForm] = useState<PromptTemplateFormData>(EMPTY_FORM);
+    const [pendingDeleteId, setPendingDeleteId] = useState<number | null>(null);
+    const [busy, setBusy] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // The project list normally comes from the sidebar; load it if that hasn't happened yet
+    useEffect(() => {
+        if (useConversationProjectStore.getState().projects.length > 0) return;
+        fetchProjects().catch((error) => {
+            console.error('[PromptLibraryModal] Failed to load projects:', error);
+        });
+    }, [fetchProjects]);
+
+    const project = projectId === null ? undefined : projects.find(p => p.id === projectId);
+    const canEdit = projectId === null || canEditProjectPrompts(project);
+    const scopeLabel = project ? project.name : 'Personal';
+
+    const scopedTemplates = templates.filter(t =>
+        projectId === null ? t.scope === 'user' : t.project_id === projectId
+    );
+
+
+    // Editing
+
+    const startEditing = (target: PromptTemplate | 'new') => {
+        setEditTarget(target);
+        setForm(target === 'new'
+            ? EMPTY_FORM
+            : { name: target.name, description: target.description ?? '', body: target.body });
+    };
+
+    const handleSave = async () => {
+        if (!editTarget) return;
+
+        const data = {
+            name: form.name.trim(),
+            description: form.description.trim() || null,
+            body: form.body,
+        };
+
+        setBusy(true);
+        try {
+            if (editTarget === 'new') {
+                await createTemplate({ ...data, project_id: projectId });
+                showToast('Prompt saved', 'success');
+            } else {
+                await updateTemplate(editTarget.id, data);
+                showToast('Prompt updated', 'success');
+            }
+            setEditTarget(null);
+        } catch (error) {
+            showToast(getErrorMessage(error, 'Failed to save prompt'), 'error');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleDelete = async (template: PromptTemplate) => {
+        setBusy(true);
+        try {
+            await deleteTemplate(template.id);
+            showToast(`Deleted "${template.name}"`, 'success');
+        } catch (error) {
+            showToast(getErrorMessage(error, 'Failed to delete prompt'), 'error');
+        } finally {
+            setPendingDeleteId(null);
+            setBusy(false);
+        }
+    };
+
+
+    // Import / export
+
+    const handleExport = () => {
+        const data = buildTemplateExport(scopedTemplates);
+        downloadFile(
+            JSON.stringify(data, null, 2),
+            `saved-prompts-${sanitizeFilename(scopeLabel)}.json`,
+            'application/json'
+        );
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';    // Allow re-importing the same file
+        if (!file) return;
+
+        setBusy(true);
+        try {
+            const parsed = parseTemplateExport(await file.text());
+            const imported = await importTemplates(parsed, projectId);
+            showToast(`Imported ${imported.length} prompt${imported.length === 1 ? '' : 's'}`, 'success');
+        } catch (error) {
+            showToast(getErrorMessage(error, 'Failed to import prompts'), 'error');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+
+    const canSave = !!form.name.trim() && !!form.body.trim() && !busy;
+
+    return (
+        <div className={styles.modalOverlay} onClick={onClose}>
+            <div
+                className={`${styles.modal} ${promptStyles.library}`}
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className={styles.modalHeader}>
+                    <div className={promptStyles.headerTitle}>
+                        <BookMarked size={20} />
+                        <h3>
+                            {editTarget === 'new' ? 'New Prompt'
+                                : editTarget ? 'Edit Prompt'
+                                : 'Saved Prompts'}
+                        </h3>
+                    </div>
+                    <button className={styles.modalCloseBtn} onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {/* Body */}
+                <div className={styles.modalBody}>
+                    {editTarget ? (
+                        <PromptTemplateEditor value={form} onChange={setForm} />
+                    ) : (
+                        <>
+                            <div className={styles.formGroup}>
+                                <label htmlFor="prompt-library-scope">Library</label>
+                                <select
+                                    id="prompt-library-scope"
+                                    value={projectId ?? ''}
+                                    onChange={e => {
+                                        setProjectId(e.target.value ? Number(e.target.value) : null);
+                                        setPendingDeleteId(null);
+                                    }}
+                                >
+                                    <option value="">Personal</option>
+                                    {projects.length > 0 && (
+                                        <optgroup label="Projects">
+                                            {projects.map(p => (
+                                                <option key={p.id} value={p.id}>{p.name}</option>
+                                            ))}
+                                        </optgroup>
+                                    )}
+                                </select>
+                                {!canEdit && (
+                                    <span className={promptStyles.readOnlyNote}>
+                                        Only the project owner can change these prompts.
+                                    </span>
+                                )}
+                            </div>
+
+                            {scopedTemplates.length === 0 ? (
+                                <div className={promptStyles.empty}>
+                                    <BookMarked size={36} style={{ opacity: 0.3 }} />
+                                    <p>No saved prompts yet</p>
+                                    <span>
+                                        {projectId === null
+                                            ? 'Save prompts you use often and run them with a slash command.'
+                                            : 'Prompts saved here are shared with everyone in the project.'}
+                                    </span>
+                                </div>
+                            ) : (
+                                <div className={promptStyles.templateList}>
+                                    {scopedTemplates.map(template => (
+                                        <TemplateRow
+                                            key={template.id}
+                                            template={template}
+                                            canEdit={canEdit}
+                                            isPendingDelete={pendingDeleteId === template.id}
+                                            disabled={busy}
+                                            onEdit={() => startEditing(template)}
+                                            onRequestDelete={() => setPendingDeleteId(template.id)}
+                                            onCancelDelete={() => setPendingDeleteId(null)}
+                                            onConfirmDelete={() => handleDelete(template)}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className={styles.modalFooter}>
+                    {editTarget ? (
+                        <>
+                            <button
+                                className={`${styles.modalBtn} ${styles.modalBtnCancel}`}
+                                onClick={() => setEditTarget(null)}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                className={`${styles.modalBtn} ${styles.modalBtnPrimary}`}
+                                onClick={handleSave}
+                                disabled={!canSave}
+                            >
+                                {busy ? 'Saving...' : 'Save Prompt'}
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <div className={promptStyles.footerStart}>
+                                <button
+                                    className={`${styles.modalBtn} ${styles.modalBtnCancel} ${promptStyles.btnWithIcon}`}
+                                    onClick={() => fileInputRef.current?.click()}
+                                    disabled={!canEdit || busy}
+                                    title="Import prompts from a JSON export"
+                                >
+                                    <Upload size={14} /> Import
+                                </button>
+                                <button
+                                    className={`${styles.modalBtn} ${styles.modalBtnCancel} ${promptStyles.btnWithIcon}`}
+                                    onClick={handleExport}
+                                    disabled={scopedTemplates.length === 0}
+                                    title="Download these prompts as JSON"
+                                >
+                                    <Download size={14} /> Export
+                                </button>
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept="application/json,.json"
+                                    className={promptStyles.hiddenInput}
+                                    onChange={handleImportFile}
+                                />
+                            </div>
+                            <button
+                                className={`${styles.modalBtn} ${styles.modalBtnPrimary} ${promptStyles.btnWithIcon}`}
+                                onClick={() => startEditing('new')}
+                                disabled={!canEdit}
+                            >
+                                <Plus size={14} /> New Prompt
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+
+// Template row
+
+interface TemplateRowProps {
+    template: PromptTemplate;
+    canEdit: boolean;
+    isPendingDelete: boolean;
+    disabled: boolean;
+    onEdit: () => void;
+    onRequestDelete: () => void;
+    onCancelDelete: () => void;
+    onConfirmDelete: () => void;
+}
+
+function TemplateRow({
+    template,
+    canEdit,
+    isPendingDelete,
+    disabled,
+    onEdit,
+    onRequestDelete,
+    onCancelDelete,
+    onConfirmDelete,
+}: TemplateRowProps) {
+    const variables = extractTemplateVariables(template.body);
+
+    return (
+        <div className={promptStyles.templateRow}>
+            <div className={promptStyles.templateInfo}>
+                <div className={promptStyles.templateName}>
+                    <span>{template.name}</span>
+                    <span className={promptStyles.templateCommand}>/{templateCommand(template.name)}</span>
+                </div>
+                {template.description && (
+                    <div className={promptStyles.templateDescription}>{template.description}</div>
+                )}
+                {variables.length > 0 && (
+                    <div className={promptStyles.variables}>
+                        {variables.map(v => (
+                            <span key={v.name} className={promptStyles.variableChip}>{v.name}</span>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {canEdit && (
+                isPendingDelete ? (
+                    <div className={promptStyles.confirmDelete}>
+                        <span>Delete?</span>
+                        <button className={promptStyles.danger} onClick={onConfirmDelete} disabled={disabled}>
+                            Delete
+                        </button>
+                        <button onClick={onCancelDelete}>Cancel</button>
+                    </div>
+                ) : (
+                    <div className={promptStyles.templateActions}>
+                        <button className={promptStyles.iconBtn} onClick={onEdit} title="Edit" aria-label={`Edit ${template.name}`}>
+                            <Pencil size={14} />
+                        </button>
+                        <button
+                            className={`${promptStyles.iconBtn} ${promptStyles.danger}`}
+                            onClick={onRequestDelete}
+                            title="Delete"
+                            aria-label={`Delete ${template.name}`}
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                )
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,78 @@
+/**
+ * PromptTemplateEditor - Create/edit form for a saved prompt
+ *
+ * Shows the variables detected in the body as the user types, so it's
+ * clear which values the fill-in form will ask for.
+ */
+
+import { extractTemplateVariables } from '../../utils/promptTemplates';
+import styles from '../../styles/ConversationProjects.module.css';
+import promptStyles from '../../styles/PromptTemplates.module.css';
+
+export interface PromptTemplateFormData {
+    name: string;
+    description: string;
+    body: string;
+}
+
+interface PromptTemplateEditorProps {
+    value: PromptTemplateFormData;
+    onChange: (data: PromptTemplateFormData) => void;
+}
+
+export function PromptTemplateEditor({ value: form, onChange }: PromptTemplateEditorProps) {
+    const variables = extractTemplateVariables(form.body);
+
+    const update = (field: keyof PromptTemplateFormData, value: string) => {
+        onChange({ ...form, [field]: value });
+    };
+
+    return (
+        <>
+            <div className={styles.formGroup}>
+                <label>Name</label>
+                <input
+                    type="text"
+                    value={form.name}
+                    onChange={e => update('name', e.target.value)}
+                    placeholder="e.g. Weekly OT summary"
+                    maxLength={100}
+                    autoFocus
+                />
+            </div>
+
+            <div className={styles.formGroup}>
+                <label>Description (optional)</label>
+                <input
+                    type="text"
+                    value={form.description}
+                    onChange={e => update('description', e.target.value)}
+                    placeholder="Shown in the command menu and toolbox"
+                />
+            </div>
+
+            <div className={styles.formGroup}>
+                <label>Prompt</label>
+                <textarea
+                    className={promptStyles.bodyInput}
+                    value={form.body}
+                    onChange={e => update('body', e.target.value)}
+                    placeholder="Summarize overtime for job {{job}} from {{start:date}} to {{end:date}}"
+                    rows={6}
+                />
+                {variables.length > 0 && (
+                    <div className={promptStyles.variables}>
+                        {variables.map(v => (
+                            <span key={v.name} className={promptStyles.variableChip}>
+                                {v.type === 'string' ? v.name : `${v.name}:${v.type}`}
+                            </span>
+                        ))}
+                    </div>
+                )}
+                <span className={styles.formHint}>
+                    Use {'{{name}}'} for values you fill in each time. Add :number, :date or :text to set a type.
+                </span>
+            </div>
+        </>
+    );
+}
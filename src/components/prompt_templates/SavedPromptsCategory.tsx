@@ -0,0 +1,169 @@
+/**
+ * SavedPromptsCategory - Saved prompts section at the top of the toolbox
+ *
+ * Uses the toolbox's category and parameter-form styles. Prompts without
+ * variables are inserted directly; the rest open a fill-in form first.
+ */
+
+import { useState } from 'react';
+import { BookMarked, Settings2 } from 'lucide-react';
+import { useSavedPrompts } from '../../hooks';
+import { templateToTrigger, validateParameter } from '../../triggers';
+import type { PromptTemplate } from '../../types';
+import { fillTemplate } from '../../utils/promptTemplates';
+import ToolExpandIcon from '../../assets/svg/toolbox/toolExpand.tsx';
+import ParamSubmitIcon from '../../assets/svg/toolbox/paramSubmit.tsx';
+
+const DATE_PLACEHOLDER = 'e.g., 01/15/2024 or today';
+
+interface SavedPromptsCategoryProps {
+    isCollapsed: boolean;
+    onToggle: () => void;
+    onSelect: (prompt: string) => void;
+    onManage: () => void;
+}
+
+export function SavedPromptsCategory({ isCollapsed, onToggle, onSelect, onManage }: SavedPromptsCategoryProps) {
+    const templates = useSavedPrompts();
+
+    const [activeId, setActiveId] = useState<number | null>(null);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [error, setError] = useState<string | null>(null);
+
+    const handleTemplateClick = (template: PromptTemplate) => {
+        const { parameters = [] } = templateToTrigger(template);
+        if (parameters.length === 0) {
+            onSelect(template.body);
+            return;
+        }
+        setActiveId(activeId === template.id ? null : template.id);
+        setValues({});
+        setError(null);
+    };
+
+    const handleSubmit = (template: PromptTemplate) => {
+        const { parameters = [] } = templateToTrigger(template);
+        const normalized: Record<string, string> = {};
+
+        for (const param of parameters) {
+            const result = validateParameter(param, values[param.name] ?? '');
+            if (!result.ok) {
+                setError(result.error);
+                return;
+            }
+            normalized[param.name] = result.value;
+        }
+
+        onSelect(fillTemplate(template.body, normalized));
+        setActiveId(null);
+        setValues({});
+        setError(null);
+    };
+
+    return (
+        <div className="tool-category">
+            <button
+                className={`category-header ${isCollapsed ? "collapsed" : ""}`}
+                onClick={onToggle}
+                aria-expanded={!isCollapsed}
+            >
+                <span className="category-icon">
+                    <BookMarked size={16} />
+                </span>
+                <span className="category-name">Saved Prompts</span>
+                <span className="category-count">{templates.length}</span>
+                <span className="category-chevron">
+                    <svg
+                        width="16"
+                        height="16"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                    >
+                        <polyline points="6 9 12 15 18 9" />
+                    </svg>
+                </span>
+            </button>
+
+            <div className={`category-tools ${isCollapsed ? "collapsed" : ""}`}>
+                {templates.map(template => {
+                    const parameters = templateToTrigger(template).parameters ?? [];
+                    const isActive = activeId === template.id;
+
+                    return (
+                        <div key={template.id} className="tool-item-wrapper">
+                            <button
+                                className={`tool-item ${isActive ? "active" : ""}`}
+                                onClick={() => handleTemplateClick(template)}
+                            >
+                                <span className="tool-icon"><BookMarked size={16} /></span>
+                                <div className="tool-info">
+                                    <span className="tool-name">{template.name}</span>
+                                    {template.description && (
+                                        <span className="tool-description">{template.description}</span>
+                                    )}
+                                </div>
+                                {parameters.length > 0 && (
+                                    <span className="tool-expand-icon">
+                                        <ToolExpandIcon activeToolId={isActive ? String(template.id) : null} tool={{ id: String(template.id) }} />
+                                    </span>
+                                )}
+                            </button>
+
+                            {isActive && (
+                                <form
+                                    className="tool-params-form"
+                                    onSubmit={e => {
+                                        e.preventDefault();
+                                        handleSubmit(template);
+                                    }}
+                                >
+                                    {parameters.map(param => (
+                                        <div key={param.name} className="param-field">
+                                            <label htmlFor={`prompt-param-${param.name}`}>
+                                                {param.name}
+                                                <span className="required">*</span>
+                                            </label>
+                                            <input
+                                                id={`prompt-param-${param.name}`}
+                                                type="text"
+                                                inputMode={param.type === 'number' ? 'decimal' : undefined}
+                                                placeholder={param.type === 'date' ? DATE_PLACEHOLDER : 'Type here...'}
+                                                value={values[param.name] ?? ''}
+                                                onChange={e => {
+                                                    setValues(prev => ({ ...prev, [param.name]: e.target.value }));
+                                                    setError(null);
+                                                }}
+                                            />
+                                        </div>
+                                    ))}
+                                    {error && <span className="param-error">{error}</span>}
+                                    <button
+                                        type="submit"
+                                        className="param-submit-btn"
+                                        disabled={parameters.some(p => !values[p.name]?.trim())}
+                                    >
+                                        <ParamSubmitIcon />
+                                        Use Prompt
+                                    </button>
+                                </form>
+                            )}
+                        </div>
+                    );
+                })}
+
+                {templates.length === 0 && (
+                    <span className="saved-prompts-empty">No saved prompts yet</span>
+                )}
+
+                <button className="saved-prompts-manage" onClick={onManage}>
+                    <Settings2 size={14} />
+                    Manage saved prompts
+                </button>
+            </div>
+        </div>
+    );
+}
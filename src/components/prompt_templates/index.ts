@@ -0,0 +1,8 @@
+/**
+ * Prompt Template Components
+ */
+
+export { PromptLibraryModal } from './PromptLibraryModal';
+export { PromptTemplateEditor } from './PromptTemplateEditor';
+export type { PromptTemplateFormData } from './PromptTemplateEditor';
+export { SavedPromptsCategory } from './SavedPromptsCategory';
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useApi } from '../../auth';
+import { ConflictError } from '../../services/apiErrors';
 import { useToast } from '../Toast';
 import { useConfirm } from '../ConfirmDialog';
 import LoadingSpinner from '../loadingSpinner';
@@ -20,6 +21,8 @@ interface AllowedFolder {
     can_read: boolean;
     can_write: boolean;
     can_delete: boolean;
+    always_allow_write: boolean;    // Skip the approval prompt for writes in this folder
+    always_allow_delete: boolean;   // Skip the approval prompt for deletes in this folder
     created_at: string;
 }
 
@@ -32,6 +35,11 @@ interface ConnectorStatus {
     folders: AllowedFolder[];
 }
 
+type FolderPermissionUpdates = Partial<Pick<
+    AllowedFolder,
+    'can_read' | 'can_write' | 'can_delete' | 'always_allow_write' | 'always_allow_delete'
+>>;
+
 interface FolderPickerResponse {
     path: string | null;
     cancelled: boolean;
@@ -136,9 +144,9 @@ const ConnectorsTab: React.FC = () => {
                 prev ? { ...prev, folders: [...prev.folders, newFolder] } : prev
             );
             showToast('Folder added successfully', 'success');
-        } catch (error: any) {
+        } catch (error) {
             console.error('Failed to add folder:', error);
-            if (error?.response?.status === 409) {
+            if (error instanceof ConflictError) {
                 showToast('Folder already allowed', 'error');
             } else {
                 showToast('Failed to add folder', 'error');
@@ -148,7 +156,7 @@ const ConnectorsTab: React.FC = () => {
 
     const handleUpdatePermissions = async (
         folderId: number,
-        updates: { can_read?: boolean; can_write?: boolean; can_delete?: boolean }
+        updates: FolderPermissionUpdates
     ) => {
         try {
             const updated = await api.put<AllowedFolder>(
@@ -357,6 +365,35 @@ const ConnectorsTab: React.FC = () => {
                                         >
                                             <TrashIcon size={14} />
                                         </button>
+                                        {(folder.can_write || folder.can_delete) && (
+                                            <div className="connector-folder-always-allow">
+                                                <span className="connector-folder-always-allow-label">
+                                                    Always allow without asking:
+                                                </span>
+                                                <Checkbox
+                                                    checked={folder.always_allow_write}
+                                                    onChange={(checked) =>
+                                                        handleUpdatePermissions(folder.id, {
+                                                            always_allow_write: checked,
+                                                        })
+                                                    }
+                                                    disabled={isDisabled || !folder.can_write}
+                                                    label="Writes"
+                                                    size="small"
+                                                />
+                                                <Checkbox
+                                                    checked={folder.always_allow_delete}
+                                                    onChange={(checked) =>
+                                                        handleUpdatePermissions(folder.id, {
+                                                            always_allow_delete: checked,
+                                                        })
+                                                    }
+                                                    disabled={isDisabled || !folder.can_delete}
+                                                    label="Deletes"
+                                                    size="small"
+                                                />
+                                            </div>
+                                        )}
                                     </div>
                                 ))}
                             </div>
@@ -370,7 +407,8 @@ const ConnectorsTab: React.FC = () => {
                         <strong>ℹ️ How it works:</strong> The filesystem connector allows Atlas to
                         read and write files on your computer through the Toolbox Agent. Only
                         folders you explicitly allow can be accessed, and you control the
-                        permissions for each folder.
+                        permissions for each folder. Atlas asks before every write or delete
+                        unless you choose to always allow it for that folder.
                     </p>
                 </div>
             </div>
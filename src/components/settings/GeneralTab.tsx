@@ -1,8 +1,16 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { useConfirm } from '../ConfirmDialog';
 import { useToast } from '../Toast';
 import { useApi } from '../../auth';
 import { useTheme } from '../../hooks';
+import {
+    CACHE_LIMIT_OPTIONS_MB,
+    clearConversationCache,
+    getCacheLimitMb,
+    getCacheSize,
+    setCacheLimitMb,
+} from '../../services/conversationCache';
+import { formatFileSize } from '../../utils/attachments';
 
 interface User {
     email: string;
@@ -24,6 +32,17 @@ const GeneralTab: React.FC<GeneralTabProps> = ({
     const { showToast } = useToast();
     const { theme, toggleTheme, isLoading: themeSaving } = useTheme();
 
+    // Local conversation cache
+    const [cacheLimitMb, setCacheLimit] = useState(getCacheLimitMb);
+    const [cacheSize, setCacheSize] = useState<number | null>(null);
+    const [clearingCache, setClearingCache] = useState(false);
+
+    useEffect(() => {
+        getCacheSize()
+            .then(setCacheSize)
+            .catch((error) => console.error("Failed to read cache size:", error));
+    }, []);
+
     const handleReset = async () => {
         const confirmed = await confirm({
             title: 'Reset Conversation',
@@ -54,6 +73,30 @@ const GeneralTab: React.FC<GeneralTabProps> = ({
         }
     };
 
+    const handleCacheLimitChange = async (limitMb: number) => {
+        setCacheLimit(limitMb);
+        try {
+            await setCacheLimitMb(limitMb);
+            setCacheSize(await getCacheSize());
+        } catch (error) {
+            console.error("Failed to apply cache limit:", error);
+        }
+    };
+
+    const handleClearCache = async () => {
+        setClearingCache(true);
+        try {
+            await clearConversationCache();
+            setCacheSize(0);
+            showToast('Local cache cleared', 'success');
+        } catch (error) {
+            console.error("Failed to clear cache:", error);
+            showToast('Failed to clear local cache', 'error');
+        } finally {
+            setClearingCache(false);
+        }
+    };
+
     return (
         <>
             {/* Account Information Section */}
@@ -96,6 +139,53 @@ const GeneralTab: React.FC<GeneralTabProps> = ({
                 </div>
             </div>
 
+            {/* Offline Cache Section */}
+            <div className="settings-section">
+                <h2 className="settings-section-title">Offline Cache</h2>
+
+                <div className="settings-card">
+                    <div className="settings-card-header">
+                        <div className="settings-card-info">
+                            <h3 className="settings-card-title">Cache Size Limit</h3>
+                            <p className="settings-card-description">
+                                Conversations you open are saved in this browser so they load instantly
+                                and stay readable offline. The least recently opened are removed first.
+                            </p>
+                        </div>
+                        <select
+                            className="settings-input settings-select settings-cache-select"
+                            value={cacheLimitMb}
+                            onChange={(e) => handleCacheLimitChange(Number(e.target.value))}
+                            aria-label="Cache size limit"
+                        >
+                            {CACHE_LIMIT_OPTIONS_MB.map((limit) => (
+                                <option key={limit} value={limit}>{limit} MB</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                <div className="settings-card">
+                    <div className="settings-card-header">
+                        <div className="settings-card-info">
+                            <h3 className="settings-card-title">Clear Local Cache</h3>
+                            <p className="settings-card-description">
+                                {cacheSize === null
+                                    ? 'Remove saved conversations from this browser.'
+                                    : `Using ${formatFileSize(cacheSize)} of ${cacheLimitMb} MB. Nothing is deleted from your account.`}
+                            </p>
+                        </div>
+                        <button
+                            onClick={handleClearCache}
+                            className="settings-btn settings-btn-secondary"
+                            disabled={clearingCache || cacheSize === 0}
+                        >
+                            {clearingCache ? 'Clearing...' : 'Clear Cache'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
             {/* Danger Zone */}
             <div className="settings-section">
                 <h2 className="settings-section-title">Danger Zone</h2>
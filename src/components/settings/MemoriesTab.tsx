@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useApi } from '../../auth';
 import { useToast } from '../Toast';
 import { useConfirm } from '../ConfirmDialog';
+import { useOutbox } from '../../hooks';
 import MemoryCard from './MemoryCard';
 import LoadingSpinner from '../loadingSpinner';
 import {
@@ -25,6 +26,7 @@ const MemoriesTab: React.FC = () => {
     const api = useApi();
     const { showToast } = useToast();
     const { confirm } = useConfirm();
+    const { sendOrQueue } = useOutbox();
 
     // State
     const [memories, setMemories] = useState<Memory[]>([]);
@@ -85,8 +87,16 @@ const MemoriesTab: React.FC = () => {
     // Handlers
     const handleUpdate = async (id: number, updates: { content?: string; memory_type?: MemoryType }) => {
         try {
-            await api.patch(`/memories/${id}`, updates);
-            showToast('Memory updated', 'success');
+            const queued = await sendOrQueue({
+                method: 'PATCH',
+                url:    `/memories/${id}`,
+                body:   updates,
+                label:  'Update memory',
+            });
+            showToast(
+                queued ? "You're offline. The change will sync when the connection returns." : 'Memory updated',
+                queued ? 'info' : 'success'
+            );
 
             // Update local state
             setMemories((prev) =>
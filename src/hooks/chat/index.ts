@@ -11,7 +11,7 @@ export { useMessageEditor } from './useMessageEditor';
 export type { UseMessageEditorReturn } from './useMessageEditor';
 
 export { useStreamingChat } from './useStreamingChat';
-export type { UseStreamingChatReturn } from './useStreamingChat';
+export type { UseStreamingChatReturn, ChatProjects } from './useStreamingChat';
 
 export { usePaginatedMessages } from './usePaginatedMessages';
 export type { UsePaginatedMessagesReturn } from './usePaginatedMessages';
@@ -1,10 +1,13 @@
 import { useCallback, useState, useRef } from "react";
+import type { ChatAttachment } from "../../types/attachment";
+import { MAX_ATTACHMENTS } from "../../utils/attachments";
 
 
 export function useChatInput() {
     const [input, setInput]                   = useState("");
     const [showCommandMenu, setShowCommandMenu] = useState(false);
     const [commandSearch, setCommandSearch]   = useState("");
+    const [attachments, setAttachments]       = useState<ChatAttachment[]>([]);
 
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -23,7 +26,8 @@ export function useChatInput() {
         setInput(value);
         autoResizeTextarea();
 
-        if (value.startsWith('/')) {
+        // The menu only picks the command - once arguments are typed, Enter runs it
+        if (value.startsWith('/') && !/\s/.test(value)) {
             setShowCommandMenu(true);
             setCommandSearch(value.slice(1));
         } else {
@@ -47,6 +51,32 @@ export function useChatInput() {
     }, []);
 
 
+    /**
+     * Add attachments, ignoring duplicate data sessions and anything past MAX_ATTACHMENTS
+     */
+    const addAttachments = useCallback((newAttachments: ChatAttachment[]) => {
+        setAttachments(prev => {
+            const attachedSessionIds = new Set(
+                prev.flatMap(a => a.kind === 'data_session' ? [a.session_id] : [])
+            );
+            const accepted = newAttachments
+                .filter(a => a.kind !== 'data_session' || !attachedSessionIds.has(a.session_id))
+                .slice(0, Math.max(0, MAX_ATTACHMENTS - prev.length));
+            return accepted.length > 0 ? [...prev, ...accepted] : prev;
+        });
+    }, []);
+
+
+    const removeAttachment = useCallback((attachmentId: string) => {
+        setAttachments(prev => prev.filter(a => a.id !== attachmentId));
+    }, []);
+
+
+    const clearAttachments = useCallback(() => {
+        setAttachments([]);
+    }, []);
+
+
     return {
         input,
         setInput,
@@ -57,6 +87,10 @@ export function useChatInput() {
         handleInputChange,
         clearInput,
         closeCommandMenu,
+        attachments,
+        addAttachments,
+        removeAttachment,
+        clearAttachments,
     };
 }
 
@@ -1,7 +1,10 @@
 import { useCallback, useState, useEffect, useRef } from "react";
 import type { Message } from "../../types/message";
 import type { DisplayMessage, MessageStatus, ContentBlock } from "../../types/chat";
+import type { ChatAttachment } from "../../types/attachment";
+import type { TokenUsage } from "../../types/usage";
 import { createWelcomeMessage } from "../../components/chat_window/constants";
+import { parseAttachments } from "../../utils/attachments";
 
 
 /**
@@ -25,7 +28,7 @@ function parseContentBlocks(contentBlocksJson?: string): ContentBlock[] | undefi
 /**
  * Convert a Message from API to DisplayMessage for rendering.
  */
-function convertToDisplayMessage(msg: Message): DisplayMessage {
+export function convertToDisplayMessage(msg: Message): DisplayMessage {
     return {
         id:            msg.id,
         role:          msg.role,
@@ -33,7 +36,13 @@ function convertToDisplayMessage(msg: Message): DisplayMessage {
         timestamp:     msg.created_at,
         status:        'sent' as MessageStatus,
         thinking:      msg.thinking,
-        contentBlocks: parseContentBlocks(msg.content_blocks)
+        contentBlocks: parseContentBlocks(msg.content_blocks),
+        attachments:   parseAttachments(msg.attachments),
+        model:         msg.role === 'assistant' ? msg.model : undefined,
+        usage:         msg.usage ?? undefined,
+        serverId:      msg.id,
+        parentId:      msg.parent_id,
+        siblingIds:    msg.sibling_ids
     };
 }
 
@@ -42,7 +51,8 @@ export function useChatMessages(
     initialMessages: Message[],
     activeConversationId: number | null,
     onConversationCreated: (id: number) => void,
-    userName?: string
+    userName?: string,
+    branchRevision: number = 0
 ) {
     // Initialize with a user-aware welcome message
     const [displayMessages, setDisplayMessages] = useState<DisplayMessage[]>(() => [
@@ -50,8 +60,9 @@ export function useChatMessages(
     ]);
     const [conversationId, setConversationId] = useState<number | null>(null);
     
-    // Track which conversation we've loaded to detect initial vs subsequent loads
+    // Track which conversation (and branch) we've loaded to detect initial vs subsequent loads
     const lastLoadedConversationId = useRef<number | null>(null);
+    const lastLoadedBranchRevision = useRef(branchRevision);
 
 
     // Sync conversationId with activeConversationId prop
@@ -76,13 +87,16 @@ export function useChatMessages(
     // Smart merging: preserve session messages (new messages sent during session)
     useEffect(() => {
         if (initialMessages.length > 0) {
-            const isInitialLoad = lastLoadedConversationId.current !== activeConversationId;
+            // Switching branches replaces the whole path, like loading a new conversation
+            const isInitialLoad = lastLoadedConversationId.current !== activeConversationId
+                || lastLoadedBranchRevision.current !== branchRevision;
             
             if (isInitialLoad) {
                 // First load for this conversation - replace entirely
                 const converted = initialMessages.map(convertToDisplayMessage);
                 setDisplayMessages(converted);
                 lastLoadedConversationId.current = activeConversationId;
+                lastLoadedBranchRevision.current = branchRevision;
             } else {
                 // Subsequent load (e.g., loading older messages) - merge with session messages
                 // Session messages are those with IDs higher than the max loaded ID
@@ -99,7 +113,7 @@ export function useChatMessages(
             setDisplayMessages([createWelcomeMessage(userName)]);
             lastLoadedConversationId.current = null;
         }
-    }, [initialMessages, activeConversationId, userName]);
+    }, [initialMessages, activeConversationId, userName, branchRevision]);
 
 
     const updateMessageStatus = useCallback((messageId: number, status: MessageStatus, error?: string) => {
@@ -123,16 +137,25 @@ export function useChatMessages(
     }, []);
 
 
-    const addUserMessage = useCallback((content: string, id?: number): number => {
+    const addUserMessage = useCallback((
+        content: string,
+        id?: number,
+        attachments?: ChatAttachment[],
+        parentId?: number | null,
+        siblingIds?: number[]
+    ): number => {
         const timestamp = Date.now();
         const messageId = id ?? timestamp;
 
         const userMessage: DisplayMessage = {
-            id:        messageId,
-            role:      'user',
+            id:          messageId,
+            role:        'user',
             content,
-            timestamp: new Date(timestamp).toISOString(),
-            status:    'sending'
+            timestamp:   new Date(timestamp).toISOString(),
+            status:      'sending',
+            attachments: attachments?.length ? attachments : undefined,
+            parentId,
+            siblingIds
         };
 
         setDisplayMessages(prev => [...prev, userMessage]);
@@ -140,7 +163,7 @@ export function useChatMessages(
     }, []);
 
 
-    const addAssistantMessage = useCallback((id?: number): number => {
+    const addAssistantMessage = useCallback((id?: number, model?: string, siblingIds?: number[]): number => {
         const messageId = id ?? Date.now() + 1;
 
         const assistantMessage: DisplayMessage = {
@@ -148,7 +171,9 @@ export function useChatMessages(
             role:      'assistant',
             content:   '',
             timestamp: new Date().toISOString(),
-            status:    'streaming'
+            status:    'streaming',
+            model,
+            siblingIds
         };
 
         setDisplayMessages(prev => [...prev, assistantMessage]);
@@ -156,6 +181,25 @@ export function useChatMessages(
     }, []);
 
 
+    /**
+     * Record the persisted ID of a session message.
+     * A new version of an existing turn also joins its siblings list here.
+     */
+    const assignServerId = useCallback((messageId: number, serverId: number) => {
+        setDisplayMessages(prev => prev.map(msg =>
+            msg.id === messageId
+                ? {
+                    ...msg,
+                    serverId,
+                    siblingIds: msg.siblingIds && !msg.siblingIds.includes(serverId)
+                        ? [...msg.siblingIds, serverId]
+                        : msg.siblingIds
+                }
+                : msg
+        ));
+    }, []);
+
+
     const removeMessage = useCallback((messageId: number) => {
         setDisplayMessages(prev => prev.filter(m => m.id !== messageId));
     }, []);
@@ -166,7 +210,8 @@ export function useChatMessages(
         content: string,
         thinking?: string,
         status: MessageStatus = 'sent',
-        contentBlocks?: ContentBlock[]
+        contentBlocks?: ContentBlock[],
+        usage?: TokenUsage
     ) => {
         setDisplayMessages(prev => prev.map(msg =>
             msg.id === messageId
@@ -175,7 +220,8 @@ export function useChatMessages(
                     status, 
                     content: content || msg.content, 
                     thinking: thinking || undefined,
-                    contentBlocks: contentBlocks || msg.contentBlocks
+                    contentBlocks: contentBlocks || msg.contentBlocks,
+                    usage: usage || msg.usage
                 }
                 : msg
         ));
@@ -190,6 +236,10 @@ export function useChatMessages(
     }, [onConversationCreated, userName]);
 
 
+    /**
+     * Drop everything from index on from the displayed branch.
+     * The dropped messages stay in the conversation tree as an earlier version.
+     */
     const truncateToIndex = useCallback((index: number) => {
         setDisplayMessages(prev => prev.slice(0, index));
     }, []);
@@ -204,6 +254,7 @@ export function useChatMessages(
         updateMessageContent,
         addUserMessage,
         addAssistantMessage,
+        assignServerId,
         removeMessage,
         finalizeMessage,
         clearMessages,
@@ -1,6 +1,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import type { Message } from '../../types/message';
 import type { PaginatedMessagesResponse } from '../../types/conversation';
+import { cacheMessagePage, getCachedMessagePage } from '../../services/conversationCache';
 
 interface UsePaginatedMessagesOptions {
     api: {
@@ -12,6 +13,16 @@ interface UsePaginatedMessagesOptions {
     initialOldestId: number | null;
 }
 
+interface MessagePage {
+    messages: Message[];
+    hasMore: boolean;
+    oldestId: number | null;
+}
+
+interface FetchThroughMessageResult extends MessagePage {
+    found: boolean;
+}
+
 interface UsePaginatedMessagesReturn {
     messages: Message[];
     setMessages: React.Dispatch<React.SetStateAction<Message[]>>;
@@ -19,12 +30,19 @@ interface UsePaginatedMessagesReturn {
     isLoadingMore: boolean;
     oldestLoadedId: number | null;
     totalCount: number | null;
+    unloadedCount: number;      // Older messages on the server not loaded yet - stays right as new ones are sent
     loadOlderMessages: () => Promise<void>;
     prependMessages: (newMessages: Message[]) => void;
     appendMessage: (message: Message) => void;
     resetPagination: (messages: Message[], hasMore: boolean, oldestId: number | null, totalCount?: number) => void;
+    fetchThroughMessage: (conversationId: number, messageId: number, start: MessagePage) => Promise<FetchThroughMessageResult>;
 }
 
+const PAGE_SIZE = 50;
+
+// Upper bound on pages walked back when jumping to a message (PAGE_SIZE * 20 messages)
+const MAX_JUMP_PAGES = 20;
+
 export function usePaginatedMessages({
     api,
     conversationId,
@@ -37,6 +55,7 @@ export function usePaginatedMessages({
     const [isLoadingMore, setIsLoadingMore] = useState(false);
     const [oldestLoadedId, setOldestLoadedId] = useState<number | null>(initialOldestId);
     const [totalCount, setTotalCount] = useState<number | null>(null);
+    const [unloadedCount, setUnloadedCount] = useState(0);
     
     // Track if we're currently loading to prevent duplicate requests
     const loadingRef = useRef(false);
@@ -60,14 +79,21 @@ export function usePaginatedMessages({
         setIsLoadingMore(true);
 
         try {
-            const params = new URLSearchParams({ limit: '50' });
+            const params = new URLSearchParams({ limit: PAGE_SIZE.toString() });
             if (oldestLoadedId) {
                 params.set('before_id', oldestLoadedId.toString());
             }
 
-            const response = await api.get<PaginatedMessagesResponse>(
+            // Older pages stay cached while the conversation is unchanged - only go to the network on a miss
+            const cached = oldestLoadedId
+                ? await getCachedMessagePage(conversationId, oldestLoadedId).catch(() => null)
+                : null;
+            const response = cached ?? await api.get<PaginatedMessagesResponse>(
                 `/conversations/${conversationId}/messages?${params}`
             );
+            if (!cached && oldestLoadedId) {
+                cacheMessagePage(conversationId, oldestLoadedId, response);
+            }
 
             if (response.messages.length > 0) {
                 // Prepend older messages (they come in chronological order)
@@ -77,6 +103,7 @@ export function usePaginatedMessages({
             
             setHasMore(response.has_more);
             setTotalCount(response.total_count);
+            setUnloadedCount(prev => response.has_more ? Math.max(prev - response.messages.length, 0) : 0);
         } catch (error) {
             console.error('[usePaginatedMessages] Failed to load older messages:', error);
         } finally {
@@ -105,10 +132,47 @@ export function usePaginatedMessages({
         if (newTotalCount !== undefined) {
             setTotalCount(newTotalCount);
         }
+        setUnloadedCount(newHasMore && newTotalCount !== undefined
+            ? Math.max(newTotalCount - newMessages.length, 0)
+            : 0);
         loadingRef.current = false;
         setIsLoadingMore(false);
     }, []);
 
+    /**
+     * Walk back from an already-loaded page until the given message is included.
+     * Does not touch hook state - the caller hands the result to resetPagination.
+     */
+    const fetchThroughMessage = useCallback(async (
+        targetConversationId: number,
+        messageId: number,
+        start: MessagePage
+    ): Promise<FetchThroughMessageResult> => {
+        let page = start;
+        let found = page.messages.some(m => m.id === messageId);
+
+        for (let i = 0; !found && page.hasMore && page.oldestId && i < MAX_JUMP_PAGES; i++) {
+            const params = new URLSearchParams({
+                limit:     PAGE_SIZE.toString(),
+                before_id: page.oldestId.toString(),
+            });
+            const response = await api.get<PaginatedMessagesResponse>(
+                `/conversations/${targetConversationId}/messages?${params}`
+            );
+
+            page = {
+                messages: [...response.messages, ...page.messages],
+                hasMore:  response.has_more,
+                oldestId: response.messages.length > 0 ? response.oldest_id : page.oldestId,
+            };
+            found = response.messages.some(m => m.id === messageId);
+
+            if (response.messages.length === 0) break;
+        }
+
+        return { ...page, found };
+    }, [api]);
+
     return {
         messages,
         setMessages,
@@ -116,10 +180,12 @@ export function usePaginatedMessages({
         isLoadingMore,
         oldestLoadedId,
         totalCount,
+        unloadedCount,
         loadOlderMessages,
         prependMessages,
         appendMessage,
         resetPagination,
+        fetchThroughMessage,
     };
 }
 
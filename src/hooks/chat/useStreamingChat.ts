@@ -1,7 +1,15 @@
 import { useCallback, useState, useRef, useEffect } from "react";
 import { useApi } from "../../auth";
 import type { UseChatMessagesReturn } from "./useChatMessages";
-import type { MessageStatus, ContentBlock } from "../../types/chat";
+import type { MessageStatus, ContentBlock, BranchPoint } from "../../types/chat";
+import type { ChatStreamRequest } from "../../types/streaming";
+import type { ChatAttachment } from "../../types/attachment";
+import type { TokenUsage } from "../../types/usage";
+import type { ToolApprovalRequest, ToolApprovalDecision, ToolApprovalStatus } from "../../types/approval";
+import { getVersionIds } from "../../utils/messageBranches";
+import { addOutboxEntry, removeQueuedMessage } from "../../services/outbox";
+import { publicApi } from "../../services/api";
+import { useConnectionStore } from "../../store";
 
 // Minimal model state needed for streaming
 interface ChatModelState {
@@ -12,11 +20,19 @@ interface ChatModelState {
 
 type ShowToastFn = (message: string, variant?: 'success' | 'error' | 'warning' | 'info', options?: { duration?: number; action?: { label: string; onClick: () => void } }) => void;
 
+// Projects a message is sent with - asked for on every send so it can wait for them to load
+export interface ChatProjects {
+    projectId: number | null;       // Where a new chat is filed
+    projectIds: number[];           // Every project whose instructions and knowledge files apply
+}
+
 type SendMessageFn = (
     content: string,
     existingId?: number,
     simulateFailure?: boolean,
-    skipUserMessage?: boolean
+    skipUserMessage?: boolean,
+    attachments?: ChatAttachment[],
+    branch?: BranchPoint
 ) => Promise<void>;
 
 
@@ -26,7 +42,7 @@ export function useStreamingChat(
     chatModel: ChatModelState,
     showToast: ShowToastFn,
     onConversationCreated: (id: number) => void,
-    projectId?: number | null
+    getProjects?: () => Promise<ChatProjects>
 ) {
     // State
     const [isStreaming, setIsStreaming]             = useState(false);
@@ -37,6 +53,8 @@ export function useStreamingChat(
     const [isThinkingActive, setIsThinkingActive]   = useState(false);
     const [isRegenerating, setIsRegenerating]       = useState(false);
     const [contentBlocks, setContentBlocks]         = useState<ContentBlock[]>([]);
+    const [isReconnecting, setIsReconnecting]       = useState(false);
+    const [pendingApprovals, setPendingApprovals]   = useState<ToolApprovalRequest[]>([]);
 
     // Refs
     const thinkingContentRef  = useRef("");
@@ -44,46 +62,120 @@ export function useStreamingChat(
     const contentBlocksRef    = useRef<ContentBlock[]>([]);
     const currentThinkingRef  = useRef<string>("");  // Current thinking block content
     const needsSpaceRef       = useRef(false);       // Track if next text needs leading space
+    const usageRef            = useRef<TokenUsage | undefined>(undefined);
     const abortControllerRef  = useRef<AbortController | null>(null);
     const sendMessageRef      = useRef<SendMessageFn>(null!);
+    const resendingIdRef      = useRef<number | null>(null);
+    const pendingApprovalsRef = useRef<ToolApprovalRequest[]>([]);
+
+
+    const updatePendingApprovals = useCallback((next: ToolApprovalRequest[]) => {
+        pendingApprovalsRef.current = next;
+        setPendingApprovals(next);
+    }, []);
+
+
+    /**
+     * Flag the tool_call block an approval belongs to.
+     * Matches by call ID, falling back to the last incomplete call with the same name.
+     */
+    const markToolApproval = useCallback((request: ToolApprovalRequest, status: ToolApprovalStatus): boolean => {
+        const blocks = contentBlocksRef.current;
+        const toolBlock = request.call_id
+            ? blocks.find(b => b.type === 'tool_call' && b.callId === request.call_id)
+            : [...blocks].reverse().find(
+                b => b.type === 'tool_call' && b.name === request.name && !b.isComplete
+            );
+        if (toolBlock?.type !== 'tool_call') return false;
+
+        toolBlock.approval = status;
+        setContentBlocks([...blocks]);
+        return true;
+    }, []);
+
+
+    /**
+     * Drop a settled approval from the queue and record the outcome on its block
+     */
+    const settleApproval = useCallback((approvalId: string, approved: boolean): boolean => {
+        const request = pendingApprovalsRef.current.find(a => a.approval_id === approvalId);
+        if (!request) return false;
+
+        updatePendingApprovals(pendingApprovalsRef.current.filter(a => a.approval_id !== approvalId));
+        return markToolApproval(request, approved ? 'approved' : 'denied');
+    }, [updatePendingApprovals, markToolApproval]);
 
 
     const resetStreamingState = useCallback(() => {
         setIsTyping(false);
         setIsStreaming(false);
+        setIsReconnecting(false);
         setStreamingMessageId(null);
         setStreamingContent("");
         setThinkingContent("");
         setIsThinkingActive(false);
         setContentBlocks([]);
+        updatePendingApprovals([]);
         thinkingContentRef.current  = "";
         streamingContentRef.current = "";
         contentBlocksRef.current    = [];
         currentThinkingRef.current  = "";
         needsSpaceRef.current       = false;
+        usageRef.current            = undefined;
         abortControllerRef.current  = null;
-    }, []);
+    }, [updatePendingApprovals]);
+
+
+    /**
+     * Park a user message in the offline outbox; it is sent when the API is reachable again
+     */
+    const queueMessage = useCallback(async (userMessageId: number, request: ChatStreamRequest) => {
+        try {
+            await addOutboxEntry({ kind: 'message', client_message_id: userMessageId, request });
+        } catch (error) {
+            console.error("[useStreamingChat] Failed to queue message:", error);
+            chatMessages.updateMessageStatus(userMessageId, 'failed', 'Failed to connect');
+            return;
+        }
+
+        useConnectionStore.getState().setStatus('offline');
+        chatMessages.updateMessageStatus(userMessageId, 'queued', 'Waiting for connection');
+        showToast("You're offline. The message will send when the connection returns.", 'info');
+    }, [chatMessages, showToast]);
 
 
     const sendMessage = useCallback(async (
         messageContent: string,
         existingMessageId?: number,
         simulateFailure?: boolean,
-        skipUserMessage?: boolean
+        skipUserMessage?: boolean,
+        attachments?: ChatAttachment[],
+        branch?: BranchPoint
     ) => {
         const timestamp          = Date.now();
         const userMessageId      = existingMessageId || timestamp;
         const assistantMessageId = timestamp + 1;
 
-        // Add user message if needed
+        // The new user message follows the branch on screen unless told otherwise.
+        // Only a persisted message can be a branch point - without one the backend appends.
+        const lastMessage     = chatMessages.displayMessages[chatMessages.displayMessages.length - 1];
+        const parentMessageId = branch?.parentMessageId !== undefined ? branch.parentMessageId
+            : chatMessages.conversationId === null ? null
+            : lastMessage?.serverId;
+
+        // Add user message if needed - a new version of the turn starts with whichever message is new
         if (existingMessageId) {
             chatMessages.updateMessageStatus(existingMessageId, 'sending', undefined);
         } else if (!skipUserMessage) {
-            chatMessages.addUserMessage(messageContent, userMessageId);
+            chatMessages.addUserMessage(messageContent, userMessageId, attachments, parentMessageId, branch?.siblingIds);
         }
 
         // Add assistant message placeholder
-        chatMessages.addAssistantMessage(assistantMessageId);
+        chatMessages.addAssistantMessage(
+            assistantMessageId,
+            chatModel.selectedModel,
+            skipUserMessage ? branch?.siblingIds : undefined
+        );
 
         // Set streaming state
         setIsTyping(true);
@@ -98,6 +190,7 @@ export function useStreamingChat(
         contentBlocksRef.current    = [];
         currentThinkingRef.current  = "";
         needsSpaceRef.current       = false;
+        usageRef.current            = undefined;
 
         // Handle simulated failure
         if (simulateFailure) {
@@ -107,18 +200,75 @@ export function useStreamingChat(
             return;
         }
 
+        const projects = await getProjects?.();
+
+        const request: ChatStreamRequest = {
+            message:         messageContent,
+            model:           chatModel.selectedModel,
+            provider:        chatModel.currentProvider,
+            conversation_id: chatMessages.conversationId,
+            project_id:      projects?.projectId,
+            project_ids:     projects?.projectIds,
+            attachments,
+            parent_message_id:     skipUserMessage ? undefined : parentMessageId,
+            regenerate_message_id: branch?.regenerateMessageId,
+        };
+
+        // Only new user messages can wait in the outbox - regenerations need the live conversation
+        const canQueue = !skipUserMessage;
+
+        const failMessage = (errorMessage: string) => {
+            chatMessages.updateMessageStatus(userMessageId, 'failed', errorMessage);
+
+            showToast('Failed to send message', 'error', {
+                duration: 6000,
+                action: {
+                    label: 'Retry',
+                    onClick: () => {
+                        chatMessages.removeMessage(userMessageId);
+                        sendMessageRef.current(messageContent, undefined, false, false, attachments);
+                    }
+                }
+            });
+        };
+
+        // Set once the server acknowledges the turn - from then on the message is
+        // persisted, and queueing it would send it a second time
+        let reachedServer = false;
+
+        // An unreachable API means we're offline, not that the message was rejected
+        const failOrQueue = async (errorMessage: string) => {
+            if (canQueue && !(await publicApi.healthCheck())) {
+                await queueMessage(userMessageId, request);
+            } else {
+                failMessage(errorMessage);
+            }
+        };
+
+        // Known to be offline - queue without waiting for the request to fail
+        if (canQueue && useConnectionStore.getState().status === 'offline') {
+            chatMessages.removeMessage(assistantMessageId);
+            resetStreamingState();
+            await queueMessage(userMessageId, request);
+            return;
+        }
+
         try {
             const abortController = await api.streamChat(
-                messageContent,
-                chatModel.selectedModel,
-                chatModel.currentProvider,
-                chatMessages.conversationId,
+                request,
                 {
-                    onMeta: (newConversationId) => {
+                    onMeta: (newConversationId, serverUserMessageId, serverAssistantMessageId) => {
+                        reachedServer = true;
                         if (newConversationId !== chatMessages.conversationId) {
                             chatMessages.setConversationId(newConversationId);
                             onConversationCreated(newConversationId);
                         }
+                        if (serverUserMessageId !== undefined && !skipUserMessage) {
+                            chatMessages.assignServerId(userMessageId, serverUserMessageId);
+                        }
+                        if (serverAssistantMessageId !== undefined) {
+                            chatMessages.assignServerId(assistantMessageId, serverAssistantMessageId);
+                        }
                     },
                     onThinkingStart: () => {
                         setIsThinkingActive(true);
@@ -183,11 +333,21 @@ export function useStreamingChat(
                             [...blocks]
                         );
                     },
-                    onToolStart: (name, params) => {
-                        console.log(`[useStreamingChat] Tool started: ${name}`, params);
+                    onToolStart: (name, params, callId) => {
+                        console.log(`[useStreamingChat] Tool started: ${name}`, callId, params);
+
+                        // A call that starts while the previous one is still running joins its parallel group
+                        const blocks   = contentBlocksRef.current;
+                        const previous = blocks[blocks.length - 1];
+                        let parallelGroup: string | undefined;
+                        if (previous?.type === 'tool_call' && !previous.isComplete && previous.chatRenderHint !== 'skill_read') {
+                            parallelGroup = previous.parallelGroup ?? previous.callId ?? `parallel-${blocks.length - 1}`;
+                            previous.parallelGroup = parallelGroup;
+                        }
+
                         // Add tool call block
-                        const newBlock: ContentBlock = { type: 'tool_call', name, params, isComplete: false };
-                        contentBlocksRef.current = [...contentBlocksRef.current, newBlock];
+                        const newBlock: ContentBlock = { type: 'tool_call', name, params, isComplete: false, callId, parallelGroup };
+                        contentBlocksRef.current = [...blocks, newBlock];
                         setContentBlocks([...contentBlocksRef.current]);
                         
                         chatMessages.updateMessageContent(
@@ -197,17 +357,20 @@ export function useStreamingChat(
                             [...contentBlocksRef.current]
                         );
                     },
-                    onToolEnd: (name, params, result, chatRenderHint) => {
-                        console.log(`[useStreamingChat] Tool ended: ${name}`, params, result, chatRenderHint);
+                    onToolEnd: (name, params, result, chatRenderHint, callId) => {
+                        console.log(`[useStreamingChat] Tool ended: ${name}`, callId, params, result, chatRenderHint);
                         needsSpaceRef.current = true;
                         
-                        // Update tool call block with params and result
+                        // Match by call ID; fall back to the last incomplete block with this name
+                        // for backends that don't send call IDs
                         const blocks = contentBlocksRef.current;
-                        const toolBlock = [...blocks].reverse().find(
-                            b => b.type === 'tool_call' && b.name === name && !b.isComplete
-                        );
+                        const toolBlock = callId
+                            ? blocks.find(b => b.type === 'tool_call' && b.callId === callId)
+                            : [...blocks].reverse().find(
+                                b => b.type === 'tool_call' && b.name === name && !b.isComplete
+                            );
                         if (toolBlock && toolBlock.type === 'tool_call') {
-                            toolBlock.params = params;
+                            toolBlock.params = params ?? toolBlock.params;
                             toolBlock.result = result;
                             toolBlock.isComplete = true;
                             if (chatRenderHint) {
@@ -223,6 +386,34 @@ export function useStreamingChat(
                             );
                         }
                     },
+                    onToolApprovalRequest: (request) => {
+                        // A resumed stream replays the request - only queue it once
+                        if (!pendingApprovalsRef.current.some(a => a.approval_id === request.approval_id)) {
+                            updatePendingApprovals([...pendingApprovalsRef.current, request]);
+                        }
+
+                        if (markToolApproval(request, 'pending')) {
+                            chatMessages.updateMessageContent(
+                                assistantMessageId,
+                                streamingContentRef.current,
+                                thinkingContentRef.current,
+                                [...contentBlocksRef.current]
+                            );
+                        }
+                    },
+                    onToolApprovalResolved: (approvalId, approved) => {
+                        if (settleApproval(approvalId, approved)) {
+                            chatMessages.updateMessageContent(
+                                assistantMessageId,
+                                streamingContentRef.current,
+                                thinkingContentRef.current,
+                                [...contentBlocksRef.current]
+                            );
+                        }
+                    },
+                    onUsage: (usage) => {
+                        usageRef.current = usage;
+                    },
                     onStreamEnd: (finalConversationId, _title) => {
                         const finalContent  = streamingContentRef.current;
                         const finalThinking = thinkingContentRef.current;
@@ -237,7 +428,8 @@ export function useStreamingChat(
                             finalContent,
                             finalThinking,
                             'sent',
-                            finalBlocks
+                            finalBlocks,
+                            usageRef.current
                         );
 
                         if (finalConversationId !== chatMessages.conversationId) {
@@ -247,32 +439,61 @@ export function useStreamingChat(
 
                         resetStreamingState();
                     },
+                    onReconnecting: (attempt) => {
+                        setIsReconnecting(true);
+                        if (attempt === 1) {
+                            showToast('Connection lost. Reconnecting...', 'warning');
+                        }
+                    },
+                    onReconnected: () => {
+                        // Resumed events extend the blocks already received
+                        setIsReconnecting(false);
+                        showToast('Reconnected', 'success', { duration: 2000 });
+                    },
                     onError: (errorMessage) => {
                         console.error("[useStreamingChat] Stream error:", errorMessage);
 
+                        // Keep a partial response rather than discarding it
+                        if (contentBlocksRef.current.length > 0) {
+                            const partialBlocks = contentBlocksRef.current.map((block): ContentBlock => {
+                                if (block.type === 'thinking') return { ...block, isStreaming: false };
+                                if (block.type === 'tool_call') return { ...block, isComplete: true };
+                                return block;
+                            });
+
+                            if (!skipUserMessage) {
+                                chatMessages.updateMessageStatus(userMessageId, 'sent');
+                            }
+
+                            chatMessages.finalizeMessage(
+                                assistantMessageId,
+                                streamingContentRef.current,
+                                thinkingContentRef.current,
+                                'sent',
+                                partialBlocks
+                            );
+
+                            showToast('Connection lost. Partial response kept.', 'warning', { duration: 6000 });
+                            resetStreamingState();
+                            return;
+                        }
+
                         chatMessages.removeMessage(assistantMessageId);
+                        resetStreamingState();
 
+                        // The connection already retried resuming the stream - a turn the
+                        // server accepted fails rather than going to the outbox
                         if (!skipUserMessage) {
-                            chatMessages.updateMessageStatus(userMessageId, 'failed', errorMessage);
-
-                            showToast('Failed to send message', 'error', {
-                                duration: 6000,
-                                action: {
-                                    label: 'Retry',
-                                    onClick: () => {
-                                        chatMessages.removeMessage(userMessageId);
-                                        sendMessageRef.current(messageContent);
-                                    }
-                                }
-                            });
+                            if (reachedServer) {
+                                failMessage(errorMessage);
+                            } else {
+                                failOrQueue(errorMessage);
+                            }
                         } else {
                             showToast('Failed to regenerate response', 'error');
                         }
-
-                        resetStreamingState();
                     }
-                },
-                projectId
+                }
             );
 
             abortControllerRef.current = abortController;
@@ -281,14 +502,13 @@ export function useStreamingChat(
             console.error("[useStreamingChat] Failed to start stream:", error);
 
             chatMessages.removeMessage(assistantMessageId);
+            resetStreamingState();
 
             if (!skipUserMessage) {
-                chatMessages.updateMessageStatus(userMessageId, 'failed', 'Failed to connect');
+                await failOrQueue('Failed to connect');
             } else {
                 showToast('Failed to regenerate response', 'error');
             }
-
-            resetStreamingState();
         }
     }, [
         api,
@@ -298,7 +518,11 @@ export function useStreamingChat(
         onConversationCreated,
         showToast,
         resetStreamingState,
-        projectId
+        updatePendingApprovals,
+        markToolApproval,
+        settleApproval,
+        queueMessage,
+        getProjects
     ]);
 
 
@@ -330,27 +554,86 @@ export function useStreamingChat(
 
         setIsStreaming(false);
         setIsTyping(false);
+        setIsReconnecting(false);
         setIsRegenerating(false);
         setStreamingMessageId(null);
         setStreamingContent("");
         setThinkingContent("");
         setIsThinkingActive(false);
         setContentBlocks([]);
+        updatePendingApprovals([]);
         thinkingContentRef.current  = "";
         streamingContentRef.current = "";
         contentBlocksRef.current    = [];
         currentThinkingRef.current  = "";
         needsSpaceRef.current       = false;
-    }, [streamingMessageId, chatMessages]);
+    }, [streamingMessageId, chatMessages, updatePendingApprovals]);
+
+
+    /**
+     * Send the user's decision on a paused tool call. The backend resumes the
+     * turn once it has the decision; always_allow is remembered per folder.
+     */
+    const respondToApproval = useCallback(async (
+        approvalId: string,
+        approved: boolean,
+        alwaysAllow: boolean = false
+    ) => {
+        const decision: ToolApprovalDecision = {
+            approved,
+            always_allow: approved && alwaysAllow,
+        };
+
+        try {
+            await api.post(`/chat/approvals/${approvalId}`, decision);
+            settleApproval(approvalId, approved);
+
+            if (decision.always_allow) {
+                showToast('Future requests in this folder will run without asking', 'success');
+            }
+        } catch (error) {
+            console.error("[useStreamingChat] Failed to send approval decision:", error);
+            showToast('Failed to send decision. Please try again.', 'error');
+        }
+    }, [api, settleApproval, showToast]);
 
 
     const retryMessage = useCallback((messageId: number, content: string) => {
+        const failedMessage = chatMessages.displayMessages.find(msg => msg.id === messageId);
         chatMessages.removeMessage(messageId);
-        sendMessageRef.current(content);
+        sendMessageRef.current(content, undefined, false, false, failedMessage?.attachments);
+    }, [chatMessages]);
+
+
+    /**
+     * Send a message waiting in the outbox, in place, once the connection is back
+     */
+    const resendQueuedMessage = useCallback(async (messageId: number) => {
+        const queuedMessage = chatMessages.displayMessages.find(msg => msg.id === messageId);
+        if (!queuedMessage || resendingIdRef.current === messageId) return;
+
+        // Re-renders while the outbox is updated must not send it twice
+        resendingIdRef.current = messageId;
+        try {
+            await removeQueuedMessage(messageId);
+        } catch (error) {
+            console.error("[useStreamingChat] Failed to remove message from outbox:", error);
+        }
+
+        try {
+            await sendMessageRef.current(queuedMessage.content, messageId, false, false, queuedMessage.attachments);
+        } finally {
+            resendingIdRef.current = null;
+        }
     }, [chatMessages]);
 
 
+    /**
+     * Answer the previous user message again. The new response becomes another
+     * version of this turn; the current one stays reachable from the version switcher.
+     */
     const regenerateResponse = useCallback(async (messageIndex: number) => {
+        const currentResponse     = chatMessages.displayMessages[messageIndex];
         const previousUserMessage = chatMessages.displayMessages
             .slice(0, messageIndex)
             .reverse()
@@ -364,7 +647,17 @@ export function useStreamingChat(
         setIsRegenerating(true);
         chatMessages.truncateToIndex(messageIndex);
 
-        await sendMessageRef.current(previousUserMessage.content, undefined, false, true);
+        await sendMessageRef.current(
+            previousUserMessage.content,
+            undefined,
+            false,
+            true,
+            previousUserMessage.attachments,
+            {
+                regenerateMessageId: previousUserMessage.serverId,
+                siblingIds:          currentResponse ? getVersionIds(currentResponse) : undefined,
+            }
+        );
 
         setIsRegenerating(false);
     }, [chatMessages]);
@@ -375,17 +668,21 @@ export function useStreamingChat(
         isStreaming,
         isTyping,
         isRegenerating,
+        isReconnecting,
         streamingMessageId,
         streamingContent,
         thinkingContent,
         isThinkingActive,
         contentBlocks,
+        pendingApprovals,
 
         // Actions
         sendMessage,
         stopGeneration,
         retryMessage,
+        resendQueuedMessage,
         regenerateResponse,
+        respondToApproval,
         sendMessageRef,
     };
 }
@@ -6,3 +6,30 @@ export { ThemeProvider, useTheme, initializeTheme } from './useTheme';
 
 // Navbar Context
 export { NavbarProvider, useNavbarContext, usePageContext } from './useNavbarContext';
+
+// Conversation search
+export { useConversationSearch, MIN_SEARCH_QUERY_LENGTH } from './useConversationSearch';
+export type { UseConversationSearchReturn } from './useConversationSearch';
+
+// Saved prompts as slash commands
+export { useSavedPrompts, usePromptTriggers } from './usePromptTriggers';
+
+// Project custom commands as slash commands
+export { useProjectTriggers } from './useProjectTriggers';
+
+// Offline outbox
+export { useOutboxSync, useOutbox } from './useOutbox';
+export type { OutboxRequest } from './useOutbox';
+
+// Session expiry
+export { useSessionStatus } from './useSessionStatus';
+
+// Realtime project, invite and conversation events
+export { useRealtimeSync, useRealtimeEvent } from './useRealtime';
+
+// Data page filters, computed columns and pivot (computed in a worker)
+export { useDataView } from './useDataView';
+
+// Data table sorting and summaries (computed in a worker)
+export { useTableRowOrder, useTableSummaries } from './useDataTable';
+export type { TableRowOrder } from './useDataTable';
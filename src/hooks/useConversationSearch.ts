@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import { useApi } from '../auth';
+import type { ConversationSearchHit, ConversationSearchResponse } from '../types/conversation';
+
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_RESULT_LIMIT = 30;
+
+interface SearchResult {
+    query: string;
+    hits: ConversationSearchHit[];
+    total: number;
+}
+
+interface SearchError {
+    query: string;
+    message: string;
+}
+
+
+/**
+ * Debounced full-text search over conversation titles, summaries and messages.
+ * Results are keyed by the query they answer, so a slow response for an
+ * older query is never shown against a newer one.
+ */
+export function useConversationSearch(query: string) {
+    const api = useApi();
+    const [result, setResult] = useState<SearchResult | null>(null);
+    const [error, setError] = useState<SearchError | null>(null);
+
+    const trimmedQuery = query.trim();
+    const isActive = trimmedQuery.length >= MIN_SEARCH_QUERY_LENGTH;
+
+    useEffect(() => {
+        if (!isActive) return;
+
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const params = new URLSearchParams({
+                    q:     trimmedQuery,
+                    limit: SEARCH_RESULT_LIMIT.toString(),
+                });
+                const response = await api.get<ConversationSearchResponse>(
+                    `/conversations/search?${params}`
+                );
+                if (!cancelled) {
+                    setResult({ query: trimmedQuery, hits: response.hits, total: response.total });
+                }
+            } catch (err) {
+                console.error('[useConversationSearch] Search failed:', err);
+                if (!cancelled) {
+                    setError({
+                        query:   trimmedQuery,
+                        message: err instanceof Error ? err.message : 'Search failed',
+                    });
+                }
+            }
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [api, trimmedQuery, isActive]);
+
+    const hasResult = isActive && result?.query === trimmedQuery;
+    const hasError  = isActive && !hasResult && error?.query === trimmedQuery;
+
+    return {
+        isActive,
+        query:       trimmedQuery,
+        hits:        hasResult ? result.hits : [],
+        total:       hasResult ? result.total : 0,
+        isSearching: isActive && !hasResult && !hasError,
+        error:       hasError ? error.message : null,
+    };
+}
+
+export type UseConversationSearchReturn = ReturnType<typeof useConversationSearch>;
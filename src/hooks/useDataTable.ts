@@ -0,0 +1,92 @@
+/**
+ * Data Table Hooks
+ * Sorted row order and column summaries for DataTable, computed in the data
+ * worker. Each answer remembers the rows it was computed for, so a stale one
+ * is never applied to a newer result.
+ */
+
+import { useEffect, useState } from 'react';
+import { runInDataWorker } from '../workers/dataWorkerClient';
+import type { SortOrder, TableSummaries } from '../utils/dataTable';
+import type { DataResult } from '../types/data';
+
+type TableRows = Pick<DataResult, 'columns' | 'rows'>;
+
+interface SortState {
+    column: string | null;
+    order: SortOrder | null;
+}
+
+export interface TableRowOrder {
+    order: number[] | null;     // Row indices in display order, or null for the result's own order
+    isSorting: boolean;         // The requested sort hasn't come back yet - `order` is out of date
+}
+
+interface SortedRows {
+    rows: unknown[][];
+    colIndex: number;
+    sortOrder: SortOrder;
+    order: number[];
+}
+
+
+/**
+ * Row order for the current sort. While a new sort runs the previous order
+ * of the same rows stays up, flagged as sorting.
+ */
+export function useTableRowOrder(result: TableRows, sort: SortState): TableRowOrder {
+    const [sorted, setSorted] = useState<SortedRows | null>(null);
+    const colIndex = sort.column ? result.columns.indexOf(sort.column) : -1;
+
+    useEffect(() => {
+        if (colIndex === -1 || !sort.order) return;
+
+        let cancelled = false;
+        const rows = result.rows;
+        // Only the sorted column goes to the worker
+        const values = rows.map(row => row[colIndex]);
+
+        const sortOrder = sort.order;
+        runInDataWorker({ type: 'sort', values, order: sortOrder })
+            .then((order) => {
+                if (!cancelled) setSorted({ rows, colIndex, sortOrder, order });
+            })
+            .catch((error) => console.error('Failed to sort table:', error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [result.rows, colIndex, sort.order]);
+
+    if (colIndex === -1 || !sort.order) return { order: null, isSorting: false };
+
+    const sameRows = sorted !== null && sorted.rows === result.rows;
+    const isCurrent = sameRows && sorted.colIndex === colIndex && sorted.sortOrder === sort.order;
+    return { order: sameRows ? sorted.order : null, isSorting: !isCurrent };
+}
+
+
+/**
+ * Footer summaries per column, or null until the worker answers
+ */
+export function useTableSummaries(result: TableRows): TableSummaries | null {
+    const [computed, setComputed] = useState<{ rows: unknown[][]; summaries: TableSummaries } | null>(null);
+
+    const { columns, rows } = result;
+
+    useEffect(() => {
+        let cancelled = false;
+
+        runInDataWorker({ type: 'summarize', result: { columns, rows } })
+            .then((summaries) => {
+                if (!cancelled) setComputed({ rows, summaries });
+            })
+            .catch((error) => console.error('Failed to summarize table:', error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [columns, rows]);
+
+    return computed && computed.rows === rows ? computed.summaries : null;
+}
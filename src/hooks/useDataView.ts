@@ -0,0 +1,45 @@
+/**
+ * Data View Hook
+ * Keeps the Data page's viewResult in step with the loaded result, computed
+ * columns, filters and pivot. The pipeline runs in the data worker; answers
+ * for a superseded input are dropped.
+ */
+
+import { useEffect } from 'react';
+import { useDataStore } from '../store/useDataStore';
+import { isDataViewActive } from '../utils/dataView';
+import { runInDataWorker } from '../workers/dataWorkerClient';
+
+
+export function useDataView(): void {
+    const activeResult = useDataStore((state) => state.activeResult);
+    const pivot = useDataStore((state) => state.pivot);
+    const filters = useDataStore((state) => state.filters);
+    const computedColumns = useDataStore((state) => state.computedColumns);
+    const setViewResult = useDataStore((state) => state.setViewResult);
+    const setComputingView = useDataStore((state) => state.setComputingView);
+    const setError = useDataStore((state) => state.setError);
+
+    useEffect(() => {
+        // With nothing to apply the store shows activeResult directly
+        if (!activeResult || !isDataViewActive({ pivot, filters, computedColumns })) return;
+
+        let cancelled = false;
+        setComputingView(true);
+
+        runInDataWorker({ type: 'view', result: activeResult, computedColumns, filters, pivot })
+            .then((output) => {
+                if (!cancelled) setViewResult(output);
+            })
+            .catch((error) => {
+                console.error('Failed to compute data view:', error);
+                if (cancelled) return;
+                setComputingView(false);
+                setError(error instanceof Error ? error.message : 'Failed to compute data view');
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [activeResult, pivot, filters, computedColumns, setViewResult, setComputingView, setError]);
+}
@@ -0,0 +1,259 @@
+/**
+ * Offline outbox hooks
+ *
+ * useOutboxSync - mounted once by the layout. Tracks whether the API is
+ *     reachable and replays the outbox, oldest first, when it comes back.
+ * useOutbox - for callers that want an edit queued instead of failing
+ *     when the API can't be reached.
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useApi, useAuth } from '../auth';
+import { publicApi } from '../services/api';
+import {
+    addOutboxEntry,
+    isNetworkError,
+    listOutboxEntries,
+    removeOutboxEntry,
+    setOutboxUser,
+    subscribeOutbox,
+} from '../services/outbox';
+import { useConnectionStatus, useConnectionStore } from '../store';
+import type { ChatStreamRequest, OutboxRequestEntry } from '../types';
+
+// How often to check whether the API is back while offline
+const PROBE_INTERVAL_MS = 15000;
+
+type Api = ReturnType<typeof useApi>;
+
+type ShowToastFn = (message: string, variant?: 'success' | 'error' | 'warning' | 'info', options?: { duration?: number }) => void;
+
+export type OutboxRequest = Pick<OutboxRequestEntry, 'method' | 'url' | 'body' | 'label'>;
+
+
+function requestInit(method: string, body: unknown): RequestInit {
+    return {
+        method,
+        headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+    };
+}
+
+
+/**
+ * A replayed message failed after the server had stored it - sending it
+ * again would post it twice
+ */
+class AcknowledgedMessageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AcknowledgedMessageError';
+    }
+}
+
+
+/**
+ * Send a queued message without a chat window to render it. Resolves once
+ * the reply has been stored; the response shows when the conversation is opened.
+ */
+function sendQueuedMessage(streamChat: Api['streamChat'], request: ChatStreamRequest): Promise<void> {
+    const noop = () => {};
+    // Set once the server acknowledges the turn, as in useStreamingChat
+    let reachedServer = false;
+
+    return new Promise((resolve, reject) => {
+        streamChat(request, {
+            onMeta: () => {
+                reachedServer = true;
+            },
+            onThinkingStart: noop,
+            onThinking: noop,
+            onThinkingEnd: noop,
+            onContent: noop,
+            onToolStart: noop,
+            onToolEnd: noop,
+            onStreamEnd: () => resolve(),
+            onError: (message) => reject(reachedServer ? new AcknowledgedMessageError(message) : new Error(message)),
+        }).catch(reject);
+    });
+}
+
+
+/**
+ * Whether a failed replay should stay queued: the API is unreachable,
+ * erroring or waiting for sign-in. Anything else won't succeed on retry.
+ */
+async function shouldRetryLater(error: unknown): Promise<boolean> {
+    if (isNetworkError(error)) return true;
+
+    const status = (error as { status?: unknown } | null)?.status;
+    if (typeof status === 'number') {
+        return status === 401 || status === 408 || status === 429 || status >= 500;
+    }
+
+    // Stream errors carry only a message - ask the API whether it's there at all
+    return !(await publicApi.healthCheck());
+}
+
+
+export function useOutboxSync(showToast: ShowToastFn): void {
+    const { user } = useAuth();
+    const api = useApi();
+    const status = useConnectionStatus();
+    const drainingRef = useRef(false);
+
+    const userId = user?.id ?? null;
+
+    // Scope the outbox to the signed-in user and keep the pending count current
+    useEffect(() => {
+        setOutboxUser(userId);
+    }, [userId]);
+
+    useEffect(() => {
+        const refresh = () => {
+            listOutboxEntries()
+                .then((entries) => useConnectionStore.getState().setPendingCount(entries.length))
+                .catch((error) => console.error('[useOutboxSync] Failed to read outbox:', error));
+        };
+        refresh();
+        return subscribeOutbox(refresh);
+    }, []);
+
+
+    const drain = useCallback(async () => {
+        if (drainingRef.current || userId === null) return;
+        drainingRef.current = true;
+
+        const { setStatus } = useConnectionStore.getState();
+
+        try {
+            // Messages still on screen are resent by the chat window so their replies stream in
+            const { liveMessageIds } = useConnectionStore.getState();
+            const entries = (await listOutboxEntries()).filter(
+                (entry) => entry.kind !== 'message' || !liveMessageIds.includes(entry.client_message_id)
+            );
+
+            if (entries.length === 0) {
+                setStatus('online');
+                return;
+            }
+
+            setStatus('syncing');
+            let synced = 0;
+            const dropped: string[] = [];
+
+            for (const entry of entries) {
+                try {
+                    if (entry.kind === 'message') {
+                        await sendQueuedMessage(api.streamChat, entry.request);
+                    } else {
+                        await api.fetchWithAuth(entry.url, requestInit(entry.method, entry.body));
+                    }
+                    await removeOutboxEntry(entry.id);
+                    synced++;
+                } catch (error) {
+                    // The message itself is stored - only its reply was lost
+                    if (error instanceof AcknowledgedMessageError) {
+                        console.error('[useOutboxSync] Queued message was sent but its reply failed:', entry, error);
+                        await removeOutboxEntry(entry.id);
+                        dropped.push('the reply to a queued message');
+                        continue;
+                    }
+                    if (await shouldRetryLater(error)) {
+                        console.warn('[useOutboxSync] API unavailable, keeping remaining entries queued:', error);
+                        setStatus('offline');
+                        return;
+                    }
+                    console.error('[useOutboxSync] Dropping entry that failed to replay:', entry, error);
+                    await removeOutboxEntry(entry.id);
+                    dropped.push(entry.kind === 'message' ? 'a queued message' : entry.label);
+                }
+            }
+
+            setStatus('online');
+            if (synced > 0) {
+                showToast(`Synced ${synced} offline change${synced === 1 ? '' : 's'}`, 'success');
+            }
+            if (dropped.length > 0) {
+                showToast(`Couldn't sync ${dropped.join(', ')}`, 'error', { duration: 8000 });
+            }
+        } catch (error) {
+            console.error('[useOutboxSync] Failed to drain outbox:', error);
+        } finally {
+            drainingRef.current = false;
+        }
+    }, [api, userId, showToast]);
+
+
+    // Browser connectivity events - "online" only means a network, so check the API too
+    useEffect(() => {
+        const handleOffline = () => useConnectionStore.getState().setStatus('offline');
+        const handleOnline = () => {
+            publicApi.healthCheck().then((reachable) => {
+                if (reachable) drain();
+            });
+        };
+
+        window.addEventListener('offline', handleOffline);
+        window.addEventListener('online', handleOnline);
+        return () => {
+            window.removeEventListener('offline', handleOffline);
+            window.removeEventListener('online', handleOnline);
+        };
+    }, [drain]);
+
+    // While offline, poll until the API answers again
+    useEffect(() => {
+        if (status !== 'offline') return;
+
+        const timer = setInterval(async () => {
+            if (navigator.onLine && await publicApi.healthCheck()) {
+                drain();
+            }
+        }, PROBE_INTERVAL_MS);
+
+        return () => clearInterval(timer);
+    }, [status, drain]);
+
+    // Replay anything left over from a previous session once signed in
+    useEffect(() => {
+        if (useConnectionStore.getState().status !== 'offline') {
+            drain();
+        }
+    }, [drain]);
+}
+
+
+export function useOutbox() {
+    const api = useApi();
+
+    /**
+     * Run an edit now, or queue it when the API can't be reached.
+     * `send` defaults to a plain request built from `request`.
+     * Resolves true when queued; other errors are rethrown.
+     */
+    const sendOrQueue = useCallback(async (
+        request: OutboxRequest,
+        send?: () => Promise<unknown>
+    ): Promise<boolean> => {
+        const queue = async () => {
+            await addOutboxEntry({ kind: 'request', ...request });
+            useConnectionStore.getState().setStatus('offline');
+            return true;
+        };
+
+        if (useConnectionStore.getState().status === 'offline') {
+            return queue();
+        }
+
+        try {
+            await (send ? send() : api.fetchWithAuth(request.url, requestInit(request.method, request.body)));
+            return false;
+        } catch (error) {
+            if (isNetworkError(error)) return queue();
+            throw error;
+        }
+    }, [api]);
+
+    return useMemo(() => ({ sendOrQueue }), [sendOrQueue]);
+}
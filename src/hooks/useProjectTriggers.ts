@@ -0,0 +1,22 @@
+/**
+ * useProjectTriggers
+ *
+ * Custom commands defined on the given projects, as slash-command triggers.
+ * Definitions arrive with the project list, so this only reads the store.
+ */
+
+import { useMemo } from 'react';
+import { useConversationProjectStore } from '../store';
+import { projectCommandsToTriggers } from '../triggers';
+import type { Trigger } from '../triggers';
+
+
+export function useProjectTriggers(projectIds: number[]): Trigger[] {
+    const projects = useConversationProjectStore((state) => state.projects);
+    const key = projectIds.join(',');
+
+    return useMemo(() => {
+        const ids = new Set(key ? key.split(',').map(Number) : []);
+        return projectCommandsToTriggers(projects.filter(p => ids.has(p.id)));
+    }, [projects, key]);
+}
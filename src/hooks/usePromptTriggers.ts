@@ -0,0 +1,37 @@
+/**
+ * usePromptTriggers
+ *
+ * Saved prompt templates, loaded on first use, and the same templates as
+ * slash-command triggers. Later changes made through usePromptTemplateApi
+ * flow in via the store.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { usePromptTemplateApi, usePromptTemplateStore, usePromptTemplates } from '../store';
+import { templatesToTriggers } from '../triggers';
+import type { Trigger } from '../triggers';
+import type { PromptTemplate } from '../types';
+
+
+export function useSavedPrompts(): PromptTemplate[] {
+    const templates = usePromptTemplates();
+    const { fetchTemplates } = usePromptTemplateApi();
+
+    useEffect(() => {
+        // Several components use this hook; only the first to mount fetches
+        const { isLoaded, isLoading } = usePromptTemplateStore.getState();
+        if (isLoaded || isLoading) return;
+
+        fetchTemplates().catch((error) => {
+            console.error('[useSavedPrompts] Failed to load saved prompts:', error);
+        });
+    }, [fetchTemplates]);
+
+    return templates;
+}
+
+
+export function usePromptTriggers(): Trigger[] {
+    const templates = useSavedPrompts();
+    return useMemo(() => templatesToTriggers(templates), [templates]);
+}
@@ -0,0 +1,97 @@
+/**
+ * Realtime Hooks
+ *
+ * useRealtimeSync keeps the realtime channel open while signed in and applies
+ * project and invite events to useConversationProjectStore. Components that
+ * hold their own copies (conversation lists, member lists) listen with
+ * useRealtimeEvent.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useApi, useAuth } from '../auth';
+import { connectRealtime, subscribeRealtime } from '../services/realtime';
+import { useConversationProjectStore } from '../store';
+import type { RealtimeEvent } from '../types';
+
+
+function applyToProjectStore(event: RealtimeEvent, currentUserId: number): void {
+    const store = useConversationProjectStore.getState();
+
+    switch (event.type) {
+        case 'project.updated':
+            if (store.projects.some((p) => p.id === event.project.id)) {
+                store.updateProject(event.project);
+            } else {
+                store.addProject(event.project);
+            }
+            break;
+
+        case 'project.deleted':
+            store.removeProject(event.project_id);
+            break;
+
+        case 'project.member_joined':
+            store.patchProject(event.project_id, { member_count: event.member_count });
+            break;
+
+        case 'project.member_left':
+            if (event.user_id === currentUserId) {
+                store.removeProject(event.project_id);
+            } else {
+                store.patchProject(event.project_id, { member_count: event.member_count });
+            }
+            break;
+
+        case 'project.conversation_added':
+        case 'project.conversation_removed':
+            store.patchProject(event.project_id, { conversation_count: event.conversation_count });
+            break;
+
+        case 'invite.received':
+            store.addInvite(event.invite);
+            break;
+
+        case 'invite.revoked':
+            store.removeInvite(event.invite_id);
+            break;
+    }
+}
+
+
+export function useRealtimeSync(): void {
+    const { user } = useAuth();
+    const api = useApi();
+    const userId = user?.id ?? null;
+
+    // The token getter changes identity with MSAL state - don't reconnect for that
+    const getAccessTokenRef = useRef(api.getAccessToken);
+    useEffect(() => {
+        getAccessTokenRef.current = api.getAccessToken;
+    });
+
+    useEffect(() => {
+        if (userId === null) return;
+
+        const unsubscribe = subscribeRealtime((event) => applyToProjectStore(event, userId));
+        const disconnect = connectRealtime(() => getAccessTokenRef.current());
+
+        return () => {
+            unsubscribe();
+            disconnect();
+        };
+    }, [userId]);
+}
+
+
+/**
+ * Run `handler` for each realtime event while mounted. The latest handler is
+ * always used, so it may close over state without resubscribing.
+ */
+export function useRealtimeEvent(handler: (event: RealtimeEvent) => void): void {
+    const handlerRef = useRef(handler);
+    useEffect(() => {
+        handlerRef.current = handler;
+    });
+
+    useEffect(() => subscribeRealtime((event) => handlerRef.current(event)), []);
+}
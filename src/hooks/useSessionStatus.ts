@@ -0,0 +1,13 @@
+/**
+ * Session Status Hook
+ * Current state of the shared auth-expiry recovery (see services/authSession)
+ */
+
+import { useSyncExternalStore } from 'react';
+import { getSessionStatus, subscribeSession } from '../services/authSession';
+import type { SessionStatus } from '../services/authSession';
+
+
+export function useSessionStatus(): SessionStatus {
+    return useSyncExternalStore(subscribeSession, getSessionStatus);
+}
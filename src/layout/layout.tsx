@@ -1,9 +1,20 @@
 import {type PropsWithChildren} from 'react';
 import Navbar from './navbar';
 import Footer from './footer';
+import { useToast } from '../components/Toast';
+import SessionBanner from '../components/SessionBanner';
+import { useOutboxSync, useRealtimeSync } from '../hooks';
 import '../styles/layout.css';
 
 function Layout({ children }: PropsWithChildren) {
+    const { showToast } = useToast();
+
+    // Replays queued messages and edits whenever the API becomes reachable
+    useOutboxSync(showToast);
+
+    // Live project, invite and conversation updates from other members
+    useRealtimeSync();
+
     return (
         <div className="app-root">
             <Navbar />
@@ -11,6 +22,7 @@ function Layout({ children }: PropsWithChildren) {
                 {children}
             </main>
             <Footer />
+            <SessionBanner />
         </div>
     );
 }
@@ -14,7 +14,11 @@ import {
     type ToolStatsResponse,
     type AuditEvent,
     type HealthStatus,
+    type UsageRollupResponse,
+    type UserUsage,
 } from '../services';
+import { estimateCost, formatCost, formatTokenCount, getTotalTokens, normalizeUsage, sumUsage } from '../utils/modelPricing';
+import type { TokenUsage } from '../types';
 
 // Icons
 import { 
@@ -45,6 +49,9 @@ const TAB_LABELS: Record<AdminTab, string> = {
     health: 'Health',
 };
 
+// Window for the dashboard's per-user token usage roll-up
+const USAGE_PERIOD_DAYS = 30;
+
 // ============================================
 // Admin Page Component
 // ============================================
@@ -62,6 +69,7 @@ const AdminPage: React.FC = () => {
 
     // Data states
     const [stats, setStats] = useState<DashboardStats | null>(null);
+    const [usageRollup, setUsageRollup] = useState<UsageRollupResponse | null>(null);
     const [users, setUsers] = useState<AdminUser[]>([]);
     const [selectedUser, setSelectedUser] = useState<UserActivity | null>(null);
     const [conversations, setConversations] = useState<AdminConversation[]>([]);
@@ -100,8 +108,16 @@ const AdminPage: React.FC = () => {
         try {
             switch (tab) {
                 case 'dashboard': {
-                    const data = await adminApi.getStats();
+                    // Usage is supplementary - the dashboard still renders without it
+                    const [data, usage] = await Promise.all([
+                        adminApi.getStats(),
+                        adminApi.getUsageRollup({ days: USAGE_PERIOD_DAYS }).catch((err) => {
+                            console.warn('[Admin] Failed to load usage roll-up:', err);
+                            return null;
+                        }),
+                    ]);
                     setStats(data);
+                    setUsageRollup(usage);
                     break;
                 }
 
@@ -338,7 +354,7 @@ const AdminPage: React.FC = () => {
                 ) : (
                     <>
                         {activeTab === 'dashboard' && stats && (
-                            <DashboardTab stats={stats} />
+                            <DashboardTab stats={stats} usage={usageRollup} />
                         )}
                         {activeTab === 'users' && (
                             <UsersTab
@@ -393,7 +409,24 @@ const AdminPage: React.FC = () => {
 // Tab Components
 // ============================================
 
-const DashboardTab: React.FC<{ stats: DashboardStats }> = ({ stats }) => (
+/**
+ * Estimated cost for a user's usage, summed per model so each model is priced correctly
+ */
+/**
+ * A user's token totals with each model's usage normalized first, so OpenAI
+ * reasoning tokens aren't counted in both output and thinking
+ */
+const getUserUsage = (user: UserUsage): TokenUsage =>
+    sumUsage(user.by_model.map(m => normalizeUsage(m.model, m)));
+
+const getUserCost = (user: UserUsage): number | null => {
+    const costs = user.by_model
+        .map(m => estimateCost(m.model, m))
+        .filter((cost): cost is number => cost !== null);
+    return costs.length > 0 ? costs.reduce((a, b) => a + b, 0) : null;
+};
+
+const DashboardTab: React.FC<{ stats: DashboardStats; usage: UsageRollupResponse | null }> = ({ stats, usage }) => (
     <div className="admin-dashboard">
         {/* Stats Grid */}
         <div className="admin-stats-grid">
@@ -469,12 +502,71 @@ const DashboardTab: React.FC<{ stats: DashboardStats }> = ({ stats }) => (
             </div>
         </div>
 
+        {usage && <UsageRollupSection usage={usage} />}
+
         <div className="admin-stat-timestamp">
             Last updated: {new Date(stats.generated_at).toLocaleString()}
         </div>
     </div>
 );
 
+const UsageRollupSection: React.FC<{ usage: UsageRollupResponse }> = ({ usage }) => {
+    const rows = usage.users
+        .map(user => {
+            const tokens = getUserUsage(user);
+            return { user, tokens, totalTokens: getTotalTokens(tokens), cost: getUserCost(user) };
+        })
+        .sort((a, b) => (b.cost ?? 0) - (a.cost ?? 0) || b.totalTokens - a.totalTokens);
+
+    const totalCost = rows.reduce((sum, row) => sum + (row.cost ?? 0), 0);
+
+    return (
+        <div className="admin-usage">
+            <div className="admin-table-header">
+                <span>Token usage by user (last {usage.period_days} days)</span>
+                <span>Estimated total: {formatCost(totalCost)}</span>
+            </div>
+            <div className="admin-table-wrapper">
+                <table className="admin-table">
+                    <thead>
+                        <tr>
+                            <th>User</th>
+                            <th>Messages</th>
+                            <th>Input</th>
+                            <th>Output</th>
+                            <th>Thinking</th>
+                            <th>Est. Cost</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.length === 0 ? (
+                            <tr>
+                                <td colSpan={6} className="admin-empty-cell">No token usage recorded yet</td>
+                            </tr>
+                        ) : (
+                            rows.map(({ user, tokens, cost }) => (
+                                <tr key={user.user_id}>
+                                    <td>
+                                        <div>{user.display_name}</div>
+                                        <div className="admin-user-email-detail">{user.email}</div>
+                                    </td>
+                                    <td>{user.message_count.toLocaleString()}</td>
+                                    <td>{formatTokenCount(tokens.input_tokens)}</td>
+                                    <td>{formatTokenCount(tokens.output_tokens)}</td>
+                                    <td>{formatTokenCount(tokens.thinking_tokens ?? 0)}</td>
+                                    <td title={user.by_model.map(m => `${m.model}: ${formatTokenCount(getTotalTokens(normalizeUsage(m.model, m)))} tokens`).join('\n')}>
+                                        {cost !== null ? formatCost(cost) : '—'}
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
 const UsersTab: React.FC<{
     users: AdminUser[];
     selectedUser: UserActivity | null;
@@ -5,7 +5,26 @@ import { useAuth } from '../auth';
 import { useToast } from '../components/Toast';
 import { useChatModel } from '../hooks/chat/useChatModel';
 import { usePaginatedMessages } from '../hooks/chat/usePaginatedMessages';
-import type { Conversation, ConversationWithMessages, ConversationsResponse } from '../types/conversation';
+import { useOutbox } from '../hooks/useOutbox';
+import { useRealtimeEvent } from '../hooks/useRealtime';
+import {
+    cacheConversation,
+    cacheConversations,
+    getCachedConversation,
+    getCachedConversations,
+    removeCachedConversations,
+    setCacheUser,
+} from '../services/conversationCache';
+import { isNetworkError } from '../services/outbox';
+import type {
+    Conversation,
+    ConversationWithMessages,
+    ConversationsResponse,
+    PaginatedMessagesResponse,
+    ConversationFlags,
+    BulkConversationUpdateRequest,
+    BulkConversationDeleteRequest,
+} from '../types/conversation';
 import type { Message } from '../types/message';
 import '../styles/home.css';
 import '../styles/auth.css'
@@ -15,17 +34,21 @@ import ConversationSidebar from "../components/ConversationSidebar";
 import SidebarToggleWrench from "../assets/svg/toolbox/sidebarToggleWrench";
 
 const SCROLL_THRESHOLD = 200; // pixels from top to trigger load
+const SEARCH_TARGET_HIGHLIGHT_MS = 2000;
+const SEARCH_TARGET_MAX_FRAMES = 60;
 
 // Type for location state
 interface LocationState {
     openToolbox?: boolean;
     openConversations?: boolean;
     openProjectModal?: boolean;
+    openConversationId?: number;        // e.g. a conversation just forked from a share link
 }
 
 const Chat = () => {
     const { user } = useAuth();
     const api = useApi();
+    const { sendOrQueue } = useOutbox();
     const { showToast } = useToast();
     const location = useLocation();
 
@@ -52,6 +75,9 @@ const Chat = () => {
     const [initialHasMore, setInitialHasMore] = useState(false);
     const [initialOldestId, setInitialOldestId] = useState<number | null>(null);
 
+    // Bumped when the selected branch changes so ChatWindow replaces its messages
+    const [branchRevision, setBranchRevision] = useState(0);
+
     // Paginated messages hook
     const pagination = usePaginatedMessages({
         api,
@@ -67,34 +93,28 @@ const Chat = () => {
     // Flag to scroll to bottom after initial conversation load
     const [isInitialScrolling, setIsInitialScrolling] = useState(false);
 
+    // Message to scroll to after opening a conversation from search
+    const [scrollTargetMessageId, setScrollTargetMessageId] = useState<number | null>(null);
+
+    // Latest loadConversation call - earlier ones must not overwrite it when they resolve
+    const loadRequestRef = useRef(0);
+
     // Load conversations and default model on mount
     useEffect(() => {
         if (user) {
+            setCacheUser(user.id);
             loadConversations();
             chatModel.loadDefaultModel();
         }
     }, [user]);
 
-    // Handle location state (e.g., openToolbox or openConversations from landing/guide pages)
-    useEffect(() => {
-        const state = location.state as LocationState | null;
-        if (!state || hasHandledLocationState.current) return;
-
-        if (state.openToolbox) {
-            setToolboxOpen(true);
-        }
-        if (state.openConversations) {
-            setConversationsOpen(true);
-        }
-        if (state.openProjectModal) {
-            setConversationsOpen(true);
-            setOpenProjectModalOnMount(true);
-        }
-
-        hasHandledLocationState.current = true;
-        // Clear the state so refreshing doesn't re-open
-        window.history.replaceState({}, document.title);
-    }, [location.state]);
+    // Titles renamed elsewhere (another tab, or generated by the server)
+    useRealtimeEvent((event) => {
+        if (event.type !== 'conversation.updated') return;
+        setConversations(prev => prev.map(c => c.id === event.conversation_id
+            ? { ...c, title: event.title, updated_at: event.updated_at }
+            : c));
+    });
 
     // Scroll to bottom after initial conversation load
     useEffect(() => {
@@ -110,11 +130,44 @@ const Chat = () => {
         }
     }, [isInitialScrolling, pagination.messages.length]);
 
+    // Scroll to a search hit once its message has rendered
+    useEffect(() => {
+        if (scrollTargetMessageId === null) return;
+
+        let frame = 0;
+        let attempts = 0;
+        let highlightTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const tryScroll = () => {
+            const element = document.querySelector<HTMLElement>(
+                `[data-message-id="${scrollTargetMessageId}"]`
+            );
+            if (element) {
+                element.scrollIntoView({ block: 'center' });
+                element.classList.add('search-target');
+                highlightTimer = setTimeout(() => {
+                    element.classList.remove('search-target');
+                    setScrollTargetMessageId(null);
+                }, SEARCH_TARGET_HIGHLIGHT_MS);
+            } else if (++attempts < SEARCH_TARGET_MAX_FRAMES) {
+                frame = requestAnimationFrame(tryScroll);
+            } else {
+                setScrollTargetMessageId(null);
+            }
+        };
+        frame = requestAnimationFrame(tryScroll);
+
+        return () => {
+            cancelAnimationFrame(frame);
+            clearTimeout(highlightTimer);
+        };
+    }, [scrollTargetMessageId]);
+
     // Scroll detection for loading older messages
     useEffect(() => {
         const handleScroll = () => {
-            // Don't trigger if we're in the middle of scrolling to bottom
-            if (isInitialScrolling) return;
+            // Don't trigger if we're in the middle of scrolling to bottom or to a search hit
+            if (isInitialScrolling || scrollTargetMessageId !== null) return;
             
             // Only trigger if we have more to load and aren't already loading
             if (!pagination.hasMore || pagination.isLoadingMore) return;
@@ -133,7 +186,7 @@ const Chat = () => {
 
         window.addEventListener('scroll', handleScroll, { passive: true });
         return () => window.removeEventListener('scroll', handleScroll);
-    }, [isInitialScrolling, pagination.hasMore, pagination.isLoadingMore, pagination.loadOlderMessages]);
+    }, [isInitialScrolling, scrollTargetMessageId, pagination.hasMore, pagination.isLoadingMore, pagination.loadOlderMessages]);
 
     // Restore scroll position after prepending messages
     useEffect(() => {
@@ -152,10 +205,17 @@ const Chat = () => {
     }, [pagination.messages.length, pagination.isLoadingMore]);
 
     const loadConversations = async () => {
-        setConversationsLoading(true);
+        // Show the cached list straight away, then refresh it
+        const cached = await getCachedConversations().catch(() => null);
+        if (cached) {
+            setConversations(cached);
+        }
+        setConversationsLoading(!cached);
+
         try {
             const data = await api.get<ConversationsResponse>('/conversations');
             setConversations(data.conversations);
+            cacheConversations(data.conversations);
         } catch (error) {
             console.error("Failed to load conversations:", error);
         } finally {
@@ -163,54 +223,132 @@ const Chat = () => {
         }
     };
 
-    const loadConversation = async (conversationId: number) => {
-        try {
-            const data = await api.get<ConversationWithMessages>(`/conversations/${conversationId}`);
-            
-            // Set initial state for pagination hook
-            setInitialMessages(data.messages);
-            setInitialHasMore(data.has_more);
-            setInitialOldestId(data.oldest_id);
-            
-            setActiveConversationId(conversationId);
-            setActiveProjectId(null);
+    const { resetPagination, fetchThroughMessage } = pagination;
+    const { setConversationContext } = chatModel;
+
+    const showConversation = useCallback((
+        data: ConversationWithMessages,
+        page: { messages: Message[]; hasMore: boolean; oldestId: number | null },
+        targetMessageId?: number,
+        targetFound = false
+    ) => {
+        // Set initial state for pagination hook
+        setInitialMessages(page.messages);
+        setInitialHasMore(page.hasMore);
+        setInitialOldestId(page.oldestId);
+        
+        setActiveConversationId(data.conversation.id);
+        setActiveProjectId(null);
+
+        // Reset pagination with new data
+        resetPagination(
+            page.messages, 
+            page.hasMore, 
+            page.oldestId,
+            data.total_count
+        );
+        
+        if (targetMessageId !== undefined && targetFound) {
+            setScrollTargetMessageId(targetMessageId);
+        } else {
+            // Flag to scroll to bottom after messages render
+            setIsInitialScrolling(true);
+            if (targetMessageId !== undefined) {
+                showToast('That message is not on the current branch of this conversation', 'info');
+            }
+        }
 
-            // Reset pagination with new data
-            pagination.resetPagination(
-                data.messages, 
-                data.has_more, 
-                data.oldest_id,
-                data.total_count
+        // Check if we need to switch provider/model for this conversation
+        if (data.conversation_provider && data.conversation_model) {
+            const switched = setConversationContext(
+                data.conversation_provider,
+                data.conversation_model
             );
             
-            // Flag to scroll to bottom after messages render
-            setIsInitialScrolling(true);
+            if (switched) {
+                const providerName = data.conversation_provider === 'anthropic' 
+                    ? 'Anthropic' 
+                    : 'OpenAI';
+                showToast(`Switched to ${providerName} for this conversation`, 'info');
+            }
+        }
+    }, [resetPagination, setConversationContext, showToast]);
+
+    const loadConversation = useCallback(async (conversationId: number, targetMessageId?: number) => {
+        const request = ++loadRequestRef.current;
+        const isLatest = () => request === loadRequestRef.current;
+
+        // Render the cached copy immediately and revalidate below. Jumping to a
+        // search hit pages back through the API, so it skips the cache.
+        const cached = targetMessageId === undefined
+            ? await getCachedConversation(conversationId).catch(() => null)
+            : null;
+        if (cached && isLatest()) {
+            showConversation(cached, { messages: cached.messages, hasMore: cached.has_more, oldestId: cached.oldest_id });
+        }
 
-            // Check if we need to switch provider/model for this conversation
-            if (data.conversation_provider && data.conversation_model) {
-                const switched = chatModel.setConversationContext(
-                    data.conversation_provider,
-                    data.conversation_model
-                );
-                
-                if (switched) {
-                    const providerName = data.conversation_provider === 'anthropic' 
-                        ? 'Anthropic' 
-                        : 'OpenAI';
-                    showToast(`Switched to ${providerName} for this conversation`, 'info');
-                }
+        try {
+            const data = await api.get<ConversationWithMessages>(`/conversations/${conversationId}`);
+            if (!isLatest()) return;
+            cacheConversation(data);
+
+            // Nothing changed since the cached copy - leave the rendered messages alone
+            if (cached && cached.conversation.updated_at === data.conversation.updated_at) return;
+
+            // Jumping to a search hit - page back until the message is loaded
+            let page = { messages: data.messages, hasMore: data.has_more, oldestId: data.oldest_id };
+            let targetFound = false;
+            if (targetMessageId !== undefined) {
+                const result = await fetchThroughMessage(conversationId, targetMessageId, page);
+                page = result;
+                targetFound = result.found;
             }
+            if (!isLatest()) return;
+
+            showConversation(data, page, targetMessageId, targetFound);
         } catch (error) {
             console.error("Failed to load conversation:", error);
+            if (cached && isLatest() && isNetworkError(error)) {
+                showToast("You're offline - showing the saved copy of this conversation", 'info');
+            }
         }
-    };
+    }, [api, showConversation, fetchThroughMessage, showToast]);
+
+    // Handle location state (e.g., openToolbox or openConversations from landing/guide pages)
+    useEffect(() => {
+        const state = location.state as LocationState | null;
+        if (!state || hasHandledLocationState.current) return;
+
+        if (state.openToolbox) {
+            setToolboxOpen(true);
+        }
+        if (state.openConversations) {
+            setConversationsOpen(true);
+        }
+        if (state.openProjectModal) {
+            setConversationsOpen(true);
+            setOpenProjectModalOnMount(true);
+        }
+        if (state.openConversationId) {
+            loadConversation(state.openConversationId);
+        }
+
+        hasHandledLocationState.current = true;
+        // Clear the state so refreshing doesn't re-open
+        window.history.replaceState({}, document.title);
+    }, [location.state, loadConversation]);
 
     const handleSelectConversation = (conversationId: number) => {
         loadConversation(conversationId);
     };
 
+    const handleSelectSearchHit = (conversationId: number, messageId: number | null) => {
+        loadConversation(conversationId, messageId ?? undefined);
+    };
+
     const handleNewConversation = (projectId?: number) => {
         // Clear active conversation - ChatWindow will create new one on first message
+        loadRequestRef.current++;
         setActiveConversationId(null);
         setActiveProjectId(projectId ?? null);
         setInitialMessages([]);
@@ -229,8 +367,16 @@ const Chat = () => {
                 prev.map(c => c.id === conversationId ? { ...c, title: newTitle } : c)
             );
 
-            // Call API
-            await api.patch(`/conversations/${conversationId}`, { title: newTitle });
+            // Call API - queued while offline, the title stays as typed
+            const queued = await sendOrQueue({
+                method: 'PATCH',
+                url:    `/conversations/${conversationId}`,
+                body:   { title: newTitle },
+                label:  'Rename conversation',
+            });
+            if (queued) {
+                showToast("You're offline. The rename will sync when the connection returns.", 'info');
+            }
 
         } catch (error) {
             console.error("Failed to rename conversation:", error);
@@ -246,6 +392,7 @@ const Chat = () => {
         try {
             await api.delete(`/conversations/${conversationId}`);
             setConversations(prev => prev.filter(c => c.id !== conversationId));
+            removeCachedConversations([conversationId]);
 
             // If we deleted the active conversation, clear it
             if (activeConversationId === conversationId) {
@@ -260,6 +407,43 @@ const Chat = () => {
         }
     };
 
+    const handleUpdateConversations = async (conversationIds: number[], flags: Partial<ConversationFlags>) => {
+        const idSet = new Set(conversationIds);
+        const previous = conversations;
+
+        // Optimistic update
+        setConversations(prev => prev.map(c => idSet.has(c.id) ? { ...c, ...flags } : c));
+
+        try {
+            await api.patch('/conversations/bulk', {
+                conversation_ids: conversationIds,
+                ...flags,
+            } as BulkConversationUpdateRequest);
+        } catch (error) {
+            console.error("Failed to update conversations:", error);
+            setConversations(previous);
+            throw error;
+        }
+    };
+
+    const handleDeleteConversations = async (conversationIds: number[]) => {
+        await api.post('/conversations/bulk-delete', {
+            conversation_ids: conversationIds,
+        } as BulkConversationDeleteRequest);
+
+        const idSet = new Set(conversationIds);
+        setConversations(prev => prev.filter(c => !idSet.has(c.id)));
+        removeCachedConversations(conversationIds);
+
+        if (activeConversationId !== null && idSet.has(activeConversationId)) {
+            setActiveConversationId(null);
+            setInitialMessages([]);
+            setInitialHasMore(false);
+            setInitialOldestId(null);
+            pagination.resetPagination([], false, null);
+        }
+    };
+
     const handleMoveToProjects = async (conversationId: number, projectIds: number[]) => {
         try {
             await api.put(`/conversations/${conversationId}/projects`, { project_ids: projectIds });
@@ -285,6 +469,36 @@ const Chat = () => {
         }
     };
 
+    // Select another version of a turn. The backend persists the choice and
+    // returns the newest page of the path through that version.
+    const handleSwitchBranch = useCallback(async (messageId: number) => {
+        if (!activeConversationId) return;
+
+        try {
+            const data = await api.put<PaginatedMessagesResponse>(
+                `/conversations/${activeConversationId}/branch`,
+                { message_id: messageId }
+            );
+
+            // The cached copy holds the previous branch
+            removeCachedConversations([activeConversationId]);
+
+            setInitialMessages(data.messages);
+            setInitialHasMore(data.has_more);
+            setInitialOldestId(data.oldest_id);
+            resetPagination(
+                data.messages,
+                data.has_more,
+                data.oldest_id,
+                data.total_count
+            );
+            setBranchRevision(prev => prev + 1);
+        } catch (error) {
+            console.error("Failed to switch branch:", error);
+            showToast('Failed to switch version. Please try again.', 'error');
+        }
+    }, [api, activeConversationId, resetPagination, showToast]);
+
     const handleMessagesUpdated = useCallback((newMessages: Message[]) => {
         pagination.setMessages(newMessages);
     }, [pagination.setMessages]);
@@ -321,9 +535,12 @@ const Chat = () => {
                 conversations={conversations}
                 activeConversationId={activeConversationId}
                 onSelectConversation={handleSelectConversation}
+                onSelectSearchHit={handleSelectSearchHit}
                 onNewConversation={handleNewConversation}
                 onDeleteConversation={handleDeleteConversation}
                 onRenameConversation={handleRenameConversation}
+                onUpdateConversations={handleUpdateConversations}
+                onDeleteConversations={handleDeleteConversations}
                 loading={conversationsLoading}
                 openProjectModalOnMount={openProjectModalOnMount}
                 onProjectModalOpened={() => setOpenProjectModalOnMount(false)}
@@ -359,6 +576,8 @@ const Chat = () => {
                     initialMessages={pagination.messages}
                     onConversationCreated={handleConversationCreated}
                     onMessagesUpdated={handleMessagesUpdated}
+                    onSwitchBranch={handleSwitchBranch}
+                    branchRevision={branchRevision}
                     // Conversation details
                     conversationTitle={activeConversation?.title || 'New Conversation'}
                     conversationCreatedAt={activeConversation?.created_at}
@@ -369,6 +588,7 @@ const Chat = () => {
                     isModelReady={chatModel.isReady}
                     // Pagination props
                     hasMoreMessages={pagination.hasMore}
+                    unloadedMessageCount={pagination.unloadedCount}
                     isLoadingMoreMessages={pagination.isLoadingMore}
                     onLoadMoreMessages={pagination.loadOlderMessages}
                     // Conversation management callbacks
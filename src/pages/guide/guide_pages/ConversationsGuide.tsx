@@ -88,6 +88,26 @@ const ConversationsGuide = () => {
                 </GuideTip>
             </section>
 
+            <section className="guide-section">
+                <h2 className="guide-section-title">Sharing a Conversation</h2>
+                <div className="guide-section-content">
+                    <p>
+                        To send one conversation to a teammate, open Chat Settings and click
+                        Create link under Sharing. The link opens a read-only copy with the
+                        tool results and charts exactly as you saw them.
+                    </p>
+                    <p>
+                        The link shows the messages as they were when it was created. Click
+                        Update to include newer messages, or Stop sharing to turn the link off.
+                    </p>
+                    <p>
+                        Anyone who opens the link can click Continue in my workspace. This copies
+                        the history into their own conversations so they can keep chatting.
+                        Your original conversation is not changed.
+                    </p>
+                </div>
+            </section>
+
             <section className="guide-section">
                 <h2 className="guide-section-title">Conversation Context</h2>
                 <div className="guide-section-content">
@@ -57,12 +57,46 @@ const DataGuide = () => {
                     </p>
                     <p>
                         <strong>Tables:</strong> Data tables can be sorted by clicking column headers 
-                        and filtered to focus on specific information.
+                        and filtered to focus on specific information. Drag a header by its grip to
+                        move the column, or drag its right edge to make it wider or narrower. Large
+                        results scroll smoothly, with the headers and totals kept in view.
                     </p>
                     <p>
                         <strong>Chart Types:</strong> Use the controls to switch between different 
-                        visualization types—bar charts, line charts, tables—depending on what 
-                        makes the data easiest to understand.
+                        visualization types—bar, line, area and scatter charts, tables—depending 
+                        on what makes the data easiest to understand.
+                    </p>
+                    <p>
+                        <strong>Measures:</strong> Bar, line and area charts can plot several columns
+                        at once. Open <strong>Measures</strong> and check each column you want on the chart.
+                    </p>
+                    <p>
+                        <strong>Styling:</strong> Click <strong>Series styles</strong> to pick a chart type,
+                        color, line style, left or right axis and number format for each series. For
+                        example, show pieces processed as bars on the left and OT hours as a line on the
+                        right. Each axis can use a linear or log scale. Area charts can be stacked,
+                        and scatter charts can size or color points by another column. Your choices
+                        are saved with the session.
+                    </p>
+                    <p>
+                        <strong>Pivot:</strong> Click <strong>Pivot</strong> to group the rows yourself.
+                        Pick row columns, optional column columns that spread across the table, and
+                        values such as Sum, Average, Count, Min, Max or Distinct count. The chart, table
+                        and card all show the pivoted data, and the pivot is saved with the session.
+                    </p>
+                    <p>
+                        <strong>Filters:</strong> In the table, hover a column header and click the
+                        funnel icon. Number columns take a min and max, date columns a from and to
+                        date, and text columns either a list of values to tick or a "contains" search.
+                        Active filters show above the table. Charts, totals and pivots only use the
+                        rows that pass.
+                    </p>
+                    <p>
+                        <strong>Computed columns:</strong> Click <strong>+ Computed column</strong> above
+                        the table to add a column worked out from others, such
+                        as <strong>Weight / Pieces</strong> or <strong>DATEDIFF(ShipDate, DueDate)</strong>. Put
+                        column names with spaces in [brackets]. Filters and computed columns are saved
+                        with the session.
                     </p>
                 </div>
 
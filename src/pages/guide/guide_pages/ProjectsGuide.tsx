@@ -63,6 +63,34 @@ const ProjectsGuide = () => {
                 </div>
             </section>
 
+            <section className="guide-section">
+                <h2 className="guide-section-title">Knowledge Files</h2>
+                <div className="guide-section-content">
+                    <p>
+                        Attach reference documents to a project so every conversation in it can use them.
+                        Drawing indexes, spec sections and schedules work well. Open the project with
+                        the edit icon and click <strong>Upload files</strong> under Knowledge Files.
+                        PDF, Word, Excel, CSV, text, Markdown and JSON files up to 20 MB are supported.
+                    </p>
+                    <p>
+                        A file shows <strong>Processing</strong> while Atlas reads it. After that, Atlas
+                        searches it when you ask a question in the project and names the file it
+                        took the answer from. A conversation filed in several projects uses the
+                        files of all of them.
+                    </p>
+                    <p>
+                        Uncheck a file to leave it out of chats without deleting it. This is handy
+                        for superseded revisions. Click the <strong>X</strong> to delete a file for good.
+                    </p>
+                </div>
+
+                <GuideTip title="Good to Know">
+                    Files belong to the project, not to one person. Everyone who can edit the
+                    project's instructions can also add and remove files, and every member's
+                    chats in the project use the checked files.
+                </GuideTip>
+            </section>
+
             <section className="guide-section">
                 <h2 className="guide-section-title">Sharing Projects</h2>
                 <div className="guide-section-content">
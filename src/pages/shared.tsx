@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { GitFork, Eye, ArrowLeft } from 'lucide-react';
+import { useApi } from '../auth';
+import { useToast } from '../components/Toast';
+import { ForbiddenError, NotFoundError } from '../services';
+import { convertToDisplayMessage } from '../hooks/chat/useChatMessages';
+import ChatMessage from '../components/chat_window/ChatMessage';
+import LoadingSpinner from '../components/loadingSpinner';
+import type { ForkSharedConversationResponse, SharedConversation as SharedConversationData } from '../types';
+import '../styles/chatWindow.css';
+import '../styles/sharedConversation.css';
+
+
+// The shared view never edits, regenerates or switches versions
+const noop = () => {};
+
+
+function describeLoadError(error: unknown): string {
+    if (error instanceof NotFoundError) {
+        return 'This link no longer works. The owner may have stopped sharing the conversation.';
+    }
+    if (error instanceof ForbiddenError) {
+        return 'You do not have access to this conversation.';
+    }
+    return error instanceof Error ? error.message : 'Failed to load the shared conversation.';
+}
+
+
+const SharedConversation = () => {
+    const { token } = useParams<{ token: string }>();
+    const api = useApi();
+    const navigate = useNavigate();
+    const { showToast } = useToast();
+
+    const [shared, setShared] = useState<SharedConversationData | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isForking, setIsForking] = useState(false);
+
+    useEffect(() => {
+        if (!token) return;
+
+        let cancelled = false;
+        api.get<SharedConversationData>(`/shared/${encodeURIComponent(token)}`)
+            .then((data) => {
+                if (!cancelled) setShared(data);
+            })
+            .catch((err) => {
+                console.error('[SharedConversation] Failed to load:', err);
+                if (!cancelled) setError(describeLoadError(err));
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [api, token]);
+
+    const messages = useMemo(
+        () => (shared?.messages ?? []).map(convertToDisplayMessage),
+        [shared]
+    );
+
+    const handleFork = async () => {
+        if (!token) return;
+
+        setIsForking(true);
+        try {
+            const { conversation } = await api.post<ForkSharedConversationResponse>(
+                `/shared/${encodeURIComponent(token)}/fork`
+            );
+            showToast('Copied to your conversations', 'success');
+            navigate('/chat', { state: { openConversationId: conversation.id } });
+        } catch (err) {
+            console.error('[SharedConversation] Failed to fork:', err);
+            showToast(err instanceof Error ? err.message : 'Failed to copy the conversation', 'error');
+            setIsForking(false);
+        }
+    };
+
+    if (error) {
+        return (
+            <div className="shared-page">
+                <div className="shared-empty">
+                    <p>{error}</p>
+                    <Link to="/chat" className="shared-back-link">
+                        <ArrowLeft size={16} />
+                        <span>Back to chat</span>
+                    </Link>
+                </div>
+            </div>
+        );
+    }
+
+    if (!shared) {
+        return (
+            <div className="shared-page">
+                <LoadingSpinner size="small" message="Loading shared conversation..." variant="minimal" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="shared-page">
+            <header className="shared-header">
+                <div className="shared-header-info">
+                    <span className="shared-badge">
+                        <Eye size={12} />
+                        Read-only
+                    </span>
+                    <h1 className="shared-title">{shared.title || 'Untitled conversation'}</h1>
+                    <p className="shared-meta">
+                        Shared by {shared.is_owner ? 'you' : shared.owner_name}
+                        {' · '}{new Date(shared.shared_at).toLocaleDateString()}
+                        {' · '}{messages.length} message{messages.length !== 1 ? 's' : ''}
+                    </p>
+                </div>
+                <button
+                    className="shared-fork-btn"
+                    onClick={handleFork}
+                    disabled={isForking}
+                    title="Copy this history into your conversations and keep chatting"
+                >
+                    <GitFork size={16} />
+                    <span>{isForking ? 'Copying...' : 'Continue in my workspace'}</span>
+                </button>
+            </header>
+
+            <div className="chat-messages shared-messages">
+                {messages.map((message, index) => (
+                    <ChatMessage
+                        key={message.id}
+                        message={message}
+                        index={index}
+                        streamingMessageId={null}
+                        thinkingContent=""
+                        isThinkingActive={false}
+                        streamingContentBlocks={[]}
+                        editingMessageId={null}
+                        editedContent=""
+                        isRegenerating={false}
+                        onRetry={noop}
+                        onStartEdit={noop}
+                        onCancelEdit={noop}
+                        onSaveEdit={noop}
+                        onEditChange={noop}
+                        onRegenerate={noop}
+                        onSwitchBranch={noop}
+                        canSwitchBranch={false}
+                        readOnly
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default SharedConversation;
@@ -53,6 +53,33 @@ export interface DashboardStats {
     generated_at: string;
 }
 
+// Token Usage
+export interface ModelUsage {
+    model: string;
+    provider: string;
+    message_count: number;
+    input_tokens: number;
+    output_tokens: number;
+    thinking_tokens: number;
+}
+
+export interface UserUsage {
+    user_id: number;
+    display_name: string;
+    email: string;
+    message_count: number;
+    input_tokens: number;
+    output_tokens: number;
+    thinking_tokens: number;
+    by_model: ModelUsage[];
+}
+
+export interface UsageRollupResponse {
+    users: UserUsage[];
+    period_days: number;
+    generated_at: string;
+}
+
 // Users
 export interface AdminUser {
     id: number;
@@ -263,6 +290,17 @@ export function createAdminApi(api: ApiClient) {
             return api.get<DashboardStats>('/admin/stats');
         },
 
+        /**
+         * Get per-user token usage, broken down by model
+         */
+        getUsageRollup: (params?: { days?: number }): Promise<UsageRollupResponse> => {
+            const searchParams = new URLSearchParams();
+            if (params?.days !== undefined) searchParams.set('days', params.days.toString());
+
+            const query = searchParams.toString();
+            return api.get<UsageRollupResponse>(`/admin/usage${query ? `?${query}` : ''}`);
+        },
+
         // ==========================================
         // User Management
         // ==========================================
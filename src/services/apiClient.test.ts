@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createApiClient, DEFAULT_RETRIES } from './apiClient';
+import { NetworkError, NotFoundError, RateLimitError, ServerError } from './apiErrors';
+
+const BASE_URL = 'https://api.example.test';
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/json', ...headers },
+    });
+}
+
+
+describe('createApiClient', () => {
+    const fetchMock = vi.fn<typeof fetch>();
+    const getAccessToken = vi.fn(() => Promise.resolve<string | null>('token'));
+    const client = createApiClient({ baseUrl: BASE_URL, getAccessToken });
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.stubGlobal('fetch', fetchMock);
+        // Backoff lands on the low end of its jitter range: 250ms, then 500ms
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        fetchMock.mockReset();
+        getAccessToken.mockClear();
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+
+    describe('retry', () => {
+        it('retries an idempotent request after a gateway error', async () => {
+            fetchMock
+                .mockResolvedValueOnce(jsonResponse({ detail: 'Unavailable' }, 503))
+                .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+            const result = client.request('/status');
+            await vi.advanceTimersByTimeAsync(249);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+
+            await vi.advanceTimersByTimeAsync(1);
+            await expect(result).resolves.toEqual({ ok: true });
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        it('fetches a fresh token for every attempt', async () => {
+            fetchMock
+                .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+                .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+            const result = client.request('/status', { method: 'PUT' });
+            await vi.runAllTimersAsync();
+
+            await expect(result).resolves.toEqual({ ok: true });
+            expect(getAccessToken).toHaveBeenCalledTimes(2);
+            expect(fetchMock.mock.calls[0][1]?.headers).toMatchObject({ Authorization: 'Bearer token' });
+        });
+
+        it('gives up after the configured number of retries', async () => {
+            fetchMock.mockImplementation(() => Promise.reject(new TypeError('Failed to fetch')));
+
+            const result = expect(client.request('/status')).rejects.toBeInstanceOf(NetworkError);
+            await vi.runAllTimersAsync();
+
+            await result;
+            expect(fetchMock).toHaveBeenCalledTimes(DEFAULT_RETRIES + 1);
+        });
+
+        it('honours a per-request retry count', async () => {
+            fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({}, 504)));
+
+            const result = expect(client.request('/status', { retries: 0 })).rejects.toBeInstanceOf(ServerError);
+            await vi.runAllTimersAsync();
+
+            await result;
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('waits for Retry-After on 429', async () => {
+            fetchMock
+                .mockResolvedValueOnce(jsonResponse({}, 429, { 'Retry-After': '2' }))
+                .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+            const result = client.request('/status');
+            await vi.advanceTimersByTimeAsync(1999);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+
+            await vi.advanceTimersByTimeAsync(1);
+            await expect(result).resolves.toEqual({ ok: true });
+        });
+
+        it('never retries POST or PATCH', async () => {
+            fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({}, 503)));
+
+            for (const method of ['POST', 'PATCH']) {
+                fetchMock.mockClear();
+                const result = expect(client.request('/messages', { method, retries: 3 })).rejects.toBeInstanceOf(ServerError);
+                await vi.runAllTimersAsync();
+
+                await result;
+                expect(fetchMock).toHaveBeenCalledTimes(1);
+            }
+        });
+
+        it('does not retry errors that would fail again', async () => {
+            fetchMock
+                .mockResolvedValueOnce(jsonResponse({ detail: 'Missing' }, 404))
+                .mockResolvedValueOnce(jsonResponse({ detail: 'Broken' }, 500));
+
+            await expect(client.request('/missing')).rejects.toBeInstanceOf(NotFoundError);
+            await expect(client.request('/broken')).rejects.toBeInstanceOf(ServerError);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        it('stops waiting to retry when the caller aborts', async () => {
+            fetchMock.mockResolvedValueOnce(jsonResponse({}, 429));
+            const controller = new AbortController();
+
+            const result = expect(client.request('/status', { signal: controller.signal })).rejects.toThrow('Aborted');
+            await vi.advanceTimersByTimeAsync(0);
+            controller.abort();
+
+            await result;
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('exposes the rate limit when retries run out', async () => {
+            fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({}, 429, { 'Retry-After': '1' })));
+
+            const result = expect(client.request('/status')).rejects.toMatchObject({ retryAfterMs: 1000 });
+            await vi.runAllTimersAsync();
+
+            await result;
+            await expect(client.request('/status', { retries: 0 })).rejects.toBeInstanceOf(RateLimitError);
+        });
+    });
+
+
+    describe('dedupe', () => {
+        it('shares one request between identical concurrent GETs', async () => {
+            fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ id: 1 })));
+
+            const [first, second] = await Promise.all([
+                client.request('/conversations/1'),
+                client.request(`${BASE_URL}/conversations/1`),
+            ]);
+
+            expect(first).toEqual({ id: 1 });
+            expect(second).toBe(first);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('sends a new request once the shared one has settled', async () => {
+            fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ id: 1 })));
+
+            await client.request('/conversations/1');
+            await client.request('/conversations/1');
+
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        it('shares a failure with every waiting caller', async () => {
+            fetchMock.mockResolvedValueOnce(jsonResponse({ detail: 'Missing' }, 404));
+
+            const results = Promise.allSettled([client.request('/missing'), client.request('/missing')]);
+
+            expect((await results).map((r) => r.status)).toEqual(['rejected', 'rejected']);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('keeps different URLs, non-GETs and requests with a signal apart', async () => {
+            fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({})));
+
+            await Promise.all([
+                client.request('/conversations/1'),
+                client.request('/conversations/2'),
+                client.request('/conversations/1', { method: 'DELETE' }),
+                client.request('/conversations/1', { signal: new AbortController().signal }),
+            ]);
+
+            expect(fetchMock).toHaveBeenCalledTimes(4);
+        });
+
+        it('can be turned off or forced per request', async () => {
+            fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({})));
+
+            await Promise.all([
+                client.request('/conversations', { dedupe: false }),
+                client.request('/conversations', { dedupe: false }),
+            ]);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+
+            fetchMock.mockClear();
+            await Promise.all([
+                client.request('/conversations', { method: 'PUT', dedupe: true }),
+                client.request('/conversations', { method: 'PUT', dedupe: true }),
+            ]);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,198 @@
+/**
+ * API Client
+ *
+ * The request pipeline behind useApi: auth header, timeout and abort,
+ * retry with jittered backoff for idempotent requests, de-duplication of
+ * identical in-flight GETs, replay after re-authentication (see
+ * authSession), and mapping of failures onto the ApiError hierarchy.
+ * Framework-free - useApi supplies the token getter.
+ */
+
+import { AuthError, NetworkError, TimeoutError, ApiError, RateLimitError, createApiError } from './apiErrors';
+import { reportSessionExpired } from './authSession';
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+export const DEFAULT_RETRIES    = 2;
+
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS  = 8000;
+
+// Safe to send twice - POST and PATCH are never retried automatically
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+// Shared by every client - each component's useApi() builds its own
+const inFlight = new Map<string, Promise<unknown>>();
+
+export interface RequestOptions extends RequestInit {
+    /** Abort after this long; 0 disables the timeout */
+    timeoutMs?: number;
+    /** Extra attempts for idempotent requests on network errors, timeouts, 429 and 502-504 */
+    retries?: number;
+    /** Share one request between identical concurrent GETs (default true for GETs without a signal) */
+    dedupe?: boolean;
+}
+
+export interface ApiClientConfig {
+    baseUrl: string;
+    getAccessToken: () => Promise<string | null>;
+}
+
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+}
+
+
+/**
+ * Full-jitter exponential backoff, or the server's Retry-After when it sent one
+ */
+function getRetryDelay(attempt: number, error: unknown): number {
+    if (error instanceof RateLimitError && error.retryAfterMs !== null) {
+        return Math.min(error.retryAfterMs, RETRY_MAX_DELAY_MS);
+    }
+    const ceiling = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Aborted', 'AbortError'));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+
+/**
+ * One attempt: the caller's signal and the timeout both abort the fetch,
+ * and the error thrown tells the two apart.
+ */
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+    const controller = new AbortController();
+    const callerSignal = init.signal;
+    let timedOut = false;
+
+    const onCallerAbort = () => controller.abort();
+    if (callerSignal?.aborted) controller.abort();
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+
+    const timer = timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs)
+        : undefined;
+
+    try {
+        return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+        if (timedOut) throw new TimeoutError(timeoutMs);
+        if (isAbortError(error)) throw error;
+        throw new NetworkError();
+    } finally {
+        clearTimeout(timer);
+        callerSignal?.removeEventListener('abort', onCallerAbort);
+    }
+}
+
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export function createApiClient({ baseUrl, getAccessToken }: ApiClientConfig) {
+    const send = async <T>(url: string, options: Omit<RequestOptions, 'dedupe'>): Promise<T> => {
+        const { timeoutMs = DEFAULT_TIMEOUT_MS, retries, ...init } = options;
+        const method = (init.method ?? 'GET').toUpperCase();
+        const maxRetries = IDEMPOTENT_METHODS.has(method) ? (retries ?? DEFAULT_RETRIES) : 0;
+        let replayedAfterReauth = false;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                // Fetched per attempt so a retry picks up a refreshed token
+                const token = await getAccessToken();
+                if (!token) {
+                    throw new AuthError('Not authenticated. Please log in.');
+                }
+
+                const response = await fetchWithTimeout(url, {
+                    ...init,
+                    credentials: 'include',
+                    headers: {
+                        ...init.headers,
+                        Authorization: `Bearer ${token}`,
+                    },
+                }, timeoutMs);
+
+                // The server rejected the token - wait for the shared re-auth, then replay once.
+                // Safe for any method: a 401 means the request was never processed.
+                if (response.status === 401 && !replayedAfterReauth) {
+                    replayedAfterReauth = true;
+                    if (await reportSessionExpired()) {
+                        attempt--;
+                        continue;
+                    }
+                }
+
+                if (!response.ok) {
+                    throw await createApiError(response);
+                }
+
+                // Handle empty responses
+                const contentType = response.headers.get('content-type');
+                if (contentType && contentType.includes('application/json')) {
+                    return await response.json() as T;
+                }
+                return {} as T;
+            } catch (error) {
+                const retryable = error instanceof ApiError && error.isRetryable;
+                if (!retryable || attempt >= maxRetries) throw error;
+
+                const delayMs = getRetryDelay(attempt, error);
+                console.warn(`[apiClient] ${method} ${url} failed (${(error as ApiError).message}), retrying in ${delayMs}ms`);
+                await sleep(delayMs, init.signal);
+            }
+        }
+    };
+
+    /**
+     * Send a request relative to the API base URL (absolute URLs pass through)
+     */
+    const request = <T>(endpoint: string, options: RequestOptions = {}): Promise<T> => {
+        const { dedupe, ...sendOptions } = options;
+        const url = endpoint.startsWith('http') ? endpoint : `${baseUrl}${endpoint}`;
+        const method = (options.method ?? 'GET').toUpperCase();
+
+        // A caller-owned signal would let one caller abort everyone's request
+        if (!(dedupe ?? (method === 'GET' && !options.signal))) {
+            return send<T>(url, sendOptions);
+        }
+
+        const key = `${method} ${url}`;
+        const pending = inFlight.get(key);
+        if (pending) return pending as Promise<T>;
+
+        const promise = send<T>(url, sendOptions).finally(() => inFlight.delete(key));
+        inFlight.set(key, promise);
+        return promise;
+    };
+
+    return { request };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,275 @@
+/**
+ * API Errors
+ *
+ * Everything the API client throws is an ApiError (or a subclass picked by
+ * status), so callers can use `instanceof` and `error.message` uniformly.
+ * Structured backend error bodies are parsed into a readable message plus
+ * per-field messages for forms.
+ */
+
+export type FieldErrors = Record<string, string>;
+
+
+export class ApiError extends Error {
+    readonly status: number;
+    readonly fieldErrors: FieldErrors;
+
+    constructor(status: number, message: string, fieldErrors: FieldErrors = {}) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.fieldErrors = fieldErrors;
+    }
+
+    get isAuthError(): boolean {
+        return this.status === 401;
+    }
+
+    get isForbidden(): boolean {
+        return this.status === 403;
+    }
+
+    /** Whether the same request may succeed if sent again */
+    get isRetryable(): boolean {
+        return false;
+    }
+}
+
+
+/** 400 / 422 - the request was understood but its contents were rejected */
+export class ValidationError extends ApiError {
+    constructor(status: number, message: string, fieldErrors: FieldErrors = {}) {
+        super(status, message, fieldErrors);
+        this.name = 'ValidationError';
+    }
+}
+
+/** 401 - no token, or the session expired */
+export class AuthError extends ApiError {
+    constructor(message = 'Session expired. Please log in again.') {
+        super(401, message);
+        this.name = 'AuthError';
+    }
+}
+
+/** 403 */
+export class ForbiddenError extends ApiError {
+    constructor(message = "Access denied. You don't have permission to access this resource.") {
+        super(403, message);
+        this.name = 'ForbiddenError';
+    }
+}
+
+/** 404 */
+export class NotFoundError extends ApiError {
+    constructor(message = 'Resource not found.') {
+        super(404, message);
+        this.name = 'NotFoundError';
+    }
+}
+
+/** 409 - e.g. a duplicate name or a stale update */
+export class ConflictError extends ApiError {
+    constructor(message: string, fieldErrors: FieldErrors = {}) {
+        super(409, message, fieldErrors);
+        this.name = 'ConflictError';
+    }
+}
+
+/** 429 - `retryAfterMs` comes from the Retry-After header when present */
+export class RateLimitError extends ApiError {
+    readonly retryAfterMs: number | null;
+
+    constructor(message = 'Too many requests. Please wait a moment.', retryAfterMs: number | null = null) {
+        super(429, message);
+        this.name = 'RateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+
+    get isRetryable(): boolean {
+        return true;
+    }
+}
+
+/** 5xx - only gateway errors (502/503/504) are worth retrying */
+export class ServerError extends ApiError {
+    constructor(status: number, message: string) {
+        super(status, message);
+        this.name = 'ServerError';
+    }
+
+    get isRetryable(): boolean {
+        return this.status === 502 || this.status === 503 || this.status === 504;
+    }
+}
+
+/** The request did not finish within its timeout */
+export class TimeoutError extends ApiError {
+    constructor(timeoutMs: number) {
+        super(408, `Request timed out after ${Math.round(timeoutMs / 1000)}s.`);
+        this.name = 'TimeoutError';
+    }
+
+    get isRetryable(): boolean {
+        return true;
+    }
+}
+
+/** The request never reached the server - offline, DNS, CORS or a dropped connection */
+export class NetworkError extends ApiError {
+    constructor(message = 'Unable to reach the server. Check your connection.') {
+        super(0, message);
+        this.name = 'NetworkError';
+    }
+
+    get isRetryable(): boolean {
+        return true;
+    }
+}
+
+
+// ============================================================================
+// Response parsing
+// ============================================================================
+
+interface ParsedErrorBody {
+    message: string | null;
+    fieldErrors: FieldErrors;
+}
+
+/**
+ * "body.project_name" / ["body", "project_name"] → "project_name"
+ */
+function fieldName(location: unknown): string | null {
+    const parts = Array.isArray(location) ? location : typeof location === 'string' ? location.split('.') : [];
+    const names = parts.filter((part) => part !== 'body' && part !== 'query' && part !== 'path');
+    return names.length > 0 ? names.map(String).join('.') : null;
+}
+
+
+function firstMessage(value: unknown): string | null {
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value) && typeof value[0] === 'string') return value[0];
+    return null;
+}
+
+
+/**
+ * Understands the shapes our backend and its framework produce:
+ *   { detail: "..." }
+ *   { detail: [{ loc: ["body", "name"], msg: "..." }] }       (request validation)
+ *   { message: "...", errors: { name: ["..."] } }
+ *   { error: { message: "...", fields: { name: "..." } } }
+ * Anything else falls back to the raw text.
+ */
+export function parseErrorBody(text: string): ParsedErrorBody {
+    const result: ParsedErrorBody = { message: null, fieldErrors: {} };
+    if (!text) return result;
+
+    let body: unknown;
+    try {
+        body = JSON.parse(text);
+    } catch {
+        result.message = text;
+        return result;
+    }
+
+    if (typeof body !== 'object' || body === null) {
+        result.message = typeof body === 'string' ? body : text;
+        return result;
+    }
+
+    const record = body as Record<string, unknown>;
+    const nested = typeof record.error === 'object' && record.error !== null
+        ? record.error as Record<string, unknown>
+        : null;
+
+    if (typeof record.detail === 'string') {
+        result.message = record.detail;
+    } else if (Array.isArray(record.detail)) {
+        for (const item of record.detail) {
+            if (typeof item !== 'object' || item === null) continue;
+            const { loc, msg } = item as { loc?: unknown; msg?: unknown };
+            const field = fieldName(loc);
+            if (field && typeof msg === 'string' && !result.fieldErrors[field]) {
+                result.fieldErrors[field] = msg;
+            }
+        }
+    }
+
+    result.message ??= firstMessage(record.message) ?? firstMessage(nested?.message) ?? firstMessage(record.error);
+
+    const fields = record.errors ?? nested?.fields ?? nested?.errors;
+    if (typeof fields === 'object' && fields !== null && !Array.isArray(fields)) {
+        for (const [field, value] of Object.entries(fields)) {
+            const message = firstMessage(value);
+            if (message) result.fieldErrors[field] = message;
+        }
+    }
+
+    return result;
+}
+
+
+function describeFieldErrors(fieldErrors: FieldErrors): string | null {
+    const entries = Object.entries(fieldErrors);
+    if (entries.length === 0) return null;
+    return entries.map(([field, message]) => `${field}: ${message}`).join('; ');
+}
+
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+
+/**
+ * Build the matching ApiError subclass for a failed response
+ */
+export async function createApiError(response: Response): Promise<ApiError> {
+    const text = await response.text().catch(() => '');
+    const { message, fieldErrors } = parseErrorBody(text);
+    const status = response.status;
+
+    switch (status) {
+        case 400:
+        case 422:
+            return new ValidationError(
+                status,
+                message || describeFieldErrors(fieldErrors) || 'Invalid request parameters.',
+                fieldErrors
+            );
+        case 401:
+            return new AuthError(message || undefined);
+        case 403:
+            return new ForbiddenError(message || undefined);
+        case 404:
+            return new NotFoundError(message || undefined);
+        case 409:
+            return new ConflictError(message || 'This conflicts with an existing item.', fieldErrors);
+        case 429:
+            return new RateLimitError(message || undefined, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+
+    if (status >= 500) {
+        return new ServerError(status, message || `Server error (${status}). Please try again.`);
+    }
+    return new ApiError(status, message || `Request failed with status ${status}`, fieldErrors);
+}
+
+
+/**
+ * Per-field messages from a failed request, or {} for anything else
+ */
+export function getFieldErrors(error: unknown): FieldErrors {
+    return error instanceof ApiError ? error.fieldErrors : {};
+}
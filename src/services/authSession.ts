@@ -0,0 +1,119 @@
+/**
+ * Auth Session
+ *
+ * Central handling for an expired session. The first request to notice it
+ * (failed silent token refresh or a 401) starts one recovery; every other
+ * request waits on the same promise instead of failing on its own. Recovery
+ * tries a forced silent refresh first. If MSAL needs the user, the session is
+ * marked expired and SessionBanner asks them to sign in - popups have to come
+ * from a click - after which the paused requests continue.
+ */
+
+export type SessionStatus = 'active' | 'refreshing' | 'expired';
+
+interface SessionHandlers {
+    /** Force a token refresh without UI; resolves false if interaction is required */
+    refreshSilently: () => Promise<boolean>;
+    /** Interactive sign-in; must be called from a user gesture */
+    signInInteractively: () => Promise<void>;
+}
+
+let handlers: SessionHandlers | null = null;
+let status: SessionStatus = 'active';
+let recovery: Promise<boolean> | null = null;
+let resolveRecovery: ((restored: boolean) => void) | null = null;
+const listeners = new Set<() => void>();
+
+
+function setStatus(next: SessionStatus): void {
+    if (status === next) return;
+    status = next;
+    listeners.forEach((listener) => listener());
+}
+
+
+function finishRecovery(restored: boolean): void {
+    resolveRecovery?.(restored);
+    resolveRecovery = null;
+    recovery = null;
+    setStatus('active');
+}
+
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Called by AuthProvider once MSAL is ready. Without handlers an expired
+ * session simply fails the request.
+ */
+export function configureAuthSession(next: SessionHandlers | null): void {
+    handlers = next;
+    if (!next && recovery) {
+        finishRecovery(false);
+    }
+}
+
+
+export function getSessionStatus(): SessionStatus {
+    return status;
+}
+
+
+export function subscribeSession(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+
+/**
+ * Resolves once no recovery is in progress - true if the session is usable
+ */
+export function waitForSession(): Promise<boolean> {
+    return recovery ?? Promise.resolve(true);
+}
+
+
+/**
+ * Report that the session is no longer accepted. Starts recovery unless one
+ * is already running; resolves true when requests may be retried.
+ */
+export function reportSessionExpired(): Promise<boolean> {
+    if (recovery) return recovery;
+    if (!handlers) return Promise.resolve(false);
+
+    const { refreshSilently } = handlers;
+    setStatus('refreshing');
+
+    recovery = new Promise<boolean>((resolve) => {
+        resolveRecovery = resolve;
+    });
+
+    refreshSilently()
+        .catch(() => false)
+        .then((refreshed) => {
+            if (refreshed) {
+                finishRecovery(true);
+            } else {
+                console.warn('[authSession] Silent refresh failed, waiting for the user to sign in');
+                setStatus('expired');
+            }
+        });
+
+    return recovery;
+}
+
+
+/**
+ * Sign-in from the session banner. Rejects (and stays expired) if the popup
+ * is blocked or cancelled, so the banner can offer it again.
+ */
+export async function signInAgain(): Promise<void> {
+    if (!handlers || status !== 'expired') return;
+
+    await handlers.signInInteractively();
+    finishRecovery(true);
+}
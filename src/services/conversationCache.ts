@@ -0,0 +1,338 @@
+/**
+ * Conversation Cache
+ *
+ * Keeps the conversation list, opened conversations and their older message
+ * pages in IndexedDB so switching chats renders instantly and past chats stay
+ * readable offline. Callers show the cached copy first and revalidate against
+ * the API; a conversation's `updated_at` decides whether a cached copy (and
+ * its older pages) is still current. Entries are scoped to the signed-in user
+ * and the least recently opened conversations are evicted past the size cap.
+ */
+
+import type {
+    Conversation,
+    ConversationWithMessages,
+    PaginatedMessagesResponse,
+} from '../types/conversation';
+
+const DB_NAME    = 'fabcore_cache';
+const DB_VERSION = 1;
+const LIST_STORE = 'conversation_lists';
+const CONVERSATION_STORE = 'conversations';
+
+const CACHE_LIMIT_KEY = 'fabcore_cache_limit_mb';
+
+export const CACHE_LIMIT_OPTIONS_MB = [10, 25, 50, 100] as const;
+export const DEFAULT_CACHE_LIMIT_MB = 25;
+
+interface CachedList {
+    user_id: number;
+    conversations: Conversation[];
+    cached_at: string;
+    size: number;
+}
+
+interface CachedConversation {
+    key: string;                            // `${user_id}:${conversation_id}`
+    user_id: number;
+    conversation_id: number;
+    updated_at: string;
+    data: ConversationWithMessages;
+    pages: Record<number, PaginatedMessagesResponse>;   // Older pages by before_id
+    accessed_at: number;
+    size: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let currentUserId: number | null = null;
+
+
+// ============================================================================
+// IndexedDB plumbing
+// ============================================================================
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(LIST_STORE, { keyPath: 'user_id' });
+                const conversations = request.result.createObjectStore(CONVERSATION_STORE, { keyPath: 'key' });
+                conversations.createIndex('user_id', 'user_id');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+
+async function runInStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+
+function conversationKey(userId: number, conversationId: number): string {
+    return `${userId}:${conversationId}`;
+}
+
+
+// Rough byte count - UTF-16 strings take two bytes per character
+function estimateSize(value: unknown): number {
+    return JSON.stringify(value).length * 2;
+}
+
+
+function getUserConversations(userId: number): Promise<CachedConversation[]> {
+    return runInStore(CONVERSATION_STORE, 'readonly', (store) =>
+        store.index('user_id').getAll(IDBKeyRange.only(userId)) as IDBRequest<CachedConversation[]>
+    );
+}
+
+
+function putConversation(record: CachedConversation): Promise<IDBValidKey> {
+    record.size = estimateSize(record.data) + estimateSize(record.pages);
+    return runInStore(CONVERSATION_STORE, 'readwrite', (store) => store.put(record));
+}
+
+
+/**
+ * Drop the least recently opened conversations until the cache fits the cap
+ */
+async function enforceSizeLimit(): Promise<void> {
+    const limit = getCacheLimitMb() * 1024 * 1024;
+    const records = await runInStore(CONVERSATION_STORE, 'readonly', (store) =>
+        store.getAll() as IDBRequest<CachedConversation[]>
+    );
+    const lists = await runInStore(LIST_STORE, 'readonly', (store) =>
+        store.getAll() as IDBRequest<CachedList[]>
+    );
+
+    let total = [...records, ...lists].reduce((sum, r) => sum + r.size, 0);
+    if (total <= limit) return;
+
+    const oldestFirst = [...records].sort((a, b) => a.accessed_at - b.accessed_at);
+    for (const record of oldestFirst) {
+        if (total <= limit) break;
+        await runInStore(CONVERSATION_STORE, 'readwrite', (store) => store.delete(record.key));
+        total -= record.size;
+    }
+}
+
+
+/**
+ * The cache is best-effort: a failed write only costs the next load a round trip
+ */
+function ignoreFailure(promise: Promise<unknown>): Promise<void> {
+    return promise.then(
+        () => undefined,
+        (error) => console.error('[conversationCache] Cache write failed:', error)
+    );
+}
+
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Set whose conversations are read and written. Until a user is set the cache is empty.
+ */
+export function setCacheUser(userId: number | null): void {
+    currentUserId = userId;
+}
+
+
+export function getCacheLimitMb(): number {
+    const stored = Number(localStorage.getItem(CACHE_LIMIT_KEY));
+    return stored > 0 ? stored : DEFAULT_CACHE_LIMIT_MB;
+}
+
+
+export async function setCacheLimitMb(limitMb: number): Promise<void> {
+    localStorage.setItem(CACHE_LIMIT_KEY, String(limitMb));
+    await enforceSizeLimit();
+}
+
+
+export async function getCachedConversations(): Promise<Conversation[] | null> {
+    if (currentUserId === null) return null;
+
+    const userId = currentUserId;
+    const cached = await runInStore(LIST_STORE, 'readonly', (store) =>
+        store.get(userId) as IDBRequest<CachedList | undefined>
+    );
+    return cached?.conversations ?? null;
+}
+
+
+/**
+ * Store the latest conversation list. Cached conversations that were deleted
+ * are dropped; ones whose `updated_at` moved keep their messages as a stale
+ * copy, but their older pages are discarded since they may no longer line up.
+ */
+export async function cacheConversations(conversations: Conversation[]): Promise<void> {
+    if (currentUserId === null) return;
+
+    const userId = currentUserId;
+    const list: CachedList = {
+        user_id: userId,
+        conversations,
+        cached_at: new Date().toISOString(),
+        size: estimateSize(conversations),
+    };
+
+    await ignoreFailure((async () => {
+        await runInStore(LIST_STORE, 'readwrite', (store) => store.put(list));
+
+        const latest = new Map(conversations.map((c) => [c.id, c.updated_at]));
+        for (const record of await getUserConversations(userId)) {
+            const updatedAt = latest.get(record.conversation_id);
+            if (updatedAt === undefined) {
+                await runInStore(CONVERSATION_STORE, 'readwrite', (store) => store.delete(record.key));
+            } else if (updatedAt !== record.updated_at && Object.keys(record.pages).length > 0) {
+                await putConversation({ ...record, pages: {} });
+            }
+        }
+
+        await enforceSizeLimit();
+    })());
+}
+
+
+/**
+ * Cached first page of a conversation, or null when it was never opened here
+ */
+export async function getCachedConversation(conversationId: number): Promise<ConversationWithMessages | null> {
+    if (currentUserId === null) return null;
+
+    const key = conversationKey(currentUserId, conversationId);
+    const record = await runInStore(CONVERSATION_STORE, 'readonly', (store) =>
+        store.get(key) as IDBRequest<CachedConversation | undefined>
+    );
+    if (!record) return null;
+
+    void ignoreFailure(runInStore(CONVERSATION_STORE, 'readwrite', (store) =>
+        store.put({ ...record, accessed_at: Date.now() })
+    ));
+    return record.data;
+}
+
+
+/**
+ * Store a freshly fetched conversation. Older pages survive only while `updated_at` is unchanged.
+ */
+export async function cacheConversation(data: ConversationWithMessages): Promise<void> {
+    if (currentUserId === null) return;
+
+    const userId = currentUserId;
+    const key = conversationKey(userId, data.conversation.id);
+
+    await ignoreFailure((async () => {
+        const existing = await runInStore(CONVERSATION_STORE, 'readonly', (store) =>
+            store.get(key) as IDBRequest<CachedConversation | undefined>
+        );
+        const unchanged = existing?.updated_at === data.conversation.updated_at;
+
+        await putConversation({
+            key,
+            user_id: userId,
+            conversation_id: data.conversation.id,
+            updated_at: data.conversation.updated_at,
+            data,
+            pages: unchanged && existing ? existing.pages : {},
+            accessed_at: Date.now(),
+            size: 0,
+        });
+        await enforceSizeLimit();
+    })());
+}
+
+
+export async function getCachedMessagePage(
+    conversationId: number,
+    beforeId: number
+): Promise<PaginatedMessagesResponse | null> {
+    if (currentUserId === null) return null;
+
+    const key = conversationKey(currentUserId, conversationId);
+    const record = await runInStore(CONVERSATION_STORE, 'readonly', (store) =>
+        store.get(key) as IDBRequest<CachedConversation | undefined>
+    );
+    return record?.pages[beforeId] ?? null;
+}
+
+
+/**
+ * Remember an older page. Ignored until the conversation itself is cached.
+ */
+export async function cacheMessagePage(
+    conversationId: number,
+    beforeId: number,
+    page: PaginatedMessagesResponse
+): Promise<void> {
+    if (currentUserId === null) return;
+
+    const key = conversationKey(currentUserId, conversationId);
+
+    await ignoreFailure((async () => {
+        const record = await runInStore(CONVERSATION_STORE, 'readonly', (store) =>
+            store.get(key) as IDBRequest<CachedConversation | undefined>
+        );
+        if (!record) return;
+
+        await putConversation({ ...record, pages: { ...record.pages, [beforeId]: page } });
+        await enforceSizeLimit();
+    })());
+}
+
+
+/**
+ * Forget conversations whose cached messages are known to be wrong (deleted, branch switched)
+ */
+export async function removeCachedConversations(conversationIds: number[]): Promise<void> {
+    if (currentUserId === null) return;
+
+    const userId = currentUserId;
+    await ignoreFailure(Promise.all(conversationIds.map((id) =>
+        runInStore(CONVERSATION_STORE, 'readwrite', (store) => store.delete(conversationKey(userId, id)))
+    )));
+}
+
+
+/**
+ * Approximate bytes used by the cache, across all users on this browser
+ */
+export async function getCacheSize(): Promise<number> {
+    const records = await runInStore(CONVERSATION_STORE, 'readonly', (store) =>
+        store.getAll() as IDBRequest<CachedConversation[]>
+    );
+    const lists = await runInStore(LIST_STORE, 'readonly', (store) =>
+        store.getAll() as IDBRequest<CachedList[]>
+    );
+    return [...records, ...lists].reduce((sum, r) => sum + r.size, 0);
+}
+
+
+export async function clearConversationCache(): Promise<void> {
+    await runInStore(LIST_STORE, 'readwrite', (store) => store.clear());
+    await runInStore(CONVERSATION_STORE, 'readwrite', (store) => store.clear());
+}
@@ -8,9 +8,27 @@ export {
     formatTooltipValue,
     formatYAxisValue,
     formatPMName,
-} from './api';
+} from '../utils/formatters';
 export type { Settings, ProviderInfo, ModelsResponse } from './api';
 
+// API client and errors
+export { createApiClient } from './apiClient';
+export type { ApiClient, RequestOptions } from './apiClient';
+export {
+    ApiError,
+    ValidationError,
+    AuthError,
+    ForbiddenError,
+    NotFoundError,
+    ConflictError,
+    RateLimitError,
+    ServerError,
+    TimeoutError,
+    NetworkError,
+    getFieldErrors,
+} from './apiErrors';
+export type { FieldErrors } from './apiErrors';
+
 // Chat service utilities
 export {
     formatMessageTime,
@@ -28,6 +46,9 @@ export { createAdminApi } from './adminApiService';
 export type {
     // Dashboard
     DashboardStats,
+    ModelUsage,
+    UserUsage,
+    UsageRollupResponse,
     // Users
     AdminUser,
     AdminUsersResponse,
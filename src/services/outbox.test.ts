@@ -0,0 +1,148 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NewOutboxEntry } from '../types/outbox';
+import { NetworkError, TimeoutError, ServerError } from './apiErrors';
+import {
+    addOutboxEntry,
+    clearOutbox,
+    isNetworkError,
+    listOutboxEntries,
+    removeOutboxEntry,
+    removeQueuedMessage,
+    setOutboxUser,
+    subscribeOutbox,
+} from './outbox';
+
+const rename: NewOutboxEntry = {
+    kind: 'request',
+    method: 'PATCH',
+    url: '/conversations/1',
+    body: { title: 'Renamed' },
+    label: 'Rename conversation',
+};
+
+function queuedMessage(clientMessageId: number): NewOutboxEntry {
+    return {
+        kind: 'message',
+        client_message_id: clientMessageId,
+        request: { message: `Message ${clientMessageId}`, model: 'gpt-4o', provider: 'openai', conversation_id: null },
+    };
+}
+
+
+describe('outbox', () => {
+    beforeEach(() => {
+        setOutboxUser(1);
+    });
+
+    afterEach(async () => {
+        await clearOutbox();
+        setOutboxUser(null);
+        vi.useRealTimers();
+    });
+
+    it('refuses to queue before a user is set', async () => {
+        setOutboxUser(null);
+        await expect(addOutboxEntry(rename)).rejects.toThrow('Cannot queue changes before signing in');
+        expect(await listOutboxEntries()).toEqual([]);
+    });
+
+    it('fills in the id, owner and timestamp', async () => {
+        const stored = await addOutboxEntry(rename);
+
+        expect(stored).toMatchObject({ ...rename, user_id: 1 });
+        expect(stored.id).toEqual(expect.any(String));
+        expect(await listOutboxEntries()).toEqual([stored]);
+    });
+
+    it('lists entries oldest first', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-01-02T00:00:00Z'));
+        const later = await addOutboxEntry(queuedMessage(2));
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        const earlier = await addOutboxEntry(queuedMessage(1));
+
+        expect((await listOutboxEntries()).map((e) => e.id)).toEqual([earlier.id, later.id]);
+    });
+
+    it("only lists the current user's entries", async () => {
+        const mine = await addOutboxEntry(rename);
+        setOutboxUser(2);
+        const theirs = await addOutboxEntry(queuedMessage(1));
+
+        expect(await listOutboxEntries()).toEqual([theirs]);
+        setOutboxUser(1);
+        expect(await listOutboxEntries()).toEqual([mine]);
+    });
+
+    it('removes entries by id and queued messages by client message id', async () => {
+        const edit = await addOutboxEntry(rename);
+        const first = await addOutboxEntry(queuedMessage(1));
+        await addOutboxEntry(queuedMessage(2));
+
+        await removeQueuedMessage(2);
+        await removeOutboxEntry(edit.id);
+
+        expect(await listOutboxEntries()).toEqual([first]);
+    });
+
+    it('clears every user on sign-out', async () => {
+        await addOutboxEntry(rename);
+        setOutboxUser(2);
+        await addOutboxEntry(rename);
+
+        await clearOutbox();
+
+        expect(await listOutboxEntries()).toEqual([]);
+        setOutboxUser(1);
+        expect(await listOutboxEntries()).toEqual([]);
+    });
+
+    it('notifies subscribers of changes until they unsubscribe', async () => {
+        const listener = vi.fn();
+        const unsubscribe = subscribeOutbox(listener);
+
+        const entry = await addOutboxEntry(rename);
+        await removeOutboxEntry(entry.id);
+        setOutboxUser(1);
+        setOutboxUser(2);
+        expect(listener).toHaveBeenCalledTimes(3);
+
+        unsubscribe();
+        await clearOutbox();
+        expect(listener).toHaveBeenCalledTimes(3);
+    });
+});
+
+
+describe('isNetworkError', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("accepts the API client's connectivity errors", () => {
+        expect(isNetworkError(new NetworkError())).toBe(true);
+        expect(isNetworkError(new TimeoutError(30000))).toBe(true);
+    });
+
+    it('accepts the TypeError a failed fetch rejects with in each browser', () => {
+        expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+        expect(isNetworkError(new TypeError('NetworkError when attempting to fetch resource.'))).toBe(true);
+        expect(isNetworkError(new TypeError('Load failed'))).toBe(true);
+        expect(isNetworkError(new TypeError('fetch failed'))).toBe(true);
+    });
+
+    it('rejects other errors while online', () => {
+        vi.stubGlobal('navigator', { onLine: true });
+
+        expect(isNetworkError(new TypeError("Cannot read properties of undefined (reading 'id')"))).toBe(false);
+        expect(isNetworkError(new ServerError(503, 'Unavailable'))).toBe(false);
+        expect(isNetworkError(new Error('Failed to fetch'))).toBe(false);
+    });
+
+    it('treats any error as a network error while the browser is offline', () => {
+        vi.stubGlobal('navigator', { onLine: false });
+
+        expect(isNetworkError(new Error('Anything'))).toBe(true);
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * Offline Outbox
+ *
+ * Persists unsent chat messages and pending edits in IndexedDB so they
+ * survive a reload, and replays them once the API is reachable again
+ * (see useOutboxSync). Entries are scoped to the signed-in user.
+ */
+
+import type { NewOutboxEntry, OutboxEntry } from '../types/outbox';
+import { NetworkError, TimeoutError } from './apiErrors';
+
+const DB_NAME    = 'fabcore_outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let currentUserId: number | null = null;
+const listeners = new Set<() => void>();
+
+
+// ============================================================================
+// IndexedDB plumbing
+// ============================================================================
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('user_id', 'user_id');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+
+async function runInStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const db = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = operation(transaction.objectStore(STORE_NAME));
+
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+
+function notify(): void {
+    listeners.forEach((listener) => listener());
+}
+
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Set whose entries are read and written. Until a user is set the outbox is empty.
+ */
+export function setOutboxUser(userId: number | null): void {
+    if (currentUserId === userId) return;
+    currentUserId = userId;
+    notify();
+}
+
+
+/**
+ * Called after every change to the outbox. Returns an unsubscribe function.
+ */
+export function subscribeOutbox(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+
+export async function addOutboxEntry(entry: NewOutboxEntry): Promise<OutboxEntry> {
+    if (currentUserId === null) {
+        throw new Error('Cannot queue changes before signing in');
+    }
+
+    const stored = {
+        ...entry,
+        id: crypto.randomUUID(),
+        user_id: currentUserId,
+        created_at: new Date().toISOString(),
+    } as OutboxEntry;
+
+    await runInStore('readwrite', (store) => store.add(stored));
+    notify();
+    return stored;
+}
+
+
+/**
+ * The current user's entries, oldest first - the order they should be replayed in
+ */
+export async function listOutboxEntries(): Promise<OutboxEntry[]> {
+    if (currentUserId === null) return [];
+
+    const userId = currentUserId;
+    const entries = await runInStore('readonly', (store) =>
+        store.index('user_id').getAll(IDBKeyRange.only(userId)) as IDBRequest<OutboxEntry[]>
+    );
+    return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+
+export async function removeOutboxEntry(id: string): Promise<void> {
+    await runInStore('readwrite', (store) => store.delete(id));
+    notify();
+}
+
+
+/**
+ * Drop every queued entry on this browser, e.g. on sign-out
+ */
+export async function clearOutbox(): Promise<void> {
+    await runInStore('readwrite', (store) => store.clear());
+    notify();
+}
+
+
+/**
+ * Drop the entry for a queued chat message, e.g. when it is being resent from the chat window
+ */
+export async function removeQueuedMessage(clientMessageId: number): Promise<void> {
+    const entries = await listOutboxEntries();
+    const entry = entries.find((e) => e.kind === 'message' && e.client_message_id === clientMessageId);
+    if (entry) {
+        await removeOutboxEntry(entry.id);
+    }
+}
+
+
+// What a bare fetch() rejects with when the network fails, per browser (Chrome, Firefox, Safari, Node)
+const FETCH_FAILURE_MESSAGES = [
+    'Failed to fetch',
+    'NetworkError when attempting to fetch resource',
+    'Load failed',
+    'fetch failed',
+];
+
+
+/**
+ * The request never got an answer - the API client's NetworkError/TimeoutError,
+ * the TypeError a bare fetch() rejects with, or the browser is offline.
+ * Other TypeErrors are bugs, not connectivity, and must not be queued.
+ */
+export function isNetworkError(error: unknown): boolean {
+    return error instanceof NetworkError
+        || error instanceof TimeoutError
+        || (error instanceof TypeError && FETCH_FAILURE_MESSAGES.some((m) => error.message.includes(m)))
+        || (typeof navigator !== 'undefined' && navigator.onLine === false);
+}
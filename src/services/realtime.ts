@@ -0,0 +1,162 @@
+/**
+ * Realtime Channel
+ *
+ * One Server-Sent Events connection per signed-in user that delivers project,
+ * invite and conversation events (see types/realtime). SSE over fetch rather
+ * than EventSource so the bearer token can be sent. The connection is kept
+ * open with jittered backoff and resumes from the last event ID.
+ *
+ * For local development run `npm run mock:realtime` and set
+ * VITE_REALTIME_URL=http://127.0.0.1:8787/events/stream
+ */
+
+import type { RealtimeEvent } from '../types/realtime';
+import { parseSseMessage } from '../utils/sse';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://127.0.0.1:8000';
+const REALTIME_URL = import.meta.env.VITE_REALTIME_URL || `${API_BASE_URL}/events/stream`;
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS  = 30000;
+
+const listeners = new Set<(event: RealtimeEvent) => void>();
+
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function emit(event: RealtimeEvent): void {
+    listeners.forEach((listener) => {
+        try {
+            listener(event);
+        } catch (error) {
+            console.error('[realtime] Listener failed for', event.type, error);
+        }
+    });
+}
+
+
+function getReconnectDelay(attempt: number): number {
+    const ceiling = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+
+/**
+ * Wait out the delay, then for the browser to be online. Resolves early when stopped.
+ */
+function waitToReconnect(delayMs: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const finish = () => {
+            clearTimeout(timer);
+            window.removeEventListener('online', finish);
+            signal.removeEventListener('abort', finish);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            if (navigator.onLine) {
+                finish();
+            } else {
+                window.addEventListener('online', finish);
+            }
+        }, delayMs);
+        signal.addEventListener('abort', finish);
+    });
+}
+
+
+/**
+ * Read events until the server closes the stream. Returns the last event ID seen.
+ */
+async function readEvents(response: Response, lastEventId: string | null): Promise<string | null> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+        throw new Error('Failed to get response stream');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) return lastEventId;
+
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() || '';
+
+        for (const block of blocks) {
+            const sse = parseSseMessage(block);
+            if (sse.id !== null) lastEventId = sse.id;
+            if (sse.data === null) continue;
+
+            try {
+                emit(JSON.parse(sse.data) as RealtimeEvent);
+            } catch (error) {
+                console.error('[realtime] Failed to parse event:', sse.data, error);
+            }
+        }
+    }
+}
+
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Called for every event received. Returns an unsubscribe function.
+ */
+export function subscribeRealtime(listener: (event: RealtimeEvent) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+
+/**
+ * Open the channel and keep it open until the returned function is called
+ */
+export function connectRealtime(getAccessToken: () => Promise<string | null>): () => void {
+    const controller = new AbortController();
+
+    const run = async () => {
+        let lastEventId: string | null = null;
+        let attempt = 0;
+
+        while (!controller.signal.aborted) {
+            try {
+                const token = await getAccessToken();
+                if (!token) throw new Error('Not authenticated');
+
+                const headers: Record<string, string> = {
+                    Authorization: `Bearer ${token}`,
+                    Accept: 'text/event-stream',
+                };
+                if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+                const response = await fetch(REALTIME_URL, {
+                    credentials: 'include',
+                    headers,
+                    signal: controller.signal,
+                });
+                if (!response.ok) {
+                    throw new Error(`Realtime channel failed with status ${response.status}`);
+                }
+
+                attempt = 0;
+                lastEventId = await readEvents(response, lastEventId);
+            } catch (error) {
+                if (controller.signal.aborted) break;
+                console.warn('[realtime] Connection lost:', error);
+            }
+
+            await waitToReconnect(getReconnectDelay(attempt++), controller.signal);
+        }
+    };
+
+    run();
+    return () => controller.abort();
+}
@@ -15,3 +15,10 @@ export {
     useActiveProjectId,
 } from './useConversationProjectStore';
 export { useConversationProjectApi } from './useConversationProjectApi';
+
+// Prompt Template Store
+export { usePromptTemplateStore, usePromptTemplates } from './usePromptTemplateStore';
+export { usePromptTemplateApi } from './usePromptTemplateApi';
+
+// Connection Store
+export { useConnectionStore, useConnectionStatus, usePendingCount } from './useConnectionStore';
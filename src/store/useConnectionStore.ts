@@ -0,0 +1,33 @@
+/**
+ * Connection Store
+ * Zustand store for API reachability and the size of the offline outbox
+ */
+
+import { create } from 'zustand';
+import type { ConnectionStatus } from '../types';
+
+interface ConnectionState {
+    status: ConnectionStatus;
+    pendingCount: number;               // Entries waiting in the outbox
+    liveMessageIds: number[];           // Queued messages the open chat window resends itself
+}
+
+interface ConnectionActions {
+    setStatus: (status: ConnectionStatus) => void;
+    setPendingCount: (count: number) => void;
+    setLiveMessageIds: (ids: number[]) => void;
+}
+
+export const useConnectionStore = create<ConnectionState & ConnectionActions>((set) => ({
+    status: typeof navigator !== 'undefined' && !navigator.onLine ? 'offline' : 'online',
+    pendingCount: 0,
+    liveMessageIds: [],
+
+    setStatus: (status) => set({ status }),
+    setPendingCount: (pendingCount) => set({ pendingCount }),
+    setLiveMessageIds: (liveMessageIds) => set({ liveMessageIds }),
+}));
+
+// Selector hooks for common patterns
+export const useConnectionStatus = () => useConnectionStore((state) => state.status);
+export const usePendingCount = () => useConnectionStore((state) => state.pendingCount);
@@ -11,11 +11,13 @@ import type {
     ProjectInvite,
     ProjectInviteOwnerView,
     ProjectMember,
+    ProjectFile,
     ProjectSummary,
     CommunityProject,
     ProjectsResponse,
     ProjectConversationsResponse,
     ProjectMembersResponse,
+    ProjectFilesResponse,
     ProjectInvitesResponse,
     ProjectInvitesOwnerResponse,
     ConversationProjectsResponse,
@@ -24,8 +26,12 @@ import type {
     UpdateProjectRequest,
     InviteRequest,
     AddConversationRequest,
+    UpdateProjectFileRequest,
 } from '../types';
 
+// Uploads can take a while on site connections
+const FILE_UPLOAD_TIMEOUT_MS = 120000;
+
 
 export function useConversationProjectApi() {
     const api = useApi();
@@ -441,6 +447,88 @@ export function useConversationProjectApi() {
         removeProjectFromStore(projectId);
     }, [removeMember, removeProjectFromStore]);
 
+    // ============================================
+    // Knowledge Files
+    // ============================================
+
+    /**
+     * Get a project's knowledge files
+     */
+    const fetchProjectFiles = useCallback(async (projectId: number): Promise<ProjectFile[]> => {
+        try {
+            const response = await api.get<ProjectFilesResponse>(
+                `/conversations/projects/${projectId}/files`
+            );
+            return response.files;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to fetch project files';
+            setError(message);
+            throw error;
+        }
+    }, [api, setError]);
+
+    /**
+     * Upload a knowledge file. It comes back as 'processing' until the server has extracted its text.
+     */
+    const uploadProjectFile = useCallback(async (
+        projectId: number,
+        file: File
+    ): Promise<ProjectFile> => {
+        setError(null);
+
+        const body = new FormData();
+        body.append('file', file, file.name);
+
+        try {
+            // No Content-Type header - the browser sets the multipart boundary
+            return await api.fetchWithAuth<ProjectFile>(
+                `/conversations/projects/${projectId}/files`,
+                { method: 'POST', body, timeoutMs: FILE_UPLOAD_TIMEOUT_MS }
+            );
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to upload file';
+            setError(message);
+            throw error;
+        }
+    }, [api, setError]);
+
+    /**
+     * Include or leave out a file from the project's chats
+     */
+    const updateProjectFile = useCallback(async (
+        projectId: number,
+        fileId: number,
+        request: UpdateProjectFileRequest
+    ): Promise<ProjectFile> => {
+        setError(null);
+
+        try {
+            return await api.patch<ProjectFile>(
+                `/conversations/projects/${projectId}/files/${fileId}`,
+                request
+            );
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to update file';
+            setError(message);
+            throw error;
+        }
+    }, [api, setError]);
+
+    /**
+     * Delete a knowledge file
+     */
+    const deleteProjectFile = useCallback(async (projectId: number, fileId: number): Promise<void> => {
+        setError(null);
+
+        try {
+            await api.delete(`/conversations/projects/${projectId}/files/${fileId}`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to delete file';
+            setError(message);
+            throw error;
+        }
+    }, [api, setError]);
+
     // ============================================
     // Community (Open Projects)
     // ============================================
@@ -508,6 +596,11 @@ export function useConversationProjectApi() {
         fetchProjectMembers,
         removeMember,
         leaveProject,
+        // Knowledge files
+        fetchProjectFiles,
+        uploadProjectFile,
+        updateProjectFile,
+        deleteProjectFile,
         // Community
         fetchCommunityProjects,
         joinProject,
@@ -530,6 +623,10 @@ export function useConversationProjectApi() {
         fetchProjectMembers,
         removeMember,
         leaveProject,
+        fetchProjectFiles,
+        uploadProjectFile,
+        updateProjectFile,
+        deleteProjectFile,
         fetchCommunityProjects,
         joinProject,
     ]);
@@ -30,6 +30,7 @@ interface ConversationProjectActions {
     setProjects: (projects: ConversationProject[], owned: ConversationProject[], shared: ConversationProject[]) => void;
     addProject: (project: ConversationProject) => void;
     updateProject: (project: ConversationProject) => void;
+    patchProject: (projectId: number, changes: Partial<ConversationProject>) => void;
     removeProject: (projectId: number) => void;
     
     // Project conversations
@@ -38,6 +39,7 @@ interface ConversationProjectActions {
     
     // Invites
     setInvites: (invites: ProjectInvite[]) => void;
+    addInvite: (invite: ProjectInvite) => void;
     removeInvite: (inviteId: number) => void;
     
     // UI State
@@ -89,6 +91,15 @@ export const useConversationProjectStore = create<ConversationProjectState & Con
         sharedProjects: state.sharedProjects.map((p) => p.id === project.id ? project : p),
     })),
     
+    patchProject: (projectId, changes) => set((state) => {
+        const patch = (p: ConversationProject) => p.id === projectId ? { ...p, ...changes } : p;
+        return {
+            projects: state.projects.map(patch),
+            ownedProjects: state.ownedProjects.map(patch),
+            sharedProjects: state.sharedProjects.map(patch),
+        };
+    }),
+    
     removeProject: (projectId) => set((state) => {
         const newExpanded = new Set(state.expandedProjects);
         newExpanded.delete(projectId);
@@ -107,6 +118,11 @@ export const useConversationProjectStore = create<ConversationProjectState & Con
     
     // Invites
     setInvites: (invites) => set({ invites }),
+    addInvite: (invite) => set((state) => ({
+        invites: state.invites.some((i) => i.id === invite.id)
+            ? state.invites
+            : [invite, ...state.invites],
+    })),
     removeInvite: (inviteId) => set((state) => ({
         invites: state.invites.filter((i) => i.id !== inviteId),
     })),
@@ -201,14 +201,19 @@ export function useDataApi() {
     }, [api, setLoading, setError, setActiveResult]);
 
     /**
-     * Update session visualization config
+     * Update session visualization config. A background update - saving the
+     * chart view while the user is looking at it - skips the loading state
+     * and error banner.
      */
     const updateSession = useCallback(async (
         sessionId: number,
-        updates: UpdateDataSessionRequest
+        updates: UpdateDataSessionRequest,
+        background = false
     ): Promise<DataSession> => {
-        setLoading(true);
-        setError(null);
+        if (!background) {
+            setLoading(true);
+            setError(null);
+        }
 
         try {
             const session = await api.patch<DataSession>(
@@ -218,11 +223,13 @@ export function useDataApi() {
             updateSessionInStore(session);
             return session;
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Failed to update session';
-            setError(message);
+            if (!background) {
+                const message = error instanceof Error ? error.message : 'Failed to update session';
+                setError(message);
+            }
             throw error;
         } finally {
-            setLoading(false);
+            if (!background) setLoading(false);
         }
     }, [api, setLoading, setError, updateSessionInStore]);
 
@@ -6,11 +6,22 @@
 import { create } from 'zustand';
 import type { DataGroup } from '../types';
 import type {
+    ChartConfig,
+    ColumnFilter,
+    ComputedColumn,
     DataSession,
     DataResult,
     DataTool,
+    PivotConfig,
+    SeriesStyle,
     VisualizationConfig,
+    VisualizationOptions,
 } from '../types';
+import { isPivotActive } from '../utils/pivot';
+import { isDataViewActive, type DataViewOutput } from '../utils/dataView';
+
+// Pivot outputs can be wide - default to charting this many value columns
+const MAX_DEFAULT_MEASURES = 8;
 
 interface DataState {
     // Data
@@ -19,6 +30,9 @@ interface DataState {
     groups: DataGroup[];
     activeSession: DataSession | null;
     activeResult: DataResult | null;
+    sourceResult: DataResult | null;     // activeResult plus computed columns - what filters choose from
+    viewResult: DataResult | null;       // After filters and the pivot - what the views draw
+    isComputingView: boolean;
     
     // UI State
     isLoading: boolean;
@@ -31,7 +45,11 @@ interface DataState {
     // Visualization State
     chartType: VisualizationConfig['chart_type'];
     xAxis: string | null;
-    yAxis: string | null;
+    yAxes: string[];                     // Measure columns, in order - the first is the primary
+    chartOptions: VisualizationOptions;
+    pivot: PivotConfig | null;
+    filters: ColumnFilter[];
+    computedColumns: ComputedColumn[];
 }
 
 interface DataActions {
@@ -59,11 +77,19 @@ interface DataActions {
     
     // Results
     setActiveResult: (result: DataResult | null) => void;
+    setViewResult: (output: DataViewOutput) => void;
+    setComputingView: (computing: boolean) => void;
     
     // Visualization Config
     setChartType: (type: VisualizationConfig['chart_type']) => void;
     setXAxis: (column: string | null) => void;
-    setYAxis: (column: string | null) => void;
+    setYAxes: (columns: string[]) => void;
+    setChartOptions: (options: Partial<VisualizationOptions>) => void;
+    setSeriesStyle: (seriesKey: string, style: SeriesStyle) => void;
+    setPivot: (pivot: PivotConfig | null) => void;
+    setColumnFilter: (column: string, filter: ColumnFilter | null) => void;
+    clearFilters: () => void;
+    setComputedColumns: (computedColumns: ComputedColumn[]) => void;
     
     // Loading/Error
     setLoading: (loading: boolean) => void;
@@ -80,6 +106,9 @@ const initialState: DataState = {
     groups: [],
     activeSession: null,
     activeResult: null,
+    sourceResult: null,
+    viewResult: null,
+    isComputingView: false,
     isLoading: false,
     isExecuting: false,
     error: null,
@@ -88,9 +117,95 @@ const initialState: DataState = {
     expandedGroups: new Set(),
     chartType: 'bar',
     xAxis: null,
-    yAxis: null,
+    yAxes: [],
+    chartOptions: {},
+    pivot: null,
+    filters: [],
+    computedColumns: [],
 };
 
+
+/**
+ * Keep chosen axes that still exist in `result`, and fill the rest from
+ * chart_config hints or by column name patterns
+ */
+function pickAxes(
+    result: DataResult | null,
+    chartConfig: ChartConfig | undefined,
+    currentX: string | null,
+    currentY: string[]
+): Pick<DataState, 'xAxis' | 'yAxes'> {
+    // Saved columns may no longer exist if the tool's output changed
+    let xAxis = currentX && result?.columns.includes(currentX) ? currentX : null;
+    let yAxes = currentY.filter(col => result?.columns.includes(col));
+
+    if (result && result.columns.length >= 2) {
+        // Priority 1: Use chart_config hints unless columns are already chosen
+        if (chartConfig?.x_axis && result.columns.includes(chartConfig.x_axis) && !xAxis) {
+            xAxis = chartConfig.x_axis;
+        }
+        if (chartConfig?.y_axis && result.columns.includes(chartConfig.y_axis) && !yAxes.length) {
+            yAxes = [chartConfig.y_axis];
+        }
+
+        // Priority 2: Smart auto-detection by column name patterns
+        if (!xAxis) {
+            const cols = result.columns.map(c => c.toLowerCase());
+            const dateCol = result.columns.find((_, i) => 
+                cols[i].includes('date')    ||
+                cols[i].includes('time')    ||
+                cols[i].includes('created') ||
+                cols[i].includes('updated')
+            );
+            xAxis = dateCol || result.columns[0];
+        }
+
+        if (!yAxes.length) {
+            const cols = result.columns.map(c => c.toLowerCase());
+            const numericCol = result.columns.find((_, i) => 
+                cols[i].includes('total')    ||
+                cols[i].includes('count')    ||
+                cols[i].includes('sum')      ||
+                cols[i].includes('hours')    ||
+                cols[i].includes('amount')   ||
+                cols[i].includes('quantity') ||
+                cols[i].includes('pieces')   ||
+                cols[i].includes('weight')
+            );
+            yAxes = [numericCol || result.columns[1]];
+        }
+    }
+
+    return { xAxis, yAxes };
+}
+
+
+type ViewConfig = Pick<DataState, 'pivot' | 'filters' | 'computedColumns'>;
+
+/**
+ * State for a new pivot, filter or computed column config. With nothing left
+ * to apply the views show activeResult straight away; otherwise useDataView
+ * recomputes and calls setViewResult.
+ */
+function withViewConfig(state: DataState, changes: Partial<ViewConfig>): Partial<DataState> {
+    const next: ViewConfig = {
+        pivot: state.pivot,
+        filters: state.filters,
+        computedColumns: state.computedColumns,
+        ...changes,
+    };
+    if (isDataViewActive(next)) return changes;
+
+    const tool = state.tools.find(t => t.name === state.activeSession?.tool_name);
+    return {
+        ...changes,
+        sourceResult: state.activeResult,
+        viewResult: state.activeResult,
+        isComputingView: false,
+        ...pickAxes(state.activeResult, tool?.chart_config, state.xAxis, state.yAxes),
+    };
+}
+
 export const useDataStore = create<DataState & DataActions>((set) => ({
     ...initialState,
     
@@ -108,14 +223,24 @@ export const useDataStore = create<DataState & DataActions>((set) => ({
         sessions: [session, ...state.sessions],
     })),
     
-    setActiveSession: (session) => set({ 
-        activeSession: session,
-        // Reset visualization when changing sessions
-        activeResult: null,
-        xAxis: null,
-        yAxis: null,
-        chartType: 'bar',  // Reset to default so hints can be applied on result load
-    }),
+    setActiveSession: (session) => {
+        // Restore the session's saved view, or reset so hints can be applied on result load
+        const saved = session?.visualization_config;
+        set({
+            activeSession: session,
+            activeResult: null,
+            xAxis: saved?.x_axis ?? null,
+            yAxes: saved?.y_axes ?? (saved?.y_axis ? [saved.y_axis] : []),
+            chartType: saved?.chart_type ?? 'bar',
+            chartOptions: saved?.options ?? {},
+            pivot: saved?.pivot ?? null,
+            filters: saved?.filters ?? [],
+            computedColumns: saved?.computed_columns ?? [],
+            sourceResult: null,
+            viewResult: null,
+            isComputingView: false,
+        });
+    },
     
     updateSession: (session) => set((state) => ({
         sessions: state.sessions.map((s) => 
@@ -185,61 +310,79 @@ export const useDataStore = create<DataState & DataActions>((set) => ({
         const tool = state.tools.find(t => t.name === state.activeSession?.tool_name);
         const chartConfig = tool?.chart_config;
         
+        // A saved view wins over the tool's hints
+        const hasSavedView = !!state.activeSession?.visualization_config;
+
         // Apply chart type hint if available
         let chartType = state.chartType;
-        if (tool?.default_chart_type && state.chartType === 'bar') {
+        if (tool?.default_chart_type && state.chartType === 'bar' && !hasSavedView) {
             // Only override if still on default 'bar'
             chartType = tool.default_chart_type as VisualizationConfig['chart_type'];
         }
         
+        // With filters, computed columns or a pivot the views draw the pipeline's
+        // output - axes are picked once it's computed
+        if (result && isDataViewActive(state)) {
+            return { activeResult: result, sourceResult: null, viewResult: null, chartType };
+        }
+
         // Apply axis hints from chart_config, or use smart auto-detection
-        let xAxis = state.xAxis;
-        let yAxis = state.yAxis;
-        
-        if (result && result.columns.length >= 2) {
-            // Priority 1: Use chart_config hints if available
-            if (chartConfig?.x_axis && result.columns.includes(chartConfig.x_axis)) {
-                xAxis = chartConfig.x_axis;
-            }
-            if (chartConfig?.y_axis && result.columns.includes(chartConfig.y_axis)) {
-                yAxis = chartConfig.y_axis;
-            }
-            
-            // Priority 2: Smart auto-detection by column name patterns
-            if (!xAxis) {
-                const cols = result.columns.map(c => c.toLowerCase());
-                const dateCol = result.columns.find((_, i) => 
-                    cols[i].includes('date')    ||
-                    cols[i].includes('time')    ||
-                    cols[i].includes('created') ||
-                    cols[i].includes('updated')
-                );
-                xAxis = dateCol || result.columns[0];
-            }
-            
-            if (!yAxis) {
-                const cols = result.columns.map(c => c.toLowerCase());
-                const numericCol = result.columns.find((_, i) => 
-                    cols[i].includes('total')    ||
-                    cols[i].includes('count')    ||
-                    cols[i].includes('sum')      ||
-                    cols[i].includes('hours')    ||
-                    cols[i].includes('amount')   ||
-                    cols[i].includes('quantity') ||
-                    cols[i].includes('pieces')   ||
-                    cols[i].includes('weight')
-                );
-                yAxis = numericCol || result.columns[1];
-            }
+        const axes = pickAxes(result, chartConfig, state.xAxis, state.yAxes);
+        return { activeResult: result, sourceResult: result, viewResult: result, ...axes, chartType };
+    }),
+
+    setViewResult: ({ source, result }) => set((state) => {
+        const pivot = state.pivot;
+        if (!isPivotActive(pivot)) {
+            const tool = state.tools.find(t => t.name === state.activeSession?.tool_name);
+            return {
+                sourceResult: source,
+                viewResult: result,
+                isComputingView: false,
+                ...pickAxes(result, tool?.chart_config, state.xAxis, state.yAxes),
+            };
         }
-        
-        return { activeResult: result, xAxis, yAxis, chartType };
+
+        // Chart the first row key against the aggregated columns
+        const rowKeys = pivot.rows.filter(col => result.columns.includes(col));
+        const fallbackX = rowKeys[0] ?? result.columns[0] ?? null;
+        const fallbackY = result.columns.slice(rowKeys.length).slice(0, MAX_DEFAULT_MEASURES);
+        const keptY = state.yAxes.filter(col => result.columns.includes(col));
+
+        return {
+            sourceResult: source,
+            viewResult: result,
+            isComputingView: false,
+            xAxis: state.xAxis && result.columns.includes(state.xAxis) ? state.xAxis : fallbackX,
+            yAxes: keptY.length ? keptY : fallbackY,
+        };
     }),
+
+    setComputingView: (isComputingView) => set({ isComputingView }),
     
     // Visualization Config
     setChartType: (chartType) => set({ chartType }),
     setXAxis: (xAxis) => set({ xAxis }),
-    setYAxis: (yAxis) => set({ yAxis }),
+    setYAxes: (yAxes) => set({ yAxes }),
+    setChartOptions: (options) => set((state) => ({
+        chartOptions: { ...state.chartOptions, ...options },
+    })),
+    setSeriesStyle: (seriesKey, style) => set((state) => ({
+        chartOptions: {
+            ...state.chartOptions,
+            series: {
+                ...state.chartOptions.series,
+                [seriesKey]: { ...state.chartOptions.series?.[seriesKey], ...style },
+            },
+        },
+    })),
+    setPivot: (pivot) => set((state) => withViewConfig(state, { pivot })),
+    setColumnFilter: (column, filter) => set((state) => {
+        const others = state.filters.filter(f => f.column !== column);
+        return withViewConfig(state, { filters: filter ? [...others, filter] : others });
+    }),
+    clearFilters: () => set((state) => withViewConfig(state, { filters: [] })),
+    setComputedColumns: (computedColumns) => set((state) => withViewConfig(state, { computedColumns })),
     
     // Loading/Error
     setLoading: (isLoading) => set({ isLoading }),
@@ -258,12 +401,13 @@ export const useDataGroups = () => useDataStore((state) => state.groups);
 export const useVisualizationConfig = () => useDataStore((state) => ({
     chartType: state.chartType,
     xAxis: state.xAxis,
-    yAxis: state.yAxis,
+    yAxes: state.yAxes,
 }));
 
 // Get chart_config for the active session's tool
 export const useActiveChartConfig = () => useDataStore((state) => {
-    if (!state.activeSession) return null;
+    // A client-side pivot replaces the tool's own series_by pivot
+    if (!state.activeSession || isPivotActive(state.pivot)) return null;
     const tool = state.tools.find(t => t.name === state.activeSession?.tool_name);
     return tool?.chart_config ?? null;
 });
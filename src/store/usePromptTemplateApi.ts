@@ -0,0 +1,149 @@
+/**
+ * Prompt Template API Hook
+ * Wraps useApi for saved-prompt endpoints
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useApi } from '../auth';
+import { usePromptTemplateStore } from './usePromptTemplateStore';
+import type {
+    PromptTemplate,
+    PromptTemplateData,
+    PromptTemplatesResponse,
+    CreatePromptTemplateRequest,
+    UpdatePromptTemplateRequest,
+    ImportPromptTemplatesRequest,
+} from '../types';
+
+
+export function usePromptTemplateApi() {
+    const api = useApi();
+
+    // Store actions
+    const setLoading = usePromptTemplateStore((state) => state.setLoading);
+    const setError = usePromptTemplateStore((state) => state.setError);
+    const setTemplates = usePromptTemplateStore((state) => state.setTemplates);
+    const addTemplates = usePromptTemplateStore((state) => state.addTemplates);
+    const updateTemplateInStore = usePromptTemplateStore((state) => state.updateTemplate);
+    const removeTemplateFromStore = usePromptTemplateStore((state) => state.removeTemplate);
+
+    /**
+     * Fetch the user's personal templates plus those of every project they belong to
+     */
+    const fetchTemplates = useCallback(async (): Promise<PromptTemplate[]> => {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const response = await api.get<PromptTemplatesResponse>('/prompt-templates');
+            setTemplates(response.templates);
+            return response.templates;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to fetch saved prompts';
+            setError(message);
+            throw error;
+        } finally {
+            setLoading(false);
+        }
+    }, [api, setLoading, setError, setTemplates]);
+
+    /**
+     * Create a template. Pass project_id to share it with a project.
+     */
+    const createTemplate = useCallback(async (data: CreatePromptTemplateRequest): Promise<PromptTemplate> => {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const template = await api.post<PromptTemplate>('/prompt-templates', data);
+            addTemplates([template]);
+            return template;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to save prompt';
+            setError(message);
+            throw error;
+        } finally {
+            setLoading(false);
+        }
+    }, [api, setLoading, setError, addTemplates]);
+
+    /**
+     * Update a template's name, description or body
+     */
+    const updateTemplate = useCallback(async (
+        templateId: number,
+        data: UpdatePromptTemplateRequest
+    ): Promise<PromptTemplate> => {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const template = await api.patch<PromptTemplate>(`/prompt-templates/${templateId}`, data);
+            updateTemplateInStore(template);
+            return template;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to update prompt';
+            setError(message);
+            throw error;
+        } finally {
+            setLoading(false);
+        }
+    }, [api, setLoading, setError, updateTemplateInStore]);
+
+    /**
+     * Delete a template
+     */
+    const deleteTemplate = useCallback(async (templateId: number): Promise<void> => {
+        setLoading(true);
+        setError(null);
+
+        try {
+            await api.delete(`/prompt-templates/${templateId}`);
+            removeTemplateFromStore(templateId);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to delete prompt';
+            setError(message);
+            throw error;
+        } finally {
+            setLoading(false);
+        }
+    }, [api, setLoading, setError, removeTemplateFromStore]);
+
+    /**
+     * Create templates in bulk from an exported file
+     */
+    const importTemplates = useCallback(async (
+        templates: PromptTemplateData[],
+        projectId: number | null
+    ): Promise<PromptTemplate[]> => {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const body: ImportPromptTemplatesRequest = { templates, project_id: projectId };
+            const response = await api.post<PromptTemplatesResponse>('/prompt-templates/import', body);
+            addTemplates(response.templates);
+            return response.templates;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to import prompts';
+            setError(message);
+            throw error;
+        } finally {
+            setLoading(false);
+        }
+    }, [api, setLoading, setError, addTemplates]);
+
+    return useMemo(() => ({
+        fetchTemplates,
+        createTemplate,
+        updateTemplate,
+        deleteTemplate,
+        importTemplates,
+    }), [
+        fetchTemplates,
+        createTemplate,
+        updateTemplate,
+        deleteTemplate,
+        importTemplates,
+    ]);
+}
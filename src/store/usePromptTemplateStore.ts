@@ -0,0 +1,70 @@
+/**
+ * Prompt Template Store
+ * Zustand store for the saved-prompts library (personal and project templates)
+ */
+
+import { create } from 'zustand';
+import type { PromptTemplate } from '../types';
+
+interface PromptTemplateState {
+    // Data
+    templates: PromptTemplate[];
+
+    // UI State
+    isLoaded: boolean;              // First fetch has completed
+    isLoading: boolean;
+    error: string | null;
+}
+
+interface PromptTemplateActions {
+    // Templates
+    setTemplates: (templates: PromptTemplate[]) => void;
+    addTemplates: (templates: PromptTemplate[]) => void;
+    updateTemplate: (template: PromptTemplate) => void;
+    removeTemplate: (templateId: number) => void;
+
+    // Loading/Error
+    setLoading: (loading: boolean) => void;
+    setError: (error: string | null) => void;
+
+    // Reset
+    reset: () => void;
+}
+
+const initialState: PromptTemplateState = {
+    templates: [],
+    isLoaded: false,
+    isLoading: false,
+    error: null,
+};
+
+const byName = (a: PromptTemplate, b: PromptTemplate) => a.name.localeCompare(b.name);
+
+export const usePromptTemplateStore = create<PromptTemplateState & PromptTemplateActions>((set) => ({
+    ...initialState,
+
+    // Templates
+    setTemplates: (templates) => set({ templates: [...templates].sort(byName), isLoaded: true }),
+
+    addTemplates: (templates) => set((state) => ({
+        templates: [...state.templates, ...templates].sort(byName),
+    })),
+
+    updateTemplate: (template) => set((state) => ({
+        templates: state.templates.map((t) => t.id === template.id ? template : t).sort(byName),
+    })),
+
+    removeTemplate: (templateId) => set((state) => ({
+        templates: state.templates.filter((t) => t.id !== templateId),
+    })),
+
+    // Loading/Error
+    setLoading: (isLoading) => set({ isLoading }),
+    setError: (error) => set({ error }),
+
+    // Reset
+    reset: () => set(initialState),
+}));
+
+// Selector hooks for common patterns
+export const usePromptTemplates = () => usePromptTemplateStore((state) => state.templates);
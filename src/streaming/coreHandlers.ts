@@ -0,0 +1,77 @@
+import type {
+    StreamEventBase,
+    MetaEvent,
+    ThinkingStartEvent,
+    ThinkingEvent,
+    ThinkingEndEvent,
+    ContentStartEvent,
+    ContentEvent,
+    ContentEndEvent,
+    ToolStartEvent,
+    ToolEndEvent,
+    ToolApprovalRequestEvent,
+    ToolApprovalResolvedEvent,
+    DoneEvent,
+    StreamEndEvent,
+    ErrorEvent,
+} from '../types/streaming';
+import type { StreamEventHandlerDefinition } from './types';
+
+
+/**
+ * Pair an event type with its handler. The generic keeps the handler's
+ * event parameter typed while the registry stores the erased form.
+ */
+export function defineStreamEventHandler<E extends StreamEventBase>(
+    type: E['type'],
+    handle: StreamEventHandlerDefinition<E>['handle']
+): StreamEventHandlerDefinition {
+    return { type, handle: handle as StreamEventHandlerDefinition['handle'] };
+}
+
+
+// Route the core /chat/stream events to StreamCallbacks
+
+export const coreStreamEventHandlers: StreamEventHandlerDefinition[] = [
+    defineStreamEventHandler<MetaEvent>('meta', (event, callbacks) => {
+        callbacks.onMeta(event.conversation_id, event.user_message_id, event.assistant_message_id);
+    }),
+    defineStreamEventHandler<ThinkingStartEvent>('thinking_start', (_event, callbacks) => {
+        callbacks.onThinkingStart();
+    }),
+    defineStreamEventHandler<ThinkingEvent>('thinking', (event, callbacks) => {
+        callbacks.onThinking(event.text);
+    }),
+    defineStreamEventHandler<ThinkingEndEvent>('thinking_end', (_event, callbacks) => {
+        callbacks.onThinkingEnd();
+    }),
+    defineStreamEventHandler<ContentEvent>('content', (event, callbacks) => {
+        callbacks.onContent(event.text);
+    }),
+    defineStreamEventHandler<ToolStartEvent>('tool_start', (event, callbacks) => {
+        callbacks.onToolStart(event.name, event.params, event.call_id);
+    }),
+    defineStreamEventHandler<ToolEndEvent>('tool_end', (event, callbacks) => {
+        callbacks.onToolEnd(event.name, event.params, event.result, event.chat_render_hint, event.call_id);
+    }),
+    defineStreamEventHandler<ToolApprovalRequestEvent>('tool_approval_request', (event, callbacks) => {
+        callbacks.onToolApprovalRequest?.(event);
+    }),
+    defineStreamEventHandler<ToolApprovalResolvedEvent>('tool_approval_resolved', (event, callbacks) => {
+        callbacks.onToolApprovalResolved?.(event.approval_id, event.approved);
+    }),
+    defineStreamEventHandler<DoneEvent>('done', (event, callbacks) => {
+        if (event.usage) callbacks.onUsage?.(event.usage);
+    }),
+    defineStreamEventHandler<StreamEndEvent>('stream_end', (event, callbacks) => {
+        if (event.usage) callbacks.onUsage?.(event.usage);
+        callbacks.onStreamEnd(event.conversation_id, event.title);
+    }),
+    defineStreamEventHandler<ErrorEvent>('error', (event, callbacks) => {
+        callbacks.onError(event.message);
+    }),
+
+    // Internal events - registered as no-ops so they aren't reported as unknown
+    defineStreamEventHandler<ContentStartEvent>('content_start', () => {}),
+    defineStreamEventHandler<ContentEndEvent>('content_end', () => {}),
+];
@@ -0,0 +1,67 @@
+import type { StreamEventBase, StreamEventHandler, StreamCallbacks } from '../types/streaming';
+import type { StreamEventHandlerDefinition } from './types';
+import { coreStreamEventHandlers, defineStreamEventHandler } from './coreHandlers';
+
+
+// Stream Event Handler Registry
+
+const handlers = new Map<string, StreamEventHandler>(
+    coreStreamEventHandlers.map(definition => [definition.type, definition.handle])
+);
+
+// Unknown types already reported this session, so a chatty event logs once
+const reportedUnknownTypes = new Set<string>();
+
+
+// Register a handler for a stream event type. Returns an unregister function.
+
+export function registerStreamEventHandler(definition: StreamEventHandlerDefinition): () => void {
+    if (handlers.has(definition.type)) {
+        console.warn(`[streamEvents] Replacing existing handler for "${definition.type}"`);
+    }
+
+    handlers.set(definition.type, definition.handle);
+
+    return () => {
+        if (handlers.get(definition.type) === definition.handle) {
+            handlers.delete(definition.type);
+        }
+    };
+}
+
+
+// Get all event types that currently have a handler
+
+export function getRegisteredStreamEventTypes(): string[] {
+    return [...handlers.keys()];
+}
+
+
+// Route a parsed stream event to its registered handler
+
+export function dispatchStreamEvent(event: StreamEventBase, callbacks: StreamCallbacks): void {
+    callbacks.onEvent?.(event);
+
+    const handler = handlers.get(event.type);
+
+    if (!handler) {
+        if (import.meta.env.DEV && !reportedUnknownTypes.has(event.type)) {
+            reportedUnknownTypes.add(event.type);
+            console.warn(`[streamEvents] No handler registered for "${event.type}" events:`, event);
+        }
+        callbacks.onUnhandledEvent?.(event);
+        return;
+    }
+
+    // A failing feature handler shouldn't take the rest of the stream down with it
+    try {
+        handler(event, callbacks);
+    } catch (error) {
+        console.error(`[streamEvents] Handler for "${event.type}" failed:`, error);
+    }
+}
+
+
+// Export helpers and types
+export { defineStreamEventHandler };
+export type { StreamEventHandlerDefinition } from './types';
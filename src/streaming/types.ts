@@ -0,0 +1,9 @@
+// Stream Event Registry Types
+
+import type { StreamEventBase, StreamEventHandler } from '../types/streaming';
+
+
+export interface StreamEventHandlerDefinition<E extends StreamEventBase = StreamEventBase> {
+    type: E['type'];
+    handle: StreamEventHandler<E>;
+}
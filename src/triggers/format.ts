@@ -0,0 +1,54 @@
+import { parseToolResult } from '../utils/toolResult';
+
+
+// Large record sets are cut off in chat - the Data page has the full result
+const MAX_TABLE_ROWS = 50;
+
+
+function formatCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    return String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+
+function markdownTable(columns: string[], rows: unknown[][]): string {
+    const header = `| ${columns.map(formatCell).join(' | ')} |`;
+    const divider = `| ${columns.map(() => '---').join(' | ')} |`;
+    const body = rows.map(row => `| ${row.map(formatCell).join(' | ')} |`);
+    return [header, divider, ...body].join('\n');
+}
+
+
+function isFlatObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        && Object.values(value).every(v => v === null || typeof v !== 'object');
+}
+
+
+/**
+ * Render a tool result as markdown for a local assistant message:
+ * record sets become a table, a single flat record a field/value table,
+ * anything else pretty JSON or plain text.
+ */
+export function formatToolOutput(heading: string, result: unknown): string {
+    const raw = typeof result === 'string' ? result : JSON.stringify(result);
+    const parsed = parseToolResult(raw);
+
+    let body: string;
+    if (parsed.kind === 'records') {
+        const { columns, rows } = parsed.table;
+        body = markdownTable(columns, rows.slice(0, MAX_TABLE_ROWS));
+        if (rows.length > MAX_TABLE_ROWS) {
+            body += `\n\n_Showing ${MAX_TABLE_ROWS} of ${rows.length} rows._`;
+        }
+    } else if (parsed.kind === 'json') {
+        const value: unknown = JSON.parse(parsed.json);
+        body = isFlatObject(value)
+            ? markdownTable(['Field', 'Value'], Object.entries(value))
+            : `\`\`\`json\n${parsed.json}\n\`\`\``;
+    } else {
+        body = parsed.text.trim() || '_No results._';
+    }
+
+    return `**${heading}**\n\n${body}`;
+}
@@ -1,4 +1,5 @@
 import type { Trigger, TriggerResult } from './types';
+import { getUsage } from './params';
 
 
 export const helpTrigger: Trigger = {
@@ -13,7 +14,7 @@ export const helpTrigger: Trigger = {
         const availableTriggers = triggers.filter(t => !t.devOnly || isDev);
 
         const commandList = availableTriggers
-            .map(t => `• /${t.command} - ${t.description}${t.devOnly ? ' (dev)' : ''}`)
+            .map(t => `• \`${getUsage(t)}\` - ${t.description}${t.devOnly ? ' (dev)' : ''}`)
             .join('\n');
 
         const response = `**Available Commands**\n\n${commandList}`;
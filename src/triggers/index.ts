@@ -2,6 +2,12 @@ import type { Trigger, TriggerContext, TriggerResult, UserRole } from './types';
 import { failTrigger } from './fail';
 import { clearTrigger } from './clear';
 import { helpTrigger } from './help';
+import { jobTrigger } from './job';
+import { otTrigger } from './ot';
+import { rememberTrigger } from './remember';
+import { modelTrigger } from './model';
+import { projectTrigger } from './project';
+import { bindParameters } from './params';
 
 
 // Trigger Registry
@@ -10,6 +16,11 @@ const triggers: Trigger[] = [
     failTrigger,
     clearTrigger,
     helpTrigger,
+    jobTrigger,
+    otTrigger,
+    rememberTrigger,
+    modelTrigger,
+    projectTrigger,
 ];
 
 
@@ -20,12 +31,22 @@ export function getAllTriggers(): Trigger[] {
 }
 
 
+// Built-ins first so a project command or saved prompt can't shadow a built-in command
+
+function withExtraTriggers(extraTriggers: Trigger[]): Trigger[] {
+    if (!extraTriggers.length) return triggers;
+
+    const taken = new Set(triggers.map(t => t.command.toLowerCase()));
+    return [...triggers, ...extraTriggers.filter(t => !taken.has(t.command.toLowerCase()))];
+}
+
+
 // Get triggers available to a specific user role
 
-export function getAvailableTriggers(userRole?: UserRole, isDev?: boolean): Trigger[] {
+export function getAvailableTriggers(userRole?: UserRole, isDev?: boolean, extraTriggers: Trigger[] = []): Trigger[] {
     const devMode = isDev ?? import.meta.env.DEV;
 
-    return triggers.filter(trigger => {
+    return withExtraTriggers(extraTriggers).filter(trigger => {
         // Filter out dev-only triggers in production
         if (trigger.devOnly && !devMode) {
             return false;
@@ -60,7 +81,8 @@ export function getAvailableTriggers(userRole?: UserRole, isDev?: boolean): Trig
 
 export async function executeTrigger(
     message: string,
-    ctx: Omit<TriggerContext, 'args' | 'getAllTriggers'>
+    ctx: Omit<TriggerContext, 'args' | 'getAllTriggers'>,
+    extraTriggers: Trigger[] = []
 ): Promise<TriggerResult | null> {
 
     if (!message.startsWith('/')) {
@@ -74,7 +96,8 @@ export async function executeTrigger(
         return null;
     }
 
-    const trigger = triggers.find(t => t.command.toLowerCase() === command.toLowerCase());
+    const allTriggers = withExtraTriggers(extraTriggers);
+    const trigger = allTriggers.find(t => t.command.toLowerCase() === command.toLowerCase());
 
     if (!trigger) {
         return null;
@@ -85,10 +108,22 @@ export async function executeTrigger(
         return null;
     }
 
+    // Bind typed args (or the parameter form's values) and validate before running
+    let params = ctx.params;
+    if (trigger.parameters?.length) {
+        const bound = bindParameters(trigger, args, ctx.params);
+        if (!bound.ok) {
+            ctx.showToast(bound.error, 'error');
+            return { handled: true, preventDefault: true };
+        }
+        params = bound.values;
+    }
+
     const fullContext: TriggerContext = {
         ...ctx,
         args,
-        getAllTriggers
+        params,
+        getAllTriggers: () => allTriggers
     };
 
     // Handle both sync and async triggers
@@ -97,4 +132,15 @@ export async function executeTrigger(
 
 
 // Export types
-export type { Trigger, TriggerContext, TriggerResult, TriggerParameter, UserRole } from './types';
+export type {
+    Trigger,
+    TriggerApi,
+    TriggerContext,
+    TriggerResult,
+    TriggerParameter,
+    TriggerSuggestion,
+    UserRole
+} from './types';
+export { getUsage, validateParameter, getDateSuggestions, getErrorMessage } from './params';
+export { templateParameters, templateToTrigger, templatesToTriggers } from './prompts';
+export { validateProjectCommand, validateProjectCommands, projectCommandToTrigger, projectCommandsToTriggers } from './projectCommands';
@@ -0,0 +1,36 @@
+import type { Trigger, TriggerResult } from './types';
+import { executeTool } from './tools';
+import { formatToolOutput } from './format';
+import { getErrorMessage } from './params';
+
+
+export const JOB_NUMBER_PATTERN = /^\d{4,6}$/;
+
+export const validateJobNumber = (value: string): string | null =>
+    JOB_NUMBER_PATTERN.test(value) ? null : 'Job number must be 4-6 digits, e.g. 24123';
+
+
+export const jobTrigger: Trigger = {
+    command: 'job',
+    description: 'Look up the details for a job',
+    devOnly: false,
+    parameters: [
+        { name: 'job', description: 'Job number, e.g. 24123', required: true, type: 'number', validate: validateJobNumber },
+    ],
+
+    execute: async (ctx): Promise<TriggerResult> => {
+        const job = ctx.params!.job;
+
+        try {
+            const result = await executeTool(ctx.api, 'get_job_info', { job_number: job });
+            return {
+                handled: true,
+                preventDefault: true,
+                response: formatToolOutput(`Job ${job}`, result)
+            };
+        } catch (error) {
+            ctx.showToast(getErrorMessage(error, `Failed to look up job ${job}`), 'error');
+            return { handled: true, preventDefault: true };
+        }
+    }
+};
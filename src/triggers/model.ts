@@ -0,0 +1,78 @@
+import type { Trigger, TriggerApi, TriggerResult } from './types';
+import type { ModelsResponse } from '../services/api';
+import { getErrorMessage } from './params';
+
+
+async function fetchModelIds(api: TriggerApi): Promise<string[]> {
+    const response = await api.get<ModelsResponse>('/models');
+    return [...response.models.claude_models, ...response.models.openai_models];
+}
+
+
+/**
+ * Exact ID first, then a unique partial match ("sonnet" -> "claude-sonnet-4-5-...")
+ */
+function resolveModel(query: string, models: string[]): string | string[] | null {
+    const q = query.toLowerCase();
+    const exact = models.find(m => m.toLowerCase() === q);
+    if (exact) return exact;
+
+    const partial = models.filter(m => m.toLowerCase().includes(q));
+    if (partial.length === 1) return partial[0];
+    return partial.length > 1 ? partial : null;
+}
+
+
+export const modelTrigger: Trigger = {
+    command: 'model',
+    description: 'Switch the model for this chat',
+    devOnly: false,
+    parameters: [
+        {
+            name: 'name',
+            description: 'Model ID or part of it, e.g. sonnet',
+            required: true,
+            suggest: async (query, api) => {
+                const q = query.trim().toLowerCase();
+                const models = await fetchModelIds(api);
+                return models
+                    .filter(m => m.toLowerCase().includes(q))
+                    .map(m => ({ value: m }));
+            }
+        },
+    ],
+
+    execute: async (ctx): Promise<TriggerResult> => {
+        const name = ctx.params!.name;
+
+        let models: string[];
+        try {
+            models = await fetchModelIds(ctx.api);
+        } catch (error) {
+            ctx.showToast(getErrorMessage(error, 'Failed to load models'), 'error');
+            return { handled: true, preventDefault: true };
+        }
+
+        const match = resolveModel(name, models);
+
+        if (match === null) {
+            ctx.showToast(`Unknown model "${name}"`, 'error');
+            return { handled: true, preventDefault: true };
+        }
+
+        if (Array.isArray(match)) {
+            return {
+                handled: true,
+                preventDefault: true,
+                response: `**"${name}" matches several models**\n\n${match.map(m => `• \`${m}\``).join('\n')}\n\nRun \`/model\` again with the full ID.`
+            };
+        }
+
+        ctx.setModel(match);
+        return {
+            handled: true,
+            preventDefault: true,
+            response: `Switched this chat to \`${match}\`.`
+        };
+    }
+};
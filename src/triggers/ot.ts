@@ -0,0 +1,42 @@
+import type { Trigger, TriggerResult } from './types';
+import { executeTool } from './tools';
+import { formatToolOutput } from './format';
+import { getErrorMessage, parseDateArg } from './params';
+import { validateJobNumber } from './job';
+
+
+export const otTrigger: Trigger = {
+    command: 'ot',
+    description: 'Overtime hours for a job between two dates',
+    devOnly: false,
+    parameters: [
+        { name: 'job',   description: 'Job number, e.g. 24123', required: true, type: 'number', validate: validateJobNumber },
+        { name: 'start', description: 'Start date, e.g. 01/15/2025 or -30d', required: true, type: 'date' },
+        { name: 'end',   description: 'End date, e.g. 01/31/2025 or today', required: true, type: 'date' },
+    ],
+
+    execute: async (ctx): Promise<TriggerResult> => {
+        const { job, start, end } = ctx.params!;
+
+        if (parseDateArg(start)! > parseDateArg(end)!) {
+            ctx.showToast('Start date must be on or before the end date', 'error');
+            return { handled: true, preventDefault: true };
+        }
+
+        try {
+            const result = await executeTool(ctx.api, 'get_ot_hours_by_job', {
+                job_number: job,
+                start_date: start,
+                end_date:   end,
+            });
+            return {
+                handled: true,
+                preventDefault: true,
+                response: formatToolOutput(`Overtime for job ${job} (${start} – ${end})`, result)
+            };
+        } catch (error) {
+            ctx.showToast(getErrorMessage(error, `Failed to load overtime for job ${job}`), 'error');
+            return { handled: true, preventDefault: true };
+        }
+    }
+};
@@ -0,0 +1,200 @@
+import type { Trigger, TriggerParameter, TriggerSuggestion } from './types';
+
+
+const DAY_MS = 86400000;
+
+
+// Argument binding
+
+export type BindResult =
+    | { ok: true; values: Record<string, string> }
+    | { ok: false; error: string };
+
+
+/**
+ * "/ot <job> <start> <end>" - optional parameters are shown in [brackets]
+ */
+export function getUsage(trigger: Trigger): string {
+    const params = (trigger.parameters ?? [])
+        .map(p => p.required ? `<${p.name}>` : `[${p.name}]`);
+    return [`/${trigger.command}`, ...params].join(' ');
+}
+
+
+/**
+ * Map typed positional args (or values from the parameter form) onto a
+ * trigger's parameters, validating and normalising each one.
+ */
+export function bindParameters(
+    trigger: Trigger,
+    args: string[],
+    params?: Record<string, string>
+): BindResult {
+    const definitions = trigger.parameters ?? [];
+    const raw: Record<string, string> = {};
+
+    if (params) {
+        Object.assign(raw, params);
+    } else {
+        definitions.forEach((param, i) => {
+            const value = param.type === 'text'
+                ? args.slice(i).join(' ')
+                : args[i];
+            if (value !== undefined) raw[param.name] = value;
+        });
+
+        const textParam = definitions.some(p => p.type === 'text');
+        if (!textParam && args.length > definitions.length) {
+            return { ok: false, error: `Too many arguments. Usage: ${getUsage(trigger)}` };
+        }
+    }
+
+    const values: Record<string, string> = {};
+    for (const param of definitions) {
+        const value = raw[param.name]?.trim() ?? '';
+
+        if (!value) {
+            if (param.required) {
+                return { ok: false, error: `Missing ${param.name}. Usage: ${getUsage(trigger)}` };
+            }
+            continue;
+        }
+
+        const result = validateParameter(param, value);
+        if (!result.ok) {
+            return { ok: false, error: result.error };
+        }
+        values[param.name] = result.value;
+    }
+
+    return { ok: true, values };
+}
+
+
+/**
+ * Check a single value against its parameter's type and custom validator
+ */
+export function validateParameter(
+    param: TriggerParameter,
+    value: string
+): { ok: true; value: string } | { ok: false; error: string } {
+    let normalized = value.trim();
+
+    if (param.type === 'number' && !/^-?\d+(\.\d+)?$/.test(normalized)) {
+        return { ok: false, error: `${param.name} must be a number` };
+    }
+
+    if (param.type === 'date') {
+        const date = parseDateArg(normalized);
+        if (!date) {
+            return { ok: false, error: `${param.name} must be a date like 01/15/2025, 2025-01-15, today or -7d` };
+        }
+        normalized = formatDateArg(date);
+    }
+
+    const error = param.validate?.(normalized);
+    if (error) {
+        return { ok: false, error };
+    }
+
+    return { ok: true, value: normalized };
+}
+
+
+// Dates
+
+/**
+ * Parse a date argument. Accepts MM/DD/YYYY, MM/DD (current year),
+ * YYYY-MM-DD, "today", "yesterday" and relative days such as "-7d".
+ * Returns null for anything else, including impossible dates like 02/31.
+ */
+export function parseDateArg(value: string, now: Date = new Date()): Date | null {
+    const input = value.trim().toLowerCase();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    if (input === 'today') return today;
+    if (input === 'yesterday') return new Date(today.getTime() - DAY_MS);
+
+    const relative = input.match(/^-?(\d{1,3})d$/);
+    if (relative) {
+        const date = new Date(today);
+        date.setDate(date.getDate() - Number(relative[1]));
+        return date;
+    }
+
+    let year: number, month: number, day: number;
+
+    const iso = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const us = input.match(/^(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2}|\d{4}))?$/);
+
+    if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else if (us) {
+        month = Number(us[1]);
+        day = Number(us[2]);
+        year = us[3] === undefined
+            ? now.getFullYear()
+            : us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+    } else {
+        return null;
+    }
+
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        return null;
+    }
+    return date;
+}
+
+
+export function formatDateArg(date: Date): string {
+    const mm = String(date.getMonth() + 1).padStart(2, '0');
+    const dd = String(date.getDate()).padStart(2, '0');
+    return `${mm}/${dd}/${date.getFullYear()}`;
+}
+
+
+/**
+ * Common dates for the parameter form, plus the typed value once it parses
+ */
+export function getDateSuggestions(query: string, now: Date = new Date()): TriggerSuggestion[] {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const startOfWeek = new Date(today);
+    startOfWeek.setDate(today.getDate() - ((today.getDay() + 6) % 7));   // Monday
+
+    const presets: { label: string; date: Date }[] = [
+        { label: 'Today',            date: today },
+        { label: 'Yesterday',        date: new Date(today.getTime() - DAY_MS) },
+        { label: 'Start of week',    date: startOfWeek },
+        { label: 'Start of month',   date: new Date(today.getFullYear(), today.getMonth(), 1) },
+        { label: 'Start of last month', date: new Date(today.getFullYear(), today.getMonth() - 1, 1) },
+        { label: 'End of last month',   date: new Date(today.getFullYear(), today.getMonth(), 0) },
+    ];
+
+    const q = query.trim().toLowerCase();
+    const suggestions: TriggerSuggestion[] = presets
+        .filter(p => !q || p.label.toLowerCase().startsWith(q))
+        .map(p => ({ value: formatDateArg(p.date), label: p.label, detail: formatDateArg(p.date) }));
+
+    const parsed = q ? parseDateArg(q, now) : null;
+    if (parsed && !suggestions.some(s => s.value === formatDateArg(parsed))) {
+        suggestions.unshift({ value: formatDateArg(parsed), label: formatDateArg(parsed) });
+    }
+
+    return suggestions;
+}
+
+
+// Errors
+
+/**
+ * Message from an Error (including ApiError) or any object with a message
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+    if (error instanceof Error) return error.message;
+    if (typeof error === 'object' && error !== null && 'message' in error) {
+        const message = (error as { message: unknown }).message;
+        if (typeof message === 'string' && message) return message;
+    }
+    return fallback;
+}
@@ -0,0 +1,63 @@
+import type { Trigger, TriggerApi, TriggerResult } from './types';
+import type { AddConversationRequest, ConversationProject } from '../types/conversationProject';
+import { getErrorMessage } from './params';
+
+
+async function fetchProjects(api: TriggerApi): Promise<ConversationProject[]> {
+    const response = await api.get<{ projects: ConversationProject[] }>('/conversations/projects');
+    return response.projects;
+}
+
+
+export const projectTrigger: Trigger = {
+    command: 'project',
+    description: 'Add this conversation to a project',
+    devOnly: false,
+    parameters: [
+        {
+            name: 'name',
+            description: 'Project name',
+            required: true,
+            type: 'text',
+            suggest: async (query, api) => {
+                const q = query.trim().toLowerCase();
+                const projects = await fetchProjects(api);
+                return projects
+                    .filter(p => p.name.toLowerCase().includes(q))
+                    .map(p => ({ value: p.name, detail: p.description ?? undefined }));
+            }
+        },
+    ],
+
+    execute: async (ctx): Promise<TriggerResult> => {
+        const name = ctx.params!.name;
+
+        if (!ctx.conversationId) {
+            ctx.showToast('Send a message first - new chats have no conversation to add yet', 'warning');
+            return { handled: true, preventDefault: true };
+        }
+
+        try {
+            const projects = await fetchProjects(ctx.api);
+            const q = name.toLowerCase();
+            const project = projects.find(p => p.name.toLowerCase() === q)
+                ?? projects.find(p => p.name.toLowerCase().startsWith(q));
+
+            if (!project) {
+                ctx.showToast(`No project named "${name}"`, 'error');
+                return { handled: true, preventDefault: true };
+            }
+
+            await ctx.api.post(`/conversations/${ctx.conversationId}/projects`, { project_id: project.id } as AddConversationRequest);
+            ctx.showToast(`Added to ${project.name}`, 'success');
+            return {
+                handled: true,
+                preventDefault: true,
+                response: `Added this conversation to **${project.name}**.`
+            };
+        } catch (error) {
+            ctx.showToast(getErrorMessage(error, 'Failed to add conversation to project'), 'error');
+            return { handled: true, preventDefault: true };
+        }
+    }
+};
@@ -0,0 +1,117 @@
+import type { Trigger, TriggerResult } from './types';
+import type { ConversationProject, ProjectCommand } from '../types/conversationProject';
+import { extractTemplateVariables, fillTemplate } from '../utils/promptTemplates';
+
+
+const COMMAND_PATTERN = /^[a-z][a-z0-9-]{0,31}$/;
+const MAX_PROMPT_LENGTH = 20000;
+
+
+/**
+ * Check a project command definition. Returns an error message, or null when
+ * it can be turned into a trigger. Used by the editor before saving and again
+ * at load time, since definitions come from the server as-is.
+ */
+export function validateProjectCommand(command: ProjectCommand): string | null {
+    if (!COMMAND_PATTERN.test(command.command)) {
+        return 'Command must start with a letter and use only lowercase letters, numbers and dashes (max 32)';
+    }
+    if (!command.description?.trim()) {
+        return `/${command.command} needs a description`;
+    }
+    if (!command.prompt?.trim()) {
+        return `/${command.command} needs a prompt`;
+    }
+    if (command.prompt.length > MAX_PROMPT_LENGTH) {
+        return `/${command.command} prompt is longer than ${MAX_PROMPT_LENGTH} characters`;
+    }
+
+    const parameters = command.parameters ?? [];
+    const names = new Set<string>();
+    for (const [i, param] of parameters.entries()) {
+        if (!param.name?.trim()) {
+            return `/${command.command} has a parameter without a name`;
+        }
+        if (names.has(param.name)) {
+            return `/${command.command} has two parameters named "${param.name}"`;
+        }
+        if (param.type === 'text' && i !== parameters.length - 1) {
+            return `/${command.command}: only the last parameter can take the rest of the line`;
+        }
+        names.add(param.name);
+    }
+
+    const undefinedVariable = extractTemplateVariables(command.prompt).find(v => !names.has(v.name));
+    if (undefinedVariable) {
+        return `/${command.command} uses {{${undefinedVariable.name}}} but has no parameter for it`;
+    }
+
+    return null;
+}
+
+
+/**
+ * One error (or null) per command in a project's list, adding duplicate and
+ * reserved (built-in) command names to the per-command checks
+ */
+export function validateProjectCommands(commands: ProjectCommand[], reserved: string[]): (string | null)[] {
+    return commands.map((command, i) => {
+        if (reserved.includes(command.command)) {
+            return `/${command.command} is a built-in command`;
+        }
+        if (commands.findIndex(c => c.command === command.command) !== i) {
+            return `/${command.command} is defined more than once`;
+        }
+        return validateProjectCommand(command);
+    });
+}
+
+
+/**
+ * A project command as a trigger. The filled prompt is sent as the user's message.
+ */
+export function projectCommandToTrigger(command: ProjectCommand, project: Pick<ConversationProject, 'name'>): Trigger {
+    return {
+        command: command.command,
+        description: `${command.description} (${project.name})`,
+        requiredRole: command.required_role,
+        parameters: (command.parameters ?? []).map(param => ({
+            name: param.name,
+            description: param.description,
+            required: param.required ?? true,
+            type: param.type ?? 'string',
+        })),
+
+        execute: (ctx): TriggerResult => ({
+            handled: true,
+            preventDefault: true,
+            prompt: fillTemplate(command.prompt, ctx.params ?? {}),
+        }),
+    };
+}
+
+
+/**
+ * Triggers for every valid command of the given projects. Invalid definitions
+ * are skipped with a console warning; the first project to define a command wins.
+ */
+export function projectCommandsToTriggers(projects: ConversationProject[]): Trigger[] {
+    const seen = new Set<string>();
+    const result: Trigger[] = [];
+
+    for (const project of projects) {
+        for (const command of project.custom_commands ?? []) {
+            const error = validateProjectCommand(command);
+            if (error) {
+                console.warn(`[projectCommands] Skipping command in "${project.name}": ${error}`);
+                continue;
+            }
+            if (seen.has(command.command)) continue;
+
+            seen.add(command.command);
+            result.push(projectCommandToTrigger(command, project));
+        }
+    }
+
+    return result;
+}
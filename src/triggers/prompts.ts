@@ -0,0 +1,57 @@
+import type { Trigger, TriggerParameter, TriggerResult } from './types';
+import type { PromptTemplate } from '../types/promptTemplate';
+import { extractTemplateVariables, fillTemplate, templateCommand } from '../utils/promptTemplates';
+
+
+/**
+ * Parameters for a prompt body. Each {{variable}} becomes a required
+ * parameter; a trailing untyped variable takes the rest of the line so
+ * "/summarize-job 12345 focus on overtime" works without quoting.
+ */
+export function templateParameters(body: string): TriggerParameter[] {
+    const variables = extractTemplateVariables(body);
+
+    return variables.map((variable, i) => ({
+        name: variable.name,
+        description: `Value for {{${variable.name}}}`,
+        required: true,
+        type: variable.type === 'string' && i === variables.length - 1 ? 'text' : variable.type,
+    }));
+}
+
+
+/**
+ * A saved prompt as a slash command
+ */
+export function templateToTrigger(template: PromptTemplate): Trigger {
+    return {
+        command: templateCommand(template.name),
+        description: template.description || `Saved prompt: ${template.name}`,
+        parameters: templateParameters(template.body),
+
+        execute: (ctx): TriggerResult => ({
+            handled: true,
+            preventDefault: true,
+            prompt: fillTemplate(template.body, ctx.params ?? {}),
+        }),
+    };
+}
+
+
+/**
+ * Triggers for a template list, skipping names that don't produce a command
+ * and later templates whose command is already taken.
+ */
+export function templatesToTriggers(templates: PromptTemplate[]): Trigger[] {
+    const seen = new Set<string>();
+    const result: Trigger[] = [];
+
+    for (const template of templates) {
+        const trigger = templateToTrigger(template);
+        if (!trigger.command || seen.has(trigger.command)) continue;
+        seen.add(trigger.command);
+        result.push(trigger);
+    }
+
+    return result;
+}
@@ -0,0 +1,44 @@
+import type { Trigger, TriggerResult } from './types';
+import type { CreateMemoryRequest, Memory } from '../types/memory';
+import { getErrorMessage } from './params';
+
+
+const MAX_MEMORY_LENGTH = 500;
+
+
+export const rememberTrigger: Trigger = {
+    command: 'remember',
+    description: 'Save a fact to your memories',
+    devOnly: false,
+    parameters: [
+        {
+            name: 'text',
+            description: 'What to remember',
+            required: true,
+            type: 'text',
+            validate: (value) => value.length > MAX_MEMORY_LENGTH
+                ? `Memories are limited to ${MAX_MEMORY_LENGTH} characters`
+                : null
+        },
+    ],
+
+    execute: async (ctx): Promise<TriggerResult> => {
+        const text = ctx.params!.text;
+
+        try {
+            const memory = await ctx.api.post<Memory>('/memories', {
+                content: text,
+                memory_type: 'fact',
+            } as CreateMemoryRequest);
+            ctx.showToast('Memory saved', 'success');
+            return {
+                handled: true,
+                preventDefault: true,
+                response: `**Saved to memory**\n\n> ${memory.content || text}\n\nManage memories in Settings → Memories.`
+            };
+        } catch (error) {
+            ctx.showToast(getErrorMessage(error, 'Failed to save memory'), 'error');
+            return { handled: true, preventDefault: true };
+        }
+    }
+};
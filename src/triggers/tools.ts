@@ -0,0 +1,22 @@
+import type { ToolExecuteRequest, ToolExecuteResponse } from '../types/tools';
+import type { TriggerApi } from './types';
+
+
+/**
+ * Run a backend tool directly, without going through the model
+ */
+export async function executeTool(
+    api: TriggerApi,
+    toolName: string,
+    params: Record<string, unknown>
+): Promise<unknown> {
+    const response = await api.post<ToolExecuteResponse>(
+        `/tools/${toolName}/execute`,
+        { params } as ToolExecuteRequest
+    );
+
+    if (!response.success) {
+        throw new Error(response.error || `${toolName} failed`);
+    }
+    return response.result;
+}
@@ -14,11 +14,31 @@ export interface ToastOptions {
     action?: ToastAction;
 }
 
+export interface TriggerApi {
+    get: <T>(url: string) => Promise<T>;
+    post: <T>(url: string, body?: unknown) => Promise<T>;
+}
+
+
+export interface TriggerSuggestion {
+    value: string;
+    label?: string;
+    detail?: string;
+}
+
+
+// 'date' values are normalised to MM/DD/YYYY before the trigger runs.
+// 'text' takes the rest of a typed command line, so it must be the last parameter.
+export type TriggerParameterType = 'string' | 'number' | 'date' | 'text';
+
+
 export interface TriggerParameter {
     name: string;
     description?: string;
     required?: boolean;
-    type?: 'string' | 'number';
+    type?: TriggerParameterType;
+    validate?: (value: string) => string | null;    // Returns an error message, or null when valid
+    suggest?: (query: string, api: TriggerApi) => Promise<TriggerSuggestion[]> | TriggerSuggestion[];
 }
 
 
@@ -27,8 +47,10 @@ export interface TriggerContext {
     args: string[];
     params?: Record<string, string>;
     conversationId: number | null;
+    api: TriggerApi;
     showToast: (message: string, variant?: ToastVariant, options?: ToastOptions | number) => void;
     clearMessages: () => void;
+    setModel: (model: string) => void;
     getAllTriggers: () => Trigger[];
 }
 
@@ -37,6 +59,7 @@ export interface TriggerResult {
     handled: boolean;
     preventDefault?: boolean;
     response?: string;
+    prompt?: string;                // Sent to the model as the user's message
     simulateFailure?: boolean;
 }
 
@@ -0,0 +1,27 @@
+/**
+ * Types for human-in-the-loop approval of filesystem write/delete tool calls
+ */
+
+export type ToolApprovalOperation = 'write' | 'delete';
+
+/** A tool call the backend is holding until the user approves or denies it */
+export interface ToolApprovalRequest {
+    approval_id: string;
+    call_id?: string;                   // Matches the tool_start block for this call
+    name: string;
+    params?: Record<string, unknown>;
+    operation: ToolApprovalOperation;
+    path?: string;                      // File the call will write or delete
+    folder_id?: number;                 // Allowed folder that grants the permission
+    folder_path?: string;
+    preview?: string;                   // New file content
+    diff?: string;                      // Unified diff against the current file
+}
+
+/** Body POSTed to /chat/approvals/{approval_id} */
+export interface ToolApprovalDecision {
+    approved: boolean;
+    always_allow?: boolean;             // Remember approval for this operation in folder_id
+}
+
+export type ToolApprovalStatus = 'pending' | 'approved' | 'denied';
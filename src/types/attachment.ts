@@ -0,0 +1,41 @@
+/**
+ * Chat Attachment Types
+ * Structured attachments sent alongside a chat message
+ */
+
+export type ChatAttachmentKind = 'file' | 'image' | 'data_session';
+
+interface ChatAttachmentBase {
+    id: string;             // Client-generated, stable for the lifetime of the message
+    kind: ChatAttachmentKind;
+    name: string;
+}
+
+/** Pasted or uploaded text file (emails, BOMs, spec excerpts) */
+export interface FileAttachment extends ChatAttachmentBase {
+    kind: 'file';
+    mime_type: string;
+    size: number;
+    content: string;
+}
+
+/** Pasted or uploaded image, sent inline as a data URL */
+export interface ImageAttachment extends ChatAttachmentBase {
+    kind: 'image';
+    mime_type: string;
+    size: number;
+    data_url: string;
+}
+
+/** Reference to an existing DataSession - the backend resolves its results */
+export interface DataSessionAttachment extends ChatAttachmentBase {
+    kind: 'data_session';
+    session_id: number;
+    tool_name: string;
+    row_count?: number | null;
+}
+
+export type ChatAttachment =
+    | FileAttachment
+    | ImageAttachment
+    | DataSessionAttachment;
@@ -1,13 +1,26 @@
 import type { Message } from "./message";
+import type { ChatAttachment } from "./attachment";
+import type { TokenUsage } from "./usage";
+import type { ToolApprovalStatus } from "./approval";
 
 
-export type MessageStatus = 'sending' | 'streaming' | 'sent' | 'failed';
+export type MessageStatus = 'sending' | 'streaming' | 'sent' | 'failed' | 'queued';   // queued: waiting in the offline outbox
 
 /** Content block types for interleaved rendering */
 export type ContentBlock = 
     | { type: 'text'; content: string }
     | { type: 'thinking'; content: string; isStreaming?: boolean }
-    | { type: 'tool_call'; name: string; params?: Record<string, unknown>; result?: string; isComplete?: boolean; chatRenderHint?: string };
+    | {
+        type: 'tool_call';
+        name: string;
+        params?: Record<string, unknown>;
+        result?: string;
+        isComplete?: boolean;
+        chatRenderHint?: string;
+        callId?: string;            // Backend call ID - matches tool_end to the right block
+        parallelGroup?: string;     // Shared by calls that were running at the same time
+        approval?: ToolApprovalStatus;  // Set when the call needed user approval
+    };
 
 export type DisplayMessage = {
     id: number;
@@ -18,6 +31,19 @@ export type DisplayMessage = {
     error?: string;
     thinking?: string;              // Legacy: all thinking concatenated
     contentBlocks?: ContentBlock[]; // New: ordered blocks for inline rendering
+    attachments?: ChatAttachment[]; // Files, images and data sessions sent with a user message
+    model?: string;                 // Model that produced an assistant message
+    usage?: TokenUsage;             // Token usage reported when the stream ended
+    serverId?: number;              // Persisted message ID - session messages get it from the meta event
+    parentId?: number | null;       // Server ID of the previous message on this branch
+    siblingIds?: number[];          // Server IDs of every version of this turn, oldest first
+}
+
+/** Where a new turn attaches in the conversation's message tree */
+export interface BranchPoint {
+    parentMessageId?: number | null;    // Message the new user message follows (null for the first turn)
+    regenerateMessageId?: number;       // User message to answer again instead of adding a new one
+    siblingIds?: number[];              // Existing versions of the turn being replaced
 }
 
 export interface ChatWindowProps {
@@ -28,6 +54,9 @@ export interface ChatWindowProps {
     initialMessages: Message[];
     onConversationCreated: (id: number) => void;
     onMessagesUpdated?: (messages: Message[]) => void;
+    // Branching - switching versions reloads the selected path
+    onSwitchBranch?: (messageId: number) => Promise<void>;
+    branchRevision?: number;
     // Model state (lifted from useChatModel)
     selectedModel: string;
     currentProvider: string;
@@ -35,6 +64,7 @@ export interface ChatWindowProps {
     isModelReady: boolean;
     // Pagination state
     hasMoreMessages?: boolean;
+    unloadedMessageCount?: number;
     isLoadingMoreMessages?: boolean;
     onLoadMoreMessages?: () => void;
     // Conversation management
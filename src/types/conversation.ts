@@ -9,6 +9,20 @@ export interface Conversation {
     created_at: string;
     updated_at: string;
     is_active: boolean;
+    is_pinned: boolean;
+    is_starred: boolean;
+    is_archived: boolean;
+}
+
+/** User-controlled organisation flags on a conversation */
+export type ConversationFlags = Pick<Conversation, 'is_pinned' | 'is_starred' | 'is_archived'>;
+
+export interface BulkConversationUpdateRequest extends Partial<ConversationFlags> {
+    conversation_ids: number[];
+}
+
+export interface BulkConversationDeleteRequest {
+    conversation_ids: number[];
 }
 
 export interface ConversationWithMessages {
@@ -29,6 +43,27 @@ export interface PaginatedMessagesResponse {
     total_count: number;
 }
 
+// Every message on the path through one version, leaving the selected branch alone
+export interface ConversationBranchResponse {
+    messages: Message[];
+}
+
 export interface ConversationsResponse {
     conversations: Conversation[];
 }
+
+export interface ConversationSearchHit {
+    conversation_id: number;
+    conversation_title: string;
+    field: 'title' | 'summary' | 'message';
+    message_id: number | null;              // Set when a message body matched
+    role: 'user' | 'assistant' | null;
+    snippet: string;                        // Plain text excerpt around the match
+    created_at: string;
+}
+
+export interface ConversationSearchResponse {
+    query: string;
+    hits: ConversationSearchHit[];
+    total: number;
+}
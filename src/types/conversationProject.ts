@@ -22,6 +22,25 @@ export const DEFAULT_PERMISSIONS: ProjectPermissions = {
     canRemoveConversations: 'anyone',
 };
 
+// Project custom commands - declarative slash commands that expand into a prompt.
+// {{name}} placeholders in `prompt` are filled from the matching parameters.
+export type ProjectCommandParameterType = 'string' | 'number' | 'date' | 'text';
+
+export interface ProjectCommandParameter {
+    name: string;
+    description?: string;
+    required?: boolean;
+    type?: ProjectCommandParameterType;     // 'text' takes the rest of the line; last parameter only
+}
+
+export interface ProjectCommand {
+    command: string;                        // Without the leading slash, e.g. "rfi"
+    description: string;
+    parameters?: ProjectCommandParameter[];
+    prompt: string;
+    required_role?: 'user' | 'manager' | 'admin';
+}
+
 export interface ConversationProject {
     id: number;
     owner_id: number;
@@ -31,6 +50,7 @@ export interface ConversationProject {
     custom_instructions: string | null;
     project_type: ProjectType;
     permissions: ProjectPermissions | null;
+    custom_commands: ProjectCommand[] | null;
     created_at: string;
     updated_at: string;
     is_active: boolean;
@@ -75,6 +95,24 @@ export interface ProjectInviteOwnerView {
     responded_at: string | null;
 }
 
+// Project knowledge files - reference documents (drawing indexes, spec sections,
+// schedules) that every conversation in the project can search and cite.
+// The server extracts their text after upload; only ready, enabled files are used.
+export type ProjectFileStatus = 'processing' | 'ready' | 'failed';
+
+export interface ProjectFile {
+    id: number;
+    project_id: number;
+    filename: string;
+    mime_type: string;
+    size: number;
+    is_enabled: boolean;                    // Disabled files stay listed but are left out of chats
+    status: ProjectFileStatus;
+    error: string | null;                   // Set when status is 'failed'
+    uploaded_by_name: string;
+    created_at: string;
+}
+
 // Minimal project info for badges/tags
 export interface ProjectSummary {
     id: number;
@@ -104,6 +142,9 @@ export interface ProjectConversation {
     created_at: string;
     updated_at: string;
     is_active: boolean;
+    is_pinned: boolean;
+    is_starred: boolean;
+    is_archived: boolean;
     last_message_preview: string | null;
     added_to_project_at: string;
     project_ids: number[];
@@ -119,6 +160,10 @@ export interface ProjectInvitesResponse {
     count: number;
 }
 
+export interface ProjectFilesResponse {
+    files: ProjectFile[];
+}
+
 // Owner's view of invites for their project
 export interface ProjectInvitesOwnerResponse {
     invites: ProjectInviteOwnerView[];
@@ -138,6 +183,7 @@ export interface CreateProjectRequest {
     custom_instructions?: string;
     project_type?: ProjectType;
     permissions?: ProjectPermissions;
+    custom_commands?: ProjectCommand[];
 }
 
 export interface UpdateProjectRequest {
@@ -147,6 +193,11 @@ export interface UpdateProjectRequest {
     custom_instructions?: string;
     project_type?: ProjectType;
     permissions?: ProjectPermissions;
+    custom_commands?: ProjectCommand[];
+}
+
+export interface UpdateProjectFileRequest {
+    is_enabled: boolean;
 }
 
 export interface InviteRequest {
@@ -3,11 +3,72 @@
  * Matches backend DataSession, DataResult, DataGroup, and related models
  */
 
+export type VisualizationChartType = 'bar' | 'line' | 'area' | 'scatter' | 'pie' | 'table' | 'card';
+
+export type SeriesChartType = 'bar' | 'line' | 'area';
+export type SeriesLineStyle = 'solid' | 'dashed' | 'dotted';
+export type SeriesAxis = 'left' | 'right';
+export type SeriesValueFormat = 'number' | 'currency' | 'percent' | 'hours';
+export type AxisScale = 'linear' | 'log';
+
+// User overrides for one series - unset fields fall back to the palette and defaults
+export interface SeriesStyle {
+    color?: string;
+    chart_type?: SeriesChartType;         // Combo charts - defaults to the view's chart type
+    line_style?: SeriesLineStyle;         // Line and area charts
+    axis?: SeriesAxis;
+    format?: SeriesValueFormat;           // Tooltip values, and ticks when first on its axis
+}
+
+export interface AxisOptions {
+    scale?: AxisScale;
+}
+
+export interface VisualizationOptions {
+    stacked?: boolean;                    // Area charts with more than one series
+    size_by?: string | null;              // Scatter: numeric column mapped to point size
+    color_by?: string | null;             // Scatter: column whose values each get their own color
+    series?: Record<string, SeriesStyle>; // Keyed by series name (the y column, or a series_by value)
+    axes?: Partial<Record<SeriesAxis, AxisOptions>>;
+}
+
+export type PivotAggregation = 'sum' | 'avg' | 'count' | 'min' | 'max' | 'distinct';
+
+export interface PivotValue {
+    column: string | null;                // null only for a plain row count
+    aggregation: PivotAggregation;
+}
+
+// Client-side group-by over the loaded rows - the chart, table and card draw the output
+export interface PivotConfig {
+    rows: string[];                       // Group-by columns, one output row per combination
+    columns: string[];                    // Columns whose values spread across output columns
+    values: PivotValue[];
+}
+
+export type ColumnType = 'number' | 'date' | 'string';
+
+// One filter per column; rows must pass every filter
+export type ColumnFilter =
+    | { column: string; type: 'text'; contains: string }
+    | { column: string; type: 'range'; min: number | null; max: number | null }
+    | { column: string; type: 'date_range'; from: string | null; to: string | null }   // YYYY-MM-DD, inclusive
+    | { column: string; type: 'values'; values: string[] };
+
+export interface ComputedColumn {
+    name: string;
+    expression: string;                   // See utils/expression for the language
+}
+
 export interface VisualizationConfig {
-    chart_type: 'bar' | 'line' | 'pie' | 'table' | 'card';
+    chart_type: VisualizationChartType;
     x_axis?: string;
-    y_axis?: string;
-    options?: Record<string, unknown>;
+    y_axis?: string;                      // First measure, for readers that predate y_axes
+    y_axes?: string[];                    // Every measure column, in order
+    options?: VisualizationOptions;
+    pivot?: PivotConfig | null;
+    filters?: ColumnFilter[];
+    computed_columns?: ComputedColumn[];
 }
 
 export interface DataGroup {
@@ -110,6 +171,7 @@ export interface CreateDataSessionRequest {
     message_id?: number;
     parent_session_id?: number;
     visualization_config?: VisualizationConfig;
+    result?: Pick<DataResult, 'columns' | 'rows'>;   // Stored as-is - the session starts successful and the tool isn't run
 }
 
 export interface UpdateDataSessionRequest {
@@ -5,6 +5,7 @@ export type { Message } from './message';
 export type {
     MessageStatus,
     DisplayMessage,
+    BranchPoint,
     ContentBlock,
     ChatWindowProps,
     StreamingState,
@@ -19,6 +20,12 @@ export type {
     ConversationWithMessages,
     ConversationsResponse,
     PaginatedMessagesResponse,
+    ConversationBranchResponse,
+    ConversationSearchHit,
+    ConversationSearchResponse,
+    ConversationFlags,
+    BulkConversationUpdateRequest,
+    BulkConversationDeleteRequest,
 } from './conversation';
 
 // Streaming types
@@ -26,6 +33,9 @@ export type {
     StreamEventType,
     StreamEvent,
     StreamCallbacks,
+    StreamEventBase,
+    StreamEventHandler,
+    ChatStreamRequest,
     MetaEvent,
     ThinkingStartEvent,
     ThinkingEvent,
@@ -35,11 +45,22 @@ export type {
     ContentEndEvent,
     ToolStartEvent,
     ToolEndEvent,
+    ToolApprovalRequestEvent,
+    ToolApprovalResolvedEvent,
     DoneEvent,
     StreamEndEvent,
     ErrorEvent,
 } from './streaming';
 
+// Usage types
+export type { TokenUsage } from './usage';
+
+// Approval types
+export * from './approval';
+
+// Attachment types
+export * from './attachment';
+
 // Tool types
 export * from './tools';
 
@@ -54,3 +75,15 @@ export * from './conversationProject';
 
 // Memory types
 export * from './memory';
+
+// Prompt template types
+export * from './promptTemplate';
+
+// Offline outbox types
+export * from './outbox';
+
+// Realtime event types
+export * from './realtime';
+
+// Conversation share types
+export * from './share';
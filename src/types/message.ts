@@ -1,3 +1,4 @@
+import type { TokenUsage } from "./usage";
 
 export interface Message {
     id: number;
@@ -10,4 +11,8 @@ export interface Message {
     created_at: string;
     thinking?: string;           // Extended thinking content (Claude only)
     content_blocks?: string;     // JSON string of structured content blocks
+    attachments?: string;        // JSON string of ChatAttachment[]
+    usage?: TokenUsage | null;   // Token breakdown for assistant messages
+    parent_id?: number | null;   // Previous message on this branch (null for the first message)
+    sibling_ids?: number[];      // Every version of this turn, oldest first - includes this message
 }
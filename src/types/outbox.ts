@@ -0,0 +1,39 @@
+/**
+ * Offline outbox types
+ * Unsent messages and pending edits are kept in IndexedDB until the API is reachable again.
+ */
+
+import type { ChatStreamRequest } from './streaming';
+
+export type ConnectionStatus = 'online' | 'offline' | 'syncing';
+
+export type OutboxRequestMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface OutboxEntryBase {
+    id: string;
+    user_id: number;                    // Only replayed for the user who queued it
+    created_at: string;
+}
+
+/** A chat message that couldn't be sent */
+export interface OutboxMessageEntry extends OutboxEntryBase {
+    kind: 'message';
+    client_message_id: number;          // DisplayMessage id of the queued user message
+    request: ChatStreamRequest;
+}
+
+/** A pending edit - rename, memory update, project move and the like */
+export interface OutboxRequestEntry extends OutboxEntryBase {
+    kind: 'request';
+    method: OutboxRequestMethod;
+    url: string;
+    body?: unknown;
+    label: string;                      // Shown if the change can't be synced, e.g. "Rename conversation"
+}
+
+export type OutboxEntry = OutboxMessageEntry | OutboxRequestEntry;
+
+/** What callers pass in - id, owner and timestamp are filled in by the outbox */
+export type NewOutboxEntry =
+    | Omit<OutboxMessageEntry, 'id' | 'user_id' | 'created_at'>
+    | Omit<OutboxRequestEntry, 'id' | 'user_id' | 'created_at'>;
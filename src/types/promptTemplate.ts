@@ -0,0 +1,49 @@
+/**
+ * Prompt template types for the saved-prompts library.
+ * Templates belong to a user, or to a project and are shared with its members.
+ */
+
+export type PromptTemplateScope = 'user' | 'project';
+
+export interface PromptTemplate {
+    id: number;
+    owner_id: number;
+    name: string;
+    description: string | null;
+    body: string;                       // May contain {{variable}} placeholders
+    scope: PromptTemplateScope;
+    project_id: number | null;          // Set when scope is 'project'
+    created_at: string;
+    updated_at: string;
+}
+
+export interface PromptTemplatesResponse {
+    templates: PromptTemplate[];
+}
+
+export interface CreatePromptTemplateRequest {
+    name: string;
+    description?: string | null;
+    body: string;
+    project_id?: number | null;         // Omit for a personal template
+}
+
+export interface UpdatePromptTemplateRequest {
+    name?: string;
+    description?: string | null;
+    body?: string;
+}
+
+/** Portable template fields - what export writes and import reads */
+export type PromptTemplateData = Pick<PromptTemplate, 'name' | 'description' | 'body'>;
+
+export interface ImportPromptTemplatesRequest {
+    templates: PromptTemplateData[];
+    project_id?: number | null;
+}
+
+export interface PromptTemplateExport {
+    version: 1;
+    exported_at: string;
+    templates: PromptTemplateData[];
+}
@@ -0,0 +1,82 @@
+/**
+ * Realtime event types
+ * Pushed to each user over the /events/stream SSE channel so shared projects,
+ * invites and conversation titles update without a refresh.
+ */
+
+import type {
+    ConversationProject,
+    ProjectConversation,
+    ProjectInvite,
+    ProjectMember,
+} from './conversationProject';
+
+// Project settings, name or instructions changed, or the user gained access to it
+export interface ProjectUpdatedEvent {
+    type: 'project.updated';
+    project: ConversationProject;
+}
+
+export interface ProjectDeletedEvent {
+    type: 'project.deleted';
+    project_id: number;
+}
+
+export interface ProjectMemberJoinedEvent {
+    type: 'project.member_joined';
+    project_id: number;
+    member: ProjectMember;
+    member_count: number;
+}
+
+// user_id is the current user when they were removed from the project
+export interface ProjectMemberLeftEvent {
+    type: 'project.member_left';
+    project_id: number;
+    user_id: number;
+    member_count: number;
+}
+
+export interface ProjectConversationAddedEvent {
+    type: 'project.conversation_added';
+    project_id: number;
+    conversation: ProjectConversation;
+    conversation_count: number;
+}
+
+export interface ProjectConversationRemovedEvent {
+    type: 'project.conversation_removed';
+    project_id: number;
+    conversation_id: number;
+    conversation_count: number;
+}
+
+export interface InviteReceivedEvent {
+    type: 'invite.received';
+    invite: ProjectInvite;
+}
+
+export interface InviteRevokedEvent {
+    type: 'invite.revoked';
+    invite_id: number;
+}
+
+export interface ConversationUpdatedEvent {
+    type: 'conversation.updated';
+    conversation_id: number;
+    title: string;
+    updated_at: string;
+}
+
+export type RealtimeEvent =
+    | ProjectUpdatedEvent
+    | ProjectDeletedEvent
+    | ProjectMemberJoinedEvent
+    | ProjectMemberLeftEvent
+    | ProjectConversationAddedEvent
+    | ProjectConversationRemovedEvent
+    | InviteReceivedEvent
+    | InviteRevokedEvent
+    | ConversationUpdatedEvent;
+
+export type RealtimeEventType = RealtimeEvent['type'];
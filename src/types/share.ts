@@ -0,0 +1,34 @@
+/**
+ * Conversation share types
+ * A share link gives read-only access to a snapshot of one conversation's
+ * current branch. Updating the link re-captures it; revoking deletes it.
+ */
+
+import type { Conversation } from './conversation';
+import type { Message } from './message';
+
+export interface ConversationShare {
+    token: string;                          // Path segment of the /shared/:token link
+    conversation_id: number;
+    created_at: string;
+    message_count: number;                  // Messages captured in the snapshot
+    view_count: number;
+}
+
+export interface ConversationShareResponse {
+    share: ConversationShare | null;        // null when the conversation is not shared
+}
+
+export interface SharedConversation {
+    token: string;
+    title: string;
+    owner_name: string;
+    owner_email: string;
+    shared_at: string;
+    is_owner: boolean;                      // The viewer created the link
+    messages: Message[];                    // Oldest first, the shared branch only
+}
+
+export interface ForkSharedConversationResponse {
+    conversation: Conversation;             // The recipient's own copy
+}
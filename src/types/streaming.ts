@@ -2,6 +2,23 @@
  * Types for SSE streaming events from /chat/stream endpoint
  */
 
+import type { ChatAttachment } from './attachment';
+import type { TokenUsage } from './usage';
+import type { ToolApprovalRequest } from './approval';
+
+/** JSON body POSTed to /chat/stream */
+export interface ChatStreamRequest {
+    message: string;
+    model: string;
+    provider: string;
+    conversation_id: number | null;
+    project_id?: number | null;         // The chat's project - new chats are filed here
+    project_ids?: number[];             // Every project whose instructions and knowledge files apply
+    attachments?: ChatAttachment[];
+    parent_message_id?: number | null;  // Branch point for the new user message
+    regenerate_message_id?: number;     // Answer this existing user message again as a new version
+}
+
 export type StreamEventType = 
     | 'meta'
     | 'thinking_start'
@@ -12,13 +29,23 @@ export type StreamEventType =
     | 'content_end'
     | 'tool_start'
     | 'tool_end'
+    | 'tool_approval_request'
+    | 'tool_approval_resolved'
     | 'done'
     | 'stream_end'
     | 'error';
 
+/** Minimal shape shared by every stream event, including types added after the core union */
+export interface StreamEventBase {
+    type: string;
+}
+
 export interface MetaEvent {
     type: 'meta';
     conversation_id: number;
+    stream_id?: string;         // Identifies the server-side stream for resume after a dropped connection
+    user_message_id?: number;   // Persisted IDs for the messages created by this turn
+    assistant_message_id?: number;
 }
 
 export interface ThinkingStartEvent {
@@ -51,26 +78,42 @@ export interface ToolStartEvent {
     type: 'tool_start';
     name: string;
     params?: Record<string, unknown>;
+    call_id?: string;           // Distinguishes parallel calls to the same tool
 }
 
 export interface ToolEndEvent {
     type: 'tool_end';
     name: string;
+    call_id?: string;
     params?: Record<string, unknown>;
     result: string;
     chat_render_hint?: string;
 }
 
+/** Pauses the turn until the user approves or denies a write/delete call */
+export interface ToolApprovalRequestEvent extends ToolApprovalRequest {
+    type: 'tool_approval_request';
+}
+
+/** Sent when an approval is settled - by this client, another tab, or a server timeout */
+export interface ToolApprovalResolvedEvent {
+    type: 'tool_approval_resolved';
+    approval_id: string;
+    approved: boolean;
+}
+
 export interface DoneEvent {
     type: 'done';
     full_response: string;
     full_thinking?: string;
+    usage?: TokenUsage;
 }
 
 export interface StreamEndEvent {
     type: 'stream_end';
     conversation_id: number;
     title?: string;
+    usage?: TokenUsage;
 }
 
 export interface ErrorEvent {
@@ -88,18 +131,34 @@ export type StreamEvent =
     | ContentEndEvent
     | ToolStartEvent
     | ToolEndEvent
+    | ToolApprovalRequestEvent
+    | ToolApprovalResolvedEvent
     | DoneEvent
     | StreamEndEvent
     | ErrorEvent;
 
 export interface StreamCallbacks {
-    onMeta: (conversationId: number) => void;
+    onMeta: (conversationId: number, userMessageId?: number, assistantMessageId?: number) => void;
     onThinkingStart: () => void;
     onThinking: (text: string) => void;
     onThinkingEnd: () => void;
     onContent: (text: string) => void;
-    onToolStart: (name: string, params?: Record<string, unknown>) => void;
-    onToolEnd: (name: string, params: Record<string, unknown> | undefined, result: string, chatRenderHint?: string) => void;
+    onToolStart: (name: string, params?: Record<string, unknown>, callId?: string) => void;
+    onToolEnd: (name: string, params: Record<string, unknown> | undefined, result: string, chatRenderHint?: string, callId?: string) => void;
     onStreamEnd: (conversationId: number, title?: string) => void;
     onError: (message: string) => void;
+    onUsage?: (usage: TokenUsage) => void;
+    onToolApprovalRequest?: (request: ToolApprovalRequest) => void;
+    onToolApprovalResolved?: (approvalId: string, approved: boolean) => void;
+    onReconnecting?: (attempt: number, delayMs: number) => void;
+    onReconnected?: () => void;
+    // Extension points for consumers beyond useStreamingChat
+    onEvent?: (event: StreamEventBase) => void;             // Every parsed event, before its handler runs
+    onUnhandledEvent?: (event: StreamEventBase) => void;    // Events with no registered handler
 }
+
+/** Handler registered for a single stream event type */
+export type StreamEventHandler<E extends StreamEventBase = StreamEventBase> = (
+    event: E,
+    callbacks: StreamCallbacks
+) => void;
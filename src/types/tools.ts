@@ -13,3 +13,14 @@ export interface Tool {
     icon?: string;
     parameters: ToolParameter[];
 }
+
+export interface ToolExecuteRequest {
+    params: Record<string, unknown>;
+}
+
+export interface ToolExecuteResponse {
+    tool_name: string;
+    success: boolean;
+    result: unknown;
+    error?: string;
+}
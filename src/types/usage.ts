@@ -0,0 +1,10 @@
+/**
+ * Token Usage Types
+ * Reported by the backend on done / stream_end events and stored per message
+ */
+
+export interface TokenUsage {
+    input_tokens: number;
+    output_tokens: number;
+    thinking_tokens?: number;   // Extended thinking / reasoning tokens, billed as output
+}
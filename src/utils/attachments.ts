@@ -0,0 +1,130 @@
+/**
+ * Chat Attachments
+ *
+ * Reads pasted or uploaded files into ChatAttachment objects that can be
+ * sent in the /chat/stream request body.
+ */
+
+import type { ChatAttachment, DataSessionAttachment } from '../types/attachment';
+import type { DataSession } from '../types/data';
+
+export const MAX_ATTACHMENTS       = 10;
+export const MAX_TEXT_FILE_BYTES   = 1 * 1024 * 1024;   // 1 MB
+export const MAX_IMAGE_FILE_BYTES  = 5 * 1024 * 1024;   // 5 MB
+
+const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Text-like files that don't always report a text/* MIME type
+const TEXT_FILE_EXTENSIONS = [
+    'txt', 'md', 'csv', 'tsv', 'json', 'xml', 'html', 'eml', 'log', 'sql', 'yaml', 'yml',
+];
+
+
+function createAttachmentId(): string {
+    return `att-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+
+function isTextFile(file: File): boolean {
+    if (file.type.startsWith('text/') || file.type === 'application/json' || file.type === 'application/xml') {
+        return true;
+    }
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return TEXT_FILE_EXTENSIONS.includes(extension);
+}
+
+
+function readAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+        reader.readAsDataURL(file);
+    });
+}
+
+
+/**
+ * Read a File into an attachment.
+ * Throws an Error with a user-facing message for unsupported or oversized files.
+ */
+export async function readFileAttachment(file: File): Promise<ChatAttachment> {
+    if (SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+        if (file.size > MAX_IMAGE_FILE_BYTES) {
+            throw new Error(`${file.name} is larger than ${formatFileSize(MAX_IMAGE_FILE_BYTES)}`);
+        }
+        return {
+            id:        createAttachmentId(),
+            kind:      'image',
+            name:      file.name || 'Pasted image',
+            mime_type: file.type,
+            size:      file.size,
+            data_url:  await readAsDataUrl(file),
+        };
+    }
+
+    if (isTextFile(file)) {
+        if (file.size > MAX_TEXT_FILE_BYTES) {
+            throw new Error(`${file.name} is larger than ${formatFileSize(MAX_TEXT_FILE_BYTES)}`);
+        }
+        return {
+            id:        createAttachmentId(),
+            kind:      'file',
+            name:      file.name || 'Pasted text',
+            mime_type: file.type || 'text/plain',
+            size:      file.size,
+            content:   await file.text(),
+        };
+    }
+
+    throw new Error(`${file.name} is not a supported file type`);
+}
+
+
+/**
+ * Create a reference attachment for an existing DataSession
+ */
+export function createDataSessionAttachment(session: DataSession): DataSessionAttachment {
+    return {
+        id:         createAttachmentId(),
+        kind:       'data_session',
+        name:       session.title || session.tool_name,
+        session_id: session.id,
+        tool_name:  session.tool_name,
+        row_count:  session.row_count ?? null,
+    };
+}
+
+
+/**
+ * Parse attachments JSON string from API into ChatAttachment array.
+ * Returns undefined if parsing fails or no attachments present.
+ */
+export function parseAttachments(attachmentsJson?: string): ChatAttachment[] | undefined {
+    if (!attachmentsJson) return undefined;
+
+    try {
+        const parsed = JSON.parse(attachmentsJson);
+        if (Array.isArray(parsed) && parsed.length > 0) {
+            return parsed as ChatAttachment[];
+        }
+    } catch (e) {
+        console.warn('[attachments] Failed to parse attachments:', e);
+    }
+    return undefined;
+}
+
+
+/**
+ * Human-readable file size
+ * 1536 → "1.5 KB"
+ */
+export function formatFileSize(bytes: number): string {
+    if (bytes >= 1024 * 1024) {
+        return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+    }
+    if (bytes >= 1024) {
+        return `${(bytes / 1024).toFixed(1).replace(/\.0$/, '')} KB`;
+    }
+    return `${bytes} B`;
+}
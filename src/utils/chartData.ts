@@ -0,0 +1,341 @@
+/**
+ * Chart Data
+ *
+ * Turns a DataResult into the shapes DataChartCanvas draws: one row per x
+ * value with a key per series (pivoted when the tool has a series_by column,
+ * otherwise one series per measure column), or points grouped by color for
+ * scatter charts. Also resolves each series' style from the saved
+ * visualization options and formats values for it.
+ */
+
+import type {
+    ChartConfig,
+    DataResult,
+    SeriesAxis,
+    SeriesChartType,
+    SeriesLineStyle,
+    SeriesValueFormat,
+    VisualizationOptions,
+} from '../types/data';
+import { formatColumnName, formatYAxisValue } from './formatters';
+
+// Color palette for charts
+export const CHART_COLORS = [
+    '#3b82f6', // blue
+    '#10b981', // emerald
+    '#f59e0b', // amber
+    '#ef4444', // red
+    '#8b5cf6', // violet
+    '#ec4899', // pink
+    '#06b6d4', // cyan
+    '#84cc16', // lime
+];
+
+const STROKE_DASHARRAYS: Record<SeriesLineStyle, string | undefined> = {
+    solid:  undefined,
+    dashed: '6 4',
+    dotted: '2 3',
+};
+
+/** One plotted series - `key` is its dataKey in the chart rows */
+export interface ChartSeries {
+    key: string;
+    label: string;
+}
+
+export interface AxisLabels {
+    x: string;
+    y: string;
+}
+
+export interface SeriesChartData {
+    rows: Record<string, unknown>[];      // { xValue, [series.key]: number | null, ... } - null leaves a gap
+    series: ChartSeries[];
+    axisLabels: AxisLabels;
+}
+
+export interface ScatterPoint {
+    x: number | string;
+    y: number;
+    z?: number;
+}
+
+export interface ScatterChartData {
+    groups: (ChartSeries & { points: ScatterPoint[] })[];
+    xIsNumeric: boolean;
+    axisLabels: AxisLabels;
+}
+
+export interface ResolvedSeriesStyle {
+    color: string;
+    chartType: SeriesChartType;
+    lineStyle: SeriesLineStyle;
+    axis: SeriesAxis;
+    format: SeriesValueFormat;
+}
+
+const EMPTY_SERIES_DATA: SeriesChartData = { rows: [], series: [], axisLabels: { x: '', y: '' } };
+
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toFiniteNumber(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const parsed = typeof value === 'number' ? value : Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+
+/**
+ * Pivot flat data into multi-series format for charting
+ *
+ * Input (flat):
+ *   [{ ProductionDate: "2025-12-01", Machine: "V807", PiecesProcessed: 33 }, ...]
+ *
+ * Output (pivoted):
+ *   [{ xValue: "2025-12-01", "V807": 33, "Voortman": 16, ... }, ...]
+ */
+function pivotData(
+    rows: unknown[][],
+    columns: string[],
+    xAxisCol: string,
+    seriesCol: string,
+    yAxisCol: string
+): { data: Record<string, unknown>[]; seriesNames: string[] } {
+    const xIndex = columns.indexOf(xAxisCol);
+    const seriesIndex = columns.indexOf(seriesCol);
+    const yIndex = columns.indexOf(yAxisCol);
+
+    if (xIndex === -1 || seriesIndex === -1 || yIndex === -1) {
+        return { data: [], seriesNames: [] };
+    }
+
+    // Group by x-axis value
+    const grouped = new Map<string, Record<string, unknown>>();
+    const seriesSet = new Set<string>();
+
+    for (const row of rows) {
+        const xValue = String(row[xIndex] ?? '');
+        const seriesName = String(row[seriesIndex] ?? '');
+
+        seriesSet.add(seriesName);
+
+        if (!grouped.has(xValue)) {
+            grouped.set(xValue, { xValue });
+        }
+
+        grouped.get(xValue)![seriesName] = toFiniteNumber(row[yIndex]);
+    }
+
+    // Sort by x-axis value (assumes date or sortable string)
+    const sortedData = Array.from(grouped.values()).sort((a, b) =>
+        String(a.xValue).localeCompare(String(b.xValue))
+    );
+
+    return {
+        data: sortedData,
+        seriesNames: Array.from(seriesSet).sort(),
+    };
+}
+
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Whether the tool's chart_config pivots the result itself - the chosen
+ * x axis and measures are then ignored
+ */
+export function usesToolSeries(chartConfig: ChartConfig | null): chartConfig is ChartConfig {
+    return !!(chartConfig?.series_by && chartConfig.x_axis && chartConfig.y_axis);
+}
+
+
+/**
+ * Rows for bar, line, area and pie charts. Tools with a chart_config pivot
+ * into one series per series_by value; otherwise each measure is a series.
+ */
+export function buildSeriesChartData(
+    result: DataResult,
+    xAxis: string | null,
+    yAxes: string[],
+    chartConfig: ChartConfig | null
+): SeriesChartData {
+    if (usesToolSeries(chartConfig)) {
+        const { data, seriesNames } = pivotData(
+            result.rows,
+            result.columns,
+            chartConfig.x_axis,
+            chartConfig.series_by,
+            chartConfig.y_axis
+        );
+        return {
+            rows: data,
+            series: seriesNames.map((name) => ({ key: name, label: formatColumnName(name) })),
+            axisLabels: {
+                x: formatColumnName(chartConfig.x_axis_label || chartConfig.x_axis),
+                y: formatColumnName(chartConfig.y_axis_label || chartConfig.y_axis),
+            },
+        };
+    }
+
+    if (!xAxis) return EMPTY_SERIES_DATA;
+
+    const xIndex = result.columns.indexOf(xAxis);
+    if (xIndex === -1) return EMPTY_SERIES_DATA;
+
+    const measures = yAxes
+        .map(col => ({ col, index: result.columns.indexOf(col) }))
+        .filter(({ index }) => index !== -1);
+
+    // Without a y column each row counts as its position
+    if (measures.length === 0) {
+        return {
+            rows: result.rows.map((row, i) => ({
+                xValue: String(row[xIndex] ?? `Row ${i + 1}`),
+                Value: i + 1,
+            })),
+            series: [{ key: 'Value', label: 'Value' }],
+            axisLabels: { x: formatColumnName(xAxis), y: 'Value' },
+        };
+    }
+
+    const rows = result.rows.map((row, i) => {
+        const item: Record<string, unknown> = { xValue: String(row[xIndex] ?? `Row ${i + 1}`) };
+        for (const { col, index } of measures) {
+            item[col] = toFiniteNumber(row[index]);
+        }
+        return item;
+    });
+    const series = measures.map(({ col }) => ({ key: col, label: formatColumnName(col) }));
+
+    return {
+        rows,
+        series,
+        axisLabels: { x: formatColumnName(xAxis), y: series.map(s => s.label).join(', ') },
+    };
+}
+
+
+/**
+ * Points for scatter charts, one group per color_by value. Rows without a
+ * numeric y are skipped; x stays categorical unless every value is numeric.
+ */
+export function buildScatterChartData(
+    result: DataResult,
+    xAxis: string | null,
+    yAxis: string | null,
+    options: VisualizationOptions
+): ScatterChartData {
+    const empty: ScatterChartData = { groups: [], xIsNumeric: false, axisLabels: { x: '', y: '' } };
+    if (!xAxis || !yAxis) return empty;
+
+    const xIndex = result.columns.indexOf(xAxis);
+    const yIndex = result.columns.indexOf(yAxis);
+    const sizeIndex = options.size_by ? result.columns.indexOf(options.size_by) : -1;
+    const colorIndex = options.color_by ? result.columns.indexOf(options.color_by) : -1;
+    if (xIndex === -1 || yIndex === -1) return empty;
+
+    const xIsNumeric = result.rows.every((row) => toFiniteNumber(row[xIndex]) !== null);
+    const groups = new Map<string, ScatterPoint[]>();
+
+    for (const row of result.rows) {
+        const y = toFiniteNumber(row[yIndex]);
+        if (y === null) continue;
+
+        const point: ScatterPoint = {
+            x: xIsNumeric ? toFiniteNumber(row[xIndex])! : String(row[xIndex] ?? ''),
+            y,
+        };
+        if (sizeIndex !== -1) {
+            point.z = toFiniteNumber(row[sizeIndex]) ?? 0;
+        }
+
+        const groupKey = colorIndex !== -1 ? String(row[colorIndex] ?? '') : yAxis;
+        if (!groups.has(groupKey)) groups.set(groupKey, []);
+        groups.get(groupKey)!.push(point);
+    }
+
+    const keys = colorIndex !== -1 ? Array.from(groups.keys()).sort() : Array.from(groups.keys());
+
+    return {
+        groups: keys.map((key) => ({ key, label: formatColumnName(key), points: groups.get(key)! })),
+        xIsNumeric,
+        axisLabels: { x: formatColumnName(xAxis), y: formatColumnName(yAxis) },
+    };
+}
+
+
+/**
+ * A log axis can only plot positive values - zero or below has no position on it
+ */
+export function canUseLogScale(rows: Record<string, unknown>[], keys: string[]): boolean {
+    return rows.every((row) => keys.every((key) => {
+        const value = row[key];
+        return typeof value !== 'number' || value > 0;
+    }));
+}
+
+
+/**
+ * Style for the series at `index`, with saved overrides applied.
+ * `chartType` is the view's type, used when the series has none of its own.
+ */
+export function getSeriesStyle(
+    options: VisualizationOptions,
+    key: string,
+    index: number,
+    chartType: SeriesChartType = 'bar'
+): ResolvedSeriesStyle {
+    const saved = options.series?.[key];
+    return {
+        color:     saved?.color ?? CHART_COLORS[index % CHART_COLORS.length],
+        chartType: saved?.chart_type ?? chartType,
+        lineStyle: saved?.line_style ?? 'solid',
+        axis:      saved?.axis ?? 'left',
+        format:    saved?.format ?? 'number',
+    };
+}
+
+
+export function getStrokeDasharray(lineStyle: SeriesLineStyle): string | undefined {
+    return STROKE_DASHARRAYS[lineStyle];
+}
+
+
+/**
+ * Full value for tooltips. Percent values are expected as 0-100, not fractions.
+ */
+export function formatSeriesValue(value: number, format: SeriesValueFormat): string {
+    switch (format) {
+        case 'currency':
+            return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+        case 'percent':
+            return `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+        case 'hours':
+            return `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} h`;
+        default:
+            return value.toLocaleString();
+    }
+}
+
+
+/**
+ * Short value for axis ticks - large numbers abbreviated like formatYAxisValue
+ */
+export function formatAxisTick(value: number, format: SeriesValueFormat): string {
+    const compact = formatYAxisValue(value);
+    switch (format) {
+        case 'currency':
+            return value < 0 ? `-$${formatYAxisValue(-value)}` : `$${compact}`;
+        case 'percent':
+            return `${compact}%`;
+        case 'hours':
+            return `${compact}h`;
+        default:
+            return compact;
+    }
+}
@@ -0,0 +1,71 @@
+/**
+ * Conversation Sections
+ *
+ * Splits the sidebar's conversation list into Pinned, Recent and Archived.
+ * Recent is further bucketed by last activity so long histories stay scannable.
+ */
+
+import type { Conversation } from '../types/conversation';
+
+export type ConversationSectionId = 'pinned' | 'recent' | 'archived';
+
+export interface RecentBucket {
+    label: string;
+    conversations: Conversation[];
+}
+
+export interface ConversationSections {
+    pinned: Conversation[];
+    recent: RecentBucket[];
+    recentCount: number;
+    archived: Conversation[];
+}
+
+const DAY_MS = 86400000;
+
+
+const byLastActivity = (a: Conversation, b: Conversation) =>
+    new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
+
+
+/**
+ * Group conversations into sidebar sections, newest first within each.
+ * Archived wins over pinned so archiving a pinned conversation hides it from the top.
+ * Empty Recent buckets are omitted.
+ */
+export function groupConversationSections(conversations: Conversation[], now: Date = new Date()): ConversationSections {
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    const startOfWeek = startOfToday - 6 * DAY_MS;
+
+    const pinned: Conversation[] = [];
+    const archived: Conversation[] = [];
+    const today: Conversation[] = [];
+    const thisWeek: Conversation[] = [];
+    const older: Conversation[] = [];
+
+    for (const conversation of [...conversations].sort(byLastActivity)) {
+        if (conversation.is_archived) {
+            archived.push(conversation);
+        } else if (conversation.is_pinned) {
+            pinned.push(conversation);
+        } else {
+            const updated = new Date(conversation.updated_at).getTime();
+            if (updated >= startOfToday) today.push(conversation);
+            else if (updated >= startOfWeek) thisWeek.push(conversation);
+            else older.push(conversation);
+        }
+    }
+
+    const recent = [
+        { label: 'Today',     conversations: today },
+        { label: 'This Week', conversations: thisWeek },
+        { label: 'Older',     conversations: older },
+    ].filter((bucket) => bucket.conversations.length > 0);
+
+    return {
+        pinned,
+        recent,
+        recentCount: today.length + thisWeek.length + older.length,
+        archived,
+    };
+}
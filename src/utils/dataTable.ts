@@ -0,0 +1,136 @@
+/**
+ * Data Table
+ *
+ * Sorting and column summaries for DataTable. Both walk every row, so they
+ * run in the data worker and must stay free of DOM and React imports.
+ */
+
+import type { ColumnType, DataResult } from '../types/data';
+import { detectColumnType } from './dataView';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ColumnSummary {
+    type: ColumnType;
+    sum?: number;
+    distinctCount?: number;
+    minDate?: Date;
+    maxDate?: Date;
+}
+
+export type TableSummaries = Record<string, ColumnSummary>;
+
+const collator = new Intl.Collator(undefined, { sensitivity: 'base' });
+
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse a value once for sorting - empty values sort first
+ */
+function parseValueForSort(value: unknown, type: ColumnType): number | string {
+    if (value === null || value === undefined) {
+        return type === 'string' ? '' : -Infinity;
+    }
+
+    switch (type) {
+        case 'number':
+            return typeof value === 'number' ? value : parseFloat(String(value)) || 0;
+        case 'date': {
+            const time = new Date(String(value)).getTime();
+            return isNaN(time) ? -Infinity : time;
+        }
+        default:
+            return String(value);
+    }
+}
+
+
+function calculateColumnSummary(values: unknown[], type: ColumnType): ColumnSummary {
+    const summary: ColumnSummary = { type };
+
+    switch (type) {
+        case 'number': {
+            let sum = 0;
+            for (const value of values) {
+                if (typeof value === 'number') {
+                    sum += value;
+                } else if (value !== null && value !== undefined) {
+                    sum += parseFloat(String(value)) || 0;
+                }
+            }
+            summary.sum = sum;
+            break;
+        }
+        case 'date': {
+            let min: Date | null = null;
+            let max: Date | null = null;
+            for (const value of values) {
+                if (value === null || value === undefined) continue;
+                const date = new Date(String(value));
+                if (isNaN(date.getTime())) continue;
+                if (!min || date < min) min = date;
+                if (!max || date > max) max = date;
+            }
+            if (min) summary.minDate = min;
+            if (max) summary.maxDate = max;
+            break;
+        }
+        case 'string': {
+            const distinct = new Set<string>();
+            for (const value of values) {
+                if (value !== null && value !== undefined && value !== '') {
+                    distinct.add(String(value));
+                }
+            }
+            summary.distinctCount = distinct.size;
+            break;
+        }
+    }
+
+    return summary;
+}
+
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Row indices of `values` (one column) in sorted order. Ties keep their
+ * original order.
+ */
+export function sortRowOrder(values: unknown[], order: SortOrder): number[] {
+    const type = detectColumnType(values);
+    const keys = values.map(value => parseValueForSort(value, type));
+    const indices = keys.map((_, i) => i);
+    const sign = order === 'desc' ? -1 : 1;
+
+    if (type === 'string') {
+        indices.sort((a, b) => sign * collator.compare(keys[a] as string, keys[b] as string));
+    } else {
+        // -Infinity - -Infinity is NaN, so compare rather than subtract
+        indices.sort((a, b) => {
+            const aKey = keys[a] as number;
+            const bKey = keys[b] as number;
+            return sign * (aKey < bKey ? -1 : aKey > bKey ? 1 : 0);
+        });
+    }
+
+    return indices;
+}
+
+
+/**
+ * Footer summary for every column: sum, date range or distinct count by type
+ */
+export function summarizeColumns(result: Pick<DataResult, 'columns' | 'rows'>): TableSummaries {
+    const summaries: TableSummaries = {};
+    result.columns.forEach((col, colIndex) => {
+        const values = result.rows.map(row => row[colIndex]);
+        summaries[col] = calculateColumnSummary(values, detectColumnType(values));
+    });
+    return summaries;
+}
@@ -0,0 +1,189 @@
+/**
+ * Data View
+ *
+ * The Data page's transform pipeline over a loaded DataResult: computed
+ * columns are appended, then filters drop rows, then the pivot groups what's
+ * left. Runs inside the data worker, so it must stay free of DOM and React imports.
+ */
+
+import type {
+    ColumnFilter,
+    ColumnType,
+    ComputedColumn,
+    DataResult,
+    PivotConfig,
+} from '../types/data';
+import { compileExpression } from './expression';
+import { computePivot, isPivotActive } from './pivot';
+
+export interface DataViewInput {
+    result: DataResult;
+    computedColumns: ComputedColumn[];
+    filters: ColumnFilter[];
+    pivot: PivotConfig | null;
+}
+
+export interface DataViewOutput {
+    source: DataResult;                    // With computed columns, before filters - what filters choose from
+    result: DataResult;                    // What the views draw
+}
+
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isEmptyValue(value: unknown): boolean {
+    return value === null || value === undefined || value === '';
+}
+
+
+function toFiniteNumber(value: unknown): number | null {
+    if (isEmptyValue(value)) return null;
+    const parsed = typeof value === 'number' ? value : Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+
+/**
+ * Row test for one filter, or null when the filter has nothing to test
+ */
+function buildFilterTest(filter: ColumnFilter, index: number): ((row: unknown[]) => boolean) | null {
+    switch (filter.type) {
+        case 'text': {
+            const needle = filter.contains.trim().toLowerCase();
+            if (!needle) return null;
+            return (row) => !isEmptyValue(row[index]) && String(row[index]).toLowerCase().includes(needle);
+        }
+        case 'range': {
+            const { min, max } = filter;
+            if (min === null && max === null) return null;
+            return (row) => {
+                const n = toFiniteNumber(row[index]);
+                return n !== null && (min === null || n >= min) && (max === null || n <= max);
+            };
+        }
+        case 'date_range': {
+            const { from, to } = filter;
+            if (!from && !to) return null;
+            // ISO dates compare correctly as strings
+            return (row) => {
+                if (isEmptyValue(row[index])) return false;
+                const day = String(row[index]).slice(0, 10);
+                return (!from || day >= from) && (!to || day <= to);
+            };
+        }
+        case 'values': {
+            const allowed = new Set(filter.values);
+            return (row) => allowed.has(isEmptyValue(row[index]) ? '' : String(row[index]));
+        }
+    }
+}
+
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Detect column type from values
+ */
+export function detectColumnType(values: unknown[]): ColumnType {
+    for (const value of values) {
+        if (value === null || value === undefined || value === '') continue;
+
+        if (typeof value === 'number') return 'number';
+
+        if (typeof value === 'string') {
+            if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+                const parsed = new Date(value);
+                if (!isNaN(parsed.getTime())) return 'date';
+            }
+        }
+    }
+    return 'string';
+}
+
+
+/**
+ * Whether a filter currently removes anything
+ */
+export function isFilterActive(filter: ColumnFilter): boolean {
+    return buildFilterTest(filter, 0) !== null;
+}
+
+
+/**
+ * Append computed columns. A column whose expression no longer compiles
+ * (say a column it used was renamed) is skipped rather than failing the view.
+ * Later computed columns may use earlier ones.
+ */
+export function applyComputedColumns(result: DataResult, computedColumns: ComputedColumn[]): DataResult {
+    let columns = result.columns;
+    let rows = result.rows;
+
+    for (const computed of computedColumns) {
+        if (columns.includes(computed.name)) continue;
+
+        let evaluate: (row: unknown[]) => unknown;
+        try {
+            evaluate = compileExpression(computed.expression, columns).evaluate;
+        } catch {
+            continue;
+        }
+
+        columns = [...columns, computed.name];
+        rows = rows.map(row => {
+            let value: unknown;
+            try {
+                value = evaluate(row);
+            } catch {
+                value = null;
+            }
+            return [...row, value];
+        });
+    }
+
+    return columns === result.columns ? result : { ...result, columns, rows };
+}
+
+
+/**
+ * Keep rows that pass every filter. Filters on missing columns are ignored.
+ */
+export function applyFilters(result: DataResult, filters: ColumnFilter[]): DataResult {
+    const tests = filters
+        .map(filter => {
+            const index = result.columns.indexOf(filter.column);
+            return index === -1 ? null : buildFilterTest(filter, index);
+        })
+        .filter((test): test is (row: unknown[]) => boolean => test !== null);
+
+    if (tests.length === 0) return result;
+
+    const rows = result.rows.filter(row => tests.every(test => test(row)));
+    return { ...result, rows, row_count: rows.length };
+}
+
+
+/**
+ * Run the whole pipeline
+ */
+export function buildDataView({ result, computedColumns, filters, pivot }: DataViewInput): DataViewOutput {
+    const source = applyComputedColumns(result, computedColumns);
+    const filtered = applyFilters(source, filters);
+    return {
+        source,
+        result: isPivotActive(pivot) ? computePivot(filtered, pivot) : filtered,
+    };
+}
+
+
+/**
+ * Whether the pipeline would change the result at all
+ */
+export function isDataViewActive(input: Omit<DataViewInput, 'result'>): boolean {
+    return input.computedColumns.length > 0
+        || input.filters.some(isFilterActive)
+        || isPivotActive(input.pivot);
+}
@@ -1,11 +1,22 @@
 /**
  * Export chat conversations to various formats
+ *
+ * Exports the branch passed in - for a conversation with regenerated or edited
+ * turns, either the versions selected on screen or the path through another
+ * version picked from getExportBranchOptions.
  */
 
 import type { DisplayMessage } from '../types/chat';
+import { getMessageVersion } from './messageBranches';
 
 export type ExportFormat = 'markdown' | 'json' | 'html';
 
+/** Another version of a turn on screen - exporting it follows the path through it */
+export interface ExportBranchOption {
+    messageId: number;      // Server ID of the version
+    label: string;
+}
+
 interface ExportOptions {
     messages: DisplayMessage[];
     title: string;
@@ -42,6 +53,32 @@ export function exportChat({ messages, title, format, createdAt }: ExportOptions
     downloadFile(content, `${sanitizeFilename(title)}.${extension}`, mimeType);
 }
 
+/**
+ * The versions not on screen of every regenerated or edited turn, in conversation order
+ */
+export function getExportBranchOptions(messages: DisplayMessage[]): ExportBranchOption[] {
+    const options: ExportBranchOption[] = [];
+    let turn = 0;
+
+    for (const msg of messages) {
+        if (msg.role === 'user') turn++;
+
+        const version = getMessageVersion(msg);
+        if (!version) continue;
+
+        const part = msg.role === 'user' ? 'message' : 'reply';
+        version.ids.forEach((id, i) => {
+            if (i === version.index) return;
+            options.push({
+                messageId: id,
+                label: `Turn ${Math.max(turn, 1)} ${part}, version ${i + 1} of ${version.count}`,
+            });
+        });
+    }
+
+    return options;
+}
+
 /**
  * Convert messages to Markdown format
  */
@@ -62,8 +99,9 @@ function toMarkdown(messages: DisplayMessage[], title: string, createdAt?: strin
     for (const msg of messages) {
         const role = msg.role === 'user' ? '**You**' : '**Atlas**';
         const time = formatTime(msg.timestamp);
+        const versionLabel = formatVersionLabel(msg);
         
-        lines.push(`### ${role} — ${time}`);
+        lines.push(`### ${role} — ${time}${versionLabel ? ` · ${versionLabel}` : ''}`);
         lines.push('');
         lines.push(msg.content);
         lines.push('');
@@ -86,6 +124,7 @@ function toJSON(messages: DisplayMessage[], title: string, createdAt?: string):
             content: msg.content,
             timestamp: msg.timestamp,
             ...(msg.thinking && { thinking: msg.thinking }),
+            ...(getMessageVersion(msg) && { version: formatVersionLabel(msg) }),
         })),
     };
 
@@ -100,13 +139,14 @@ function toHTML(messages: DisplayMessage[], title: string, createdAt?: string):
         const roleClass = msg.role === 'user' ? 'user' : 'assistant';
         const roleName = msg.role === 'user' ? 'You' : 'Atlas';
         const time = formatTime(msg.timestamp);
+        const versionLabel = formatVersionLabel(msg);
         const content = escapeHTML(msg.content).replace(/\n/g, '<br>');
         
         return `
         <div class="message ${roleClass}">
             <div class="message-header">
                 <span class="role">${roleName}</span>
-                <span class="time">${time}</span>
+                <span class="time">${time}${versionLabel ? ` · ${versionLabel}` : ''}</span>
             </div>
             <div class="message-content">${content}</div>
         </div>`;
@@ -164,10 +204,18 @@ function toHTML(messages: DisplayMessage[], title: string, createdAt?: string):
 </html>`;
 }
 
+/**
+ * "Version 2 of 3" for turns that were regenerated or edited
+ */
+function formatVersionLabel(msg: DisplayMessage): string | null {
+    const version = getMessageVersion(msg);
+    return version ? `Version ${version.index + 1} of ${version.count}` : null;
+}
+
 /**
  * Trigger file download in browser
  */
-function downloadFile(content: string, filename: string, mimeType: string): void {
+export function downloadFile(content: string, filename: string, mimeType: string): void {
     const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     
@@ -184,7 +232,7 @@ function downloadFile(content: string, filename: string, mimeType: string): void
 /**
  * Sanitize filename for download
  */
-function sanitizeFilename(name: string): string {
+export function sanitizeFilename(name: string): string {
     return name
         .replace(/[^a-z0-9\s-]/gi, '')
         .replace(/\s+/g, '-')
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression, ExpressionError } from './expression';
+
+const COLUMNS = ['Weight', 'Pieces', 'Pieces Processed', 'ShipDate', 'DueDate', 'Status'];
+
+/** Evaluate `source` against a single row keyed by column name */
+function evaluate(source: string, values: Record<string, unknown> = {}): unknown {
+    return compileExpression(source, COLUMNS).evaluate(COLUMNS.map(col => values[col] ?? null));
+}
+
+function compileError(source: string, columns = COLUMNS): ExpressionError {
+    try {
+        compileExpression(source, columns);
+    } catch (error) {
+        if (error instanceof ExpressionError) return error;
+        throw error;
+    }
+    throw new Error(`Expected '${source}' not to compile`);
+}
+
+
+describe('compileExpression', () => {
+    describe('arithmetic', () => {
+        it('follows operator precedence and parentheses', () => {
+            expect(evaluate('1 + 2 * 3')).toBe(7);
+            expect(evaluate('(1 + 2) * 3')).toBe(9);
+            expect(evaluate('10 - 4 - 3')).toBe(3);
+            expect(evaluate('7 % 4 + -2')).toBe(1);
+            expect(evaluate('1.5e2 / .5')).toBe(300);
+        });
+
+        it('reads numeric strings from the row', () => {
+            expect(evaluate('Weight / Pieces', { Weight: '120', Pieces: 4 })).toBe(30);
+        });
+
+        it('yields NULL for missing or non-numeric operands', () => {
+            expect(evaluate('Weight * 2', { Weight: null })).toBeNull();
+            expect(evaluate('Weight + 1', { Weight: 'heavy' })).toBeNull();
+            expect(evaluate('-Status', { Status: 'open' })).toBeNull();
+        });
+
+        it('yields NULL instead of dividing by zero', () => {
+            expect(evaluate('Weight / Pieces', { Weight: 10, Pieces: 0 })).toBeNull();
+            expect(evaluate('Weight % 0', { Weight: 10 })).toBeNull();
+        });
+
+        it('yields NULL for results that overflow', () => {
+            expect(evaluate('1e308 * 10')).toBeNull();
+        });
+    });
+
+
+    describe('columns', () => {
+        it('resolves bracketed names and a unique case-insensitive match', () => {
+            expect(evaluate('[Pieces Processed] * 2', { 'Pieces Processed': 3 })).toBe(6);
+            expect(evaluate('weight + PIECES', { Weight: 1, Pieces: 2 })).toBe(3);
+        });
+
+        it('prefers an exact match over case-insensitive ones', () => {
+            const compiled = compileExpression('total', ['Total', 'total']);
+            expect(compiled.evaluate([1, 2])).toBe(2);
+        });
+
+        it('rejects ambiguous and unknown columns', () => {
+            expect(compileError('total', ['Total', 'TOTAL']).message).toBe('Unknown column total');
+            expect(compileError('Width * 2').message).toBe('Unknown column Width');
+        });
+
+        it('reports each referenced column once, as named in the result', () => {
+            expect(compileExpression('weight / Weight + [Pieces]', COLUMNS).columns).toEqual(['Weight', 'Pieces']);
+        });
+    });
+
+
+    describe('comparison and logic', () => {
+        it('compares numbers numerically and everything else as text', () => {
+            expect(evaluate("Pieces >= '10'", { Pieces: 9 })).toBe(false);
+            expect(evaluate("Status = 'open'", { Status: 'open' })).toBe(true);
+            expect(evaluate("Status <> 'open'", { Status: 'closed' })).toBe(true);
+            expect(evaluate("Status != 'open'", { Status: 'open' })).toBe(false);
+        });
+
+        it('yields NULL when comparing with NULL', () => {
+            expect(evaluate('Weight > 1', { Weight: null })).toBeNull();
+            expect(evaluate('NULL = NULL')).toBeNull();
+        });
+
+        it('combines conditions with AND, OR and NOT', () => {
+            expect(evaluate('TRUE AND NOT FALSE')).toBe(true);
+            expect(evaluate('FALSE OR 1 > 2')).toBe(false);
+            expect(evaluate('NOT Weight', { Weight: 0 })).toBe(true);
+            expect(evaluate("Weight > 5 and Status = 'open'", { Weight: 6, Status: 'open' })).toBe(true);
+        });
+
+        it('binds AND tighter than OR', () => {
+            expect(evaluate('TRUE OR FALSE AND FALSE')).toBe(true);
+        });
+    });
+
+
+    describe('functions', () => {
+        it('rounds and clamps numbers', () => {
+            expect(evaluate('ROUND(2.345, 2)')).toBe(2.35);
+            expect(evaluate('ROUND(2.5)')).toBe(3);
+            expect(evaluate('ABS(-3) + FLOOR(1.7) + CEIL(1.2)')).toBe(6);
+            expect(evaluate("MIN(3, 'x', 1)")).toBe(1);
+            expect(evaluate('MAX(Weight, Pieces)', { Weight: 2, Pieces: 5 })).toBe(5);
+            expect(evaluate('MAX(NULL)')).toBeNull();
+        });
+
+        it('picks values with IF and COALESCE', () => {
+            expect(evaluate("IF(Pieces > 0, 'some', 'none')", { Pieces: 0 })).toBe('none');
+            expect(evaluate("COALESCE(Status, '', 'unknown')")).toBe('unknown');
+        });
+
+        it('works with ISO dates', () => {
+            const row = { ShipDate: '2024-03-05T10:00:00Z', DueDate: '2024-02-28' };
+            expect(evaluate('DATEDIFF(ShipDate, DueDate)', row)).toBe(6);
+            expect(evaluate('YEAR(ShipDate) * 100 + MONTH(ShipDate)', row)).toBe(202403);
+            expect(evaluate('DAY(DueDate)', row)).toBe(28);
+            expect(evaluate("DATEDIFF(ShipDate, 'soon')", row)).toBeNull();
+        });
+
+        it('handles text', () => {
+            expect(evaluate("CONCAT(UPPER(Status), '-', LEN(Status), NULL)", { Status: 'open' })).toBe('OPEN-4');
+            expect(evaluate('lower(Status)', { Status: 'OPEN' })).toBe('open');
+        });
+
+        it('rejects unknown functions and wrong argument counts', () => {
+            expect(compileError('SQRT(4)').message).toBe('Unknown function SQRT');
+            expect(compileError('IF(TRUE, 1)').message).toBe('Wrong number of arguments for IF');
+            expect(compileError('ABS()').message).toBe('Wrong number of arguments for ABS');
+        });
+    });
+
+
+    describe('errors', () => {
+        it('rejects empty and overly long expressions', () => {
+            expect(compileError('   ').message).toBe('Expression is empty');
+            expect(compileError(`1${' + 1'.repeat(200)}`).message).toBe('Expression is longer than 500 characters');
+        });
+
+        it('points at the offending position', () => {
+            expect(compileError('Weight # 2')).toMatchObject({ message: "Unexpected '#'", position: 7 });
+            expect(compileError('Weight 2')).toMatchObject({ message: "Unexpected '2'", position: 7 });
+            expect(compileError('(1 + 2')).toMatchObject({ message: "Expected ')'", position: 6 });
+            expect(compileError('1 +')).toMatchObject({ message: 'Expression ends too early', position: 3 });
+        });
+
+        it('rejects unclosed strings and column names', () => {
+            expect(compileError("Status = 'open")).toMatchObject({ message: 'Unclosed string', position: 9 });
+            expect(compileError('[Pieces * 2')).toMatchObject({ message: 'Unclosed [column name]', position: 0 });
+        });
+
+        it('never evaluates JavaScript', () => {
+            expect(compileError('constructor').message).toBe('Unknown column constructor');
+            expect(compileError('alert(1)').message).toBe('Unknown function ALERT');
+        });
+    });
+});
@@ -0,0 +1,495 @@
+/**
+ * Expression
+ *
+ * A small, safe expression language for computed columns, e.g.
+ * `Weight / Pieces` or `DATEDIFF(ShipDate, DueDate)`. Expressions are parsed
+ * into a tree and evaluated against one row at a time - nothing is ever
+ * passed to eval or Function. Column names with spaces go in brackets:
+ * `[Pieces Processed] * 2`.
+ *
+ * Operators: + - * / %, = != < <= > >=, AND OR NOT, parentheses.
+ * Literals: numbers, 'strings', TRUE, FALSE, NULL.
+ * Missing or non-numeric operands make arithmetic NULL rather than an error.
+ */
+
+export class ExpressionError extends Error {
+    readonly position: number;
+
+    constructor(message: string, position: number) {
+        super(message);
+        this.name = 'ExpressionError';
+        this.position = position;
+    }
+}
+
+export interface CompiledExpression {
+    /** Columns the expression reads, as named in the result */
+    columns: string[];
+    evaluate: (row: unknown[]) => unknown;
+}
+
+// Long enough for any sensible formula, short enough to keep parsing trivial
+const MAX_EXPRESSION_LENGTH = 500;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type TokenType = 'number' | 'string' | 'identifier' | 'column' | 'operator' | 'paren' | 'comma' | 'end';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    position: number;
+}
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '+', '-', '*', '/', '%', '=', '<', '>'];
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9.]/.test(char)) {
+            const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+            if (!match) throw new ExpressionError(`Unexpected '${char}'`, i);
+            tokens.push({ type: 'number', value: match[0], position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (char === '\'' || char === '"') {
+            const end = source.indexOf(char, i + 1);
+            if (end === -1) throw new ExpressionError('Unclosed string', i);
+            tokens.push({ type: 'string', value: source.slice(i + 1, end), position: i });
+            i = end + 1;
+            continue;
+        }
+
+        if (char === '[') {
+            const end = source.indexOf(']', i + 1);
+            if (end === -1) throw new ExpressionError('Unclosed [column name]', i);
+            tokens.push({ type: 'column', value: source.slice(i + 1, end).trim(), position: i });
+            i = end + 1;
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(char)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+            tokens.push({ type: 'identifier', value: match[0], position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (char === '(' || char === ')') {
+            tokens.push({ type: 'paren', value: char, position: i });
+            i++;
+            continue;
+        }
+
+        if (char === ',') {
+            tokens.push({ type: 'comma', value: char, position: i });
+            i++;
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => source.startsWith(op, i));
+        if (operator) {
+            tokens.push({ type: 'operator', value: operator, position: i });
+            i += operator.length;
+            continue;
+        }
+
+        throw new ExpressionError(`Unexpected '${char}'`, i);
+    }
+
+    tokens.push({ type: 'end', value: '', position: source.length });
+    return tokens;
+}
+
+
+// ============================================================================
+// Values
+// ============================================================================
+
+function toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+}
+
+
+/** Days since the epoch for an ISO date (time of day ignored), or null */
+function toDay(value: unknown): number | null {
+    const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+    if (!match) return null;
+    return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / MS_PER_DAY;
+}
+
+
+function isTruthy(value: unknown): boolean {
+    if (value === null || value === undefined || value === '') return false;
+    if (typeof value === 'number') return value !== 0;
+    return Boolean(value);
+}
+
+
+function compare(left: unknown, right: unknown): number | null {
+    if (left === null || left === undefined || right === null || right === undefined) return null;
+
+    const a = toNumber(left);
+    const b = toNumber(right);
+    if (a !== null && b !== null) return a - b;
+
+    return String(left).localeCompare(String(right));
+}
+
+
+function datePart(value: unknown, part: 'year' | 'month' | 'day'): number | null {
+    const day = toDay(value);
+    if (day === null) return null;
+    const date = new Date(day * MS_PER_DAY);
+    if (part === 'year') return date.getUTCFullYear();
+    if (part === 'month') return date.getUTCMonth() + 1;
+    return date.getUTCDate();
+}
+
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+interface FunctionSpec {
+    minArgs: number;
+    maxArgs: number;
+    call: (args: unknown[]) => unknown;
+}
+
+const numeric = (fn: (n: number) => number): FunctionSpec['call'] => ([value]) => {
+    const n = toNumber(value);
+    return n === null ? null : fn(n);
+};
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+    ABS:      { minArgs: 1, maxArgs: 1, call: numeric(Math.abs) },
+    FLOOR:    { minArgs: 1, maxArgs: 1, call: numeric(Math.floor) },
+    CEIL:     { minArgs: 1, maxArgs: 1, call: numeric(Math.ceil) },
+    ROUND: {
+        minArgs: 1, maxArgs: 2,
+        call: ([value, digits]) => {
+            const n = toNumber(value);
+            if (n === null) return null;
+            const factor = 10 ** (toNumber(digits) ?? 0);
+            return Math.round(n * factor) / factor;
+        },
+    },
+    MIN: {
+        minArgs: 1, maxArgs: Infinity,
+        call: (args) => {
+            const nums = args.map(toNumber).filter((n): n is number => n !== null);
+            return nums.length ? Math.min(...nums) : null;
+        },
+    },
+    MAX: {
+        minArgs: 1, maxArgs: Infinity,
+        call: (args) => {
+            const nums = args.map(toNumber).filter((n): n is number => n !== null);
+            return nums.length ? Math.max(...nums) : null;
+        },
+    },
+    IF: {
+        minArgs: 3, maxArgs: 3,
+        call: ([condition, then, otherwise]) => (isTruthy(condition) ? then : otherwise),
+    },
+    COALESCE: {
+        minArgs: 1, maxArgs: Infinity,
+        call: (args) => args.find(v => v !== null && v !== undefined && v !== '') ?? null,
+    },
+    // Days from the second date to the first, like MySQL
+    DATEDIFF: {
+        minArgs: 2, maxArgs: 2,
+        call: ([end, start]) => {
+            const a = toDay(end);
+            const b = toDay(start);
+            return a === null || b === null ? null : Math.round(a - b);
+        },
+    },
+    YEAR:  { minArgs: 1, maxArgs: 1, call: ([value]) => datePart(value, 'year') },
+    MONTH: { minArgs: 1, maxArgs: 1, call: ([value]) => datePart(value, 'month') },
+    DAY:   { minArgs: 1, maxArgs: 1, call: ([value]) => datePart(value, 'day') },
+    UPPER: { minArgs: 1, maxArgs: 1, call: ([value]) => (value == null ? null : String(value).toUpperCase()) },
+    LOWER: { minArgs: 1, maxArgs: 1, call: ([value]) => (value == null ? null : String(value).toLowerCase()) },
+    LEN:   { minArgs: 1, maxArgs: 1, call: ([value]) => (value == null ? null : String(value).length) },
+    CONCAT: {
+        minArgs: 1, maxArgs: Infinity,
+        call: (args) => args.map(v => (v == null ? '' : String(v))).join(''),
+    },
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+
+// ============================================================================
+// Parser - each node compiles straight to a closure over the row
+// ============================================================================
+
+type Evaluator = (row: unknown[]) => unknown;
+
+class Parser {
+    private readonly tokens: Token[];
+    private readonly columns: string[];
+    private index = 0;
+    readonly referenced = new Set<string>();
+
+    constructor(tokens: Token[], columns: string[]) {
+        this.tokens = tokens;
+        this.columns = columns;
+    }
+
+    parse(): Evaluator {
+        const evaluator = this.parseOr();
+        const token = this.peek();
+        if (token.type !== 'end') {
+            throw new ExpressionError(`Unexpected '${token.value}'`, token.position);
+        }
+        return evaluator;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private isKeyword(keyword: string): boolean {
+        const token = this.peek();
+        return token.type === 'identifier' && token.value.toUpperCase() === keyword;
+    }
+
+    private expect(type: TokenType, value: string): void {
+        const token = this.next();
+        if (token.type !== type || token.value !== value) {
+            throw new ExpressionError(`Expected '${value}'`, token.position);
+        }
+    }
+
+    private parseOr(): Evaluator {
+        let left = this.parseAnd();
+        while (this.isKeyword('OR')) {
+            this.next();
+            const lhs = left;
+            const rhs = this.parseAnd();
+            left = (row) => isTruthy(lhs(row)) || isTruthy(rhs(row));
+        }
+        return left;
+    }
+
+    private parseAnd(): Evaluator {
+        let left = this.parseNot();
+        while (this.isKeyword('AND')) {
+            this.next();
+            const lhs = left;
+            const rhs = this.parseNot();
+            left = (row) => isTruthy(lhs(row)) && isTruthy(rhs(row));
+        }
+        return left;
+    }
+
+    private parseNot(): Evaluator {
+        if (this.isKeyword('NOT')) {
+            this.next();
+            const operand = this.parseNot();
+            return (row) => !isTruthy(operand(row));
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): Evaluator {
+        const left = this.parseAdditive();
+        const token = this.peek();
+        if (token.type !== 'operator' || !['=', '==', '!=', '<>', '<', '<=', '>', '>='].includes(token.value)) {
+            return left;
+        }
+
+        this.next();
+        const right = this.parseAdditive();
+        const test: (diff: number) => boolean = {
+            '=':  (d: number) => d === 0,
+            '==': (d: number) => d === 0,
+            '!=': (d: number) => d !== 0,
+            '<>': (d: number) => d !== 0,
+            '<':  (d: number) => d < 0,
+            '<=': (d: number) => d <= 0,
+            '>':  (d: number) => d > 0,
+            '>=': (d: number) => d >= 0,
+        }[token.value]!;
+
+        return (row) => {
+            const diff = compare(left(row), right(row));
+            return diff === null ? null : test(diff);
+        };
+    }
+
+    private parseAdditive(): Evaluator {
+        let left = this.parseMultiplicative();
+        while (this.peek().type === 'operator' && ['+', '-'].includes(this.peek().value)) {
+            const operator = this.next().value;
+            const lhs = left;
+            const rhs = this.parseMultiplicative();
+            left = (row) => {
+                const a = toNumber(lhs(row));
+                const b = toNumber(rhs(row));
+                if (a === null || b === null) return null;
+                return operator === '+' ? a + b : a - b;
+            };
+        }
+        return left;
+    }
+
+    private parseMultiplicative(): Evaluator {
+        let left = this.parseUnary();
+        while (this.peek().type === 'operator' && ['*', '/', '%'].includes(this.peek().value)) {
+            const operator = this.next().value;
+            const lhs = left;
+            const rhs = this.parseUnary();
+            left = (row) => {
+                const a = toNumber(lhs(row));
+                const b = toNumber(rhs(row));
+                if (a === null || b === null) return null;
+                if (operator === '*') return a * b;
+                // Dividing by zero leaves the cell empty
+                if (b === 0) return null;
+                return operator === '/' ? a / b : a % b;
+            };
+        }
+        return left;
+    }
+
+    private parseUnary(): Evaluator {
+        const token = this.peek();
+        if (token.type === 'operator' && (token.value === '-' || token.value === '+')) {
+            this.next();
+            const operand = this.parseUnary();
+            if (token.value === '+') return operand;
+            return (row) => {
+                const n = toNumber(operand(row));
+                return n === null ? null : -n;
+            };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): Evaluator {
+        const token = this.next();
+
+        switch (token.type) {
+            case 'number': {
+                const value = Number(token.value);
+                return () => value;
+            }
+            case 'string': {
+                const value = token.value;
+                return () => value;
+            }
+            case 'column':
+                return this.columnRef(token.value, token.position);
+            case 'paren': {
+                if (token.value !== '(') break;
+                const inner = this.parseOr();
+                this.expect('paren', ')');
+                return inner;
+            }
+            case 'identifier': {
+                const upper = token.value.toUpperCase();
+                if (this.peek().type === 'paren' && this.peek().value === '(') {
+                    return this.functionCall(upper, token.position);
+                }
+                if (upper === 'TRUE') return () => true;
+                if (upper === 'FALSE') return () => false;
+                if (upper === 'NULL') return () => null;
+                return this.columnRef(token.value, token.position);
+            }
+        }
+
+        if (token.type === 'end') throw new ExpressionError('Expression ends too early', token.position);
+        throw new ExpressionError(`Unexpected '${token.value}'`, token.position);
+    }
+
+    private functionCall(name: string, position: number): Evaluator {
+        const spec = FUNCTIONS[name];
+        if (!spec) throw new ExpressionError(`Unknown function ${name}`, position);
+
+        this.expect('paren', '(');
+        const args: Evaluator[] = [];
+        if (!(this.peek().type === 'paren' && this.peek().value === ')')) {
+            args.push(this.parseOr());
+            while (this.peek().type === 'comma') {
+                this.next();
+                args.push(this.parseOr());
+            }
+        }
+        this.expect('paren', ')');
+
+        if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+            throw new ExpressionError(`Wrong number of arguments for ${name}`, position);
+        }
+
+        return (row) => spec.call(args.map(arg => arg(row)));
+    }
+
+    private columnRef(name: string, position: number): Evaluator {
+        // Exact match first, then a unique case-insensitive one
+        let index = this.columns.indexOf(name);
+        if (index === -1) {
+            const matches = this.columns.filter(col => col.toLowerCase() === name.toLowerCase());
+            if (matches.length === 1) index = this.columns.indexOf(matches[0]);
+        }
+        if (index === -1) throw new ExpressionError(`Unknown column ${name}`, position);
+
+        this.referenced.add(this.columns[index]);
+        return (row) => row[index];
+    }
+}
+
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse `source` against the result's columns. Throws ExpressionError with
+ * the offending position when the expression is invalid.
+ */
+export function compileExpression(source: string, columns: string[]): CompiledExpression {
+    if (!source.trim()) throw new ExpressionError('Expression is empty', 0);
+    if (source.length > MAX_EXPRESSION_LENGTH) {
+        throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+    }
+
+    const parser = new Parser(tokenize(source), columns);
+    const evaluator = parser.parse();
+
+    return {
+        columns: Array.from(parser.referenced),
+        evaluate: (row) => {
+            const value = evaluator(row);
+            return typeof value === 'number' && !Number.isFinite(value) ? null : value;
+        },
+    };
+}
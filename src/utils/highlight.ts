@@ -0,0 +1,42 @@
+/**
+ * Search Highlighting
+ *
+ * Splits text into matched and unmatched segments so components can wrap
+ * matches in <mark> without injecting HTML.
+ */
+
+export interface HighlightSegment {
+    text: string;
+    isMatch: boolean;
+}
+
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+
+/**
+ * Split text on every occurrence of any whitespace-separated term in the query.
+ * Matching is case-insensitive; longer terms win when terms overlap.
+ */
+export function highlightTerms(text: string, query: string): HighlightSegment[] {
+    const terms = query
+        .split(/\s+/)
+        .map(term => term.replace(/^"|"$/g, ''))
+        .filter(term => term.length > 0)
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp);
+
+    if (terms.length === 0 || !text) {
+        return [{ text, isMatch: false }];
+    }
+
+    const pattern = new RegExp(`(${terms.join('|')})`, 'gi');
+
+    // split() with a capture group puts matches at the odd indexes
+    return text
+        .split(pattern)
+        .map((part, index) => ({ text: part, isMatch: index % 2 === 1 }))
+        .filter(segment => segment.text.length > 0);
+}
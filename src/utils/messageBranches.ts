@@ -0,0 +1,39 @@
+/**
+ * Message Branches
+ *
+ * Regenerating or editing a message adds a sibling version of that turn
+ * instead of replacing it. These helpers read a message's position among
+ * its versions; the tree itself lives on the backend.
+ */
+
+import type { DisplayMessage } from '../types/chat';
+
+export interface MessageVersion {
+    index: number;      // Zero-based position of this message among its versions
+    count: number;
+    ids: number[];      // Server IDs of every version, oldest first
+}
+
+
+/**
+ * Server IDs of every version of this turn, including the message itself.
+ * Returns undefined for messages that haven't been persisted yet.
+ */
+export function getVersionIds(message: DisplayMessage): number[] | undefined {
+    if (message.siblingIds && message.siblingIds.length > 0) return message.siblingIds;
+    return message.serverId !== undefined ? [message.serverId] : undefined;
+}
+
+
+/**
+ * Position of a message among its versions, or null when the turn has only one
+ */
+export function getMessageVersion(message: DisplayMessage): MessageVersion | null {
+    const ids = message.siblingIds;
+    if (!ids || ids.length < 2 || message.serverId === undefined) return null;
+
+    const index = ids.indexOf(message.serverId);
+    if (index === -1) return null;
+
+    return { index, count: ids.length, ids };
+}
@@ -0,0 +1,146 @@
+/**
+ * Model Pricing
+ *
+ * Estimated USD cost of token usage per model. Prices are per million tokens
+ * and only meant for rough cost awareness - the provider invoice is authoritative.
+ */
+
+import type { TokenUsage } from '../types/usage';
+
+export interface ModelPrice {
+    input: number;      // USD per 1M input tokens
+    output: number;     // USD per 1M output tokens (thinking tokens are billed at this rate)
+}
+
+/**
+ * Prices keyed by model ID prefix. The longest matching prefix wins, so
+ * "gpt-4o-mini" is matched before "gpt-4o".
+ */
+const MODEL_PRICES: Record<string, ModelPrice> = {
+    // Anthropic
+    'claude-opus-4-5':   { input: 5,    output: 25 },
+    'claude-opus-4':     { input: 15,   output: 75 },
+    'claude-3-opus':     { input: 15,   output: 75 },
+    'claude-sonnet-4':   { input: 3,    output: 15 },
+    'claude-3-7-sonnet': { input: 3,    output: 15 },
+    'claude-haiku-4-5':  { input: 1,    output: 5 },
+    'claude-3-5-haiku':  { input: 0.8,  output: 4 },
+
+    // OpenAI
+    'gpt-5':             { input: 1.25, output: 10 },
+    'gpt-5-mini':        { input: 0.25, output: 2 },
+    'gpt-5-nano':        { input: 0.05, output: 0.4 },
+    'gpt-4.1':           { input: 2,    output: 8 },
+    'gpt-4.1-mini':      { input: 0.4,  output: 1.6 },
+    'gpt-4o':            { input: 2.5,  output: 10 },
+    'gpt-4o-mini':       { input: 0.15, output: 0.6 },
+    'gpt-4':             { input: 30,   output: 60 },
+    'gpt-3.5-turbo':     { input: 0.5,  output: 1.5 },
+    'o3':                { input: 2,    output: 8 },
+    'o4-mini':           { input: 1.1,  output: 4.4 },
+};
+
+const PRICE_PREFIXES = Object.keys(MODEL_PRICES).sort((a, b) => b.length - a.length);
+
+// OpenAI counts reasoning tokens inside output_tokens; Anthropic reports thinking on its own
+const THINKING_IN_OUTPUT_PREFIXES = ['gpt-', 'o1', 'o3', 'o4'];
+
+
+/**
+ * Look up the price for a model ID. Returns null for unknown models.
+ */
+export function getModelPrice(model: string | undefined | null): ModelPrice | null {
+    if (!model) return null;
+    const prefix = PRICE_PREFIXES.find(p => model.startsWith(p));
+    return prefix ? MODEL_PRICES[prefix] : null;
+}
+
+
+/**
+ * Usage with output_tokens excluding thinking, whichever way the provider
+ * reported it, so thinking is never counted twice
+ */
+export function normalizeUsage(model: string | undefined | null, usage: TokenUsage): TokenUsage {
+    const thinking = usage.thinking_tokens ?? 0;
+    if (!model || !thinking || !THINKING_IN_OUTPUT_PREFIXES.some(p => model.startsWith(p))) {
+        return usage;
+    }
+    return { ...usage, output_tokens: Math.max(0, usage.output_tokens - thinking) };
+}
+
+
+/**
+ * Estimate the USD cost of token usage. Returns null if the model is unpriced.
+ */
+export function estimateCost(model: string | undefined | null, usage: TokenUsage): number | null {
+    const price = getModelPrice(model);
+    if (!price) return null;
+
+    const normalized = normalizeUsage(model, usage);
+    const outputTokens = normalized.output_tokens + (normalized.thinking_tokens ?? 0);
+    return (normalized.input_tokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+
+/**
+ * Add token usage together
+ */
+export function sumUsage(usages: TokenUsage[]): TokenUsage {
+    return usages.reduce<TokenUsage>((total, usage) => ({
+        input_tokens:    total.input_tokens + usage.input_tokens,
+        output_tokens:   total.output_tokens + usage.output_tokens,
+        thinking_tokens: (total.thinking_tokens ?? 0) + (usage.thinking_tokens ?? 0),
+    }), { input_tokens: 0, output_tokens: 0, thinking_tokens: 0 });
+}
+
+
+/**
+ * Total tokens across input, output and thinking. Pass normalized usage
+ * (see normalizeUsage) so reasoning isn't counted twice.
+ */
+export function getTotalTokens(usage: TokenUsage): number {
+    return usage.input_tokens + usage.output_tokens + (usage.thinking_tokens ?? 0);
+}
+
+
+/**
+ * Compact token count
+ * 950 → "950", 12400 → "12.4K", 2100000 → "2.1M"
+ */
+export function formatTokenCount(tokens: number): string {
+    if (tokens >= 1_000_000) {
+        return (tokens / 1_000_000).toFixed(1).replace(/\.0$/, '') + 'M';
+    }
+    if (tokens >= 1_000) {
+        return (tokens / 1_000).toFixed(1).replace(/\.0$/, '') + 'K';
+    }
+    return tokens.toString();
+}
+
+
+/**
+ * Format an estimated cost, keeping sub-cent amounts visible
+ * 0.0042 → "$0.0042", 1.5 → "$1.50"
+ */
+export function formatCost(cost: number): string {
+    if (cost > 0 && cost < 0.01) {
+        return `$${cost.toFixed(4)}`;
+    }
+    return `$${cost.toFixed(2)}`;
+}
+
+
+/**
+ * Multi-line breakdown for tooltips
+ */
+export function describeUsage(usage: TokenUsage, cost: number | null): string {
+    const lines = [
+        `Input: ${usage.input_tokens.toLocaleString()} tokens`,
+        `Output: ${usage.output_tokens.toLocaleString()} tokens`,
+    ];
+    if (usage.thinking_tokens) {
+        lines.push(`Thinking: ${usage.thinking_tokens.toLocaleString()} tokens`);
+    }
+    lines.push(cost !== null ? `Estimated cost: ${formatCost(cost)}` : 'Estimated cost: unknown model');
+    return lines.join('\n');
+}
@@ -0,0 +1,192 @@
+/**
+ * Pivot
+ *
+ * Group-by and aggregation over a loaded DataResult. Output rows are one per
+ * combination of the row keys; each distinct combination of the column keys
+ * spreads the values across its own output columns. Runs inside the data
+ * worker for large results, so it must stay free of DOM and React imports.
+ */
+
+import type { DataResult, PivotAggregation, PivotConfig, PivotValue } from '../types/data';
+import { formatColumnName } from './formatters';
+
+export const PIVOT_AGGREGATIONS: { value: PivotAggregation; label: string }[] = [
+    { value: 'sum',      label: 'Sum' },
+    { value: 'avg',      label: 'Average' },
+    { value: 'count',    label: 'Count' },
+    { value: 'min',      label: 'Min' },
+    { value: 'max',      label: 'Max' },
+    { value: 'distinct', label: 'Distinct count' },
+];
+
+const AGGREGATION_LABELS = Object.fromEntries(
+    PIVOT_AGGREGATIONS.map(({ value, label }) => [value, label])
+) as Record<PivotAggregation, string>;
+
+// Joins key parts - a character that won't appear in real values
+const KEY_SEPARATOR = '\u001f';
+
+interface Accumulator {
+    sum: number;
+    numericCount: number;
+    count: number;
+    min: number;
+    max: number;
+    distinct: Set<string> | null;          // Only allocated for distinct counts
+}
+
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createAccumulator(aggregation: PivotAggregation): Accumulator {
+    return {
+        sum: 0,
+        numericCount: 0,
+        count: 0,
+        min: Infinity,
+        max: -Infinity,
+        distinct: aggregation === 'distinct' ? new Set() : null,
+    };
+}
+
+
+function accumulate(acc: Accumulator, value: unknown): void {
+    if (value === null || value === undefined || value === '') return;
+
+    acc.count++;
+    acc.distinct?.add(String(value));
+
+    const num = typeof value === 'number' ? value : Number(value);
+    if (Number.isFinite(num)) {
+        acc.sum += num;
+        acc.numericCount++;
+        if (num < acc.min) acc.min = num;
+        if (num > acc.max) acc.max = num;
+    }
+}
+
+
+function finish(acc: Accumulator, aggregation: PivotAggregation): number | null {
+    switch (aggregation) {
+        case 'count':    return acc.count;
+        case 'distinct': return acc.distinct?.size ?? 0;
+        case 'sum':      return acc.numericCount ? acc.sum : null;
+        case 'avg':      return acc.numericCount ? acc.sum / acc.numericCount : null;
+        case 'min':      return acc.numericCount ? acc.min : null;
+        case 'max':      return acc.numericCount ? acc.max : null;
+    }
+}
+
+
+function compareKeyParts(a: unknown[], b: unknown[]): number {
+    for (let i = 0; i < a.length; i++) {
+        const left = a[i];
+        const right = b[i];
+        const diff = typeof left === 'number' && typeof right === 'number'
+            ? left - right
+            : String(left ?? '').localeCompare(String(right ?? ''), undefined, { numeric: true });
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Output column name for a value, e.g. "Sum of Pieces Processed"
+ */
+export function getPivotValueLabel(value: PivotValue): string {
+    if (!value.column) return 'Count';
+    return `${AGGREGATION_LABELS[value.aggregation]} of ${formatColumnName(value.column)}`;
+}
+
+
+/**
+ * True when the pivot would change the result - an empty config shows raw rows
+ */
+export function isPivotActive(config: PivotConfig | null | undefined): config is PivotConfig {
+    return !!config && (config.rows.length > 0 || config.columns.length > 0);
+}
+
+
+/**
+ * Group `result.rows` by the config's row and column keys and aggregate its values.
+ * Columns missing from the result are ignored so a saved pivot survives schema changes.
+ */
+export function computePivot(result: DataResult, config: PivotConfig): DataResult {
+    const indexOf = (col: string) => result.columns.indexOf(col);
+
+    const rowCols = config.rows.filter(col => indexOf(col) !== -1);
+    const colCols = config.columns.filter(col => indexOf(col) !== -1);
+    const rowIdx = rowCols.map(indexOf);
+    const colIdx = colCols.map(indexOf);
+
+    // Without values, count the rows in each group
+    const values: PivotValue[] = config.values.filter(v => !v.column || indexOf(v.column) !== -1);
+    if (values.length === 0) values.push({ column: null, aggregation: 'count' });
+    const valueIdx = values.map(v => (v.column ? indexOf(v.column) : -1));
+
+    const groups = new Map<string, { keyParts: unknown[]; cells: Map<string, Accumulator[]> }>();
+    const columnKeys = new Map<string, unknown[]>();
+
+    for (const row of result.rows) {
+        const keyParts = rowIdx.map(i => row[i]);
+        const rowKey = keyParts.map(v => String(v ?? '')).join(KEY_SEPARATOR);
+        const colParts = colIdx.map(i => row[i]);
+        const colKey = colParts.map(v => String(v ?? '')).join(KEY_SEPARATOR);
+
+        let group = groups.get(rowKey);
+        if (!group) {
+            group = { keyParts, cells: new Map() };
+            groups.set(rowKey, group);
+        }
+        if (!columnKeys.has(colKey)) columnKeys.set(colKey, colParts);
+
+        let cell = group.cells.get(colKey);
+        if (!cell) {
+            cell = values.map(v => createAccumulator(v.aggregation));
+            group.cells.set(colKey, cell);
+        }
+
+        for (let v = 0; v < values.length; v++) {
+            // A row count counts rows, not non-empty values
+            accumulate(cell[v], valueIdx[v] === -1 ? 1 : row[valueIdx[v]]);
+        }
+    }
+
+    const sortedColumnKeys = Array.from(columnKeys.entries())
+        .sort(([, a], [, b]) => compareKeyParts(a, b));
+    const valueLabels = values.map(getPivotValueLabel);
+
+    const outputColumns = [...rowCols];
+    for (const [, parts] of sortedColumnKeys) {
+        const spread = parts.map(p => String(p ?? '(blank)')).join(' / ');
+        for (const label of valueLabels) {
+            if (!colCols.length) outputColumns.push(label);
+            else outputColumns.push(values.length === 1 ? spread : `${spread} · ${label}`);
+        }
+    }
+
+    const outputRows = Array.from(groups.values())
+        .sort((a, b) => compareKeyParts(a.keyParts, b.keyParts))
+        .map(({ keyParts, cells }) => {
+            const row: unknown[] = [...keyParts];
+            for (const [colKey] of sortedColumnKeys) {
+                const cell = cells.get(colKey);
+                values.forEach((v, i) => row.push(cell ? finish(cell[i], v.aggregation) : null));
+            }
+            return row;
+        });
+
+    return {
+        ...result,
+        columns: outputColumns,
+        rows: outputRows,
+        row_count: outputRows.length,
+    };
+}
@@ -0,0 +1,129 @@
+/**
+ * Prompt Templates
+ *
+ * Variable handling and JSON import/export for saved prompts.
+ * Placeholders are written {{name}} or {{name:type}}, where type is one of
+ * string (default), number, date or text. A variable used more than once is
+ * filled once.
+ */
+
+import type { PromptTemplate, PromptTemplateData, PromptTemplateExport } from '../types/promptTemplate';
+
+export type TemplateVariableType = 'string' | 'number' | 'date' | 'text';
+
+export interface TemplateVariable {
+    name: string;
+    type: TemplateVariableType;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w -]*?)\s*(?::\s*(string|number|date|text)\s*)?\}\}/g;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_BODY_LENGTH = 20000;
+
+
+/**
+ * Unique variables in order of first appearance. The first typed use of a
+ * variable decides its type.
+ */
+export function extractTemplateVariables(body: string): TemplateVariable[] {
+    const variables = new Map<string, TemplateVariable>();
+
+    for (const match of body.matchAll(VARIABLE_PATTERN)) {
+        const name = match[1].trim();
+        const type = match[2] as TemplateVariableType | undefined;
+        const existing = variables.get(name);
+
+        if (!existing) {
+            variables.set(name, { name, type: type ?? 'string' });
+        } else if (type && existing.type === 'string') {
+            existing.type = type;
+        }
+    }
+
+    return [...variables.values()];
+}
+
+
+/**
+ * Replace every placeholder with its value. Missing values become empty.
+ */
+export function fillTemplate(body: string, values: Record<string, string>): string {
+    return body.replace(VARIABLE_PATTERN, (_, name: string) => values[name.trim()] ?? '');
+}
+
+
+/**
+ * Slash command name for a template: "Weekly OT Summary" -> "weekly-ot-summary"
+ */
+export function templateCommand(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+
+// Import / export
+
+export function buildTemplateExport(templates: PromptTemplate[]): PromptTemplateExport {
+    return {
+        version: 1,
+        exported_at: new Date().toISOString(),
+        templates: templates.map(({ name, description, body }) => ({ name, description, body })),
+    };
+}
+
+
+/**
+ * Validate an exported file's contents. Accepts the export envelope or a bare
+ * array of templates. Throws with a readable message on the first problem.
+ */
+export function parseTemplateExport(json: string): PromptTemplateData[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('File is not valid JSON');
+    }
+
+    const list = Array.isArray(data)
+        ? data
+        : (data as Partial<PromptTemplateExport> | null)?.templates;
+
+    if (!Array.isArray(list)) {
+        throw new Error('File does not contain a list of templates');
+    }
+    if (list.length === 0) {
+        throw new Error('File contains no templates');
+    }
+
+    return list.map((item: unknown, i) => {
+        const entry = (item ?? {}) as Record<string, unknown>;
+        const label = `Template ${i + 1}`;
+
+        if (typeof entry.name !== 'string' || !entry.name.trim()) {
+            throw new Error(`${label} has no name`);
+        }
+        if (entry.name.length > MAX_NAME_LENGTH) {
+            throw new Error(`${label} name is longer than ${MAX_NAME_LENGTH} characters`);
+        }
+        if (typeof entry.body !== 'string' || !entry.body.trim()) {
+            throw new Error(`${label} ("${entry.name}") has no body`);
+        }
+        if (entry.body.length > MAX_BODY_LENGTH) {
+            throw new Error(`${label} ("${entry.name}") body is longer than ${MAX_BODY_LENGTH} characters`);
+        }
+        if (entry.description !== undefined && entry.description !== null && typeof entry.description !== 'string') {
+            throw new Error(`${label} ("${entry.name}") has an invalid description`);
+        }
+
+        return {
+            name: entry.name.trim(),
+            description: typeof entry.description === 'string' && entry.description.trim()
+                ? entry.description.trim()
+                : null,
+            body: entry.body,
+        };
+    });
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseSseMessage } from './sse';
+
+
+describe('parseSseMessage', () => {
+    it('reads the id, data and retry fields', () => {
+        expect(parseSseMessage('id: 42\ndata: {"type":"text"}\nretry: 3000')).toEqual({
+            id: '42',
+            data: '{"type":"text"}',
+            retry: 3000,
+        });
+    });
+
+    it('leaves missing fields null', () => {
+        expect(parseSseMessage('data: hello')).toEqual({ id: null, data: 'hello', retry: null });
+        expect(parseSseMessage('')).toEqual({ id: null, data: null, retry: null });
+    });
+
+    it('joins multiple data lines with newlines', () => {
+        expect(parseSseMessage('data: first\ndata: second\ndata:').data).toBe('first\nsecond\n');
+    });
+
+    it('strips exactly one space after the colon', () => {
+        expect(parseSseMessage('data:no space').data).toBe('no space');
+        expect(parseSseMessage('data:  indented').data).toBe(' indented');
+    });
+
+    it('keeps colons inside the value', () => {
+        expect(parseSseMessage('data: {"a":1,"b":"c:d"}').data).toBe('{"a":1,"b":"c:d"}');
+    });
+
+    it('treats a line without a colon as a field with an empty value', () => {
+        expect(parseSseMessage('data').data).toBe('');
+        expect(parseSseMessage('id').id).toBe('');
+    });
+
+    it('skips comments and unknown fields', () => {
+        expect(parseSseMessage(': keep-alive\nevent: message\ndata: payload')).toEqual({
+            id: null,
+            data: 'payload',
+            retry: null,
+        });
+        expect(parseSseMessage(': keep-alive').data).toBeNull();
+    });
+
+    it('ignores a retry that is not a number', () => {
+        expect(parseSseMessage('retry: soon').retry).toBeNull();
+    });
+
+    it('uses the last id when one is repeated', () => {
+        expect(parseSseMessage('id: 1\nid: 2').id).toBe('2');
+    });
+});
@@ -0,0 +1,45 @@
+/**
+ * Server-Sent Events parsing
+ * Shared by the chat stream (useApi) and the realtime event channel
+ */
+
+
+/**
+ * A single parsed SSE event block
+ */
+export interface SseMessage {
+    id: string | null;
+    data: string | null;
+    retry: number | null;
+}
+
+/**
+ * Parse one SSE event block ("id:", "data:", "retry:" lines).
+ * Multiple data lines are joined with newlines per the SSE spec.
+ */
+export function parseSseMessage(eventStr: string): SseMessage {
+    const message: SseMessage = { id: null, data: null, retry: null };
+    const dataLines: string[] = [];
+
+    for (const line of eventStr.split("\n")) {
+        if (!line || line.startsWith(":")) continue;
+
+        const colonIndex = line.indexOf(":");
+        const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+        const value = colonIndex === -1 ? "" : line.slice(colonIndex + 1).replace(/^ /, "");
+
+        if (field === "data") {
+            dataLines.push(value);
+        } else if (field === "id") {
+            message.id = value;
+        } else if (field === "retry") {
+            const retry = parseInt(value, 10);
+            if (!isNaN(retry)) message.retry = retry;
+        }
+    }
+
+    if (dataLines.length > 0) {
+        message.data = dataLines.join("\n");
+    }
+    return message;
+}
@@ -0,0 +1,114 @@
+/**
+ * Tool Result Parsing
+ *
+ * Classifies the raw result string of a tool call so ToolCallBlock can pick
+ * the best view: a table for record sets, pretty JSON, or plain text.
+ */
+
+import type { DataResult } from '../types/data';
+
+export type ParsedToolResult =
+    | { kind: 'records'; table: Pick<DataResult, 'columns' | 'rows'>; json: string }
+    | { kind: 'json'; json: string }
+    | { kind: 'text'; text: string };
+
+// Keys that commonly wrap a record set, e.g. { "rows": [...] }
+const RECORD_WRAPPER_KEYS = ['rows', 'records', 'data', 'results', 'items'];
+
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+
+function isRecordArray(value: unknown): value is Record<string, unknown>[] {
+    return Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+}
+
+
+/**
+ * Nested objects and arrays are flattened to JSON so every cell is a scalar
+ */
+function toCellValue(value: unknown): unknown {
+    if (value !== null && typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return value;
+}
+
+
+/**
+ * Build a columns/rows table from an array of records.
+ * Columns are ordered by first appearance across all records.
+ */
+function recordsToTable(records: Record<string, unknown>[]): Pick<DataResult, 'columns' | 'rows'> {
+    const columns: string[] = [];
+    const seen = new Set<string>();
+
+    for (const record of records) {
+        for (const key of Object.keys(record)) {
+            if (!seen.has(key)) {
+                seen.add(key);
+                columns.push(key);
+            }
+        }
+    }
+
+    const rows = records.map(record => columns.map(col => toCellValue(record[col] ?? null)));
+    return { columns, rows };
+}
+
+
+/**
+ * Find a record set in a parsed result: a bare array of records,
+ * a { columns, rows } table, or a single well-known wrapper key.
+ */
+function findTable(parsed: unknown): Pick<DataResult, 'columns' | 'rows'> | null {
+    if (isRecordArray(parsed)) {
+        return recordsToTable(parsed);
+    }
+
+    if (!isPlainObject(parsed)) return null;
+
+    const { columns, rows } = parsed;
+    if (
+        Array.isArray(columns) && columns.every(c => typeof c === 'string') &&
+        Array.isArray(rows) && rows.length > 0 && rows.every(Array.isArray)
+    ) {
+        return {
+            columns: columns as string[],
+            rows: (rows as unknown[][]).map(row => row.map(toCellValue)),
+        };
+    }
+
+    for (const key of RECORD_WRAPPER_KEYS) {
+        if (isRecordArray(parsed[key])) {
+            return recordsToTable(parsed[key]);
+        }
+    }
+
+    return null;
+}
+
+
+/**
+ * Parse a tool result string into the richest view it supports
+ */
+export function parseToolResult(result: string): ParsedToolResult {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(result);
+    } catch {
+        return { kind: 'text', text: result };
+    }
+
+    // JSON.parse accepts bare strings and numbers - those read better as text
+    if (parsed === null || typeof parsed !== 'object') {
+        return { kind: 'text', text: result };
+    }
+
+    const json = JSON.stringify(parsed, null, 2);
+    const table = findTable(parsed);
+
+    return table ? { kind: 'records', table, json } : { kind: 'json', json };
+}
@@ -0,0 +1,42 @@
+/**
+ * Data Tasks - Transforms the data worker runs
+ *
+ * Kept apart from the worker entry so the client can run the same code on
+ * the main thread when workers are unavailable.
+ */
+
+import { buildDataView, type DataViewInput, type DataViewOutput } from '../utils/dataView';
+import { sortRowOrder, summarizeColumns, type SortOrder, type TableSummaries } from '../utils/dataTable';
+import type { DataResult } from '../types/data';
+
+export type DataWorkerTask =
+    | ({ type: 'view' } & DataViewInput)
+    | { type: 'sort'; values: unknown[]; order: SortOrder }                 // One column's values
+    | { type: 'summarize'; result: Pick<DataResult, 'columns' | 'rows'> };
+
+/** What each task type resolves to */
+export interface DataTaskOutputs {
+    view: DataViewOutput;
+    sort: number[];                        // Row indices in sorted order
+    summarize: TableSummaries;
+}
+
+export type DataTaskOutput = DataTaskOutputs[DataWorkerTask['type']];
+
+export type DataWorkerRequest = DataWorkerTask & { id: number };
+
+export type DataWorkerResponse =
+    | { id: number; output: DataTaskOutput }
+    | { id: number; error: string };
+
+
+export function runDataTask(task: DataWorkerTask): DataTaskOutput {
+    switch (task.type) {
+        case 'view':
+            return buildDataView(task);
+        case 'sort':
+            return sortRowOrder(task.values, task.order);
+        case 'summarize':
+            return summarizeColumns(task.result);
+    }
+}
@@ -0,0 +1,21 @@
+/**
+ * Data Worker - Heavy DataResult transforms off the main thread
+ *
+ * Each request carries an id; the response echoes it with either the
+ * task's output or an error message. See dataWorkerClient for the caller.
+ */
+
+import { runDataTask, type DataWorkerRequest, type DataWorkerResponse } from './dataTasks';
+
+self.addEventListener('message', (event: MessageEvent<DataWorkerRequest>) => {
+    const { id, ...task } = event.data;
+    let response: DataWorkerResponse;
+
+    try {
+        response = { id, output: runDataTask(task) };
+    } catch (error) {
+        response = { id, error: error instanceof Error ? error.message : 'Data worker task failed' };
+    }
+
+    self.postMessage(response);
+});
@@ -0,0 +1,88 @@
+/**
+ * Data Worker Client - Promise API over the shared data worker
+ *
+ * One worker is started on first use and shared by every caller. Without
+ * Worker support (or if it fails to start) tasks run on the main thread.
+ */
+
+import {
+    runDataTask,
+    type DataTaskOutput,
+    type DataTaskOutputs,
+    type DataWorkerTask,
+    type DataWorkerResponse,
+} from './dataTasks';
+
+interface PendingTask {
+    resolve: (output: DataTaskOutput) => void;
+    reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextTaskId = 1;
+const pending = new Map<number, PendingTask>();
+
+
+function getWorker(): Worker | null {
+    if (worker || workerFailed) return worker;
+    if (typeof Worker === 'undefined') {
+        workerFailed = true;
+        return null;
+    }
+
+    try {
+        worker = new Worker(new URL('./dataWorker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+        console.error('[DataWorker] Failed to start, running on the main thread:', error);
+        workerFailed = true;
+        return null;
+    }
+
+    worker.addEventListener('message', (event: MessageEvent<DataWorkerResponse>) => {
+        const response = event.data;
+        const task = pending.get(response.id);
+        if (!task) return;
+
+        pending.delete(response.id);
+        if ('error' in response) {
+            task.reject(new Error(response.error));
+        } else {
+            task.resolve(response.output);
+        }
+    });
+
+    // A crashed worker fails everything in flight; the next task starts a fresh one
+    worker.addEventListener('error', (event) => {
+        console.error('[DataWorker] Worker error:', event.message);
+        pending.forEach(task => task.reject(new Error(event.message || 'Data worker crashed')));
+        pending.clear();
+        worker?.terminate();
+        worker = null;
+    });
+
+    return worker;
+}
+
+
+/**
+ * Run a transform in the data worker
+ */
+export function runInDataWorker<T extends DataWorkerTask>(task: T): Promise<DataTaskOutputs[T['type']]> {
+    const activeWorker = getWorker();
+
+    // runDataTask answers each task type with its own output type
+    if (!activeWorker) {
+        try {
+            return Promise.resolve(runDataTask(task) as DataTaskOutputs[T['type']]);
+        } catch (error) {
+            return Promise.reject(error);
+        }
+    }
+
+    const id = nextTaskId++;
+    return new Promise<DataTaskOutput>((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        activeWorker.postMessage({ ...task, id });
+    }) as Promise<DataTaskOutputs[T['type']]>;
+}